@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from "react";
 import LoginPage from "./components/LoginPage";
 import DashboardPage from "./components/DashboardPage";
 import ExamPage from "./components/ExamPage";
+import PracticePage from "./components/PracticePage";
 import AdminLoginPage from "./components/admin/AdminLoginPage";
 import { AdminDashboardPage } from "./components/admin/AdminDashboardPage";
 import {
@@ -10,14 +11,22 @@ import {
   AdminCredentials,
   ImageTask,
   ActiveExamSession,
+  CompletionToOverride,
+  ExamClock,
   ExamResult,
+  AnnotatorSignInStatus,
 } from "./types";
-import { supabase } from "./utils/supabase/client";
+import { supabase, setAnnotatorSessionToken } from "./utils/supabase/client";
 import type { Session, User } from "@supabase/supabase-js";
 import { formatSupabaseError } from "./utils/errorUtils";
 import { ToastProvider, useToast } from "./contexts/ToastContext";
 import ToastContainer from "./components/common/ToastContainer";
-import { EXAM_DURATION_SECONDS, EXAMS_DATA } from "./constants";
+import {
+  ExamCatalogProvider,
+  useExamCatalog,
+} from "./contexts/ExamCatalogContext";
+import { SitesProvider } from "./contexts/SitesContext";
+import { getExamSettings, toExamClock } from "./utils/examUtils";
 
 const AppContent: React.FC = () => {
   const [currentScreen, setCurrentScreen] = useState<AppScreen>("USER_LOGIN");
@@ -28,11 +37,16 @@ const AppContent: React.FC = () => {
 
   const [activeExamSession, setActiveExamSession] =
     useState<ActiveExamSession | null>(null);
+  const [practiceExam, setPracticeExam] = useState<Exam | null>(null);
+  // A running attempt found on the server, waiting for the exam catalog to
+  // be turned into a session
+  const [pendingServerSession, setPendingServerSession] = useState<any>(null);
 
   const [adminUser, setAdminUser] = useState<User | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [isSessionLoaded, setIsSessionLoaded] = useState<boolean>(false);
   const { addToast } = useToast();
+  const { exams, isLoading: isCatalogLoading, getExam } = useExamCatalog();
 
   useEffect(() => {
     const handleContextmenu = (e: MouseEvent) => {
@@ -78,33 +92,125 @@ const AppContent: React.FC = () => {
     }
   };
 
-  // Effect to load user and session from sessionStorage on initial mount
+  // The signed-in annotator's running attempt, wherever it was started. Failing
+  // to look it up only means the exam cannot be resumed here.
+  const fetchActiveServerSession = useCallback(async () => {
+    const { data, error } = await supabase.rpc("get_active_exam_session");
+    if (error) {
+      console.warn("Could not look up a running exam:", error.message);
+      return null;
+    }
+    return data && data.length > 0 ? data[0] : null;
+  }, []);
+
+  // Effect to restore the annotator's session on initial mount. Only the
+  // session token is kept in sessionStorage; who it belongs to is asked of the
+  // server, so editing storage cannot switch users.
   useEffect(() => {
-    try {
-      const savedUserId = sessionStorage.getItem("userId");
-      const savedAnnotatorDbId = sessionStorage.getItem("annotatorDbId");
-      if (savedUserId && savedAnnotatorDbId) {
-        setUserId(savedUserId);
-        setCurrentAnnotatorDbId(parseInt(savedAnnotatorDbId, 10));
+    const restoreSession = async () => {
+      try {
+        const savedToken = sessionStorage.getItem("annotatorSessionToken");
+        if (!savedToken) return;
+        setAnnotatorSessionToken(savedToken);
+
+        const { data, error } = await supabase.rpc("get_annotator_session");
+        if (error) throw error;
+        if (!data || data.length === 0) {
+          // Expired or signed out elsewhere
+          setAnnotatorSessionToken(null);
+          sessionStorage.clear();
+          return;
+        }
+        const { annotator_id, liftapp_user_id } = data[0];
+        setUserId(liftapp_user_id);
+        setCurrentAnnotatorDbId(annotator_id);
+
+        const savedSessionJSON = sessionStorage.getItem("activeExamSession");
+        if (savedSessionJSON) {
+          const session: ActiveExamSession = JSON.parse(savedSessionJSON);
+          // Sessions saved before the server timer existed have no attempt
+          // id, and those saved before multi-image exams have no image list.
+          if (
+            session.completionId &&
+            Array.isArray(session.assignedTasks) &&
+            session.annotatorDbId === annotator_id &&
+            session.sessionEndTime > Date.now() + session.serverClockOffsetMs
+          ) {
+            setActiveExamSession(session);
+          } else {
+            // Clean up expired session
+            sessionStorage.removeItem("activeExamSession");
+          }
+        }
+        if (!sessionStorage.getItem("activeExamSession")) {
+          setPendingServerSession(await fetchActiveServerSession());
+        }
+      } catch (e) {
+        console.error("Error restoring the annotator session", e);
+        setAnnotatorSessionToken(null);
+        sessionStorage.clear(); // Clear potentially corrupted storage
+      } finally {
+        setIsSessionLoaded(true);
       }
+    };
+    restoreSession();
+  }, [fetchActiveServerSession]);
 
-      const savedSessionJSON = sessionStorage.getItem("activeExamSession");
-      if (savedSessionJSON) {
-        const session: ActiveExamSession = JSON.parse(savedSessionJSON);
-        if (session.sessionEndTime > Date.now()) {
-          setActiveExamSession(session);
-        } else {
-          // Clean up expired session
-          sessionStorage.removeItem("activeExamSession");
+  // Rebuild a running attempt found on the server. Its drafts are restored by
+  // the exam page like any other.
+  useEffect(() => {
+    if (!pendingServerSession || isCatalogLoading) return;
+    const record = pendingServerSession;
+    setPendingServerSession(null);
+    const exam = exams.find((e) => e.dbId === record.exam_id);
+    if (!exam || !userId || !currentAnnotatorDbId || !record.images) return;
+    setActiveExamSession(
+      (prev) =>
+        prev ?? {
+          exam,
+          assignedTasks: record.images.map((image: any): ImageTask => ({
+            ...image,
+            dbImageId: image.id,
+          })),
+          completionId: record.completion_id,
+          annotatorDbId: currentAnnotatorDbId,
+          userId,
+          settings: getExamSettings(exam, userId),
+          completionToOverride: record.is_retake
+            ? {
+                completionId: record.completion_id,
+                oldImageIds: record.old_image_ids ?? [],
+                oldStatus: record.old_status,
+                oldDuration: record.old_duration_seconds,
+                oldCompletedAt: record.old_completed_at,
+                oldRetakeCount: record.old_retake_count,
+                oldEffectiveKeystrokes: record.old_effective_keystrokes,
+                oldTotalKeystrokes: record.old_total_keystrokes,
+              }
+            : null,
+          ...toExamClock(record.deadline_at, record.server_now),
         }
-      }
-    } catch (e) {
-      console.error("Error loading state from sessionStorage", e);
-      sessionStorage.clear(); // Clear potentially corrupted storage
-    } finally {
-      setIsSessionLoaded(true);
-    }
-  }, []);
+    );
+  }, [
+    pendingServerSession,
+    isCatalogLoading,
+    exams,
+    userId,
+    currentAnnotatorDbId,
+  ]);
+
+  // Keep the session's exam definition in step with the catalog, so a session
+  // restored from sessionStorage picks up the current column layout.
+  useEffect(() => {
+    if (isCatalogLoading) return;
+    setActiveExamSession((prev) => {
+      if (!prev) return prev;
+      const latestExam = getExam(prev.exam.id);
+      return latestExam && latestExam !== prev.exam
+        ? { ...prev, exam: latestExam }
+        : prev;
+    });
+  }, [isCatalogLoading, getExam]);
 
   // Effect to sync activeExamSession to sessionStorage
   useEffect(() => {
@@ -123,84 +229,30 @@ const AppContent: React.FC = () => {
   }, [activeExamSession]);
 
   /**
-   * Checks if an annotator has passed all available exams and sets their overall_completion_date if so.
-   * This is safe to call multiple times, as it exits early if a date is already set.
+   * Whether the annotator has an overall_completion_date, which the server sets
+   * once an attempt leaves every exam passed. Null when it could not be read.
    */
-  const checkAndSetOverallCompletionDate = useCallback(
-    async (annotatorId: number | null) => {
-      if (!annotatorId) return;
-
-      try {
-        const { data: annotatorData, error: annotatorError } = await supabase
-          .from("annotators")
-          .select("overall_completion_date")
-          .eq("id", annotatorId)
-          .single();
-
-        if (annotatorError && annotatorError.code !== "PGRST116") {
-          // Ignore "not found" error, just proceed
-          throw new Error(
-            `Could not fetch annotator status: ${annotatorError.message}`
-          );
-        }
-
-        // If date is already set, we don't need to do anything else.
-        if (annotatorData && annotatorData.overall_completion_date) {
-          return;
-        }
-
-        const { data: allExams, error: examsError } = await supabase
-          .from("exams")
-          .select("id");
-        if (examsError)
-          throw new Error(`Could not fetch exams: ${examsError.message}`);
-        if (!allExams) return;
-        const totalExamsCount = allExams.length;
-
-        const { data: userCompletions, error: completionsError } =
-          await supabase
-            .from("user_exam_completions")
-            .select("exam_id, score_percentage")
-            .eq("annotator_id", annotatorId)
-            .in("status", ["submitted", "timed_out"]);
+  const fetchIsOverallComplete = useCallback(
+    async (annotatorId: number | null): Promise<boolean | null> => {
+      if (!annotatorId) return null;
 
-        if (completionsError)
-          throw new Error(
-            `Could not fetch user completions: ${completionsError.message}`
-          );
-
-        const passedExamIds = new Set<number>();
-        (userCompletions || []).forEach((completion) => {
-          const score = completion.score_percentage || 0;
-          if (score >= 90) {
-            passedExamIds.add(completion.exam_id);
-          }
-        });
-
-        if (totalExamsCount > 0 && passedExamIds.size >= totalExamsCount) {
-          const { error: updateError } = await supabase
-            .from("annotators")
-            .update({ overall_completion_date: new Date().toISOString() })
-            .eq("id", annotatorId);
-
-          if (updateError)
-            throw new Error(
-              `Could not update overall completion date: ${updateError.message}`
-            );
+      const { data, error } = await supabase
+        .from("annotators")
+        .select("overall_completion_date")
+        .eq("id", annotatorId)
+        .single();
 
-          addToast({
-            type: "success",
-            message:
-              "🎉 Congratulations! You have passed all available exams. Your account is now fully complete.",
-            duration: 15000,
-          });
-        }
-      } catch (e: any) {
+      if (error) {
         // This is a background check, so a console warning is better than a user-facing toast.
-        console.warn("Could not check for overall exam completion:", e.message);
+        console.warn(
+          "Could not check for overall exam completion:",
+          error.message
+        );
+        return null;
       }
+      return !!data?.overall_completion_date;
     },
-    [addToast]
+    []
   );
 
   const handleSelectExam = useCallback(
@@ -219,6 +271,13 @@ const AppContent: React.FC = () => {
         });
         return;
       }
+      if (exam.columns.length === 0) {
+        addToast({
+          type: "error",
+          message: `The '${exam.name}' exam has no columns yet. Please contact an administrator.`,
+        });
+        return;
+      }
       setLoading(true);
       try {
         const { data: previousCompletionData, error: fetchError } =
@@ -238,77 +297,32 @@ const AppContent: React.FC = () => {
 
         const isRetake = !!previousCompletionData;
 
-        // Get a new image, excluding the one from the last attempt if this is a retake.
-        const excludedImageIds = isRetake
-          ? [previousCompletionData.assigned_image_id]
-          : [];
-        const { data: availableImages, error: findImageError } = await supabase
+        // An attempt covers several images, which the server picks. Practice
+        // images are never part of a scored attempt.
+        const { data: allExamImages, error: examImagesError } = await supabase
           .from("images")
-          .select("id, storage_path, original_filename, exam_id")
-          .eq("exam_id", exam.dbId)
-          .not("id", "in", `(${excludedImageIds.join(",") || "0"})`);
-
-        if (findImageError) throw findImageError;
-
-        let imageToAssign;
-        if (availableImages && availableImages.length > 0) {
-          imageToAssign =
-            availableImages[Math.floor(Math.random() * availableImages.length)];
-        } else {
-          const { data: fallbackData, error: fallbackError } = await supabase
-            .from("images")
-            .select("id, storage_path, original_filename, exam_id")
-            .eq("exam_id", exam.dbId);
-          if (fallbackError) throw fallbackError;
-          if (!fallbackData || fallbackData.length === 0)
-            throw new Error(
-              "Could not retrieve an assigned image. No images are configured for this exam."
-            );
-          imageToAssign =
-            fallbackData[Math.floor(Math.random() * fallbackData.length)];
-          addToast({
-            type: "warning",
-            message:
-              "No new images available. Re-assigning a previously attempted image.",
-          });
-        }
-        const assignedTask: ImageTask = {
-          ...imageToAssign,
-          dbImageId: imageToAssign.id,
-        };
+          .select("id, storage_path, original_filename, exam_id, is_practice")
+          .eq("exam_id", exam.dbId);
+        if (examImagesError) throw examImagesError;
+        const examImages = (allExamImages || []).filter(
+          (image) => !image.is_practice
+        );
+        if (examImages.length === 0)
+          throw new Error(
+            "Could not retrieve an assigned image. No images are configured for this exam."
+          );
+        const toImageTask = (image: any): ImageTask => ({
+          ...image,
+          dbImageId: image.id,
+        });
 
-        let session: ActiveExamSession;
+        // Duration and pass mark are fixed when the attempt starts, including
+        // any override for the annotator's cohort.
+        const settings = getExamSettings(exam, userId);
+        let completionId: number;
 
         if (isRetake) {
-          const newRetakeCount = (previousCompletionData.retake_count || 0) + 1;
-          addToast({
-            type: "info",
-            message: `Starting Retake #${newRetakeCount}. Good luck!`,
-          });
-
-          // Non-destructive session creation.
-          // DO NOT update the database record when a retake is merely *started*.
-          // The existing record remains as the "source of truth" for the last completed score
-          // until this retake attempt is finished via `handleExamFinish`.
-          session = {
-            exam,
-            assignedTask,
-            annotatorDbId: currentAnnotatorDbId,
-            userId,
-            sessionEndTime: Date.now() + EXAM_DURATION_SECONDS * 1000,
-            completionToOverride: {
-              completionId: previousCompletionData.id,
-              oldImageId: previousCompletionData.assigned_image_id,
-              oldStatus: previousCompletionData.status,
-              oldDuration: previousCompletionData.duration_seconds,
-              oldCompletedAt: previousCompletionData.completed_at,
-              oldRetakeCount: previousCompletionData.retake_count || 0,
-              oldEffectiveKeystrokes:
-                previousCompletionData.total_effective_keystrokes,
-              oldTotalKeystrokes:
-                previousCompletionData.total_answer_key_keystrokes,
-            },
-          };
+          completionId = previousCompletionData.id;
         } else {
           // First attempt: create the record via RPC
           const { data: rpcData, error: rpcError } = await supabase.rpc(
@@ -316,29 +330,121 @@ const AppContent: React.FC = () => {
             {
               p_annotator_id: currentAnnotatorDbId,
               p_exam_id: exam.dbId,
-              p_excluded_image_ids: [],
+              p_excluded_image_ids: (allExamImages || [])
+                .filter((image) => image.is_practice)
+                .map((image) => image.id),
             }
           );
           if (rpcError) throw rpcError;
           if (!rpcData || rpcData.length === 0)
             throw new Error("Could not create an exam session via RPC.");
 
-          // The RPC assigns the image, so we use its response
-          const rpcAssignedTask: ImageTask = {
-            dbImageId: rpcData[0].db_image_id,
-            ...rpcData[0],
-          };
-          session = {
-            exam,
-            assignedTask: rpcAssignedTask,
-            annotatorDbId: currentAnnotatorDbId,
-            userId,
-            sessionEndTime: Date.now() + EXAM_DURATION_SECONDS * 1000,
-            completionToOverride: null,
+          const { data: completion, error: completionError } = await supabase
+            .from("user_exam_completions")
+            .select("id")
+            .eq("annotator_id", currentAnnotatorDbId)
+            .eq("exam_id", exam.dbId)
+            .single();
+          if (completionError) throw completionError;
+          completionId = completion.id;
+        }
+
+        // The deadline comes from the database clock, and the server picks the
+        // images of a new attempt. A running attempt keeps both, so reloading
+        // the page does not restart the timer or change the images.
+        const { data: timerData, error: timerError } = await supabase.rpc(
+          "start_exam_timer",
+          { p_completion_id: completionId }
+        );
+        if (timerError) throw timerError;
+        if (!timerData || timerData.length === 0)
+          throw new Error("The server did not start the exam timer.");
+
+        const assignedImageIds: number[] = timerData[0].image_ids || [];
+        const assignedImages = examImages.filter((image) =>
+          assignedImageIds.includes(image.id)
+        );
+        if (
+          assignedImageIds.length === 0 ||
+          assignedImages.length !== assignedImageIds.length
+        )
+          throw new Error("Could not load the images of this exam attempt.");
+        const assignedTasks = assignedImageIds.map((imageId) =>
+          toImageTask(assignedImages.find((image) => image.id === imageId))
+        );
+
+        let completionToOverride: CompletionToOverride | null = null;
+        if (isRetake) {
+          // Read again now that the timer has started, as starting it closes
+          // an earlier attempt that was left to run out.
+          const { data: completionData, error: completionDataError } =
+            await supabase
+              .from("user_exam_completions")
+              .select("*")
+              .eq("id", completionId)
+              .single();
+          if (completionDataError) throw completionDataError;
+          const { data: previousImages, error: previousImagesError } =
+            await supabase
+              .from("exam_attempt_images")
+              .select("image_id")
+              .eq("completion_id", completionId)
+              .order("position", { ascending: true });
+          if (previousImagesError) throw previousImagesError;
+          const previousImageIds: number[] =
+            previousImages && previousImages.length > 0
+              ? previousImages.map((row: any) => row.image_id)
+              : completionData.assigned_image_id
+              ? [completionData.assigned_image_id]
+              : [];
+
+          const newRetakeCount = (completionData.retake_count || 0) + 1;
+          addToast({
+            type: "info",
+            message: `Starting Retake #${newRetakeCount}. Good luck!`,
+          });
+          if (
+            assignedTasks.some((task) =>
+              previousImageIds.includes(task.dbImageId)
+            )
+          ) {
+            addToast({
+              type: "warning",
+              message:
+                "Not enough new images available. Re-assigning previously attempted images.",
+            });
+          }
+
+          // Non-destructive session creation.
+          // DO NOT update the database record when a retake is merely *started*.
+          // The existing record remains as the "source of truth" for the last completed score
+          // until this retake attempt is finished via `handleExamFinish`.
+          completionToOverride = {
+            completionId,
+            oldImageIds: previousImageIds,
+            oldStatus: completionData.status,
+            oldDuration: completionData.duration_seconds,
+            oldCompletedAt: completionData.completed_at,
+            oldRetakeCount: completionData.retake_count || 0,
+            oldEffectiveKeystrokes: completionData.total_effective_keystrokes,
+            oldTotalKeystrokes: completionData.total_answer_key_keystrokes,
           };
         }
 
-        setActiveExamSession(session);
+        const session: Omit<ActiveExamSession, keyof ExamClock> = {
+          exam,
+          assignedTasks,
+          annotatorDbId: currentAnnotatorDbId,
+          userId,
+          completionId,
+          settings,
+          completionToOverride,
+        };
+
+        setActiveExamSession({
+          ...session,
+          ...toExamClock(timerData[0].deadline_at, timerData[0].server_now),
+        });
         setCurrentScreen("USER_EXAM");
         if (shouldPushState)
           safePushState({ examId: exam.id }, `/exam/${exam.id}`);
@@ -355,28 +461,28 @@ const AppContent: React.FC = () => {
     [currentAnnotatorDbId, userId, addToast]
   );
 
-  // Unified routing logic
-  const handleRouteChange = useCallback(async () => {
-    setLoading(true);
-    const path = window.location.pathname.toLowerCase();
-
-    // Ensure exams have their DB IDs for routing
-    if (EXAMS_DATA.some((e) => !e.dbId)) {
-      const { data: examsFromDb, error } = await supabase
-        .from("exams")
-        .select("id, exam_code");
-      if (error) {
+  // Practice is kept entirely on the client, so there is no session to start
+  const handleStartPractice = useCallback(
+    (exam: Exam, shouldPushState = true) => {
+      if (exam.columns.length === 0) {
         addToast({
           type: "error",
-          message: "Could not load initial exam configuration.",
-        });
-      } else {
-        examsFromDb.forEach((dbExam) => {
-          const exam = EXAMS_DATA.find((e) => e.id === dbExam.exam_code);
-          if (exam) exam.dbId = dbExam.id;
+          message: `The '${exam.name}' exam has no columns yet. Please contact an administrator.`,
         });
+        return;
       }
-    }
+      setPracticeExam(exam);
+      setCurrentScreen("USER_PRACTICE");
+      if (shouldPushState)
+        safePushState({ examId: exam.id }, `/practice/${exam.id}`);
+    },
+    [addToast]
+  );
+
+  // Unified routing logic
+  const handleRouteChange = useCallback(async () => {
+    setLoading(true);
+    const path = window.location.pathname.toLowerCase();
 
     supabase.auth.getSession().then(({ data: { session } }) => {
       const currentAdminUser = session?.user ?? null;
@@ -390,7 +496,12 @@ const AppContent: React.FC = () => {
         const examCodeFromUrl = path.startsWith("/exam/")
           ? path.split("/")[2]
           : null;
-        if (
+        const practiceExamFromUrl = path.startsWith("/practice/")
+          ? getExam(path.split("/")[2])
+          : undefined;
+        if (practiceExamFromUrl && !activeExamSession) {
+          handleStartPractice(practiceExamFromUrl, false);
+        } else if (
           examCodeFromUrl &&
           activeExamSession &&
           activeExamSession.exam.id === examCodeFromUrl
@@ -398,7 +509,7 @@ const AppContent: React.FC = () => {
           setCurrentScreen("USER_EXAM");
         } else if (examCodeFromUrl && !activeExamSession) {
           // Handle refresh on an exam page
-          const examToResume = EXAMS_DATA.find((e) => e.id === examCodeFromUrl);
+          const examToResume = getExam(examCodeFromUrl);
           if (examToResume && examToResume.dbId) {
             // Silently re-select the exam to re-fetch the task, but don't push state
             handleSelectExam(examToResume, false);
@@ -424,8 +535,9 @@ const AppContent: React.FC = () => {
     userId,
     currentAnnotatorDbId,
     activeExamSession,
-    addToast,
+    getExam,
     handleSelectExam,
+    handleStartPractice,
   ]);
 
   // Separating the popstate listener setup from the initial routing call to prevent bugs.
@@ -438,21 +550,18 @@ const AppContent: React.FC = () => {
     };
   }, [handleRouteChange]);
 
-  // This effect handles initial routing and backfills the overall completion date if needed.
+  // This effect handles initial routing.
   useEffect(() => {
-    if (isSessionLoaded) {
+    // Routing needs the exam catalog to resolve /exam/:code URLs, and a running
+    // attempt found on the server to be resumed rather than restarted.
+    if (isSessionLoaded && !isCatalogLoading && !pendingServerSession) {
       handleRouteChange();
-      if (currentAnnotatorDbId) {
-        // This check ensures that users who completed all exams before the feature
-        // was added will get their completion date backfilled on their next login.
-        checkAndSetOverallCompletionDate(currentAnnotatorDbId);
-      }
     }
   }, [
     isSessionLoaded,
-    currentAnnotatorDbId,
+    isCatalogLoading,
+    pendingServerSession,
     handleRouteChange,
-    checkAndSetOverallCompletionDate,
   ]);
 
   // Listen to Supabase auth changes for admin
@@ -478,61 +587,63 @@ const AppContent: React.FC = () => {
     return () => authListener.subscription.unsubscribe();
   }, [adminUser]);
 
-  const getOrCreateAnnotatorInDb = async (
-    liftappUserId: string
-  ): Promise<number | null> => {
-    try {
-      let { data: existingAnnotator, error: selectError } = await supabase
-        .from("annotators")
-        .select("id")
-        .eq("liftapp_user_id", liftappUserId)
-        .single();
-
-      if (selectError && selectError.code !== "PGRST116") throw selectError;
-
-      if (existingAnnotator) {
-        return existingAnnotator.id;
-      } else {
-        const { data: newAnnotator, error: insertError } = await supabase
-          .from("annotators")
-          .insert({ liftapp_user_id: liftappUserId })
-          .select("id")
-          .single();
-        if (insertError) throw insertError;
-        return newAnnotator ? newAnnotator.id : null;
-      }
-    } catch (caughtError: any) {
-      const formattedError = formatSupabaseError(caughtError);
-      addToast({
-        type: "error",
-        message: `Failed to initialize annotator: ${formattedError.message}`,
-        duration: 8000,
-      });
-      return null;
-    }
-  };
-
+  // Signs in with a PIN, or with an admin-issued login code plus a new PIN.
+  // Returns the server's status so LoginPage can ask for a PIN or show an
+  // error, or null when the request itself failed.
   const handleLogin = useCallback(
-    async (id: string) => {
-      if (id.trim() !== "") {
-        const dbId = await getOrCreateAnnotatorInDb(id.trim());
-        if (dbId) {
-          setUserId(id.trim());
-          setCurrentAnnotatorDbId(dbId);
-          sessionStorage.setItem("userId", id.trim());
-          sessionStorage.setItem("annotatorDbId", dbId.toString());
-          setCurrentScreen("USER_DASHBOARD");
-          safePushState({}, "/dashboard");
-        }
+    async (
+      id: string,
+      secret: string,
+      newPin?: string
+    ): Promise<AnnotatorSignInStatus | null> => {
+      try {
+        const { data, error } = await supabase.rpc("annotator_sign_in", {
+          p_liftapp_user_id: id.trim(),
+          p_secret: secret,
+          p_new_pin: newPin ?? null,
+        });
+        if (error) throw error;
+        if (!data || data.length === 0)
+          throw new Error("The server did not respond to the sign-in.");
+
+        const { status, session_token, annotator_id, liftapp_user_id } =
+          data[0];
+        if (status !== "ok" || !session_token) return status;
+
+        setAnnotatorSessionToken(session_token);
+        sessionStorage.setItem("annotatorSessionToken", session_token);
+        setUserId(liftapp_user_id);
+        setCurrentAnnotatorDbId(annotator_id);
+        setCurrentScreen("USER_DASHBOARD");
+        safePushState({}, "/dashboard");
+        // An exam started on another device shows up on the dashboard
+        setPendingServerSession(await fetchActiveServerSession());
+        return status;
+      } catch (caughtError: any) {
+        const formattedError = formatSupabaseError(caughtError);
+        addToast({
+          type: "error",
+          message: `Sign-in failed: ${formattedError.message}`,
+          duration: 8000,
+        });
+        return null;
       }
     },
-    [addToast]
+    [addToast, fetchActiveServerSession]
   );
 
   const handleLogout = useCallback(() => {
+    // End the session on the server too, so the token cannot be reused.
+    supabase
+      .rpc("annotator_sign_out")
+      .then(({ error }) => {
+        if (error) console.warn("Could not end the session:", error.message);
+      })
+      .then(() => setAnnotatorSessionToken(null));
     setUserId(null);
     setCurrentAnnotatorDbId(null);
     setActiveExamSession(null);
+    setPendingServerSession(null);
     sessionStorage.clear();
     setCurrentScreen("USER_LOGIN");
     safeReplaceState({}, "/login");
@@ -573,6 +684,15 @@ const AppContent: React.FC = () => {
   const handleCancelRetake = useCallback(() => {
     if (!activeExamSession?.completionToOverride) return;
 
+    // The retake is no longer offered for resuming on any device.
+    supabase
+      .rpc("end_exam_session", {
+        p_completion_id: activeExamSession.completionToOverride.completionId,
+      })
+      .then(({ error }) => {
+        if (error) console.warn("Could not end the retake:", error.message);
+      });
+
     // Immediately perform the navigation for a responsive UI.
     setActiveExamSession(null);
     setCurrentScreen("USER_DASHBOARD");
@@ -583,106 +703,119 @@ const AppContent: React.FC = () => {
   }, [activeExamSession, addToast]);
 
   const handleExamFinish = useCallback(
-    async (result: ExamResult, status: "submitted" | "timed_out") => {
-      if (!activeExamSession) return;
+    async (status: "submitted" | "timed_out"): Promise<ExamResult | null> => {
+      if (!activeExamSession) return null;
 
       const session = activeExamSession; // Capture session state
+      // The server measures the duration from its own start time; this
+      // estimate is only used for attempts started before the server timer.
       const durationTakenSeconds = Math.floor(
-        (Date.now() - (session.sessionEndTime - EXAM_DURATION_SECONDS * 1000)) /
+        (Date.now() +
+          session.serverClockOffsetMs -
+          (session.sessionEndTime - session.settings.durationSeconds * 1000)) /
           1000
       );
 
       try {
-        let recordIdToUpdate: number;
-        let newRetakeCount: number | undefined;
-
-        if (session.completionToOverride) {
-          recordIdToUpdate = session.completionToOverride.completionId;
-          newRetakeCount =
-            (session.completionToOverride.oldRetakeCount || 0) + 1;
-          // Clean up annotations from the old attempt image before saving new ones
-          await supabase
-            .from("annotation_rows")
-            .delete()
-            .eq("image_id", session.completionToOverride.oldImageId);
-        } else {
-          const { data: completion, error: findError } = await supabase
-            .from("user_exam_completions")
-            .select("id")
-            .eq("annotator_id", session.annotatorDbId)
-            .eq("exam_id", session.exam.dbId!)
-            .eq("status", "started")
-            .single();
-          if (findError)
-            throw new Error(
-              "Could not find the initial exam record to finalize."
-            );
-          recordIdToUpdate = completion.id;
-        }
-
-        const updatePayload: { [key: string]: any } = {
-          status,
-          duration_seconds: durationTakenSeconds,
-          completed_at: new Date().toISOString(),
-          total_effective_keystrokes: result.userKeystrokes,
-          total_answer_key_keystrokes: result.totalKeystrokes,
-          // Update assigned_image_id to the one used in this attempt
-          assigned_image_id: session.assignedTask.dbImageId,
-        };
+        // Read before finalizing, to tell whether this attempt completed every exam
+        const wasOverallComplete = await fetchIsOverallComplete(
+          session.annotatorDbId
+        );
 
-        if (newRetakeCount !== undefined) {
-          updatePayload.retake_count = newRetakeCount;
-        }
+        // The server submits the saved drafts, scores them against the answer
+        // key and records the result; the client only displays what comes back.
+        const { data: scoreData, error: finalizeError } = await supabase.rpc(
+          "finalize_exam_attempt",
+          {
+            p_completion_id: session.completionId,
+            p_status: status,
+            p_duration_seconds: durationTakenSeconds,
+          }
+        );
 
-        const { error: updateError } = await supabase
-          .from("user_exam_completions")
-          .update(updatePayload)
-          .eq("id", recordIdToUpdate);
+        if (finalizeError) throw finalizeError;
+        if (!scoreData || scoreData.length === 0)
+          throw new Error(
+            "The server did not return a score for this attempt."
+          );
 
-        if (updateError) throw updateError;
+        const result: ExamResult = {
+          score: Number(scoreData[0].score_percentage) || 0,
+          passed: !!scoreData[0].passed,
+          userKeystrokes: scoreData[0].total_effective_keystrokes || 0,
+          totalKeystrokes: scoreData[0].total_answer_key_keystrokes || 0,
+          unmatchedUserRows: scoreData[0].unmatched_user_rows || 0,
+          unmatchedKeyRows: scoreData[0].unmatched_key_rows || 0,
+          fieldScores: scoreData[0].field_scores || {},
+          submittedLate: !!scoreData[0].submitted_late,
+        };
 
-        const message =
-          status === "submitted"
-            ? `Exam submitted successfully! Score: ${result.score.toFixed(1)}%`
-            : `Time is up! Your work has been submitted. Score: ${result.score.toFixed(
-                1
-              )}%`;
-        addToast({ type: "success", message, duration: 8000 });
+        if (status === "timed_out") {
+          addToast({
+            type: "success",
+            message: `Time is up! Your work has been submitted. Score: ${result.score.toFixed(
+              1
+            )}%`,
+            duration: 8000,
+          });
+        }
+        if (result.submittedLate) {
+          addToast({
+            type: "warning",
+            message:
+              "This attempt was received after the time limit, so it cannot count as a pass.",
+            duration: 8000,
+          });
+        }
 
-        // After successfully saving the score, check for overall completion.
-        checkAndSetOverallCompletionDate(session.annotatorDbId);
+        // The server sets the overall completion date with the score.
+        if (
+          result.passed &&
+          wasOverallComplete === false &&
+          (await fetchIsOverallComplete(session.annotatorDbId))
+        ) {
+          addToast({
+            type: "success",
+            message:
+              "🎉 Congratulations! You have passed all available exams. Your account is now fully complete.",
+            duration: 15000,
+          });
+        }
+        return result;
       } catch (e: any) {
         const formattedError = formatSupabaseError(e);
         addToast({
           type: "error",
           message: `Failed to finalize exam: ${formattedError.message}`,
         });
+        return null;
       } finally {
-        setActiveExamSession(null);
-        setCurrentScreen("USER_DASHBOARD");
-        safeReplaceState({}, "/dashboard");
+        // A timed-out exam is closed whether or not finalizing succeeded.
+        if (status === "timed_out") {
+          setActiveExamSession(null);
+          setCurrentScreen("USER_DASHBOARD");
+          safeReplaceState({}, "/dashboard");
+        }
       }
     },
-    [activeExamSession, addToast, checkAndSetOverallCompletionDate]
+    [activeExamSession, addToast, fetchIsOverallComplete]
   );
 
+  const handleExamClose = useCallback(() => {
+    setActiveExamSession(null);
+    setCurrentScreen("USER_DASHBOARD");
+    safeReplaceState({}, "/dashboard");
+  }, []);
+
   const handleExamRetakeFromModal = useCallback(async () => {
     if (!activeExamSession) return;
     const examToRetake = activeExamSession.exam;
 
-    // Finalize the current failed attempt before starting a new one.
-    // We create a minimal result object for this purpose.
-    const failedResult: ExamResult = {
-      score: 0,
-      passed: false,
-      userKeystrokes: 0,
-      totalKeystrokes: 0,
-    };
-    await handleExamFinish(failedResult, "submitted");
-
-    // Then, immediately start a new retake session for the same exam
+    // The failed attempt was already finalized on the server when it was
+    // submitted, so a new retake session can be started right away.
+    setActiveExamSession(null);
     await handleSelectExam(examToRetake);
-  }, [activeExamSession, handleSelectExam, handleExamFinish]);
+  }, [activeExamSession, handleSelectExam]);
 
   const handleResumeExam = useCallback(() => {
     if (activeExamSession) {
@@ -718,6 +851,7 @@ const AppContent: React.FC = () => {
             annotatorDbId={currentAnnotatorDbId}
             onLogout={handleLogout}
             onSelectExam={handleSelectExam}
+            onStartPractice={handleStartPractice}
             activeSession={activeExamSession}
             onResumeExam={handleResumeExam}
           />
@@ -728,10 +862,18 @@ const AppContent: React.FC = () => {
             activeSession={activeExamSession}
             onBackToDashboard={handleBackToDashboard}
             onExamFinish={handleExamFinish}
+            onExamClose={handleExamClose}
             onRetake={handleExamRetakeFromModal}
             onCancelRetake={handleCancelRetake}
           />
         ) : null;
+      case "USER_PRACTICE":
+        return practiceExam ? (
+          <PracticePage
+            exam={practiceExam}
+            onBackToDashboard={handleBackToDashboard}
+          />
+        ) : null;
       case "ADMIN_LOGIN":
         return (
           <AdminLoginPage onAdminLogin={handleAdminLogin} isLoading={loading} />
@@ -758,7 +900,11 @@ const AppContent: React.FC = () => {
 
 const App: React.FC = () => (
   <ToastProvider>
-    <AppContent />
+    <ExamCatalogProvider>
+      <SitesProvider>
+        <AppContent />
+      </SitesProvider>
+    </ExamCatalogProvider>
   </ToastProvider>
 );
 
@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect } from "react";
-import { EXAMS_DATA } from "../constants";
+import { useExamCatalog } from "../contexts/ExamCatalogContext";
 import ExamCard from "./ExamCard";
 import UserScoresTab from "./UserScoresTab";
 import {
@@ -10,6 +10,7 @@ import {
   ExamCompletionInfo,
 } from "../types";
 import { supabase } from "../utils/supabase/client";
+import { getExamSettings } from "../utils/examUtils";
 
 type DashboardTab = "TASKS" | "SCORES";
 
@@ -26,7 +27,13 @@ const ActiveExamBanner: React.FC<{
   onResume: () => void;
 }> = ({ session, onResume }) => {
   const [timeLeft, setTimeLeft] = useState(
-    Math.max(0, Math.floor((session.sessionEndTime - Date.now()) / 1000))
+    Math.max(
+      0,
+      Math.floor(
+        (session.sessionEndTime - Date.now() - session.serverClockOffsetMs) /
+          1000
+      )
+    )
   );
 
   useEffect(() => {
@@ -48,8 +55,9 @@ const ActiveExamBanner: React.FC<{
       <div>
         <h3 className="font-bold">Ongoing Exam: {session.exam.name}</h3>
         <p className="text-sm">
-          You have an exam in progress. Resume to continue or wait for the timer
-          to end.
+          You have an exam in progress. Resume to continue where you left off,
+          even if you started it on another computer, or wait for the timer to
+          end.
         </p>
       </div>
       <div className="flex items-center space-x-4">
@@ -57,7 +65,10 @@ const ActiveExamBanner: React.FC<{
           <div className="font-mono text-xl font-semibold">
             {formatTime(timeLeft)}
           </div>
-          <div className="text-xs text-yellow-700">Time Remaining</div>
+          <div className="text-xs text-yellow-700">
+            Time Remaining of{" "}
+            {Math.round(session.settings.durationSeconds / 60)} min
+          </div>
         </div>
         <button
           onClick={onResume}
@@ -75,6 +86,7 @@ const DashboardPage: React.FC<DashboardPageProps> = ({
   annotatorDbId,
   onLogout,
   onSelectExam,
+  onStartPractice,
   activeSession,
   onResumeExam,
 }) => {
@@ -83,6 +95,7 @@ const DashboardPage: React.FC<DashboardPageProps> = ({
     Map<string, ExamCompletionInfo>
   >(new Map());
   const [isLoadingStatus, setIsLoadingStatus] = useState<boolean>(true);
+  const { exams, isLoading: isLoadingExams, getExam } = useExamCatalog();
 
   useEffect(() => {
     if (!annotatorDbId) {
@@ -101,6 +114,7 @@ const DashboardPage: React.FC<DashboardPageProps> = ({
                 exam_id,
                 score_percentage,
                 completed_at,
+                submitted_late,
                 exams (
                     exam_code
                 )
@@ -127,9 +141,13 @@ const DashboardPage: React.FC<DashboardPageProps> = ({
               ? parseFloat(scoreRecord.score_percentage.toFixed(1))
               : 0;
 
-          if (scoreRecord.exams?.exam_code) {
-            newStatusMap.set(scoreRecord.exams.exam_code, {
-              isCompleted: score >= 90,
+          const exam = getExam(scoreRecord.exams?.exam_code);
+          if (exam) {
+            newStatusMap.set(exam.id, {
+              // A late attempt keeps its score but never counts as a pass
+              isCompleted:
+                !scoreRecord.submitted_late &&
+                score >= getExamSettings(exam, userId).passingScore,
               score: score,
             });
           }
@@ -144,7 +162,7 @@ const DashboardPage: React.FC<DashboardPageProps> = ({
     };
 
     fetchCompletionStatus();
-  }, [annotatorDbId]);
+  }, [annotatorDbId, getExam, userId]);
 
   const TasksIcon = () => (
     <svg
@@ -272,18 +290,20 @@ const DashboardPage: React.FC<DashboardPageProps> = ({
             <h2 className="text-2xl font-semibold text-slate-700 mb-6">
               Available Annotation Exams
             </h2>
-            {isLoadingStatus ? (
+            {isLoadingStatus || isLoadingExams ? (
               <div className="flex justify-center items-center py-10">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
                 <p className="ml-4 text-slate-600">Loading exam statuses...</p>
               </div>
             ) : (
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                {EXAMS_DATA.map((exam: Exam) => (
+                {exams.map((exam: Exam) => (
                   <ExamCard
                     key={exam.id}
                     exam={exam}
+                    settings={getExamSettings(exam, userId)}
                     onSelectExam={onSelectExam}
+                    onStartPractice={onStartPractice}
                     completionInfo={completionStatus.get(exam.id)}
                     activeSession={activeSession}
                     onResumeExam={onResumeExam}
@@ -299,7 +319,7 @@ const DashboardPage: React.FC<DashboardPageProps> = ({
             <h2 className="text-2xl font-semibold text-slate-700 mb-6">
               My Exam Scores
             </h2>
-            <UserScoresTab annotatorDbId={annotatorDbId} />
+            <UserScoresTab annotatorDbId={annotatorDbId} userId={userId} />
           </div>
         )}
       </main>
@@ -1,8 +1,9 @@
 
 import React from 'react';
 import { ExamCardProps } from '../types';
+import { getExamIcon } from '../constants';
 
-const ExamCard: React.FC<ExamCardProps> = ({ exam, onSelectExam, completionInfo, activeSession, onResumeExam }) => {
+const ExamCard: React.FC<ExamCardProps> = ({ exam, settings, onSelectExam, onStartPractice, completionInfo, activeSession, onResumeExam }) => {
 
   const isThisExamActive = activeSession && activeSession.exam.id === exam.id;
   const isAnotherExamActive = activeSession && activeSession.exam.id !== exam.id;
@@ -18,9 +19,9 @@ const ExamCard: React.FC<ExamCardProps> = ({ exam, onSelectExam, completionInfo,
 
     // Check completion status if no active session interferes
     if (completionInfo) {
-      if (completionInfo.isCompleted) { // Passed (score >= 90)
+      if (completionInfo.isCompleted) { // Passed (score >= settings.passingScore)
         return { text: 'Done', disabled: true, className: 'bg-green-500 text-white cursor-not-allowed' };
-      } else { // Failed (score < 90)
+      } else { // Failed (score < settings.passingScore)
         return { text: 'Retake Exam', disabled: false, className: 'bg-orange-500 hover:bg-orange-600 text-white focus:ring-orange-500' };
       }
     }
@@ -45,12 +46,16 @@ const ExamCard: React.FC<ExamCardProps> = ({ exam, onSelectExam, completionInfo,
     <div className={`bg-white rounded-xl shadow-lg overflow-hidden transform transition-all hover:shadow-2xl ${!buttonState.disabled ? 'hover:-translate-y-1' : ''} duration-300 ease-in-out flex flex-col h-full ${buttonState.disabled && !completionInfo?.isCompleted ? 'opacity-60' : ''}`}>
       <div className="p-6 flex-grow flex flex-col">
         <div className="flex items-center justify-center mb-5 h-20 w-20 mx-auto bg-slate-100 rounded-full p-2">
-           {exam.icon}
+           {getExamIcon(exam.iconKey)}
         </div>
         <h3 className="text-xl font-semibold text-slate-800 mb-2 text-center">{exam.name}</h3>
         <p className="text-sm text-slate-600 leading-relaxed text-center flex-grow mb-4">
           {exam.description}
         </p>
+        <p className="text-xs text-slate-500 text-center">
+          {Math.round(settings.durationSeconds / 60)} minutes &middot; Pass mark {settings.passingScore}%
+          {exam.imagesPerAttempt > 1 && <> &middot; {exam.imagesPerAttempt} images</>}
+        </p>
       </div>
       <div className="p-5 bg-slate-50 border-t border-slate-200 mt-auto">
         <button
@@ -61,6 +66,15 @@ const ExamCard: React.FC<ExamCardProps> = ({ exam, onSelectExam, completionInfo,
         >
           {buttonState.text}
         </button>
+        {/* Practice stays open after passing, but not while an exam is running */}
+        <button
+          onClick={() => onStartPractice(exam)}
+          disabled={!!activeSession}
+          className="w-full mt-2 font-medium py-2 px-4 rounded-lg border border-slate-300 text-slate-700 bg-white hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-400 transition-colors duration-150 disabled:opacity-50 disabled:cursor-not-allowed"
+          aria-label={`Practice: ${exam.name}`}
+        >
+          Practice
+        </button>
       </div>
     </div>
   );
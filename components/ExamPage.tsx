@@ -11,134 +11,47 @@ import {
   ImageSettings,
   DisplayStatusType,
   ExamPageProps,
+  ImageTask,
   ExamResult,
+  SpecialCharacter,
+  SpecialCharBindings,
 } from "../types";
-import { getColumnsForExam, EXAM_DURATION_SECONDS } from "../constants";
+import { SCORING_STRATEGY_OPTIONS } from "../constants";
 import { useExamData } from "../hooks/useExamData";
+import { useExamClock } from "../hooks/useExamClock";
 import { generateRowId } from "../utils/examUtils";
 import ExamHeader from "./exam/ExamHeader";
 import ImageViewer from "./exam/ImageViewer";
 import AnnotationTable from "./exam/AnnotationTable";
+import SpecialCharPalette from "./exam/SpecialCharPalette";
 import { supabase } from "../utils/supabase/client";
 import { formatSupabaseError } from "../utils/errorUtils";
 import { useToast } from "../contexts/ToastContext";
 import Modal from "./common/Modal";
-import { removeAnnotationsFromLocalStorage } from "../utils/localStorageUtils";
-
-const SPECIAL_CHARS_MAP: Record<string, { lower: string; upper: string }> = {
-  a: { lower: "á", upper: "Á" },
-  e: { lower: "é", upper: "É" },
-  i: { lower: "í", upper: "Í" },
-  o: { lower: "ó", upper: "Ó" },
-  u: { lower: "ú", upper: "Ú" },
-  n: { lower: "ñ", upper: "Ñ" },
-  c: { lower: "ç", upper: "Ç" },
-};
-
-/**
- * Calculates the length of the common prefix between two strings.
- * This is a TypeScript implementation of the provided Supabase `common_prefix_length` SQL function.
- * @param s1 The first string.
- * @param s2 The second string.
- * @returns The number of matching characters from the start of the strings.
- */
-const commonPrefixLength = (s1: string = "", s2: string = ""): number => {
-  if (!s1 || !s2) {
-    return 0;
-  }
-  const minLen = Math.min(s1.length, s2.length);
-  let len = 0;
-  for (let i = 0; i < minLen; i++) {
-    if (s1[i] === s2[i]) {
-      len++;
-    } else {
-      break; // Mismatch found, stop counting.
-    }
-  }
-  return len;
-};
-
-/**
- * Calculates score based on the database's `ROW_NUMBER()` logic.
- * It compares rows by their index, not their client-side ID.
- * @param userRows The user's annotation rows.
- * @param answerKeyRows The correct answer key rows, pre-sorted by creation date.
- * @returns An ExamResult object with score and other metrics.
- */
-const calculateScore = (
-  userRows: AnnotationRowData[],
-  answerKeyRows: AnnotationRowData[]
-): ExamResult => {
-  let totalAnswerKeyChars = 0;
-  let totalMatchingChars = 0;
-
-  // 1. Calculate total scorable characters from the answer key, mimicking `total_chars_in_row`.
-  for (const answerRow of answerKeyRows) {
-    for (const key in answerRow.cells) {
-      if (key === "image_ref") continue;
-      const value = answerRow.cells[key]?.toString() || "";
-      if (value) {
-        totalAnswerKeyChars += value.length;
-      }
-    }
-  }
-
-  // 2. Compare rows based on their index, which mimics the DB's ROW_NUMBER() logic.
-  // This assumes userRows are in creation order and answerKeyRows are fetched with an order clause.
-  for (let i = 0; i < answerKeyRows.length; i++) {
-    const answerRowData = answerKeyRows[i].cells;
-    const userRowData = userRows[i]?.cells; // Use optional chaining in case user has fewer rows
-
-    if (!userRowData) {
-      // User submitted fewer rows than the key. No more rows to compare.
-      break;
-    }
-
-    // Iterate through the keys of the answer key row, as per the SQL function.
-    for (const key in answerRowData) {
-      if (key === "image_ref") continue;
-
-      const answerValue = answerRowData[key]?.toString() || "";
-      if (answerValue) {
-        // Only score non-empty fields in the key.
-        const userValue = userRowData[key]?.toString() || "";
-        totalMatchingChars += commonPrefixLength(userValue, answerValue);
-      }
-    }
-  }
-
-  if (answerKeyRows.length === 0 || totalAnswerKeyChars === 0) {
-    // Handle case where answer key is empty or not found.
-    let totalUserChars = 0;
-    userRows.forEach((row) => {
-      for (const key in row.cells) {
-        if (key !== "image_ref") {
-          totalUserChars += (row.cells[key]?.toString() || "").length;
-        }
-      }
-    });
-    return {
-      score: 0,
-      passed: false,
-      userKeystrokes: totalUserChars,
-      totalKeystrokes: 0,
-    };
-  }
-
-  const score = (totalMatchingChars / totalAnswerKeyChars) * 100;
-
-  return {
-    score,
-    passed: score >= 90,
-    userKeystrokes: totalMatchingChars,
-    totalKeystrokes: totalAnswerKeyChars,
-  };
-};
+import {
+  loadSpecialCharBindings,
+  removeAnnotationsFromLocalStorage,
+  saveSpecialCharBindings,
+} from "../utils/localStorageUtils";
+import { validateRows } from "../utils/validationUtils";
+import {
+  findSpecialCharForKey,
+  getActiveSpecialCharSets,
+  getShortcutKey,
+} from "../utils/specialCharUtils";
+import {
+  alignRows,
+  getWeakestFields,
+  isScoredColumn,
+  rowHasScorableData,
+  scoreCell,
+} from "../utils/scoringUtils";
 
 const ExamPage: React.FC<ExamPageProps> = ({
   activeSession,
   onBackToDashboard,
   onExamFinish,
+  onExamClose,
   onRetake,
   onCancelRetake,
 }) => {
@@ -146,32 +59,44 @@ const ExamPage: React.FC<ExamPageProps> = ({
     userId,
     exam,
     annotatorDbId,
-    assignedTask,
+    assignedTasks,
+    completionId,
     sessionEndTime,
+    serverClockOffsetMs,
+    settings,
     completionToOverride,
   } = activeSession;
 
-  const columnsForCurrentExam = useMemo(
-    () => getColumnsForExam(exam.id),
-    [exam.id]
-  );
+  const columnsForCurrentExam = useMemo(() => exam.columns, [exam.columns]);
   const { addToast } = useToast();
-  const examDurationInMinutes = EXAM_DURATION_SECONDS / 60;
+  const examDurationInMinutes = Math.round(settings.durationSeconds / 60);
+  const [currentImageTaskIndex, setCurrentImageTaskIndex] = useState(0);
 
   const {
     currentImageUrl,
     imageLoading,
     rows,
+    rowsByImageId,
     setRows: setRowsFromHook,
     displayStatus,
     setDisplayStatus,
     isSubmittingToServer,
     setIsSubmittingToServer,
     hasUnsavedChanges,
+    autosave,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     submitAllExamAnnotations,
     persistDraft,
     currentTaskForDisplay,
-  } = useExamData({ exam, annotatorDbId, assignedTask });
+  } = useExamData({
+    exam,
+    annotatorDbId,
+    assignedTasks,
+    currentTaskIndex: currentImageTaskIndex,
+  });
 
   const initialImageSettings: ImageSettings = {
     zoom: 20,
@@ -188,6 +113,16 @@ const ExamPage: React.FC<ExamPageProps> = ({
     specialChars: false,
   });
   const [activeRowIndex, setActiveRowIndex] = useState<number | null>(null);
+  // Columns whose value new rows take over from the row above
+  const [carryForwardColumnIds, setCarryForwardColumnIds] = useState<string[]>(
+    []
+  );
+  // Carried values the annotator has not looked at yet, as `${rowId}:${columnId}`
+  const [carriedCellKeys, setCarriedCellKeys] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [specialCharBindings, setSpecialCharBindings] =
+    useState<SpecialCharBindings>(loadSpecialCharBindings);
 
   const inputRefs = useRef<(HTMLInputElement | null)[][]>([]);
   const focusedCellRef = useRef<{
@@ -196,27 +131,22 @@ const ExamPage: React.FC<ExamPageProps> = ({
     inputElement: HTMLInputElement;
   } | null>(null);
 
-  const [now, setNow] = useState(Date.now());
-  const timeLeft = Math.max(0, Math.floor((sessionEndTime - now) / 1000));
+  const { timeLeft } = useExamClock({
+    completionId,
+    initialClock: { sessionEndTime, serverClockOffsetMs },
+  });
   const isExamClosingRef = useRef(false);
 
-  const [attemptedImageIds, setAttemptedImageIds] = useState<number[]>([
-    assignedTask.dbImageId,
-  ]);
-
   const [isResultsModalOpen, setIsResultsModalOpen] = useState(false);
   const [examResult, setExamResult] = useState<ExamResult | null>(null);
   const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
   const [isReviewModalOpen, setIsReviewModalOpen] = useState(false);
-  const [answerKeyForReview, setAnswerKeyForReview] = useState<
-    AnnotationRowData[] | null
-  >(null);
-
-  useEffect(() => {
-    if (!attemptedImageIds.includes(assignedTask.dbImageId)) {
-      setAttemptedImageIds((prev) => [...prev, assignedTask.dbImageId]);
-    }
-  }, [assignedTask.dbImageId, attemptedImageIds]);
+  const [isValidationModalOpen, setIsValidationModalOpen] = useState(false);
+  // Answer-key rows by image id, loaded once the attempt is scored
+  const [answerKeyForReview, setAnswerKeyForReview] = useState<Record<
+    number,
+    AnnotationRowData[]
+  > | null>(null);
 
   const handleTimeout = useCallback(async () => {
     if (isExamClosingRef.current) return;
@@ -225,22 +155,8 @@ const ExamPage: React.FC<ExamPageProps> = ({
     setDisplayStatus("Calculating score...");
     const submissionSuccessful = await submitAllExamAnnotations();
     if (submissionSuccessful) {
-      // Fetch answer key to calculate final score
-      const { data: answerRowsData } = await supabase
-        .from("answer_key_rows")
-        .select("id, client_row_id, row_data")
-        .eq("image_id", assignedTask.dbImageId)
-        .order("id", { ascending: true });
-
-      const answerKey: AnnotationRowData[] = (answerRowsData || []).map(
-        (dbRow: any) => ({
-          id: dbRow.client_row_id || `db_id_${dbRow.id}`,
-          cells: dbRow.row_data,
-        })
-      );
-
-      const finalResult = calculateScore(rows, answerKey);
-      onExamFinish(finalResult, "timed_out");
+      // The server scores the attempt and App closes the exam.
+      await onExamFinish("timed_out");
     } else {
       addToast({
         type: "error",
@@ -249,19 +165,7 @@ const ExamPage: React.FC<ExamPageProps> = ({
       });
       onBackToDashboard();
     }
-  }, [
-    rows,
-    onExamFinish,
-    submitAllExamAnnotations,
-    assignedTask.dbImageId,
-    addToast,
-    onBackToDashboard,
-  ]);
-
-  useEffect(() => {
-    const timer = setInterval(() => setNow(Date.now()), 1000);
-    return () => clearInterval(timer);
-  }, []);
+  }, [onExamFinish, submitAllExamAnnotations, addToast, onBackToDashboard]);
 
   useEffect(() => {
     if (timeLeft <= 0 && !isExamClosingRef.current) {
@@ -272,10 +176,23 @@ const ExamPage: React.FC<ExamPageProps> = ({
   useEffect(() => {
     setImageSettings((prev) => ({ ...prev, position: { x: 0, y: -30 } }));
     setActiveRowIndex(0);
+    setCurrentImageTaskIndex(0);
     isExamClosingRef.current = false;
     setExamResult(null);
     setIsResultsModalOpen(false);
-  }, [assignedTask]);
+  }, [assignedTasks]);
+
+  // Each image keeps its own rows; switching only changes which are shown.
+  const handleNavigateImage = useCallback(
+    async (direction: 1 | -1) => {
+      setCurrentImageTaskIndex((prev) =>
+        Math.max(0, Math.min(assignedTasks.length - 1, prev + direction))
+      );
+      setImageSettings((prev) => ({ ...prev, position: { x: 0, y: -30 } }));
+      setActiveRowIndex(0);
+    },
+    [assignedTasks.length]
+  );
 
   useEffect(() => {
     const handleBeforeUnload = (event: BeforeUnloadEvent) => {
@@ -292,10 +209,11 @@ const ExamPage: React.FC<ExamPageProps> = ({
     };
   }, [hasUnsavedChanges, persistDraft]);
 
-  const handleAddRow = useCallback(
-    (focusNewRow = true) => {
-      const imageRef =
-        assignedTask.original_filename || assignedTask.storage_path;
+  // A new row for the task, taking the carried-forward columns over from
+  // previousRow. Carried values stay marked until the annotator confirms them.
+  const createEmptyRow = useCallback(
+    (task: ImageTask, previousRow?: AnnotationRowData): AnnotationRowData => {
+      const imageRef = task.original_filename || task.storage_path;
       const newCells: AnnotationCellData = columnsForCurrentExam.reduce(
         (acc, col) => ({
           ...acc,
@@ -307,6 +225,64 @@ const ExamPage: React.FC<ExamPageProps> = ({
         id: generateRowId(),
         cells: newCells,
       };
+      const carriedColumnIds = carryForwardColumnIds.filter(
+        (columnId) => String(previousRow?.cells[columnId] ?? "").trim() !== ""
+      );
+      if (previousRow && carriedColumnIds.length > 0) {
+        carriedColumnIds.forEach(
+          (columnId) => (newCells[columnId] = previousRow.cells[columnId])
+        );
+        setCarriedCellKeys((prev) => {
+          const next = new Set(prev);
+          carriedColumnIds.forEach((columnId) =>
+            next.add(`${newRow.id}:${columnId}`)
+          );
+          return next;
+        });
+      }
+      return newRow;
+    },
+    [columnsForCurrentExam, carryForwardColumnIds]
+  );
+
+  const handleToggleCarryForward = useCallback((columnId: string) => {
+    setCarryForwardColumnIds((prev) =>
+      prev.includes(columnId)
+        ? prev.filter((id) => id !== columnId)
+        : [...prev, columnId]
+    );
+  }, []);
+
+  const confirmCarriedCell = useCallback((cellKey: string) => {
+    setCarriedCellKeys((prev) => {
+      if (!prev.has(cellKey)) return prev;
+      const next = new Set(prev);
+      next.delete(cellKey);
+      return next;
+    });
+  }, []);
+
+  // Column indexes the annotator can type in; the image reference is filled in
+  const editableColIndexes = useMemo(
+    () =>
+      columnsForCurrentExam
+        .map((col, colIndex) => (col.id === "image_ref" ? -1 : colIndex))
+        .filter((colIndex) => colIndex >= 0),
+    [columnsForCurrentExam]
+  );
+
+  const focusCellAt = useCallback((rowIndex: number, colIndex: number) => {
+    // Rows added or removed a moment ago are rendered on the next tick
+    setTimeout(() => inputRefs.current[rowIndex]?.[colIndex]?.focus(), 0);
+  }, []);
+
+  const handleAddRow = useCallback(
+    (focusNewRow = true) => {
+      if (!currentTaskForDisplay) return;
+      const newRow = createEmptyRow(
+        currentTaskForDisplay,
+        rows[rows.length - 1]
+      );
 
       setRowsFromHook((prevRows) => [...prevRows, newRow]);
       const newRowIndex = rows.length;
@@ -329,7 +305,28 @@ const ExamPage: React.FC<ExamPageProps> = ({
         }, 0);
       }
     },
-    [rows.length, assignedTask, setRowsFromHook, columnsForCurrentExam]
+    [
+      rows,
+      currentTaskForDisplay,
+      createEmptyRow,
+      setRowsFromHook,
+      columnsForCurrentExam,
+    ]
+  );
+
+  const handleInsertRowBelow = useCallback(
+    (rowIndex: number, colIndex: number) => {
+      if (!currentTaskForDisplay) return;
+      const newRow = createEmptyRow(currentTaskForDisplay, rows[rowIndex]);
+      setRowsFromHook((prevRows) => [
+        ...prevRows.slice(0, rowIndex + 1),
+        newRow,
+        ...prevRows.slice(rowIndex + 1),
+      ]);
+      setActiveRowIndex(rowIndex + 1);
+      focusCellAt(rowIndex + 1, colIndex);
+    },
+    [rows, currentTaskForDisplay, createEmptyRow, setRowsFromHook, focusCellAt]
   );
 
   const handleDeleteRow = useCallback(
@@ -380,15 +377,38 @@ const ExamPage: React.FC<ExamPageProps> = ({
             processedValue.substring(charAddedIndex + 1);
         }
       }
+      // Typing in one cell is undone in one step
+      setRowsFromHook(
+        (prevRows) =>
+          prevRows.map((row, idx) =>
+            idx === rowIndex
+              ? { ...row, cells: { ...row.cells, [columnId]: processedValue } }
+              : row
+          ),
+        { coalesceKey: `${rows[rowIndex]?.id}:${columnId}` }
+      );
+      confirmCarriedCell(`${rows[rowIndex]?.id}:${columnId}`);
+    },
+    [toolSettings.firstCharCaps, rows, setRowsFromHook, confirmCarriedCell]
+  );
+
+  // Ditto: copies the value of the cell above into the cell
+  const handleDittoCell = useCallback(
+    (rowIndex: number, columnId: string) => {
+      const rowAbove = rows[rowIndex - 1];
+      const row = rows[rowIndex];
+      if (!rowAbove || !row) return;
+      const value = rowAbove.cells[columnId] ?? "";
       setRowsFromHook((prevRows) =>
-        prevRows.map((row, idx) =>
+        prevRows.map((prevRow, idx) =>
           idx === rowIndex
-            ? { ...row, cells: { ...row.cells, [columnId]: processedValue } }
-            : row
+            ? { ...prevRow, cells: { ...prevRow.cells, [columnId]: value } }
+            : prevRow
         )
       );
+      confirmCarriedCell(`${row.id}:${columnId}`);
     },
-    [toolSettings.firstCharCaps, rows, setRowsFromHook]
+    [rows, setRowsFromHook, confirmCarriedCell]
   );
 
   const handleImageZoomChange = (value: number) =>
@@ -411,76 +431,74 @@ const ExamPage: React.FC<ExamPageProps> = ({
     setToolSettings((prev) => ({ ...prev, [setting]: !prev[setting] }));
 
   const handleInitialSubmit = async () => {
+    if (isExamClosingRef.current) return;
     setIsSubmittingToServer(true);
-    setDisplayStatus("Calculating score...");
     setAnswerKeyForReview(null); // Reset review data on new submission
     try {
-      const { data: answerRowsData, error: fetchError } = await supabase
-        .from("answer_key_rows")
-        .select("id, client_row_id, row_data")
-        .eq("image_id", assignedTask.dbImageId)
-        .order("id", { ascending: true });
-
-      if (fetchError) {
+      const submissionSuccessful = await submitAllExamAnnotations();
+      if (!submissionSuccessful) {
         addToast({
           type: "error",
-          message:
-            "Could not fetch answer key to calculate score. Please try again.",
+          message: `Submission failed. The exam remains open. Please try again or contact support.`,
         });
         return;
       }
 
-      if (!answerRowsData || answerRowsData.length === 0) {
+      setDisplayStatus("Calculating score...");
+      const result = await onExamFinish("submitted");
+      if (!result) {
+        // App has already reported the error; the exam stays open for another try.
+        setDisplayStatus("Error submitting");
+        return;
+      }
+      setDisplayStatus("");
+
+      // The attempt is final from here on; no further edits are accepted.
+      isExamClosingRef.current = true;
+      setExamResult(result);
+      setIsResultsModalOpen(true);
+
+      if (result.totalKeystrokes === 0) {
         addToast({
           type: "warning",
           message:
-            "No answer key found for this image. Score cannot be calculated. Please submit to record completion.",
+            "No answer key found for these images. Your completion has been recorded without a score.",
         });
-        setExamResult({
-          score: 0,
-          passed: false,
-          userKeystrokes: 0,
-          totalKeystrokes: 0,
+        return;
+      }
+
+      // The server only hands out the answer key once the attempt is locked.
+      const { data: answerRowsData, error: fetchError } = await supabase.rpc(
+        "get_attempt_review",
+        { p_completion_id: completionId }
+      );
+
+      if (fetchError) {
+        addToast({
+          type: "warning",
+          message:
+            "Your score was recorded, but the answers could not be loaded for review.",
         });
-        setIsResultsModalOpen(true);
         return;
       }
 
-      const answerKey: AnnotationRowData[] = answerRowsData.map(
-        (dbRow: any) => ({
+      const answerKeyByImageId: Record<number, AnnotationRowData[]> = {};
+      (answerRowsData || []).forEach((dbRow: any) => {
+        if (!answerKeyByImageId[dbRow.image_id])
+          answerKeyByImageId[dbRow.image_id] = [];
+        answerKeyByImageId[dbRow.image_id].push({
           id: dbRow.client_row_id || `db_id_${dbRow.id}`,
           cells: dbRow.row_data,
-        })
-      );
-
-      setAnswerKeyForReview(answerKey);
-      const result = calculateScore(rows, answerKey);
-      setExamResult(result);
-      setIsResultsModalOpen(true);
+        });
+      });
+      setAnswerKeyForReview(answerKeyByImageId);
     } catch (e: any) {
       addToast({
         type: "error",
-        message: `An unexpected error occurred while calculating score: ${e.message}`,
+        message: `An unexpected error occurred while submitting the exam: ${e.message}`,
       });
     } finally {
       setIsSubmittingToServer(false);
-      setDisplayStatus("");
-    }
-  };
-
-  const handleFinalSubmission = async () => {
-    if (isExamClosingRef.current || !examResult) return;
-    setIsResultsModalOpen(false);
-    setIsSubmittingToServer(true);
-    const submissionSuccessful = await submitAllExamAnnotations();
-    if (submissionSuccessful) {
-      onExamFinish(examResult, "submitted");
-    } else {
-      setIsSubmittingToServer(false);
-      addToast({
-        type: "error",
-        message: `Submission failed. The exam remains open. Please try again or contact support.`,
-      });
     }
   };
 
@@ -489,10 +507,12 @@ const ExamPage: React.FC<ExamPageProps> = ({
     setExamResult(null);
     setAnswerKeyForReview(null);
     if (annotatorDbId) {
-      removeAnnotationsFromLocalStorage(
-        annotatorDbId,
-        exam.id,
-        assignedTask.dbImageId
+      assignedTasks.forEach((task) =>
+        removeAnnotationsFromLocalStorage(
+          annotatorDbId,
+          exam.id,
+          task.dbImageId
+        )
       );
     }
     await onRetake();
@@ -517,6 +537,129 @@ const ExamPage: React.FC<ExamPageProps> = ({
   const emptyCells = totalCells - filledCells;
   const progress =
     totalCells > 0 ? Math.round((filledCells / totalCells) * 100) : 0;
+  // Checked on every image, so slips on images not in view are caught too
+  // Carried values nobody confirmed are listed too, so they are not
+  // submitted by accident
+  const validationIssues = useMemo(
+    () =>
+      assignedTasks.flatMap((task, taskIndex) => {
+        const taskRows = rowsByImageId[task.dbImageId] ?? [];
+        const carriedIssues = taskRows.flatMap((row, rowIndex) =>
+          columnsForCurrentExam
+            .filter(
+              (col) =>
+                carriedCellKeys.has(`${row.id}:${col.id}`) &&
+                String(row.cells[col.id] ?? "").trim() !== ""
+            )
+            .map((col) => ({
+              rowIndex,
+              columnId: col.id,
+              message:
+                "Carried forward from the row above and not confirmed yet.",
+            }))
+        );
+        return [
+          ...validateRows(taskRows, columnsForCurrentExam),
+          ...carriedIssues,
+        ].map((issue) => ({ ...issue, taskIndex }));
+      }),
+    [assignedTasks, rowsByImageId, columnsForCurrentExam, carriedCellKeys]
+  );
+
+  // Give the annotator a chance to fix obvious slips before the attempt is scored
+  const handleSubmitClick = async () => {
+    if (validationIssues.length > 0) {
+      setIsValidationModalOpen(true);
+      return;
+    }
+    await handleInitialSubmit();
+  };
+
+  const focusCell = (taskIndex: number, rowIndex: number, columnId: string) => {
+    setIsValidationModalOpen(false);
+    const colIndex = columnsForCurrentExam.findIndex(
+      (col) => col.id === columnId
+    );
+    setCurrentImageTaskIndex(taskIndex);
+    setActiveRowIndex(rowIndex);
+    // Wait for the table to show the image's rows
+    setTimeout(() => inputRefs.current[rowIndex]?.[colIndex]?.focus(), 0);
+  };
+
+  // The palette follows the language of the row being edited
+  const activeSpecialCharSets = useMemo(
+    () =>
+      getActiveSpecialCharSets(
+        exam.specialCharSets,
+        rows[activeRowIndex ?? 0]?.cells.language
+      ),
+    [exam.specialCharSets, rows, activeRowIndex]
+  );
+
+  // Types a character at the caret of the focused cell
+  const insertSpecialChar = useCallback(
+    (charToInsert: string) => {
+      if (!focusedCellRef.current) {
+        addToast({
+          type: "info",
+          message: "Click a cell first, then pick a character.",
+        });
+        return;
+      }
+      const { rowIndex, colId, inputElement } = focusedCellRef.current;
+      const { selectionStart, selectionEnd, value } = inputElement;
+      if (selectionStart === null || selectionEnd === null) return;
+      const newValue =
+        value.substring(0, selectionStart) +
+        charToInsert +
+        value.substring(selectionEnd);
+      setRowsFromHook((prevRows) =>
+        prevRows.map((row, idx) =>
+          idx === rowIndex
+            ? { ...row, cells: { ...row.cells, [colId]: newValue } }
+            : row
+        )
+      );
+      confirmCarriedCell(`${rows[rowIndex]?.id}:${colId}`);
+      setTimeout(() => {
+        if (inputElement) {
+          inputElement.focus();
+          inputElement.selectionStart = inputElement.selectionEnd =
+            selectionStart + charToInsert.length;
+        }
+      }, 0);
+    },
+    [rows, setRowsFromHook, confirmCarriedCell, addToast]
+  );
+
+  // A key moves to the character it is now given; characters of the offered
+  // sets that had it lose their shortcut, so one chord never means two things
+  const handleRebindSpecialChar = useCallback(
+    (character: SpecialCharacter, key: string) => {
+      setSpecialCharBindings((prev) => {
+        const next = { ...prev, [character.lower]: key };
+        if (key) {
+          activeSpecialCharSets.forEach((set) =>
+            set.characters.forEach((other) => {
+              if (
+                other.lower !== character.lower &&
+                getShortcutKey(other, next) === key
+              )
+                next[other.lower] = "";
+            })
+          );
+        }
+        saveSpecialCharBindings(next);
+        return next;
+      });
+    },
+    [activeSpecialCharSets]
+  );
+
+  const handleResetSpecialCharBindings = useCallback(() => {
+    setSpecialCharBindings({});
+    saveSpecialCharBindings({});
+  }, []);
 
   useEffect(() => {
     const handleGlobalKeyDown = (event: KeyboardEvent) => {
@@ -526,43 +669,168 @@ const ExamPage: React.FC<ExamPageProps> = ({
         event.altKey &&
         focusedCellRef.current
       ) {
-        const charKey = event.key.toLowerCase();
-        if (SPECIAL_CHARS_MAP[charKey]) {
+        const character = findSpecialCharForKey(
+          getActiveSpecialCharSets(
+            exam.specialCharSets,
+            rows[focusedCellRef.current.rowIndex]?.cells.language
+          ),
+          event.key,
+          specialCharBindings
+        );
+        if (character) {
           event.preventDefault();
-          const { lower, upper } = SPECIAL_CHARS_MAP[charKey];
-          const charToInsert = event.shiftKey ? upper : lower;
-          const { rowIndex, colId, inputElement } = focusedCellRef.current;
-          const { selectionStart, selectionEnd, value } = inputElement;
-          if (selectionStart !== null && selectionEnd !== null) {
-            const newValue =
-              value.substring(0, selectionStart) +
-              charToInsert +
-              value.substring(selectionEnd);
-            setRowsFromHook((prevRows) =>
-              prevRows.map((row, idx) =>
-                idx === rowIndex
-                  ? { ...row, cells: { ...row.cells, [colId]: newValue } }
-                  : row
-              )
-            );
-            setTimeout(() => {
-              if (inputElement) {
-                inputElement.focus();
-                inputElement.selectionStart = inputElement.selectionEnd =
-                  selectionStart + 1;
-              }
-            }, 0);
-          }
+          insertSpecialChar(
+            event.shiftKey && character.upper
+              ? character.upper
+              : character.lower
+          );
         }
       }
     };
     document.addEventListener("keydown", handleGlobalKeyDown);
     return () => document.removeEventListener("keydown", handleGlobalKeyDown);
-  }, [toolSettings.specialChars, setRowsFromHook]);
+  }, [
+    toolSettings.specialChars,
+    exam.specialCharSets,
+    rows,
+    specialCharBindings,
+    insertSpecialChar,
+  ]);
 
+  // Ctrl+Z undoes, Ctrl+Y or Ctrl+Shift+Z redoes, in place of the browser's
+  // own undo, which only knows about the focused input
+  useEffect(() => {
+    const handleHistoryKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if (key === "y" || (key === "z" && event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+    document.addEventListener("keydown", handleHistoryKeyDown);
+    return () => document.removeEventListener("keydown", handleHistoryKeyDown);
+  }, [undo, redo]);
+
+  // Spreadsheet keys for the focused cell. Left and Right only leave a cell
+  // once the caret reaches its edge, so they still move within the text.
   const handleTableKeyDown = useCallback(
-    (event: React.KeyboardEvent<HTMLTableSectionElement>) => {},
-    []
+    (event: React.KeyboardEvent<HTMLTableSectionElement>) => {
+      const focused = focusedCellRef.current;
+      if (
+        !focused ||
+        event.target !== focused.inputElement ||
+        event.nativeEvent.isComposing ||
+        event.altKey ||
+        editableColIndexes.length === 0
+      )
+        return;
+      const { rowIndex, inputElement } = focused;
+      const colIndex = columnsForCurrentExam.findIndex(
+        (col) => col.id === focused.colId
+      );
+      const position = editableColIndexes.indexOf(colIndex);
+      const ctrl = event.ctrlKey || event.metaKey;
+      const lastRowIndex = rows.length - 1;
+      const { selectionStart, selectionEnd, value } = inputElement;
+      // Number and date inputs do not expose the caret
+      const caretAtStart =
+        selectionStart === null || (selectionStart === 0 && selectionEnd === 0);
+      const caretAtEnd =
+        selectionStart === null ||
+        (selectionStart === value.length && selectionEnd === value.length);
+
+      let target: { rowIndex: number; colIndex: number } | null = null;
+      switch (event.key) {
+        case "ArrowUp":
+          if (ctrl || event.shiftKey) return;
+          target = { rowIndex: Math.max(0, rowIndex - 1), colIndex };
+          break;
+        case "ArrowDown":
+          if (ctrl || event.shiftKey) return;
+          target = { rowIndex: Math.min(lastRowIndex, rowIndex + 1), colIndex };
+          break;
+        case "ArrowLeft":
+          if (ctrl || event.shiftKey || !caretAtStart || position <= 0) return;
+          target = { rowIndex, colIndex: editableColIndexes[position - 1] };
+          break;
+        case "ArrowRight":
+          if (
+            ctrl ||
+            event.shiftKey ||
+            !caretAtEnd ||
+            position >= editableColIndexes.length - 1
+          )
+            return;
+          target = { rowIndex, colIndex: editableColIndexes[position + 1] };
+          break;
+        case "Home":
+          if (event.shiftKey) return;
+          target = {
+            rowIndex: ctrl ? 0 : rowIndex,
+            colIndex: editableColIndexes[0],
+          };
+          break;
+        case "End":
+          if (event.shiftKey) return;
+          target = {
+            rowIndex: ctrl ? lastRowIndex : rowIndex,
+            colIndex: editableColIndexes[editableColIndexes.length - 1],
+          };
+          break;
+        case "Enter":
+          event.preventDefault();
+          if (ctrl) {
+            handleInsertRowBelow(rowIndex, editableColIndexes[0]);
+            return;
+          }
+          if (event.shiftKey) {
+            target = { rowIndex: Math.max(0, rowIndex - 1), colIndex };
+          } else if (rowIndex === lastRowIndex) {
+            handleAddRow(true);
+            return;
+          } else {
+            target = { rowIndex: rowIndex + 1, colIndex };
+          }
+          break;
+        case "d":
+        case "D":
+          if (!ctrl || event.shiftKey) return;
+          event.preventDefault();
+          handleDittoCell(rowIndex, focused.colId);
+          return;
+        case "Delete":
+          if (!ctrl || !event.shiftKey) return;
+          event.preventDefault();
+          handleDeleteRow(rowIndex);
+          // Stay in the same column of the row that takes its place
+          if (rows.length > 1) {
+            const nextRowIndex = Math.min(rowIndex, lastRowIndex - 1);
+            setActiveRowIndex(nextRowIndex);
+            focusCellAt(nextRowIndex, colIndex);
+          }
+          return;
+        default:
+          return;
+      }
+
+      event.preventDefault();
+      setActiveRowIndex(target.rowIndex);
+      inputRefs.current[target.rowIndex]?.[target.colIndex]?.focus();
+    },
+    [
+      rows.length,
+      columnsForCurrentExam,
+      editableColIndexes,
+      handleAddRow,
+      handleInsertRowBelow,
+      handleDeleteRow,
+      handleDittoCell,
+      focusCellAt,
+    ]
   );
 
   if (!currentTaskForDisplay) {
@@ -579,6 +847,7 @@ const ExamPage: React.FC<ExamPageProps> = ({
     if (displayStatus.startsWith("Error")) return "❌";
     if (displayStatus.startsWith("Draft saved")) return "💾";
     if (displayStatus.startsWith("Draft loaded")) return "📂";
+    if (displayStatus.startsWith("Draft restored")) return "☁️";
     if (displayStatus.startsWith("Unsaved")) return "✏️";
     if (displayStatus.startsWith("Previously")) return "🔄";
     if (displayStatus.startsWith("Calculating")) return "🧮";
@@ -591,6 +860,7 @@ const ExamPage: React.FC<ExamPageProps> = ({
     if (displayStatus.startsWith("Error")) return "bg-red-500";
     if (displayStatus.startsWith("Draft saved")) return "bg-yellow-500";
     if (displayStatus.startsWith("Draft loaded")) return "bg-indigo-500";
+    if (displayStatus.startsWith("Draft restored")) return "bg-indigo-500";
     if (displayStatus.startsWith("Unsaved")) return "bg-orange-500";
     if (displayStatus.startsWith("Previously")) return "bg-purple-500";
     if (displayStatus.startsWith("Calculating")) return "bg-purple-500";
@@ -600,6 +870,10 @@ const ExamPage: React.FC<ExamPageProps> = ({
   const renderResultsModalBody = () => {
     if (!examResult) return <p>Calculating score...</p>;
     const scoreColor = examResult.passed ? "text-green-600" : "text-red-600";
+    const weakestFields = getWeakestFields(
+      examResult.fieldScores || {},
+      columnsForCurrentExam
+    );
     return (
       <div className="text-center">
         <h4 className={`text-5xl font-bold ${scoreColor}`}>
@@ -608,13 +882,54 @@ const ExamPage: React.FC<ExamPageProps> = ({
         <p className="text-lg font-semibold mt-2">
           {examResult.passed ? "🎉 You Passed! 🎉" : "Needs Improvement"}
         </p>
-        <p className="text-sm text-slate-600 mt-2">Passing score is 90%.</p>
+        <p className="text-sm text-slate-600 mt-2">
+          Passing score is {settings.passingScore}%.
+        </p>
+        {examResult.submittedLate && (
+          <p className="text-xs text-red-700 bg-red-50 p-2 rounded-md mt-3">
+            This attempt reached the server after the time limit, so it cannot
+            count as a pass.
+          </p>
+        )}
         <p className="text-xs text-slate-500 mt-4">
-          Your score is based on your accuracy against the answer key. (
-          {examResult.userKeystrokes.toLocaleString()} /{" "}
+          Your score has been recorded and is based on your accuracy against the
+          answer key. ({examResult.userKeystrokes.toLocaleString()} /{" "}
           {examResult.totalKeystrokes.toLocaleString()} correct characters)
         </p>
-        {answerKeyForReview && answerKeyForReview.length > 0 && (
+        {(!!examResult.unmatchedUserRows || !!examResult.unmatchedKeyRows) && (
+          <p className="text-xs text-yellow-700 bg-yellow-50 p-2 rounded-md mt-3">
+            {!!examResult.unmatchedKeyRows &&
+              `${examResult.unmatchedKeyRows} answer-key row(s) had no matching entry in your work. `}
+            {!!examResult.unmatchedUserRows &&
+              `${examResult.unmatchedUserRows} of your row(s) did not match any answer-key row.`}
+          </p>
+        )}
+        {weakestFields.length > 0 && (
+          <div className="mt-4 text-left">
+            <h5 className="text-sm font-semibold text-slate-700 mb-2">
+              Fields to work on
+            </h5>
+            <ul className="space-y-2">
+              {weakestFields.map(({ column, accuracy, score }) => (
+                <li key={column.id} className="text-xs">
+                  <div className="flex justify-between text-slate-600 mb-0.5">
+                    <span className="font-medium">{column.label}</span>
+                    <span>
+                      {accuracy.toFixed(0)}% ({score.matched}/{score.total})
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-amber-500"
+                      style={{ width: `${accuracy}%` }}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {answerKeyForReview && Object.keys(answerKeyForReview).length > 0 && (
           <div className="mt-6 border-t pt-4">
             <button
               onClick={() => {
@@ -724,8 +1039,52 @@ const ExamPage: React.FC<ExamPageProps> = ({
 
   const renderReviewModal = () => {
     if (!answerKeyForReview) return null;
+    const answerKeyRows =
+      answerKeyForReview[currentTaskForDisplay.dbImageId] ?? [];
+
+    // Review the rows the way the server scored them: each submitted row is shown
+    // next to the answer-key row it was aligned with, followed by the answer-key
+    // rows nobody matched and the user rows that matched nothing.
+    const strategy = exam.scoringStrategy;
+    const strategyLabel =
+      SCORING_STRATEGY_OPTIONS.find((option) => option.value === strategy)
+        ?.label || strategy;
+    const submittedRows = rows.filter((row) =>
+      rowHasScorableData(row, columnsForCurrentExam)
+    );
+    const alignment = alignRows(
+      submittedRows,
+      answerKeyRows,
+      strategy,
+      columnsForCurrentExam
+    );
+    const reviewEntries: {
+      key: string;
+      label: string;
+      userRow: AnnotationRowData | null;
+      answerKeyRow: AnnotationRowData | null;
+    }[] = [
+      ...alignment.pairs.map((pair) => ({
+        key: submittedRows[pair.userRowIndex].id,
+        label: `Row ${pair.userRowIndex + 1} → Key ${pair.keyRowIndex + 1}`,
+        userRow: submittedRows[pair.userRowIndex],
+        answerKeyRow: answerKeyRows[pair.keyRowIndex],
+      })),
+      ...alignment.unmatchedKeyRowIndexes.map((keyIdx) => ({
+        key: `missing_${keyIdx}`,
+        label: `Key ${keyIdx + 1} (missing)`,
+        userRow: null,
+        answerKeyRow: answerKeyRows[keyIdx],
+      })),
+      ...alignment.unmatchedUserRowIndexes.map((userIdx) => ({
+        key: submittedRows[userIdx].id,
+        label: `Row ${userIdx + 1} (extra)`,
+        userRow: submittedRows[userIdx],
+        answerKeyRow: null,
+      })),
+    ];
 
-    // Only show annotator's answers, color cells green/red for correct/incorrect
+    // Only show annotator's answers, color cells green/amber/red for full/partial/no credit
     return (
       <Modal
         isOpen={isReviewModalOpen}
@@ -830,6 +1189,35 @@ const ExamPage: React.FC<ExamPageProps> = ({
             </div>
           )}
           <div className="flex-grow overflow-auto max-w-full">
+            {assignedTasks.length > 1 && (
+              <div className="mb-2 flex items-center justify-between text-xs text-slate-600">
+                <button
+                  type="button"
+                  onClick={() => handleNavigateImage(-1)}
+                  disabled={currentImageTaskIndex <= 0}
+                  className="px-3 py-1 rounded bg-slate-100 hover:bg-slate-200 font-semibold border border-slate-200 disabled:opacity-50"
+                >
+                  Previous Image
+                </button>
+                <span>
+                  Image {currentImageTaskIndex + 1} of {assignedTasks.length}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleNavigateImage(1)}
+                  disabled={currentImageTaskIndex >= assignedTasks.length - 1}
+                  className="px-3 py-1 rounded bg-slate-100 hover:bg-slate-200 font-semibold border border-slate-200 disabled:opacity-50"
+                >
+                  Next Image
+                </button>
+              </div>
+            )}
+            <p className="mb-2 text-xs text-slate-500">
+              Scored by <span className="font-semibold">{strategyLabel}</span>.
+              Green cells match the answer key (ignoring extra spaces, and case
+              or month spelling where the column allows it), amber cells earned
+              partial credit, red cells earned none.
+            </p>
             <div className="overflow-x-auto w-full">
               <table className="min-w-full w-max text-xs border-collapse">
                 <thead className="sticky top-0 bg-slate-200 z-20">
@@ -850,54 +1238,73 @@ const ExamPage: React.FC<ExamPageProps> = ({
                   </tr>
                 </thead>
                 <tbody>
-                  {rows.map((row, rowIdx) => {
-                    const answerKeyRow = answerKeyForReview[rowIdx];
-                    return (
-                      <tr key={row.id}>
-                        <td className="px-2 py-1 border-b font-semibold">
-                          Row {rowIdx + 1}
-                        </td>
-                        {columnsForCurrentExam.map((col) => {
-                          const userValue = row.cells[col.id] || "";
-                          const answerValue = answerKeyRow
-                            ? answerKeyRow.cells[col.id] || ""
-                            : "";
-                          // Only color if answer key exists for this row
-                          let cellColor = "";
-                          if (answerKeyRow) {
-                            if (userValue === answerValue) {
-                              cellColor = "bg-green-100 text-green-700";
-                            } else {
-                              cellColor = "bg-red-100 text-red-700";
-                            }
-                          }
-                          return (
-                            <td
-                              key={col.id}
-                              className={`px-2 py-1 border-b whitespace-pre-line ${cellColor}`}
-                            >
-                              {userValue === "" ? (
-                                <span className="text-slate-400">(empty)</span>
-                              ) : (
-                                userValue
-                              )}
-                            </td>
+                  {reviewEntries.map((entry) => (
+                    <tr key={entry.key}>
+                      <td className="px-2 py-1 border-b font-semibold whitespace-nowrap">
+                        {entry.label}
+                      </td>
+                      {columnsForCurrentExam.map((col) => {
+                        const userValue = String(
+                          entry.userRow?.cells[col.id] ?? ""
+                        );
+                        const answerValue = String(
+                          entry.answerKeyRow?.cells[col.id] ?? ""
+                        );
+                        // Unmatched rows have nothing to compare against and are all wrong
+                        let cellColor = "bg-red-100 text-red-700";
+                        let cellTitle: string | undefined;
+                        if (!isScoredColumn(col.id, columnsForCurrentExam)) {
+                          cellColor = "bg-slate-50 text-slate-600";
+                          cellTitle = "Not scored";
+                        } else if (entry.userRow && entry.answerKeyRow) {
+                          // Compare normalized values, so spacing, case or month
+                          // spelling differences the column ignores stay green
+                          const { credited, possible, isMatch } = scoreCell(
+                            userValue,
+                            answerValue,
+                            strategy,
+                            col
                           );
-                        })}
-                      </tr>
-                    );
-                  })}
+                          if (isMatch) {
+                            cellColor = "bg-green-100 text-green-700";
+                          } else if (credited > 0) {
+                            cellColor = "bg-amber-100 text-amber-700";
+                          }
+                          if (possible > 0) {
+                            cellTitle = `${credited} of ${possible} characters credited`;
+                          }
+                        }
+                        return (
+                          <td
+                            key={col.id}
+                            className={`px-2 py-1 border-b whitespace-pre-line ${cellColor}`}
+                            title={cellTitle}
+                          >
+                            {!entry.userRow ? (
+                              <span className="text-red-400">(missing)</span>
+                            ) : userValue === "" ? (
+                              <span className="text-slate-400">(empty)</span>
+                            ) : (
+                              userValue
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
                 </tbody>
               </table>
             </div>
-            {rows.length < answerKeyForReview.length && (
+            {alignment.unmatchedKeyRowIndexes.length > 0 && (
               <p className="mt-4 text-sm text-center text-yellow-600 bg-yellow-50 p-2 rounded-md">
-                You submitted fewer rows than the answer key.
+                {alignment.unmatchedKeyRowIndexes.length} answer-key row(s) had
+                no matching row in your submission.
               </p>
             )}
-            {rows.length > answerKeyForReview.length && (
+            {alignment.unmatchedUserRowIndexes.length > 0 && (
               <p className="mt-4 text-sm text-center text-yellow-600 bg-yellow-50 p-2 rounded-md">
-                You submitted more rows than the answer key.
+                {alignment.unmatchedUserRowIndexes.length} of your row(s) did
+                not match any answer-key row.
               </p>
             )}
           </div>
@@ -916,11 +1323,17 @@ const ExamPage: React.FC<ExamPageProps> = ({
         onToolSettingChange={handleToolSettingChange}
         rowsCount={rows.length}
         progress={progress}
+        validationIssueCount={validationIssues.length}
         timeLeft={timeLeft}
-        onSubmit={handleInitialSubmit}
+        onSubmit={handleSubmitClick}
         isSubmittingToServer={isSubmittingToServer}
         currentTaskForDisplay={currentTaskForDisplay}
         displayStatus={displayStatus}
+        autosave={autosave}
+        onUndo={undo}
+        onRedo={redo}
+        canUndo={canUndo}
+        canRedo={canRedo}
         isRetakeSession={!!completionToOverride}
         onCancelRetakeClick={onCancelRetake}
       />
@@ -937,7 +1350,19 @@ const ExamPage: React.FC<ExamPageProps> = ({
           imageLoading={imageLoading}
           toolSettings={{ guideLine: toolSettings.guideLine }}
           examName={exam.name}
+          allImageTasks={assignedTasks}
+          currentImageTaskIndex={currentImageTaskIndex}
+          onNavigateImage={handleNavigateImage}
         />
+        {toolSettings.specialChars && (
+          <SpecialCharPalette
+            sets={activeSpecialCharSets}
+            bindings={specialCharBindings}
+            onInsert={insertSpecialChar}
+            onRebind={handleRebindSpecialChar}
+            onResetBindings={handleResetSpecialCharBindings}
+          />
+        )}
         <AnnotationTable
           examName={exam.name}
           rows={rows}
@@ -956,23 +1381,20 @@ const ExamPage: React.FC<ExamPageProps> = ({
           emptyCells={emptyCells}
           currentTaskForDisplay={currentTaskForDisplay}
           onTableKeyDown={handleTableKeyDown}
+          carryForwardColumnIds={carryForwardColumnIds}
+          onToggleCarryForward={handleToggleCarryForward}
+          carriedCellKeys={carriedCellKeys}
         />
       </div>
       <Modal
         isOpen={isResultsModalOpen}
-        onClose={() =>
-          examResult && !examResult.passed
-            ? setIsResultsModalOpen(true)
-            : setIsResultsModalOpen(false)
-        }
+        onClose={() => setIsResultsModalOpen(true)}
         title="Exam Results"
-        confirmText="Submit Final Score"
-        onConfirm={handleFinalSubmission}
-        cancelText={examResult && !examResult.passed ? "Retake Exam" : "Close"}
+        confirmText="Return to Dashboard"
+        onConfirm={onExamClose}
+        cancelText={examResult && !examResult.passed ? "Retake Exam" : ""}
         onCancelSecondary={
-          examResult && !examResult.passed
-            ? handleRetakeFromModal
-            : () => setIsResultsModalOpen(false)
+          examResult && !examResult.passed ? handleRetakeFromModal : undefined
         }
         secondaryButtonClass={
           examResult && !examResult.passed
@@ -983,6 +1405,62 @@ const ExamPage: React.FC<ExamPageProps> = ({
         {renderResultsModalBody()}
       </Modal>
       {renderReviewModal()}
+      <Modal
+        isOpen={isValidationModalOpen}
+        onClose={() => setIsValidationModalOpen(false)}
+        title="Check Before Submitting"
+        confirmText="Submit Anyway"
+        onConfirm={() => {
+          setIsValidationModalOpen(false);
+          handleInitialSubmit();
+        }}
+        cancelText="Keep Editing"
+      >
+        <div className="text-sm text-slate-600 text-left space-y-3">
+          <p>
+            {validationIssues.length} cell(s) do not look right. Mistakes here
+            can cost you points once the exam is scored.
+          </p>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-slate-200 border border-slate-200 rounded-md">
+            {validationIssues.map((issue) => {
+              const column = columnsForCurrentExam.find(
+                (col) => col.id === issue.columnId
+              );
+              const issueRows =
+                rowsByImageId[assignedTasks[issue.taskIndex].dbImageId] ?? [];
+              const value = String(
+                issueRows[issue.rowIndex]?.cells[issue.columnId] ?? ""
+              ).trim();
+              return (
+                <li
+                  key={`${issue.taskIndex}-${issue.rowIndex}-${issue.columnId}`}
+                >
+                  <button
+                    type="button"
+                    onClick={() =>
+                      focusCell(issue.taskIndex, issue.rowIndex, issue.columnId)
+                    }
+                    className="w-full px-3 py-2 text-left hover:bg-amber-50"
+                  >
+                    <span className="font-medium text-slate-800">
+                      {assignedTasks.length > 1 &&
+                        `Image ${issue.taskIndex + 1}, `}
+                      Row {issue.rowIndex + 1},{" "}
+                      {column?.label ?? issue.columnId}
+                    </span>
+                    {value && (
+                      <span className="ml-1 text-slate-500">"{value}"</span>
+                    )}
+                    <span className="block text-xs text-amber-700">
+                      {issue.message}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </Modal>
       <Modal
         isOpen={isHelpModalOpen}
         onClose={() => setIsHelpModalOpen(false)}
@@ -996,33 +1474,92 @@ const ExamPage: React.FC<ExamPageProps> = ({
             sliders. Click and drag the image to move it. The 'Reset' button
             restores the default view.
           </p>
+          {assignedTasks.length > 1 && (
+            <p>
+              <strong>Images:</strong> This exam has {assignedTasks.length}{" "}
+              images. Use the arrows above the image to move between them. Each
+              image has its own rows, and your score covers all of them.
+            </p>
+          )}
           <p>
             <strong>Back to Dashboard:</strong> You can return to the dashboard
             at any time. Your exam timer will continue to run in the background.
+            If you have to change computers, sign in on the new one and resume
+            the exam from the dashboard.
+          </p>
+          <p>
+            <strong>Saving:</strong> Your work is saved automatically a few
+            seconds after you stop typing. The time of the last save is shown
+            next to the progress in the header.
           </p>
           <p>
             <strong>Data Entry:</strong> Click a cell to edit. Use 'Tab' to
             navigate between cells. Pressing 'Tab' in the last cell of the last
             row automatically adds a new row.
           </p>
+          <div>
+            <strong>Keyboard Shortcuts:</strong>
+            <ul className="list-disc list-inside mt-1 space-y-0.5">
+              <li>
+                Arrow keys: move between cells. Left and Right first move
+                through the text in the cell.
+              </li>
+              <li>
+                Enter: move down a row, adding a new row at the bottom.
+                Shift+Enter moves up.
+              </li>
+              <li>
+                Home / End: first or last cell of the row. Add Ctrl for the
+                first or last row.
+              </li>
+              <li>Ctrl+Enter: insert an empty row below the current one.</li>
+              <li>Ctrl+Shift+Delete: delete the current row.</li>
+              <li>Ctrl+D: copy the value of the cell above (ditto).</li>
+            </ul>
+          </div>
+          <p>
+            <strong>Carry Forward:</strong> Click the arrow next to a column
+            name to have new rows start with the value of the row above in that
+            column. Carried values are shown in blue italics until you type in
+            the cell or press Ctrl+D to keep them, and unconfirmed ones are
+            listed before you submit.
+          </p>
           <p>
-            <strong>Special Characters:</strong> Enable 'Special Chars', then
-            use Ctrl+Alt+[key] (e.g., Ctrl+Alt+a for 'á'). Add Shift for
-            uppercase (e.g., Ctrl+Alt+Shift+a for 'Á').
+            <strong>Undo and Redo:</strong> Ctrl+Z undoes your last change,
+            including deleted rows, and Ctrl+Y redoes it. The arrow buttons in
+            the header do the same.
+          </p>
+          <p>
+            <strong>Special Characters:</strong> Enable 'Special Chars' to show
+            the character palette above the table. Click a character to type it
+            into the current cell, or Shift+click for its capital. Each
+            character also has a shortcut, shown next to it: use Ctrl+Alt+[key]
+            (e.g., Ctrl+Alt+a for 'á'), and add Shift for uppercase. The palette
+            shows the characters for the language of the current row. Click
+            'Edit shortcuts' to choose your own keys; they are kept in this
+            browser.
           </p>
           <p>
             <strong>First Char Capslock:</strong> Automatically capitalizes the
             first letter of any new word you type in a cell.
           </p>
           <p>
-            <strong>Submit & Close Exam:</strong> This will first show you your
-            score. You can then choose to submit it permanently or retake with a
-            new image if you failed.
+            <strong>Field Checks:</strong> Day, month, year, age and code
+            columns check what you type. A red cell does not fit its field;
+            hover over it to see why. Before submitting you get a list of these
+            warnings so you can fix them first.
+          </p>
+          <p>
+            <strong>Submit & Close Exam:</strong> This submits your work and
+            records your score permanently. If you failed, you can then retake
+            the exam with new images.
           </p>
           <p>
             <strong>Timer:</strong> You have {examDurationInMinutes} minutes to
             complete the exam. If the timer runs out, your work will be
-            automatically submitted, and the exam will be closed.
+            automatically submitted, and the exam will be closed. The timer
+            follows the server clock, so reloading the page or changing the
+            system clock does not add time.
           </p>
           <p>
             <strong>Drafts:</strong> Unsaved changes are automatically saved as
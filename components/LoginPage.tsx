@@ -1,33 +1,108 @@
 import React, { useState } from "react";
-import { USER_ID_PREFIXES } from "../constants";
+import { AnnotatorSignInStatus } from "../types";
+import { useSites } from "../contexts/SitesContext";
 
 interface LoginPageProps {
-  onLogin: (userId: string) => void;
+  onLogin: (
+    userId: string,
+    secret: string,
+    newPin?: string
+  ) => Promise<AnnotatorSignInStatus | null>;
 }
 
+const SIGN_IN_ERRORS: Partial<Record<AnnotatorSignInStatus, string>> = {
+  invalid:
+    "Incorrect PIN. Signing in for the first time? Use the login code from your coordinator.",
+  not_rostered:
+    "This user ID is not on the roster. Check the ID, or ask your coordinator to add you.",
+  locked:
+    "Too many failed attempts. Please wait 15 minutes before trying again.",
+};
+
+const inputClass =
+  "block w-full px-4 py-3 border border-slate-600 rounded-lg shadow-sm bg-slate-700 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm transition-colors";
+
 const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
-  const [selectedPrefix, setSelectedPrefix] = useState(USER_ID_PREFIXES[0]);
+  const { activeSites, isLoading: isLoadingSites } = useSites();
+  const [selectedPrefix, setSelectedPrefix] = useState("");
   const [numericId, setNumericId] = useState("");
+  const [secret, setSecret] = useState("");
+  // Set once a valid login code has been entered and a PIN must be chosen
+  const [isChoosingPin, setIsChoosingPin] = useState(false);
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
 
+  // Until a site is picked, the first active one is shown as selected
+  const selectedSite =
+    activeSites.find((site) => site.userIdPrefix === selectedPrefix) ??
+    activeSites[0];
+  const minDigits = selectedSite?.idMinDigits ?? 3;
+  const maxDigits = selectedSite?.idMaxDigits ?? 4;
+  const digitsLabel =
+    minDigits === maxDigits
+      ? `${minDigits}`
+      : maxDigits - minDigits === 1
+      ? `${minDigits} or ${maxDigits}`
+      : `${minDigits} to ${maxDigits}`;
+
   const handleNumericInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
-    // Allow only numbers by stripping non-digit characters and limit to 4 digits
-    const numericValue = value.replace(/\D/g, "").slice(0, 4);
+    // Allow only numbers by stripping non-digit characters and limit to the site's length
+    const numericValue = value.replace(/\D/g, "").slice(0, maxDigits);
     setNumericId(numericValue);
-    if (error) setError("");
+    handleCredentialsChange();
   };
 
-  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    if (!selectedSite) {
+      setError(
+        "No sites are open for sign-in. Please contact your coordinator."
+      );
+      return;
+    }
     const idLength = numericId.trim().length;
-    if (idLength < 3 || idLength > 4) {
-      setError("Please enter 3 or 4 digits for your ID.");
+    if (idLength < minDigits || idLength > maxDigits) {
+      setError(`Please enter ${digitsLabel} digits for your ID.`);
       return;
     }
+    if (secret.trim() === "") {
+      setError("Please enter your PIN or login code.");
+      return;
+    }
+    if (isChoosingPin) {
+      if (!/^\d{4,8}$/.test(newPin)) {
+        setError("Your PIN must be 4 to 8 digits.");
+        return;
+      }
+      if (newPin !== confirmPin) {
+        setError("The PINs do not match.");
+        return;
+      }
+    }
     setError("");
-    const finalUserId = `${selectedPrefix}${numericId.trim()}`;
-    onLogin(finalUserId);
+    const finalUserId = `${selectedSite.userIdPrefix}${numericId.trim()}`;
+    setIsSubmitting(true);
+    const status = await onLogin(
+      finalUserId,
+      secret,
+      isChoosingPin ? newPin : undefined
+    );
+    setIsSubmitting(false);
+    if (status === "pin_required") {
+      setIsChoosingPin(true);
+    } else if (status && SIGN_IN_ERRORS[status]) {
+      setError(SIGN_IN_ERRORS[status]!);
+      setIsChoosingPin(false);
+    }
+  };
+
+  const handleCredentialsChange = () => {
+    // A different ID or code has to be checked again before choosing a PIN
+    setIsChoosingPin(false);
+    if (error) setError("");
   };
 
   return (
@@ -64,18 +139,23 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
               <select
                 id="userIdPrefix"
                 name="userIdPrefix"
-                value={selectedPrefix}
-                onChange={(e) => setSelectedPrefix(e.target.value)}
+                value={selectedSite?.userIdPrefix ?? ""}
+                onChange={(e) => {
+                  setSelectedPrefix(e.target.value);
+                  setNumericId("");
+                  handleCredentialsChange();
+                }}
+                disabled={isLoadingSites || activeSites.length === 0}
                 className="block w-auto px-3 py-3 border border-r-0 border-slate-600 rounded-l-lg bg-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm transition-colors"
                 aria-label="User ID Prefix"
               >
-                {USER_ID_PREFIXES.map((prefix) => (
+                {activeSites.map((site) => (
                   <option
-                    key={prefix}
-                    value={prefix}
+                    key={site.id}
+                    value={site.userIdPrefix}
                     className="text-black bg-white"
                   >
-                    {prefix}
+                    {site.userIdPrefix}
                   </option>
                 ))}
               </select>
@@ -85,32 +165,102 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
                 type="text" // Use text to control input via regex
                 pattern="[0-9]*" // Helps with mobile keyboards
                 inputMode="numeric" // Also helps with mobile keyboards
-                maxLength={4}
+                maxLength={maxDigits}
                 value={numericId}
                 onChange={handleNumericInputChange}
-                placeholder="Enter your 3 or 4-digit number"
+                placeholder={`Enter your ${digitsLabel}-digit number`}
                 className="block w-full px-4 py-3 border border-slate-600 rounded-r-lg shadow-sm bg-slate-700 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm transition-colors"
                 aria-required="true"
                 aria-describedby={error ? "userId-error" : undefined}
               />
             </div>
-            {error && (
-              <p id="userId-error" className="mt-2 text-xs text-red-600">
-                {error}
-              </p>
-            )}
+            {selectedSite &&
+              selectedSite.displayName !== selectedSite.userIdPrefix && (
+                <p className="mt-1 text-xs text-slate-500">
+                  {selectedSite.displayName}
+                  {selectedSite.location && ` · ${selectedSite.location}`}
+                </p>
+              )}
+          </div>
+          <div>
+            <label
+              htmlFor="secret"
+              className="block text-sm font-medium text-slate-700 mb-1"
+            >
+              PIN or Login Code
+            </label>
+            <input
+              id="secret"
+              name="secret"
+              type="password"
+              autoComplete="current-password"
+              value={secret}
+              onChange={(e) => {
+                setSecret(e.target.value);
+                handleCredentialsChange();
+              }}
+              placeholder="Enter your PIN, or the code from your coordinator"
+              className={inputClass}
+              aria-required="true"
+            />
           </div>
+          {isChoosingPin && (
+            <div className="space-y-4 p-4 bg-blue-50 rounded-lg">
+              <p className="text-sm text-slate-700">
+                Welcome! Choose a PIN of 4 to 8 digits. You will use it instead
+                of the login code from now on.
+              </p>
+              <input
+                id="newPin"
+                name="newPin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                maxLength={8}
+                value={newPin}
+                onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ""))}
+                placeholder="New PIN"
+                className={inputClass}
+                aria-label="New PIN"
+              />
+              <input
+                id="confirmPin"
+                name="confirmPin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                maxLength={8}
+                value={confirmPin}
+                onChange={(e) =>
+                  setConfirmPin(e.target.value.replace(/\D/g, ""))
+                }
+                placeholder="Repeat the new PIN"
+                className={inputClass}
+                aria-label="Repeat the new PIN"
+              />
+            </div>
+          )}
+          {error && (
+            <p id="userId-error" className="text-xs text-red-600">
+              {error}
+            </p>
+          )}
           <div>
             <button
               type="submit"
-              className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-transform transform hover:scale-102 active:scale-98"
+              disabled={isSubmitting}
+              className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-transform transform hover:scale-102 active:scale-98 disabled:opacity-60"
             >
-              Login
+              {isSubmitting
+                ? "Signing in..."
+                : isChoosingPin
+                ? "Save PIN and Login"
+                : "Login"}
             </button>
           </div>
         </form>
         <p className="mt-8 text-xs text-center text-slate-500">
-          Annotation assignments will be available after login.
+          Forgot your PIN? Ask your coordinator for a new login code.
         </p>
       </div>
     </div>
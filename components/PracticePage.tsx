@@ -0,0 +1,365 @@
+import React, {
+  useState,
+  useCallback,
+  useMemo,
+  useEffect,
+  useRef,
+} from "react";
+import {
+  AnnotationRowData,
+  AnnotationCellData,
+  ImageSettings,
+  ImageTask,
+  PracticePageProps,
+} from "../types";
+import { STORAGE_BUCKET_NAME } from "../constants";
+import { generateRowId, pickRandomItems } from "../utils/examUtils";
+import { getCellFeedback } from "../utils/scoringUtils";
+import ImageViewer from "./exam/ImageViewer";
+import AnnotationTable from "./exam/AnnotationTable";
+import { supabase } from "../utils/supabase/client";
+import { formatSupabaseError } from "../utils/errorUtils";
+import { useToast } from "../contexts/ToastContext";
+
+const initialImageSettings: ImageSettings = {
+  zoom: 20,
+  contrast: 100,
+  brightness: 100,
+  position: { x: 0, y: -30 },
+};
+
+// Practice runs on practice images only. Nothing typed here is saved: there
+// is no timer, no draft and no attempt, and each cell is checked against the
+// answer key as soon as the annotator leaves it.
+const PracticePage: React.FC<PracticePageProps> = ({
+  exam,
+  onBackToDashboard,
+}) => {
+  const columnsForCurrentExam = useMemo(() => exam.columns, [exam.columns]);
+  const { addToast } = useToast();
+
+  const [practiceTasks, setPracticeTasks] = useState<ImageTask[] | null>(null);
+  const [currentTask, setCurrentTask] = useState<ImageTask | undefined>();
+  const [answerKeyRows, setAnswerKeyRows] = useState<AnnotationRowData[]>([]);
+  const [rows, setRows] = useState<AnnotationRowData[]>([]);
+  // Cells the annotator has left, as `${rowId}:${columnId}`
+  const [completedCells, setCompletedCells] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [imageLoading, setImageLoading] = useState(false);
+  const [imageSettings, setImageSettings] =
+    useState<ImageSettings>(initialImageSettings);
+  const [activeRowIndex, setActiveRowIndex] = useState<number | null>(null);
+
+  const inputRefs = useRef<(HTMLInputElement | null)[][]>([]);
+  const focusedCellRef = useRef<{
+    rowIndex: number;
+    colId: string;
+    inputElement: HTMLInputElement;
+  } | null>(null);
+
+  const createEmptyRow = useCallback(
+    (task: ImageTask): AnnotationRowData => {
+      const cells: AnnotationCellData = {};
+      columnsForCurrentExam.forEach((col) => (cells[col.id] = ""));
+      cells["image_ref"] = task.original_filename || task.storage_path;
+      return { id: generateRowId(), cells };
+    },
+    [columnsForCurrentExam]
+  );
+
+  const startImage = useCallback(
+    async (task: ImageTask) => {
+      setImageLoading(true);
+      setCurrentTask(task);
+      setRows([createEmptyRow(task)]);
+      setCompletedCells(new Set());
+      setAnswerKeyRows([]);
+      setActiveRowIndex(0);
+      setImageSettings(initialImageSettings);
+      try {
+        const { data, error } = await supabase.rpc("get_practice_answer_key", {
+          p_image_id: task.dbImageId,
+        });
+        if (error) throw error;
+        setAnswerKeyRows(
+          (data || []).map((dbRow: any) => ({
+            id: dbRow.client_row_id || `db_id_${dbRow.id}`,
+            cells: dbRow.row_data,
+          }))
+        );
+      } catch (e: any) {
+        addToast({
+          type: "error",
+          message: `Could not load the answer key for this image: ${
+            formatSupabaseError(e).message
+          }`,
+        });
+      } finally {
+        setImageLoading(false);
+      }
+    },
+    [createEmptyRow, addToast]
+  );
+
+  // Another image from the pool, avoiding the one just practiced when possible
+  const handleNextImage = useCallback(
+    (tasks: ImageTask[]) => {
+      const candidates =
+        tasks.length > 1
+          ? tasks.filter((task) => task.dbImageId !== currentTask?.dbImageId)
+          : tasks;
+      const [nextTask] = pickRandomItems(candidates, 1);
+      if (nextTask) startImage(nextTask);
+    },
+    [currentTask, startImage]
+  );
+
+  useEffect(() => {
+    const loadPracticeImages = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("images")
+          .select("id, storage_path, original_filename, exam_id")
+          .eq("exam_id", exam.dbId)
+          .eq("is_practice", true);
+        if (error) throw error;
+        const tasks: ImageTask[] = (data || []).map((image: any) => ({
+          ...image,
+          dbImageId: image.id,
+        }));
+        setPracticeTasks(tasks);
+        const [firstTask] = pickRandomItems(tasks, 1);
+        if (firstTask) startImage(firstTask);
+      } catch (e: any) {
+        addToast({
+          type: "error",
+          message: `Could not load practice images: ${
+            formatSupabaseError(e).message
+          }`,
+        });
+        setPracticeTasks([]);
+      }
+    };
+    loadPracticeImages();
+    // Only when the exam changes; startImage changes with every image
+  }, [exam.dbId]);
+
+  const currentImageUrl = useMemo(() => {
+    if (!currentTask) return null;
+    const { data: urlData } = supabase.storage
+      .from(STORAGE_BUCKET_NAME)
+      .getPublicUrl(currentTask.storage_path);
+    return urlData?.publicUrl || null;
+  }, [currentTask]);
+
+  const cellFeedback = useMemo(
+    () =>
+      getCellFeedback(
+        rows,
+        answerKeyRows,
+        completedCells,
+        exam.scoringStrategy,
+        columnsForCurrentExam
+      ),
+    [
+      rows,
+      answerKeyRows,
+      completedCells,
+      exam.scoringStrategy,
+      columnsForCurrentExam,
+    ]
+  );
+  const feedbackValues = Object.values(cellFeedback);
+  const matchedCount = feedbackValues.filter((f) => f === "match").length;
+
+  const handleCellChange = useCallback(
+    (rowIndex: number, columnId: string, value: string) => {
+      const rowId = rows[rowIndex]?.id;
+      setRows((prevRows) =>
+        prevRows.map((row, idx) =>
+          idx === rowIndex
+            ? { ...row, cells: { ...row.cells, [columnId]: value } }
+            : row
+        )
+      );
+      // A cell being edited again waits until it is left to be checked
+      setCompletedCells((prev) => {
+        const cellKey = `${rowId}:${columnId}`;
+        if (!prev.has(cellKey)) return prev;
+        const next = new Set(prev);
+        next.delete(cellKey);
+        return next;
+      });
+    },
+    [rows]
+  );
+
+  const handleCellBlur = useCallback(
+    (rowIndex: number, columnId: string) => {
+      const rowId = rows[rowIndex]?.id;
+      if (!rowId) return;
+      setCompletedCells((prev) => new Set(prev).add(`${rowId}:${columnId}`));
+    },
+    [rows]
+  );
+
+  const handleAddRow = useCallback(
+    (focusNewRow = true) => {
+      if (!currentTask) return;
+      const newRowIndex = rows.length;
+      setRows((prevRows) => [...prevRows, createEmptyRow(currentTask)]);
+      setActiveRowIndex(newRowIndex);
+      if (focusNewRow) {
+        const firstEditableColIndex = Math.max(
+          0,
+          columnsForCurrentExam.findIndex((col) => col.id !== "image_ref")
+        );
+        setTimeout(
+          () =>
+            inputRefs.current[newRowIndex]?.[firstEditableColIndex]?.focus(),
+          0
+        );
+      }
+    },
+    [rows.length, currentTask, createEmptyRow, columnsForCurrentExam]
+  );
+
+  const handleDeleteRow = useCallback(
+    (rowIndexToDelete: number) => {
+      if (rows.length <= 1) {
+        addToast({
+          type: "warning",
+          message: "Cannot delete the last remaining row.",
+        });
+        return;
+      }
+      setRows((prevRows) =>
+        prevRows.filter((_, idx) => idx !== rowIndexToDelete)
+      );
+      setActiveRowIndex(Math.max(0, rowIndexToDelete - 1));
+    },
+    [rows.length, addToast]
+  );
+
+  const filledCells = rows.reduce(
+    (acc, row) =>
+      acc +
+      Object.values(row.cells).filter(
+        (cell) => (cell?.toString() || "").trim() !== ""
+      ).length,
+    0
+  );
+  const emptyCells = rows.length * columnsForCurrentExam.length - filledCells;
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-100 overflow-hidden">
+      <header className="bg-slate-50 border-b border-slate-300 px-2 sm:px-4 py-2 flex flex-col sm:flex-row items-start sm:items-center justify-between shadow-sm flex-shrink-0 gap-2 sm:gap-0">
+        <div className="flex flex-wrap items-center space-x-2 sm:space-x-3">
+          <button
+            onClick={onBackToDashboard}
+            className="px-3 py-2 rounded-md transition-colors text-sm text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Back to Dashboard
+          </button>
+          <span className="text-sm text-slate-600">
+            Practice:{" "}
+            <span className="font-medium text-slate-800">{exam.name}</span>
+          </span>
+          <span className="px-2 py-0.5 text-xs font-medium text-slate-600 bg-slate-200 rounded-full">
+            Not recorded
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center space-x-2 sm:space-x-3 text-sm">
+          <span className="flex items-center text-slate-600">
+            <span className="inline-block w-2.5 h-2.5 bg-green-100 border border-green-500 rounded-sm mr-1" />
+            Match
+          </span>
+          <span className="flex items-center text-slate-600">
+            <span className="inline-block w-2.5 h-2.5 bg-amber-100 border border-amber-500 rounded-sm mr-1" />
+            Partial
+          </span>
+          <span className="flex items-center text-slate-600">
+            <span className="inline-block w-2.5 h-2.5 bg-red-100 border border-red-500 rounded-sm mr-1" />
+            Wrong
+          </span>
+          <span className="text-slate-600" aria-live="polite">
+            | {matchedCount} of {feedbackValues.length} checked cells match
+          </span>
+          <button
+            onClick={() => practiceTasks && handleNextImage(practiceTasks)}
+            disabled={
+              !practiceTasks || practiceTasks.length === 0 || imageLoading
+            }
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors text-sm disabled:opacity-50"
+          >
+            New Image
+          </button>
+        </div>
+      </header>
+
+      {practiceTasks === null ? (
+        <div className="flex-grow flex items-center justify-center">
+          <p className="text-slate-500">Loading practice images...</p>
+        </div>
+      ) : practiceTasks.length === 0 ? (
+        <div className="flex-grow flex items-center justify-center">
+          <p className="text-slate-500 text-center max-w-md">
+            There are no practice images for this exam yet. Please check back
+            later.
+          </p>
+        </div>
+      ) : (
+        <div className="flex-grow flex flex-col p-1 sm:p-2 gap-1 sm:gap-2 overflow-hidden">
+          <ImageViewer
+            imageSettings={imageSettings}
+            onImageSettingChange={(setting, value) =>
+              setImageSettings((prev) => ({
+                ...prev,
+                [setting]: Math.max(0, Math.min(200, value)),
+              }))
+            }
+            onImageZoomChange={(value) =>
+              setImageSettings((prev) => ({
+                ...prev,
+                zoom: Math.max(10, Math.min(300, value)),
+              }))
+            }
+            onImagePositionChange={(position) =>
+              setImageSettings((prev) => ({ ...prev, position }))
+            }
+            onResetImageSettings={() => setImageSettings(initialImageSettings)}
+            currentImageUrl={currentImageUrl}
+            currentTaskForDisplay={currentTask}
+            imageLoading={imageLoading}
+            toolSettings={{ guideLine: false }}
+            examName={exam.name}
+          />
+          <AnnotationTable
+            examName={exam.name}
+            rows={rows}
+            columns={columnsForCurrentExam}
+            activeRowIndex={activeRowIndex}
+            onSetActiveRowIndex={setActiveRowIndex}
+            onCellChange={handleCellChange}
+            onAddRow={handleAddRow}
+            onDeleteRow={handleDeleteRow}
+            inputRefs={inputRefs}
+            focusedCellRef={focusedCellRef}
+            displayStatus=""
+            getDisplayStatusIcon={() => ""}
+            getDisplayStatusColor={() => ""}
+            filledCells={filledCells}
+            emptyCells={emptyCells}
+            currentTaskForDisplay={currentTask}
+            onTableKeyDown={() => {}}
+            cellFeedback={cellFeedback}
+            onCellBlur={handleCellBlur}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticePage;
@@ -3,9 +3,13 @@ import React, { useState, useEffect, useCallback } from "react";
 import { supabase } from "../utils/supabase/client";
 import { UserExamScore } from "../types";
 import { formatSupabaseError } from "../utils/errorUtils";
+import { useExamCatalog } from "../contexts/ExamCatalogContext";
+import { getExamSettings } from "../utils/examUtils";
+import { DEFAULT_PASSING_SCORE } from "../constants";
 
 interface UserScoresTabProps {
   annotatorDbId: number;
+  userId: string;
 }
 
 const formatDuration = (totalSeconds?: number): string => {
@@ -19,7 +23,11 @@ const formatDuration = (totalSeconds?: number): string => {
     .padStart(2, "0")}`;
 };
 
-const UserScoresTab: React.FC<UserScoresTabProps> = ({ annotatorDbId }) => {
+const UserScoresTab: React.FC<UserScoresTabProps> = ({
+  annotatorDbId,
+  userId,
+}) => {
+  const { getExam } = useExamCatalog();
   const [scores, setScores] = useState<UserExamScore[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -36,7 +44,7 @@ const UserScoresTab: React.FC<UserScoresTabProps> = ({ annotatorDbId }) => {
           `
             id, exam_id, completed_at, retake_count, duration_seconds,
             total_effective_keystrokes, total_answer_key_keystrokes,
-            score_percentage,
+            score_percentage, submitted_late,
             exams ( exam_code, name )
         `
         )
@@ -81,6 +89,7 @@ const UserScoresTab: React.FC<UserScoresTabProps> = ({ annotatorDbId }) => {
             ? new Date(score.completed_at).toLocaleString()
             : "N/A",
           retake_count: score.retake_count || 0,
+          submitted_late: !!score.submitted_late,
         };
       });
       setScores(
@@ -102,6 +111,13 @@ const UserScoresTab: React.FC<UserScoresTabProps> = ({ annotatorDbId }) => {
     }
   }, [fetchScores, annotatorDbId]);
 
+  const passingScoreFor = (score: UserExamScore): number => {
+    const exam = getExam(score.exam_code);
+    return exam
+      ? getExamSettings(exam, userId).passingScore
+      : DEFAULT_PASSING_SCORE;
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center items-center py-10">
@@ -217,7 +233,8 @@ const UserScoresTab: React.FC<UserScoresTabProps> = ({ annotatorDbId }) => {
                   {score.total_answer_key_keystrokes > 0 ? (
                     <span
                       className={`font-bold px-2 py-1 rounded-full text-xs ${
-                        score.percentage_score! >= 90
+                        !score.submitted_late &&
+                        score.percentage_score! >= passingScoreFor(score)
                           ? "bg-green-100 text-green-700"
                           : score.percentage_score! >= 50
                           ? "bg-yellow-100 text-yellow-700"
@@ -225,6 +242,7 @@ const UserScoresTab: React.FC<UserScoresTabProps> = ({ annotatorDbId }) => {
                       }`}
                     >
                       {score.percentage_score!.toFixed(1)}%
+                      {score.submitted_late && " (late)"}
                     </span>
                   ) : (
                     <span className="text-slate-500 italic text-xs">N/A*</span>
@@ -243,6 +261,12 @@ const UserScoresTab: React.FC<UserScoresTabProps> = ({ annotatorDbId }) => {
           in this exam, or the answer key had no scorable characters.
         </p>
       )}
+      {scores.some((s) => s.submitted_late) && (
+        <p className="px-6 py-3 text-xs text-slate-500 bg-slate-50 border-t border-slate-200">
+          Scores marked (late) were submitted after the time limit and do not
+          count as a pass.
+        </p>
+      )}
     </div>
   );
 };
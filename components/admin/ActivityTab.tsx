@@ -0,0 +1,239 @@
+import React, { useState } from "react";
+import { AuditLogEntry, AuditLogFilters } from "../../types";
+
+interface ActivityTabProps {
+  entries: AuditLogEntry[];
+  isLoading: boolean;
+  onSearch: (filters: AuditLogFilters) => void;
+  maxEntries: number; // Results are cut off at this many entries
+}
+
+// Audited tables, with the names shown to admins
+const AUDITED_ENTITIES: { value: string; label: string }[] = [
+  { value: "answer_key_rows", label: "Answer key rows" },
+  { value: "images", label: "Answer key images" },
+  { value: "annotators", label: "Annotators" },
+  { value: "user_exam_completions", label: "Exam attempts" },
+  { value: "exams", label: "Exams" },
+  { value: "sites", label: "Sites" },
+  { value: "admin_profiles", label: "Admin roles" },
+  { value: "admin_site_assignments", label: "Admin sites" },
+];
+
+const ACTION_STYLES: Record<AuditLogEntry["action"], string> = {
+  insert: "bg-green-100 text-green-700",
+  update: "bg-blue-100 text-blue-700",
+  delete: "bg-red-100 text-red-700",
+};
+
+const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// Lists the row's values, or for updates each changed column as "before → after"
+const describeChanges = (entry: AuditLogEntry): string[] => {
+  const values = entry.afterValues ?? entry.beforeValues ?? {};
+  return Object.keys(values).map((key) => {
+    if (entry.action !== "update") {
+      return `${key}: ${formatAuditValue(values[key])}`;
+    }
+    const before = formatAuditValue(entry.beforeValues?.[key]);
+    const after = formatAuditValue(entry.afterValues?.[key]);
+    return `${key}: ${before} → ${after}`;
+  });
+};
+
+const filterInputClass =
+  "mt-1 block w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+
+const ActivityTab: React.FC<ActivityTabProps> = ({
+  entries,
+  isLoading,
+  onSearch,
+  maxEntries,
+}) => {
+  const [filters, setFilters] = useState<AuditLogFilters>({
+    actor: "",
+    entity: "all",
+    fromDate: "",
+    toDate: "",
+  });
+
+  const updateFilter = (key: keyof AuditLogFilters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="p-6 bg-slate-50 rounded-lg shadow">
+      <h3 className="text-xl font-semibold text-slate-700 mb-4">Activity</h3>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSearch(filters);
+        }}
+        className="flex flex-wrap items-end gap-x-4 gap-y-2 mb-4 p-4 bg-slate-100 rounded-md border border-slate-200"
+      >
+        <div>
+          <label
+            htmlFor="activityActor"
+            className="block text-xs font-medium text-slate-600"
+          >
+            Actor
+          </label>
+          <input
+            id="activityActor"
+            type="text"
+            placeholder="Email or user ID"
+            value={filters.actor}
+            onChange={(e) => updateFilter("actor", e.target.value)}
+            className={filterInputClass}
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="activityEntity"
+            className="block text-xs font-medium text-slate-600"
+          >
+            Entity
+          </label>
+          <select
+            id="activityEntity"
+            value={filters.entity}
+            onChange={(e) => updateFilter("entity", e.target.value)}
+            className={filterInputClass}
+          >
+            <option value="all">All Entities</option>
+            {AUDITED_ENTITIES.map((entity) => (
+              <option key={entity.value} value={entity.value}>
+                {entity.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label
+            htmlFor="activityFrom"
+            className="block text-xs font-medium text-slate-600"
+          >
+            From
+          </label>
+          <input
+            id="activityFrom"
+            type="date"
+            value={filters.fromDate}
+            onChange={(e) => updateFilter("fromDate", e.target.value)}
+            className={filterInputClass}
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="activityTo"
+            className="block text-xs font-medium text-slate-600"
+          >
+            To
+          </label>
+          <input
+            id="activityTo"
+            type="date"
+            value={filters.toDate}
+            onChange={(e) => updateFilter("toDate", e.target.value)}
+            className={filterInputClass}
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-70 disabled:cursor-wait"
+          disabled={isLoading}
+        >
+          Search
+        </button>
+      </form>
+
+      {isLoading && (
+        <p className="text-slate-500 italic">Loading activity...</p>
+      )}
+      {!isLoading && entries.length === 0 && (
+        <p className="text-slate-500 italic text-center py-8">
+          No activity matches these filters.
+        </p>
+      )}
+      {!isLoading && entries.length > 0 && (
+        <>
+          {entries.length >= maxEntries && (
+            <p className="text-xs text-amber-700 mb-2">
+              Showing the latest {maxEntries} entries. Narrow the filters to see
+              older ones.
+            </p>
+          )}
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs text-left text-slate-600">
+              <thead className="text-xs text-slate-700 uppercase bg-slate-200">
+                <tr>
+                  <th scope="col" className="px-3 py-3">
+                    When
+                  </th>
+                  <th scope="col" className="px-3 py-3">
+                    Actor
+                  </th>
+                  <th scope="col" className="px-3 py-3">
+                    Action
+                  </th>
+                  <th scope="col" className="px-3 py-3">
+                    Entity
+                  </th>
+                  <th scope="col" className="px-3 py-3">
+                    Target
+                  </th>
+                  <th scope="col" className="px-3 py-3">
+                    Changes
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="bg-white align-top">
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {new Date(entry.occurredAt).toLocaleString()}
+                    </td>
+                    <td className="px-3 py-2 font-medium text-slate-900">
+                      {entry.actorLabel}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`px-2 py-0.5 rounded-full font-semibold ${
+                          ACTION_STYLES[entry.action]
+                        }`}
+                      >
+                        {entry.action}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {AUDITED_ENTITIES.find(
+                        (entity) => entity.value === entry.entity
+                      )?.label ?? entry.entity}
+                      {entry.entityId && (
+                        <span className="text-slate-400">
+                          {" "}
+                          #{entry.entityId}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">{entry.targetLabel ?? "—"}</td>
+                    <td className="px-3 py-2 font-mono break-all">
+                      {describeChanges(entry).map((line) => (
+                        <div key={line}>{line}</div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ActivityTab;
@@ -10,24 +10,76 @@ import {
   Exam,
   AdminProfile,
   AdminTab,
+  AdminPermission,
+  AdminRole,
+  AdminUser,
+  AuditLogEntry,
+  AuditLogFilters,
   FetchedAnswerKeySummary,
   AnalyticsData,
   AdminDashboardPageProps,
   AnnotatorInfo,
   UserExamScoreMetrics,
+  ScoringStrategy,
+  StrategyComparisonRow,
+  FieldAccuracy,
+  ExamDefinitionEntry,
+  RosterEntry,
+  Site,
+  SiteDraft,
+  SiteRollup,
 } from "../../types";
-import { EXAMS_DATA, USER_ID_PREFIXES } from "../../constants";
+import {
+  SCORING_STRATEGY_OPTIONS,
+  DEFAULT_PASSING_SCORE,
+  ADMIN_ROLE_OPTIONS,
+  ADMIN_ROLE_PERMISSIONS,
+  SITE_SCOPED_ADMIN_ROLES,
+} from "../../constants";
 import AnswerKeyForm from "./AnswerKeyForm";
+import ExamEditorForm from "./ExamEditorForm";
 import AnnotatorsTab from "./AnnotatorsTab";
+import RosterImportPanel from "./RosterImportPanel";
+import AdminUsersTab from "./AdminUsersTab";
+import ActivityTab from "./ActivityTab";
+import SitesTab from "./SitesTab";
+import SiteRollupTable from "./SiteRollupTable";
+import SiteScopeNotice from "./SiteScopeNotice";
 import { supabase } from "../../utils/supabase/client";
 import { useToast } from "../../contexts/ToastContext";
+import { useExamCatalog } from "../../contexts/ExamCatalogContext";
+import { useSites } from "../../contexts/SitesContext";
 import Modal from "../common/Modal";
 import { formatSupabaseError } from "../../utils/errorUtils";
+import { getExamSettings } from "../../utils/examUtils";
+import { mapSiteRow } from "../../utils/siteUtils";
 import UserGrowthLineChart from "./charts/UserGrowthLineChart";
 import SubmissionsBarChart from "./charts/SubmissionsBarChart";
+import FieldAccuracyBarChart from "./charts/FieldAccuracyBarChart";
+import ScoringStrategyPanel from "./ScoringStrategyPanel";
 
 const STORAGE_BUCKET_NAME = "exam-images";
 const ROWS_PER_PAGE = 50;
+const AUDIT_LOG_LIMIT = 500;
+
+// Dashboard tabs and the permission each needs, in display order
+const ADMIN_TABS: {
+  tabName: AdminTab;
+  label: string;
+  permission: AdminPermission;
+}[] = [
+  { tabName: "EXAMS", label: "Exams", permission: "manage_exams" },
+  {
+    tabName: "ANSWER_KEYS",
+    label: "Answer Keys",
+    permission: "view_answer_keys",
+  },
+  { tabName: "ANNOTATORS", label: "Annotators", permission: "view_annotators" },
+  { tabName: "ANALYTICS", label: "Analytics", permission: "view_analytics" },
+  { tabName: "SITES", label: "Sites", permission: "manage_sites" },
+  { tabName: "ADMINS", label: "Admins", permission: "manage_admins" },
+  { tabName: "ACTIVITY", label: "Activity", permission: "view_activity" },
+];
 
 // Standalone TabButton component to prevent re-creation on every render
 interface TabButtonProps {
@@ -62,6 +114,8 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
 }) => {
   const [activeTab, setActiveTab] = useState<AdminTab>("ANNOTATORS");
   const { addToast } = useToast();
+  const { exams, getExam, refreshExams } = useExamCatalog();
+  const { sites, getSiteForUserId, refreshSites } = useSites();
 
   // Answer Key Tab State
   const [fetchedAnswerKeys, setFetchedAnswerKeys] = useState<
@@ -73,7 +127,7 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
   const [editingAnswerKey, setEditingAnswerKey] =
     useState<AnswerKeyEntry | null>(null);
   const [activeAnswerKeyExamCode, setActiveAnswerKeyExamCode] =
-    useState<string>(EXAMS_DATA.length > 0 ? EXAMS_DATA[0].id : "");
+    useState<string>(exams.length > 0 ? exams[0].id : "");
 
   // Annotators Tab State
   const [allAnnotators, setAllAnnotators] = useState<AnnotatorInfo[]>([]);
@@ -96,18 +150,60 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
     null
   );
   const [newUsername, setNewUsername] = useState<string>("");
+  const [showRosterImport, setShowRosterImport] = useState<boolean>(false);
+  const [isImportingRoster, setIsImportingRoster] = useState<boolean>(false);
 
   // Analytics Tab State
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(
     null
   );
   const [isLoadingAnalytics, setIsLoadingAnalytics] = useState<boolean>(false);
+  const [strategyExamCode, setStrategyExamCode] = useState<string>(
+    exams.length > 0 ? exams[0].id : ""
+  );
+  const [currentStrategy, setCurrentStrategy] =
+    useState<ScoringStrategy | null>(null);
+  const [pendingStrategy, setPendingStrategy] =
+    useState<ScoringStrategy | null>(null);
+  const [strategyComparison, setStrategyComparison] = useState<
+    StrategyComparisonRow[]
+  >([]);
+  const [isLoadingStrategies, setIsLoadingStrategies] =
+    useState<boolean>(false);
+  const [isSavingStrategy, setIsSavingStrategy] = useState<boolean>(false);
+
+  // Exams Tab State
+  const [showExamEditor, setShowExamEditor] = useState<boolean>(false);
+  const [editingExamCode, setEditingExamCode] = useState<string | null>(null);
+  const [isSavingExam, setIsSavingExam] = useState<boolean>(false);
+
+  // Sites Tab State; unlike useSites, includes the coordinator contacts
+  const [adminSites, setAdminSites] = useState<Site[]>([]);
+  const [isLoadingAdminSites, setIsLoadingAdminSites] =
+    useState<boolean>(false);
+  const [isSavingSite, setIsSavingSite] = useState<boolean>(false);
 
   // General Component State
+  const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
+  const [isLoadingAdminUsers, setIsLoadingAdminUsers] =
+    useState<boolean>(false);
+
+  const [auditEntries, setAuditEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoadingAuditLog, setIsLoadingAuditLog] = useState<boolean>(false);
+
+  const [isLoadingAdminProfile, setIsLoadingAdminProfile] =
+    useState<boolean>(true);
   const [currentAdminProfile, setCurrentAdminProfile] =
     useState<AdminProfile | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [modalContent, setModalContent] = useState({
+  const [modalContent, setModalContent] = useState<{
+    title: string;
+    body: React.ReactElement;
+    onConfirm: () => void;
+    confirmText: string;
+    cancelText?: string;
+    onCancelSecondary?: () => void;
+  }>({
     title: "",
     body: <></>,
     onConfirm: () => {},
@@ -118,25 +214,88 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
     answerKeys: false,
     annotators: false,
     analytics: false,
+    adminUsers: false,
+    auditLog: false,
+    sites: false,
   });
 
   useEffect(() => {
     const fetchAdminProfile = async () => {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (user) {
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) {
+          console.error("Admin user not found in Supabase Auth session.");
+          return;
+        }
+        const [
+          { data: profile, error },
+          { data: siteAssignments, error: siteAssignmentsError },
+        ] = await Promise.all([
+          supabase
+            .from("admin_profiles")
+            .select("role")
+            .eq("id", user.id)
+            .maybeSingle(),
+          supabase
+            .from("admin_site_assignments")
+            .select("site_id")
+            .eq("admin_user_id", user.id),
+        ]);
+        if (error) throw error;
+        if (siteAssignmentsError) throw siteAssignmentsError;
         setCurrentAdminProfile({
           id: user.id,
           email: user.email || "",
-          role: "admin",
+          role: (profile?.role as AdminRole | undefined) ?? null,
+          siteIds: (siteAssignments || []).map(
+            (assignment) => assignment.site_id
+          ),
         });
-      } else {
-        console.error("Admin user not found in Supabase Auth session.");
+      } catch (e: any) {
+        addToast({
+          type: "error",
+          message: `Failed to load your admin role: ${
+            formatSupabaseError(e).message
+          }`,
+        });
+      } finally {
+        setIsLoadingAdminProfile(false);
       }
     };
     fetchAdminProfile();
-  }, []);
+  }, [addToast]);
+
+  // The server enforces the same permissions; this only hides what would fail.
+  const can = useCallback(
+    (permission: AdminPermission) =>
+      !!currentAdminProfile?.role &&
+      ADMIN_ROLE_PERMISSIONS[currentAdminProfile.role].includes(permission),
+    [currentAdminProfile]
+  );
+  // The sites whose annotators this admin sees, or null for every site
+  const siteScope = useMemo(
+    () =>
+      currentAdminProfile?.role &&
+      SITE_SCOPED_ADMIN_ROLES.includes(currentAdminProfile.role)
+        ? sites.filter((site) => currentAdminProfile.siteIds.includes(site.id))
+        : null,
+    [currentAdminProfile, sites]
+  );
+  const visibleTabs = useMemo(
+    () => ADMIN_TABS.filter((tab) => can(tab.permission)),
+    [can]
+  );
+
+  useEffect(() => {
+    if (
+      visibleTabs.length > 0 &&
+      !visibleTabs.some((tab) => tab.tabName === activeTab)
+    ) {
+      setActiveTab(visibleTabs[0].tabName);
+    }
+  }, [visibleTabs, activeTab]);
 
   const fetchAnswerKeySummaries = useCallback(async () => {
     setIsLoadingAnswerKeys(true);
@@ -151,6 +310,16 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
         return;
       }
 
+      // The summaries predate practice images, so the flag is looked up separately
+      const { data: practiceImages, error: practiceError } = await supabase
+        .from("images")
+        .select("id")
+        .eq("is_practice", true);
+      if (practiceError) throw formatSupabaseError(practiceError);
+      const practiceImageIds = new Set(
+        (practiceImages || []).map((image: any) => image.id)
+      );
+
       const summariesWithUrls = data.map((summary) => {
         const { data: urlData } = supabase.storage
           .from(STORAGE_BUCKET_NAME)
@@ -163,6 +332,7 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
           examCode: summary.exam_code,
           examName: summary.exam_name,
           answerRowCount: summary.answer_row_count,
+          isPractice: practiceImageIds.has(summary.db_image_id),
           imageUrl: urlData.publicUrl,
         } as FetchedAnswerKeySummary;
       });
@@ -189,7 +359,9 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
       while (true) {
         const { data: pageData, error: annotatorsError } = await supabase
           .from("annotators")
-          .select("id, liftapp_user_id, created_at, overall_completion_date")
+          .select(
+            "id, liftapp_user_id, created_at, overall_completion_date, full_name, site, cohort, start_date, rostered_at"
+          )
           .order("id", { ascending: true })
           .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
         if (annotatorsError) throw annotatorsError;
@@ -211,7 +383,7 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
             `
             annotator_id, exam_id, status, completed_at, retake_count, duration_seconds,
             total_effective_keystrokes, total_answer_key_keystrokes, score_percentage,
-            exams ( exam_code, name )
+            submitted_late, exams ( exam_code, name )
           `
           )
           .in("status", ["submitted", "timed_out"])
@@ -262,6 +434,7 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
                 score_percentage: comp.score_percentage,
                 duration_seconds: comp.duration_seconds,
                 completed_at: comp.completed_at,
+                submitted_late: !!comp.submitted_late,
               };
             }
           });
@@ -273,28 +446,30 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
               : 0;
 
           // --- AUTO-UPDATE overall_completion_date if needed ---
-          // Only set if user has completed and passed all exams (score >= 90 and completed_at for each exam)
+          // Only set if user has completed and passed all exams (passing score and completed_at for each exam)
           let shouldSetOverallCompletionDate = false;
           let latestCompletionDate: string | null = null;
-          if (EXAMS_DATA.length > 0) {
-            const allCompletedAndPassed = EXAMS_DATA.every((exam) => {
+          if (exams.length > 0) {
+            const allCompletedAndPassed = exams.every((exam) => {
               const score = per_exam_scores[exam.id]?.score_percentage;
               const completedAt = per_exam_scores[exam.id]?.completed_at;
               return (
+                !per_exam_scores[exam.id]?.submitted_late &&
                 score !== undefined &&
                 score !== null &&
-                score >= 90 &&
+                score >=
+                  getExamSettings(exam, annotator.liftapp_user_id)
+                    .passingScore &&
                 !!completedAt
               );
             });
             if (allCompletedAndPassed) {
               // Find the latest completed_at among the exams
-              const dates = EXAMS_DATA.map(
-                (exam) => per_exam_scores[exam.id]?.completed_at
-              )
+              const dates = exams
+                .map((exam) => per_exam_scores[exam.id]?.completed_at)
                 .filter(Boolean)
                 .map((d) => new Date(d as string));
-              if (dates.length === EXAMS_DATA.length) {
+              if (dates.length === exams.length) {
                 latestCompletionDate = new Date(
                   Math.max(...dates.map((d) => d.getTime()))
                 ).toISOString();
@@ -328,6 +503,11 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
             id: annotator.id,
             liftapp_user_id: annotator.liftapp_user_id,
             created_at: annotator.created_at,
+            full_name: annotator.full_name,
+            site: annotator.site,
+            cohort: annotator.cohort,
+            start_date: annotator.start_date,
+            rostered_at: annotator.rostered_at,
             overall_completion_date:
               annotator.overall_completion_date ||
               (shouldSetOverallCompletionDate && latestCompletionDate
@@ -353,8 +533,124 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
     } finally {
       setIsLoadingAnnotators(false);
     }
+  }, [addToast, exams]);
+
+  const fetchAdminUsers = useCallback(async () => {
+    setIsLoadingAdminUsers(true);
+    dataFetchStatus.current.adminUsers = true;
+    try {
+      const { data, error } = await supabase.rpc("list_admin_users");
+      if (error) throw error;
+      setAdminUsers(
+        (data || []).map(
+          (row: {
+            user_id: string;
+            email: string;
+            role: AdminRole | null;
+            last_sign_in_at: string | null;
+            site_ids: number[];
+          }) => ({
+            userId: row.user_id,
+            email: row.email,
+            role: row.role,
+            lastSignInAt: row.last_sign_in_at,
+            siteIds: row.site_ids || [],
+          })
+        )
+      );
+    } catch (e: any) {
+      addToast({
+        type: "error",
+        message: `Failed to load admins: ${formatSupabaseError(e).message}`,
+      });
+      setAdminUsers([]);
+    } finally {
+      setIsLoadingAdminUsers(false);
+    }
   }, [addToast]);
 
+  const fetchAdminSites = useCallback(async () => {
+    setIsLoadingAdminSites(true);
+    dataFetchStatus.current.sites = true;
+    try {
+      const { data, error } = await supabase
+        .from("sites")
+        .select(
+          "id, user_id_prefix, display_name, location, coordinator_name, coordinator_email, id_min_digits, id_max_digits, is_active"
+        )
+        .order("user_id_prefix", { ascending: true });
+      if (error) throw error;
+      setAdminSites((data || []).map(mapSiteRow));
+    } catch (e: any) {
+      addToast({
+        type: "error",
+        message: `Failed to load sites: ${formatSupabaseError(e).message}`,
+      });
+      setAdminSites([]);
+    } finally {
+      setIsLoadingAdminSites(false);
+    }
+  }, [addToast]);
+
+  const fetchAuditLog = useCallback(
+    async (filters?: AuditLogFilters) => {
+      setIsLoadingAuditLog(true);
+      dataFetchStatus.current.auditLog = true;
+      try {
+        let query = supabase
+          .from("audit_log")
+          .select(
+            "id, occurred_at, actor_label, action, entity, entity_id, target_label, before_values, after_values"
+          )
+          .order("occurred_at", { ascending: false })
+          .limit(AUDIT_LOG_LIMIT);
+        if (filters?.actor.trim()) {
+          query = query.ilike("actor_label", `%${filters.actor.trim()}%`);
+        }
+        if (filters && filters.entity !== "all") {
+          query = query.eq("entity", filters.entity);
+        }
+        if (filters?.fromDate) {
+          query = query.gte(
+            "occurred_at",
+            new Date(`${filters.fromDate}T00:00:00`).toISOString()
+          );
+        }
+        if (filters?.toDate) {
+          const dayAfter = new Date(`${filters.toDate}T00:00:00`);
+          dayAfter.setDate(dayAfter.getDate() + 1);
+          query = query.lt("occurred_at", dayAfter.toISOString());
+        }
+        const { data, error } = await query;
+        if (error) throw error;
+        setAuditEntries(
+          (data || []).map((row) => ({
+            id: row.id,
+            occurredAt: row.occurred_at,
+            actorLabel: row.actor_label,
+            action: row.action as AuditLogEntry["action"],
+            entity: row.entity,
+            entityId: row.entity_id,
+            targetLabel: row.target_label,
+            beforeValues: row.before_values as AuditLogEntry["beforeValues"],
+            afterValues: row.after_values as AuditLogEntry["afterValues"],
+          }))
+        );
+      } catch (e: any) {
+        addToast({
+          type: "error",
+          message: `Failed to load activity: ${
+            formatSupabaseError(e).message
+          }`,
+        });
+        setAuditEntries([]);
+      } finally {
+        setIsLoadingAuditLog(false);
+      }
+    },
+    [addToast]
+  );
+
   const fetchAnalyticsData = useCallback(async () => {
     setIsLoadingAnalytics(true);
     dataFetchStatus.current.analytics = true;
@@ -369,6 +665,8 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
           data: annotatorsRegistrationData,
           error: annotatorsRegistrationError,
         },
+        { data: fieldAccuracyData, error: fieldAccuracyError },
+        { data: siteRollupData, error: siteRollupError },
       ] = await Promise.all([
         supabase.from("annotators").select("*", { count: "exact", head: true }),
         supabase.from("exams").select("*", { count: "exact", head: true }),
@@ -382,6 +680,8 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
           .from("annotators")
           .select("created_at")
           .order("created_at", { ascending: true }),
+        supabase.rpc("get_field_accuracy"),
+        supabase.rpc("get_site_rollups"),
       ]);
 
       const errors = [
@@ -391,6 +691,8 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
         submittedRowsCountResponse.error,
         submissionsPerExamError,
         annotatorsRegistrationError,
+        fieldAccuracyError,
+        siteRollupError,
       ].filter(Boolean);
 
       if (errors.length > 0) {
@@ -417,6 +719,24 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
         return { date: date, count: cumulativeCount };
       });
 
+      const fieldAccuracyByExam: Record<string, FieldAccuracy[]> = {};
+      (fieldAccuracyData || []).forEach(
+        (record: {
+          exam_code: string;
+          column_id: string;
+          matched_keystrokes: number;
+          total_keystrokes: number;
+          attempt_count: number;
+        }) => {
+          (fieldAccuracyByExam[record.exam_code] ||= []).push({
+            columnId: record.column_id,
+            matchedKeystrokes: Number(record.matched_keystrokes),
+            totalKeystrokes: Number(record.total_keystrokes),
+            attemptCount: Number(record.attempt_count),
+          });
+        }
+      );
+
       setAnalyticsData({
         totalAnnotators: annotatorsCountResponse.count || 0,
         totalExams: examsCountResponse.count || 0,
@@ -424,6 +744,31 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
         totalSubmittedAnnotationRows: submittedRowsCountResponse.count || 0,
         submissionsPerExam: submissionsPerExamData || [],
         annotatorRegistrations: annotatorRegistrations,
+        fieldAccuracyByExam,
+        siteRollups: (siteRollupData || []).map(
+          (row: {
+            site_id: number;
+            user_id_prefix: string;
+            display_name: string;
+            is_active: boolean;
+            annotator_count: number;
+            completed_annotator_count: number;
+            finished_attempt_count: number;
+            passed_attempt_count: number;
+            average_score: number | null;
+          }): SiteRollup => ({
+            siteId: row.site_id,
+            userIdPrefix: row.user_id_prefix,
+            displayName: row.display_name,
+            isActive: row.is_active,
+            annotatorCount: Number(row.annotator_count),
+            completedAnnotatorCount: Number(row.completed_annotator_count),
+            finishedAttemptCount: Number(row.finished_attempt_count),
+            passedAttemptCount: Number(row.passed_attempt_count),
+            averageScore:
+              row.average_score !== null ? Number(row.average_score) : null,
+          })
+        ),
       });
     } catch (e: any) {
       addToast({
@@ -435,7 +780,97 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
     }
   }, [addToast]);
 
+  // Per-exam chart data, in the exam's column order so related fields stay together
+  const fieldAccuracyCharts = useMemo(
+    () =>
+      exams.map((exam) => {
+        const fields = analyticsData?.fieldAccuracyByExam[exam.id] || [];
+        const data = exam.columns.flatMap((col) => {
+          const field = fields.find((f) => f.columnId === col.id);
+          return field && field.totalKeystrokes > 0
+            ? [
+                {
+                  label: col.label,
+                  accuracy:
+                    (field.matchedKeystrokes / field.totalKeystrokes) * 100,
+                  matched: field.matchedKeystrokes,
+                  total: field.totalKeystrokes,
+                },
+              ]
+            : [];
+        });
+        const attemptCount = Math.max(0, ...fields.map((f) => f.attemptCount));
+        return { exam, attemptCount, data };
+      }),
+    [analyticsData, exams]
+  );
+
+  const fetchStrategyComparison = useCallback(
+    async (examCode: string) => {
+      setIsLoadingStrategies(true);
+      try {
+        const { data: exam, error: examError } = await supabase
+          .from("exams")
+          .select("id, scoring_strategy")
+          .eq("exam_code", examCode)
+          .single();
+        if (examError) throw examError;
+
+        const { data, error } = await supabase.rpc(
+          "compare_scoring_strategies",
+          { p_exam_id: exam.id }
+        );
+        if (error) throw error;
+
+        setCurrentStrategy(exam.scoring_strategy);
+        setPendingStrategy(exam.scoring_strategy);
+        setStrategyComparison(
+          (data || []).map(
+            (row: {
+              annotator_id: number;
+              liftapp_user_id: string;
+              prefix_score: number;
+              levenshtein_score: number;
+              exact_score: number;
+            }) => ({
+              annotatorId: row.annotator_id,
+              liftappUserId: row.liftapp_user_id,
+              scores: {
+                prefix: Number(row.prefix_score),
+                levenshtein: Number(row.levenshtein_score),
+                exact: Number(row.exact_score),
+              },
+            })
+          )
+        );
+      } catch (e: any) {
+        setCurrentStrategy(null);
+        setStrategyComparison([]);
+        addToast({
+          type: "error",
+          message: `Failed to compare scoring strategies: ${
+            formatSupabaseError(e).message
+          }`,
+        });
+      } finally {
+        setIsLoadingStrategies(false);
+      }
+    },
+    [addToast]
+  );
+
+  useEffect(() => {
+    if (
+      activeTab === "ANALYTICS" &&
+      can("view_analytics") &&
+      strategyExamCode
+    ) {
+      fetchStrategyComparison(strategyExamCode);
+    }
+  }, [activeTab, can, strategyExamCode, fetchStrategyComparison]);
+
   useEffect(() => {
+    if (!visibleTabs.some((tab) => tab.tabName === activeTab)) return;
     if (
       activeTab === "ANSWER_KEYS" &&
       !showAnswerKeyForm &&
@@ -452,35 +887,35 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
       !dataFetchStatus.current.analytics
     ) {
       fetchAnalyticsData();
+    } else if (activeTab === "ADMINS" && !dataFetchStatus.current.adminUsers) {
+      fetchAdminUsers();
+    } else if (activeTab === "ACTIVITY" && !dataFetchStatus.current.auditLog) {
+      fetchAuditLog();
+    } else if (activeTab === "SITES" && !dataFetchStatus.current.sites) {
+      fetchAdminSites();
     }
   }, [
     activeTab,
+    visibleTabs,
     showAnswerKeyForm,
     fetchAnswerKeySummaries,
     fetchAnnotators,
     fetchAnalyticsData,
+    fetchAdminUsers,
+    fetchAuditLog,
+    fetchAdminSites,
   ]);
 
-  const getExamDatabaseId = async (
-    examCode: string
-  ): Promise<number | null> => {
-    const exam = EXAMS_DATA.find((e) => e.id === examCode);
-    if (exam && exam.dbId) return exam.dbId;
-
-    const { data, error } = await supabase
-      .from("exams")
-      .select("id")
-      .eq("exam_code", examCode)
-      .single();
-    if (error && error.code !== "PGRST116") {
+  const getExamDatabaseId = (examCode: string): number | null => {
+    const exam = getExam(examCode);
+    if (!exam) {
       addToast({
         type: "error",
         message: `Error fetching configuration for exam '${examCode}'.`,
       });
       return null;
     }
-    if (data && exam) exam.dbId = data.id;
-    return data ? data.id : null;
+    return exam.dbId;
   };
 
   const handleSaveAnswerKey = useCallback(
@@ -497,8 +932,7 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
         let imageDbId = keyData.dbImageId;
         let storagePath = keyData.imageId;
 
-        const examDbId =
-          keyData.dbExamId || (await getExamDatabaseId(keyData.examId));
+        const examDbId = keyData.dbExamId || getExamDatabaseId(keyData.examId);
         if (!examDbId)
           throw new Error(
             `Could not find DB ID for exam code: ${keyData.examId}`
@@ -519,6 +953,7 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
             storage_path: storagePath,
             original_filename: keyData.imageFile?.name || keyData.imageId,
             uploader_profile_id: currentAdminProfile.id,
+            is_practice: !!keyData.isPractice,
           };
           if (imageDbId && keyData.imageFile) {
             const { data, error: updateImageError } = await supabase
@@ -540,6 +975,13 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
           }
         }
         if (!imageDbId) throw new Error("Failed to get DB ID for image.");
+        if (!keyData.imageFile) {
+          const { error: practiceError } = await supabase
+            .from("images")
+            .update({ is_practice: !!keyData.isPractice })
+            .eq("id", imageDbId);
+          if (practiceError) throw practiceError;
+        }
         const { error: deleteError } = await supabase
           .from("answer_key_rows")
           .delete()
@@ -602,6 +1044,7 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
         answers: answers,
         dbImageId: summary.dbImageId,
         dbExamId: summary.dbExamId,
+        isPractice: summary.isPractice,
       });
       setShowAnswerKeyForm(true);
     } catch (e: any) {
@@ -657,11 +1100,406 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
     }
   };
 
+  const confirmApplyStrategy = () => {
+    const option = SCORING_STRATEGY_OPTIONS.find(
+      (o) => o.value === pendingStrategy
+    );
+    const exam = getExam(strategyExamCode);
+    if (!option || !exam) return;
+    setModalContent({
+      title: "Change Scoring Strategy",
+      body: (
+        <p>
+          Score <strong>{exam.name}</strong> by <strong>{option.label}</strong>?
+          Every finished attempt of this exam will be rescored, which can change
+          who passed.
+        </p>
+      ),
+      onConfirm: () => handleApplyStrategy(exam, option),
+      confirmText: "Apply & Rescore",
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleApplyStrategy = async (
+    exam: Exam,
+    option: (typeof SCORING_STRATEGY_OPTIONS)[number]
+  ) => {
+    setIsModalOpen(false);
+    setIsSavingStrategy(true);
+    try {
+      const { data: rescoredCount, error } = await supabase.rpc(
+        "set_exam_scoring_strategy",
+        { p_exam_id: exam.dbId, p_strategy: option.value }
+      );
+      if (error) throw error;
+      refreshExams();
+      addToast({
+        type: "success",
+        message: `${exam.name} is now scored by ${option.label}. ${rescoredCount} attempt(s) rescored.`,
+      });
+      // Stored scores changed; refresh the views that show them.
+      dataFetchStatus.current.annotators = false;
+      fetchStrategyComparison(exam.id);
+    } catch (e: any) {
+      addToast({
+        type: "error",
+        message: `Failed to change scoring strategy: ${
+          formatSupabaseError(e).message
+        }`,
+      });
+    } finally {
+      setIsSavingStrategy(false);
+    }
+  };
+
+  const handleCreateNewExam = () => {
+    setEditingExamCode(null);
+    setShowExamEditor(true);
+  };
+
+  const handleEditExam = (exam: Exam) => {
+    setEditingExamCode(exam.id);
+    setShowExamEditor(true);
+  };
+
+  const persistExamDefinition = async (
+    entry: ExamDefinitionEntry,
+    migrateRowData: boolean
+  ) => {
+    setIsModalOpen(false);
+    setIsSavingExam(true);
+    try {
+      const { error } = await supabase.rpc("save_exam_definition", {
+        p_exam_id: entry.dbId ?? null,
+        p_exam_code: entry.examCode,
+        p_name: entry.name,
+        p_description: entry.description,
+        p_icon_key: entry.iconKey,
+        p_columns: entry.columns,
+        p_duration_seconds: entry.durationSeconds,
+        p_passing_score: entry.passingScore,
+        p_column_renames: entry.columnRenames,
+        p_removed_column_ids: entry.removedColumnIds,
+        p_migrate_row_data: migrateRowData,
+        p_cohort_settings: entry.cohortSettings,
+        p_images_per_attempt: entry.imagesPerAttempt,
+        p_special_char_sets: entry.specialCharSets,
+      });
+      if (error) throw error;
+      await refreshExams();
+      addToast({
+        type: "success",
+        message: entry.dbId
+          ? `${entry.name} updated.`
+          : `${entry.name} created.`,
+      });
+      setShowExamEditor(false);
+      setEditingExamCode(null);
+      // Column changes can rescore attempts and reshape answer keys.
+      dataFetchStatus.current.answerKeys = false;
+      dataFetchStatus.current.annotators = false;
+      dataFetchStatus.current.analytics = false;
+    } catch (e: any) {
+      addToast({
+        type: "error",
+        message: `Failed to save exam: ${formatSupabaseError(e).message}`,
+      });
+    } finally {
+      setIsSavingExam(false);
+    }
+  };
+
+  const handleSaveExam = async (entry: ExamDefinitionEntry) => {
+    const renamedIds = Object.keys(entry.columnRenames);
+    const hasKeyChanges =
+      renamedIds.length > 0 || entry.removedColumnIds.length > 0;
+    if (!entry.dbId || !hasKeyChanges) {
+      persistExamDefinition(entry, false);
+      return;
+    }
+
+    let answerKeyCount = 0;
+    try {
+      const { data, error } = await supabase.rpc("get_answer_key_summaries");
+      if (error) throw error;
+      answerKeyCount = (data || []).filter(
+        (summary: { db_exam_id: number }) => summary.db_exam_id === entry.dbId
+      ).length;
+    } catch (e: any) {
+      addToast({
+        type: "error",
+        message: `Could not check for existing answer keys: ${
+          formatSupabaseError(e).message
+        }`,
+      });
+      return;
+    }
+
+    // Nothing stored depends on the old ids yet beyond drafts; keep those in step.
+    if (answerKeyCount === 0) {
+      persistExamDefinition(entry, true);
+      return;
+    }
+
+    setModalContent({
+      title: "Answer Keys Use These Columns",
+      body: (
+        <div className="text-left text-sm space-y-2">
+          <p>
+            <strong>{entry.name}</strong> has {answerKeyCount} answer key(s)
+            stored under the current column ids.
+          </p>
+          <ul className="list-disc pl-5">
+            {renamedIds.map((oldId) => (
+              <li key={oldId}>
+                <code>{oldId}</code> renamed to{" "}
+                <code>{entry.columnRenames[oldId]}</code>
+              </li>
+            ))}
+            {entry.removedColumnIds.map((id) => (
+              <li key={id}>
+                <code>{id}</code> removed
+              </li>
+            ))}
+          </ul>
+          <p>
+            Migrating renames these keys in every answer key and submission and
+            deletes the values of removed columns. Without migrating, those
+            values stay under the old ids and are no longer shown or scored.
+            Finished attempts are rescored either way.
+          </p>
+        </div>
+      ),
+      onConfirm: () => persistExamDefinition(entry, true),
+      confirmText: "Save & Migrate",
+      cancelText: "Save Without Migrating",
+      onCancelSecondary: () => persistExamDefinition(entry, false),
+    });
+    setIsModalOpen(true);
+  };
+
   const handleCreateNewAnswerKey = () => {
     setEditingAnswerKey(null);
     setShowAnswerKeyForm(true);
   };
 
+  // Login codes: an annotator signs in once with the code and then chooses a PIN.
+  const handleIssueAccessCode = async (liftappUserId: string) => {
+    setIsModalOpen(false);
+    try {
+      const { data: code, error } = await supabase.rpc(
+        "issue_annotator_access_code",
+        { p_liftapp_user_id: liftappUserId }
+      );
+      if (error) throw error;
+      setModalContent({
+        title: `Login Code for ${liftappUserId}`,
+        body: (
+          <div className="space-y-3">
+            <p className="text-3xl font-mono font-bold tracking-widest text-slate-800">
+              {code}
+            </p>
+            <p className="text-sm text-slate-600">
+              Give this code to the annotator. It works once, expires in 7 days,
+              and is not shown again.
+            </p>
+          </div>
+        ),
+        onConfirm: () => setIsModalOpen(false),
+        confirmText: "Done",
+        cancelText: "",
+      });
+      setIsModalOpen(true);
+      dataFetchStatus.current.annotators = false;
+      fetchAnnotators();
+    } catch (error: any) {
+      addToast({
+        type: "error",
+        message: `Failed to issue a login code: ${
+          formatSupabaseError(error).message
+        }`,
+      });
+    }
+  };
+
+  const confirmIssueAccessCode = (annotator: AnnotatorInfo) => {
+    setModalContent({
+      title: "Issue Login Code",
+      body: (
+        <p>
+          Issue a new login code for{" "}
+          <strong>{annotator.liftapp_user_id}</strong>? Their current PIN and
+          sessions stop working, and they choose a new PIN with the code.
+        </p>
+      ),
+      onConfirm: () => handleIssueAccessCode(annotator.liftapp_user_id),
+      confirmText: "Issue Code",
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleImportRoster = async (
+    entries: RosterEntry[],
+    overwrite: boolean
+  ) => {
+    setIsImportingRoster(true);
+    try {
+      const { data, error } = await supabase.rpc("import_annotator_roster", {
+        p_rows: entries,
+        p_overwrite: overwrite,
+      });
+      if (error) throw error;
+      const result = data?.[0];
+      addToast({
+        type: "success",
+        message: `Roster imported: ${result?.inserted ?? 0} added, ${
+          result?.updated ?? 0
+        } updated.`,
+      });
+      setShowRosterImport(false);
+      dataFetchStatus.current.annotators = false;
+      fetchAnnotators();
+    } catch (error: any) {
+      addToast({
+        type: "error",
+        message: `Failed to import the roster: ${
+          formatSupabaseError(error).message
+        }`,
+      });
+    } finally {
+      setIsImportingRoster(false);
+    }
+  };
+
+  const handleChangeAdminRole = async (
+    adminUser: AdminUser,
+    role: AdminRole | null
+  ) => {
+    setIsModalOpen(false);
+    try {
+      const { error } = await supabase.rpc("set_admin_role", {
+        p_user_id: adminUser.userId,
+        p_role: role,
+      });
+      if (error) throw error;
+      addToast({
+        type: "success",
+        message: `${adminUser.email} is now ${
+          ADMIN_ROLE_OPTIONS.find((option) => option.value === role)?.label ??
+          "without admin access"
+        }.`,
+      });
+    } catch (error: any) {
+      addToast({
+        type: "error",
+        message: `Failed to change the role: ${
+          formatSupabaseError(error).message
+        }`,
+      });
+    } finally {
+      fetchAdminUsers();
+    }
+  };
+
+  const handleSaveSite = async (
+    draft: SiteDraft,
+    siteId: number | null
+  ): Promise<boolean> => {
+    setIsSavingSite(true);
+    try {
+      const values = {
+        display_name: draft.displayName,
+        location: draft.location,
+        coordinator_name: draft.coordinatorName,
+        coordinator_email: draft.coordinatorEmail,
+        id_min_digits: draft.idMinDigits,
+        id_max_digits: draft.idMaxDigits,
+        is_active: draft.isActive,
+      };
+      const { error } =
+        siteId === null
+          ? await supabase
+              .from("sites")
+              .insert({ ...values, user_id_prefix: draft.userIdPrefix })
+          : await supabase.from("sites").update(values).eq("id", siteId);
+      if (error) throw error;
+      addToast({
+        type: "success",
+        message: `Site ${draft.userIdPrefix} ${
+          siteId === null ? "added" : "updated"
+        }.`,
+      });
+      fetchAdminSites();
+      refreshSites();
+      return true;
+    } catch (error: any) {
+      addToast({
+        type: "error",
+        message: `Failed to save the site: ${
+          formatSupabaseError(error).message
+        }`,
+      });
+      return false;
+    } finally {
+      setIsSavingSite(false);
+    }
+  };
+
+  const handleChangeAdminSites = async (
+    adminUser: AdminUser,
+    siteIds: number[]
+  ) => {
+    try {
+      const { error } = await supabase.rpc("set_admin_sites", {
+        p_user_id: adminUser.userId,
+        p_site_ids: siteIds,
+      });
+      if (error) throw error;
+      addToast({
+        type: "success",
+        message: `Sites updated for ${adminUser.email}.`,
+      });
+    } catch (error: any) {
+      addToast({
+        type: "error",
+        message: `Failed to update the sites: ${
+          formatSupabaseError(error).message
+        }`,
+      });
+    } finally {
+      fetchAdminUsers();
+    }
+  };
+
+  const confirmChangeAdminRole = (
+    adminUser: AdminUser,
+    role: AdminRole | null
+  ) => {
+    const option = ADMIN_ROLE_OPTIONS.find((option) => option.value === role);
+    setModalContent({
+      title: "Change Admin Role",
+      body: (
+        <p>
+          {option ? (
+            <>
+              Make <strong>{adminUser.email}</strong> a{" "}
+              <strong>{option.label}</strong>? {option.description}
+            </>
+          ) : (
+            <>
+              Remove admin access for <strong>{adminUser.email}</strong>? They
+              can still sign in but will see no tabs.
+            </>
+          )}
+        </p>
+      ),
+      onConfirm: () => handleChangeAdminRole(adminUser, role),
+      confirmText: option ? "Change Role" : "Remove Access",
+    });
+    setIsModalOpen(true);
+  };
+
   const handleEditUsernameClick = (annotator: AnnotatorInfo) => {
     setEditingAnnotatorId(annotator.id);
     setNewUsername(annotator.liftapp_user_id);
@@ -749,15 +1587,18 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
   const processedAnnotators = useMemo(() => {
     let processableItems = [...allAnnotators];
     if (annotatorSearchTerm) {
-      processableItems = processableItems.filter((annotator) =>
-        annotator.liftapp_user_id
-          .toLowerCase()
-          .includes(annotatorSearchTerm.toLowerCase())
+      const searchTerm = annotatorSearchTerm.toLowerCase();
+      processableItems = processableItems.filter(
+        (annotator) =>
+          annotator.liftapp_user_id.toLowerCase().includes(searchTerm) ||
+          (annotator.full_name ?? "").toLowerCase().includes(searchTerm)
       );
     }
     if (filterPrefix !== "all") {
-      processableItems = processableItems.filter((annotator) =>
-        annotator.liftapp_user_id.startsWith(filterPrefix)
+      processableItems = processableItems.filter(
+        (annotator) =>
+          getSiteForUserId(annotator.liftapp_user_id)?.userIdPrefix ===
+          filterPrefix
       );
     }
     if (filterDate) {
@@ -792,8 +1633,8 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
       processableItems = processableItems.filter((annotator) => {
         const score = annotator.overall_score_percentage;
         if (score === undefined || score === null) return false;
-        if (scoreFilter === ">=90") return score >= 90;
-        if (scoreFilter === "<90") return score < 90;
+        if (scoreFilter === "passed") return score >= DEFAULT_PASSING_SCORE;
+        if (scoreFilter === "failed") return score < DEFAULT_PASSING_SCORE;
         return true;
       });
     }
@@ -832,6 +1673,7 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
     scoreFilter,
     filterBatches,
     filterPrefix,
+    getSiteForUserId,
     sortConfig,
   ]);
 
@@ -879,6 +1721,97 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
 
   const renderActiveTabContent = () => {
     switch (activeTab) {
+      case "EXAMS":
+        return (
+          <div className="p-6 bg-slate-50 rounded-lg shadow">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-xl font-semibold text-slate-700">
+                Manage Exams
+              </h3>
+              {!showExamEditor && (
+                <button
+                  onClick={handleCreateNewExam}
+                  className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md transition-colors"
+                >
+                  Create New Exam
+                </button>
+              )}
+            </div>
+
+            {showExamEditor ? (
+              <ExamEditorForm
+                initialExam={editingExamCode ? getExam(editingExamCode) : null}
+                onSave={handleSaveExam}
+                onCancel={() => {
+                  setShowExamEditor(false);
+                  setEditingExamCode(null);
+                }}
+                isSaving={isSavingExam}
+              />
+            ) : exams.length === 0 ? (
+              <p className="text-slate-500 italic">No exams defined yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm text-left text-slate-600">
+                  <thead className="text-xs text-slate-700 uppercase bg-slate-200">
+                    <tr>
+                      <th scope="col" className="px-4 py-3">
+                        Name
+                      </th>
+                      <th scope="col" className="px-4 py-3">
+                        Code
+                      </th>
+                      <th scope="col" className="px-4 py-3">
+                        Columns
+                      </th>
+                      <th scope="col" className="px-4 py-3">
+                        Duration
+                      </th>
+                      <th scope="col" className="px-4 py-3">
+                        Passing Score
+                      </th>
+                      <th scope="col" className="px-4 py-3">
+                        Images
+                      </th>
+                      <th scope="col" className="px-4 py-3">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {exams.map((exam) => (
+                      <tr
+                        key={exam.id}
+                        className="bg-white border-b hover:bg-slate-50"
+                      >
+                        <td className="px-4 py-3 font-medium text-slate-900">
+                          {exam.name}
+                        </td>
+                        <td className="px-4 py-3">{exam.id}</td>
+                        <td className="px-4 py-3 text-xs max-w-md">
+                          {exam.columns.map((col) => col.label).join(", ")}
+                        </td>
+                        <td className="px-4 py-3">
+                          {Math.round(exam.durationSeconds / 60)} min
+                        </td>
+                        <td className="px-4 py-3">{exam.passingScore}%</td>
+                        <td className="px-4 py-3">{exam.imagesPerAttempt}</td>
+                        <td className="px-4 py-3">
+                          <button
+                            onClick={() => handleEditExam(exam)}
+                            className="font-medium text-blue-600 hover:text-blue-800"
+                          >
+                            Edit
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        );
       case "ANSWER_KEYS":
         return (
           <div className="p-6 bg-slate-50 rounded-lg shadow">
@@ -896,20 +1829,22 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
                     <RefreshIcon spinning={isLoadingAnswerKeys} />
                     Refresh
                   </button>
-                  <button
-                    onClick={handleCreateNewAnswerKey}
-                    className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md transition-colors"
-                    disabled={isLoadingAnswerKeys}
-                  >
-                    Create New Answer Key
-                  </button>
+                  {can("manage_answer_keys") && (
+                    <button
+                      onClick={handleCreateNewAnswerKey}
+                      className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md transition-colors"
+                      disabled={isLoadingAnswerKeys}
+                    >
+                      Create New Answer Key
+                    </button>
+                  )}
                 </div>
               )}
             </div>
 
             {showAnswerKeyForm ? (
               <AnswerKeyForm
-                exams={EXAMS_DATA}
+                exams={exams}
                 onSave={handleSaveAnswerKey}
                 onCancel={() => {
                   setShowAnswerKeyForm(false);
@@ -925,7 +1860,7 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
                     className="flex flex-wrap -mb-px space-x-1 sm:space-x-2"
                     aria-label="Exam Types"
                   >
-                    {EXAMS_DATA.map((exam) => (
+                    {exams.map((exam) => (
                       <button
                         key={exam.id}
                         onClick={() => setActiveAnswerKeyExamCode(exam.id)}
@@ -950,8 +1885,8 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
                   {!isLoadingAnswerKeys && filteredAnswerKeys.length === 0 && (
                     <p className="text-slate-500 italic">
                       No answer keys found for{" "}
-                      {EXAMS_DATA.find((e) => e.id === activeAnswerKeyExamCode)
-                        ?.name || "selected exam"}
+                      {getExam(activeAnswerKeyExamCode)?.name ||
+                        "selected exam"}
                       .
                     </p>
                   )}
@@ -995,29 +1930,44 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
                               <td className="px-4 py-3">
                                 {keySummary.originalFilename ||
                                   keySummary.storagePath}
+                                {keySummary.isPractice && (
+                                  <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-700">
+                                    Practice
+                                  </span>
+                                )}
                               </td>
                               <td className="px-4 py-3">
                                 {keySummary.answerRowCount}
                               </td>
                               <td className="px-4 py-3">
-                                <button
-                                  onClick={() =>
-                                    handleEditAnswerKey(keySummary)
-                                  }
-                                  className="font-medium text-blue-600 hover:text-blue-800 mr-3"
-                                  disabled={isLoadingAnswerKeys}
-                                >
-                                  Edit
-                                </button>
-                                <button
-                                  onClick={() =>
-                                    confirmDeleteAnswerKey(keySummary.dbImageId)
-                                  }
-                                  className="font-medium text-red-600 hover:text-red-800"
-                                  disabled={isLoadingAnswerKeys}
-                                >
-                                  Delete
-                                </button>
+                                {can("manage_answer_keys") ? (
+                                  <>
+                                    <button
+                                      onClick={() =>
+                                        handleEditAnswerKey(keySummary)
+                                      }
+                                      className="font-medium text-blue-600 hover:text-blue-800 mr-3"
+                                      disabled={isLoadingAnswerKeys}
+                                    >
+                                      Edit
+                                    </button>
+                                    <button
+                                      onClick={() =>
+                                        confirmDeleteAnswerKey(
+                                          keySummary.dbImageId
+                                        )
+                                      }
+                                      className="font-medium text-red-600 hover:text-red-800"
+                                      disabled={isLoadingAnswerKeys}
+                                    >
+                                      Delete
+                                    </button>
+                                  </>
+                                ) : (
+                                  <span className="text-slate-400 italic">
+                                    View only
+                                  </span>
+                                )}
                               </td>
                             </tr>
                           ))}
@@ -1031,6 +1981,16 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
           </div>
         );
       case "ANNOTATORS":
+        if (showRosterImport) {
+          return (
+            <RosterImportPanel
+              annotators={allAnnotators}
+              onImport={handleImportRoster}
+              onCancel={() => setShowRosterImport(false)}
+              isImporting={isImportingRoster}
+            />
+          );
+        }
         return (
           <AnnotatorsTab
             isLoading={isLoadingAnnotators}
@@ -1062,6 +2022,10 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
             onEditUsernameClick={handleEditUsernameClick}
             onSaveUsername={handleSaveUsername}
             onCancelEdit={handleCancelEdit}
+            onIssueAccessCode={confirmIssueAccessCode}
+            onImportRoster={() => setShowRosterImport(true)}
+            canManage={can("manage_annotators")}
+            siteScope={siteScope}
           />
         );
       case "ANALYTICS":
@@ -1080,6 +2044,7 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
                 Refresh
               </button>
             </div>
+            <SiteScopeNotice siteScope={siteScope} />
             {isLoadingAnalytics && (
               <div className="text-center p-8 text-slate-500 italic">
                 Loading analytics data...
@@ -1143,10 +2108,109 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
                     </p>
                   )}
                 </div>
+
+                {/* Per-site Rollups */}
+                <div className="p-6 bg-white rounded-lg shadow-md">
+                  <h4 className="text-lg font-semibold text-slate-700 mb-1">
+                    Sites
+                  </h4>
+                  <p className="text-sm text-slate-500 mb-4">
+                    Annotators, completions and pass rates for each site. An
+                    attempt passes when it was on time and met its passing
+                    score.
+                  </p>
+                  {analyticsData.siteRollups.length > 0 ? (
+                    <SiteRollupTable rollups={analyticsData.siteRollups} />
+                  ) : (
+                    <p className="text-slate-500 italic text-center py-10">
+                      No sites to display.
+                    </p>
+                  )}
+                </div>
+
+                {/* Field Accuracy per Exam */}
+                <div className="p-6 bg-white rounded-lg shadow-md">
+                  <h4 className="text-lg font-semibold text-slate-700 mb-1">
+                    Field Accuracy by Exam
+                  </h4>
+                  <p className="text-sm text-slate-500 mb-4">
+                    Share of answer-key characters matched in each field, across
+                    all finished attempts.
+                  </p>
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {fieldAccuracyCharts.map(({ exam, attemptCount, data }) => (
+                      <div key={exam.id}>
+                        <h5 className="text-md font-medium text-slate-600 mb-2">
+                          {exam.name}
+                          {attemptCount > 0 && (
+                            <span className="ml-2 text-xs text-slate-400">
+                              {attemptCount} attempt(s)
+                            </span>
+                          )}
+                        </h5>
+                        {data.length > 0 ? (
+                          <FieldAccuracyBarChart
+                            data={data}
+                            passingScore={exam.passingScore}
+                          />
+                        ) : (
+                          <p className="text-slate-500 italic text-center py-10">
+                            No scored attempts yet.
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
               </div>
             )}
+            <div className="mt-8">
+              <ScoringStrategyPanel
+                selectedExamCode={strategyExamCode}
+                onSelectExam={setStrategyExamCode}
+                currentStrategy={currentStrategy}
+                pendingStrategy={pendingStrategy}
+                setPendingStrategy={setPendingStrategy}
+                onApplyStrategy={
+                  can("manage_exams") ? confirmApplyStrategy : undefined
+                }
+                isSaving={isSavingStrategy}
+                isLoading={isLoadingStrategies}
+                comparison={strategyComparison}
+              />
+            </div>
           </div>
         );
+      case "SITES":
+        return (
+          <SitesTab
+            sites={adminSites}
+            isLoading={isLoadingAdminSites}
+            onRefresh={fetchAdminSites}
+            onSave={handleSaveSite}
+            isSaving={isSavingSite}
+          />
+        );
+      case "ADMINS":
+        return (
+          <AdminUsersTab
+            adminUsers={adminUsers}
+            isLoading={isLoadingAdminUsers}
+            onRefresh={fetchAdminUsers}
+            onChangeRole={confirmChangeAdminRole}
+            onChangeSites={handleChangeAdminSites}
+            currentUserId={currentAdminProfile?.id}
+          />
+        );
+      case "ACTIVITY":
+        return (
+          <ActivityTab
+            entries={auditEntries}
+            isLoading={isLoadingAuditLog}
+            onSearch={fetchAuditLog}
+            maxEntries={AUDIT_LOG_LIMIT}
+          />
+        );
       default:
         return null;
     }
@@ -1208,30 +2272,30 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
             </div>
           </div>
           <nav className="flex space-x-2 pb-2 px-1">
-            <TabButton
-              label="Answer Keys"
-              tabName="ANSWER_KEYS"
-              activeTab={activeTab}
-              onClick={setActiveTab}
-            />
-            <TabButton
-              label="Annotators"
-              tabName="ANNOTATORS"
-              activeTab={activeTab}
-              onClick={setActiveTab}
-            />
-            <TabButton
-              label="Analytics"
-              tabName="ANALYTICS"
-              activeTab={activeTab}
-              onClick={setActiveTab}
-            />
+            {visibleTabs.map((tab) => (
+              <TabButton
+                key={tab.tabName}
+                label={tab.label}
+                tabName={tab.tabName}
+                activeTab={activeTab}
+                onClick={setActiveTab}
+              />
+            ))}
           </nav>
         </div>
       </header>
 
       <main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {renderActiveTabContent()}
+        {isLoadingAdminProfile ? (
+          <p className="text-slate-500 italic">Loading your permissions...</p>
+        ) : visibleTabs.length === 0 ? (
+          <div className="p-6 bg-slate-50 rounded-lg shadow text-center text-slate-600">
+            Your account has no admin role yet. Ask a super admin to assign one
+            in the Admins tab.
+          </div>
+        ) : (
+          renderActiveTabContent()
+        )}
       </main>
 
       <footer className="text-center py-6 text-sm text-slate-500 border-t border-slate-200 mt-auto">
@@ -1243,6 +2307,8 @@ export const AdminDashboardPage: React.FC<AdminDashboardPageProps> = ({
         title={modalContent.title}
         onConfirm={modalContent.onConfirm}
         confirmText={modalContent.confirmText}
+        cancelText={modalContent.cancelText}
+        onCancelSecondary={modalContent.onCancelSecondary}
       >
         {modalContent.body}
       </Modal>
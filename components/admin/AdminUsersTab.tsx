@@ -0,0 +1,159 @@
+import React from "react";
+import { AdminRole, AdminUser } from "../../types";
+import { ADMIN_ROLE_OPTIONS, SITE_SCOPED_ADMIN_ROLES } from "../../constants";
+import { useSites } from "../../contexts/SitesContext";
+
+interface AdminUsersTabProps {
+  adminUsers: AdminUser[];
+  isLoading: boolean;
+  onRefresh: () => void;
+  onChangeRole: (adminUser: AdminUser, role: AdminRole | null) => void;
+  onChangeSites: (adminUser: AdminUser, siteIds: number[]) => void;
+  currentUserId: string | undefined; // The signed-in admin, who cannot change their own role
+}
+
+const AdminUsersTab: React.FC<AdminUsersTabProps> = ({
+  adminUsers,
+  isLoading,
+  onRefresh,
+  onChangeRole,
+  onChangeSites,
+  currentUserId,
+}) => {
+  const { sites } = useSites();
+
+  return (
+    <div className="p-6 bg-slate-50 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-semibold text-slate-700">Admin Roles</h3>
+        <button
+          onClick={onRefresh}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-70 disabled:cursor-wait"
+          disabled={isLoading}
+        >
+          Refresh
+        </button>
+      </div>
+      <p className="text-sm text-slate-600 mb-4">
+        Users are added in Supabase Auth and have no access until they are given
+        a role here.
+      </p>
+      <ul className="text-xs text-slate-500 mb-4 space-y-1">
+        {ADMIN_ROLE_OPTIONS.map((option) => (
+          <li key={option.value}>
+            <span className="font-semibold text-slate-700">
+              {option.label}:
+            </span>{" "}
+            {option.description}
+          </li>
+        ))}
+      </ul>
+
+      {isLoading && <p className="text-slate-500 italic">Loading admins...</p>}
+      {!isLoading && adminUsers.length === 0 && (
+        <p className="text-slate-500 italic">No users found.</p>
+      )}
+      {!isLoading && adminUsers.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm text-left text-slate-600">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-200">
+              <tr>
+                <th scope="col" className="px-4 py-3">
+                  Email
+                </th>
+                <th scope="col" className="px-4 py-3">
+                  Last Sign-in
+                </th>
+                <th scope="col" className="px-4 py-3">
+                  Role
+                </th>
+                <th scope="col" className="px-4 py-3">
+                  Sites
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {adminUsers.map((adminUser) => (
+                <tr
+                  key={adminUser.userId}
+                  className="bg-white border-b hover:bg-slate-50"
+                >
+                  <td className="px-4 py-3 font-medium text-slate-900">
+                    {adminUser.email}
+                    {adminUser.userId === currentUserId && (
+                      <span className="ml-2 text-xs text-slate-500">(you)</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {adminUser.lastSignInAt ? (
+                      new Date(adminUser.lastSignInAt).toLocaleString()
+                    ) : (
+                      <span className="text-slate-400 italic">Never</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={adminUser.role ?? ""}
+                      onChange={(e) =>
+                        onChangeRole(
+                          adminUser,
+                          (e.target.value as AdminRole) || null
+                        )
+                      }
+                      disabled={adminUser.userId === currentUserId}
+                      aria-label={`Role for ${adminUser.email}`}
+                      className="px-3 py-2 border border-slate-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 disabled:bg-slate-100"
+                    >
+                      <option value="">No access</option>
+                      {ADMIN_ROLE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3">
+                    {adminUser.role &&
+                    SITE_SCOPED_ADMIN_ROLES.includes(adminUser.role) ? (
+                      <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {sites.map((site) => (
+                          <label
+                            key={site.id}
+                            className="flex items-center gap-x-1 text-xs"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={adminUser.siteIds.includes(site.id)}
+                              onChange={(e) =>
+                                onChangeSites(
+                                  adminUser,
+                                  e.target.checked
+                                    ? [...adminUser.siteIds, site.id]
+                                    : adminUser.siteIds.filter(
+                                        (siteId) => siteId !== site.id
+                                      )
+                                )
+                              }
+                              className="h-3.5 w-3.5 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                            />
+                            {site.userIdPrefix}
+                          </label>
+                        ))}
+                      </div>
+                    ) : (
+                      <span className="text-slate-400 italic">
+                        {adminUser.role ? "All sites" : "—"}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminUsersTab;
@@ -1,6 +1,10 @@
 import React from "react";
-import { AnnotatorInfo, UserExamScoreMetrics } from "../../types";
-import { EXAMS_DATA, USER_ID_PREFIXES } from "../../constants";
+import { AnnotatorInfo, Site, UserExamScoreMetrics } from "../../types";
+import { DEFAULT_PASSING_SCORE } from "../../constants";
+import { useExamCatalog } from "../../contexts/ExamCatalogContext";
+import { useSites } from "../../contexts/SitesContext";
+import { getExamSettings } from "../../utils/examUtils";
+import SiteScopeNotice from "./SiteScopeNotice";
 
 interface AnnotatorsTabProps {
   isLoading: boolean;
@@ -14,7 +18,7 @@ interface AnnotatorsTabProps {
   onRefresh: () => void;
   annotatorSearchTerm: string;
   setAnnotatorSearchTerm: (value: string) => void;
-  filterPrefix: string;
+  filterPrefix: string; // A site's user id prefix, or "all"
   setFilterPrefix: (value: string) => void;
   filterDate: string;
   setFilterDate: (value: string) => void;
@@ -35,6 +39,10 @@ interface AnnotatorsTabProps {
   onEditUsernameClick: (annotator: AnnotatorInfo) => void;
   onSaveUsername: (annotatorId: number) => void;
   onCancelEdit: () => void;
+  onIssueAccessCode: (annotator: AnnotatorInfo) => void;
+  onImportRoster: () => void;
+  canManage: boolean; // Renaming, login codes and roster import
+  siteScope: Site[] | null; // The admin's sites, or null when they see every site
 }
 
 const PencilIcon = () => (
@@ -54,6 +62,23 @@ const PencilIcon = () => (
   </svg>
 );
 
+const KeyIcon = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    fill="none"
+    viewBox="0 0 24 24"
+    strokeWidth={1.5}
+    stroke="currentColor"
+    className="w-4 h-4"
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      d="M15.75 5.25a3 3 0 013 3m3 0a6 6 0 01-7.029 5.912c-.563-.097-1.159.026-1.563.43L10.5 17.25H8.25v2.25H6v2.25H2.25v-2.818c0-.597.237-1.17.659-1.591l6.499-6.499c.404-.404.527-1 .43-1.563A6 6 0 1121.75 8.25z"
+    />
+  </svg>
+);
+
 const CheckIcon = () => (
   <svg
     xmlns="http://www.w3.org/2000/svg"
@@ -264,7 +289,13 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
   onEditUsernameClick,
   onSaveUsername,
   onCancelEdit,
+  onIssueAccessCode,
+  onImportRoster,
+  canManage,
+  siteScope,
 }) => {
+  const { exams } = useExamCatalog();
+  const { sites } = useSites();
   const totalPages = Math.ceil(processedAnnotators.length / rowsPerPage);
 
   const handleExportAnnotatorsToCSV = () => {
@@ -280,6 +311,11 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
     }[] = [
       { key: "id", header: "DB ID" },
       { key: "liftapp_user_id", header: "LiftApp User ID" },
+      { key: "full_name", header: "Name" },
+      { key: "site", header: "Site" },
+      { key: "cohort", header: "Cohort" },
+      { key: "start_date", header: "Start Date" },
+      { key: "rostered_at", header: "Rostered On" },
       { key: "created_at", header: "Registered On" },
       { key: "overall_completion_date", header: "Overall Completion Date" },
       { key: "total_images_attempted_overall", header: "Overall Batches" },
@@ -294,7 +330,7 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
       { key: "total_retakes_overall", header: "Overall Retakes" },
       { key: "overall_score_percentage", header: "Overall Score (%)" },
     ];
-    EXAMS_DATA.forEach((exam) => {
+    exams.forEach((exam) => {
       columnsToExport.push(
         {
           key: `${exam.id}_images_attempted`,
@@ -373,6 +409,14 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
           Annotator Management & Scores
         </h3>
         <div className="flex items-center gap-x-3">
+          {canManage && (
+            <button
+              onClick={onImportRoster}
+              className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-100 hover:bg-blue-200 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              Import Roster
+            </button>
+          )}
           <button
             onClick={onRefresh}
             className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors flex items-center gap-x-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-70 disabled:cursor-wait"
@@ -391,13 +435,15 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
         </div>
       </div>
 
+      <SiteScopeNotice siteScope={siteScope} />
+
       <div className="flex flex-wrap items-end gap-x-4 gap-y-2 mb-4 p-4 bg-slate-100 rounded-md border border-slate-200">
         <div>
           <label
             htmlFor="annotatorSearch"
             className="block text-xs font-medium text-slate-600"
           >
-            Search User ID
+            Search ID or Name
           </label>
           <input
             id="annotatorSearch"
@@ -413,7 +459,7 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
             htmlFor="prefixFilter"
             className="block text-xs font-medium text-slate-600"
           >
-            User Prefix
+            Site
           </label>
           <select
             id="prefixFilter"
@@ -421,10 +467,13 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
             onChange={(e) => setFilterPrefix(e.target.value)}
             className="mt-1 block w-full pl-3 pr-8 py-2 border-slate-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
           >
-            <option value="all">All Prefixes</option>
-            {USER_ID_PREFIXES.map((prefix) => (
-              <option key={prefix} value={prefix}>
-                {prefix}
+            <option value="all">All Sites</option>
+            {(siteScope ?? sites).map((site) => (
+              <option key={site.id} value={site.userIdPrefix}>
+                {site.displayName === site.userIdPrefix
+                  ? site.userIdPrefix
+                  : `${site.userIdPrefix} – ${site.displayName}`}
+                {!site.isActive && " (inactive)"}
               </option>
             ))}
           </select>
@@ -509,8 +558,12 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
             className="mt-1 block w-full pl-3 pr-8 py-2 border-slate-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
           >
             <option value="all">All Scores</option>
-            <option value=">=90">Passed (&gt;= 90%)</option>
-            <option value="<90">Failed (&lt; 90%)</option>
+            <option value="passed">
+              Passed (&gt;= {DEFAULT_PASSING_SCORE}%)
+            </option>
+            <option value="failed">
+              Failed (&lt; {DEFAULT_PASSING_SCORE}%)
+            </option>
           </select>
         </div>
         <div>
@@ -564,6 +617,18 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
                   >
                     LiftApp User ID
                   </th>
+                  <th scope="col" className="px-3 py-3">
+                    Name
+                  </th>
+                  <th scope="col" className="px-3 py-3">
+                    Site
+                  </th>
+                  <th scope="col" className="px-3 py-3">
+                    Cohort
+                  </th>
+                  <th scope="col" className="px-3 py-3">
+                    Start Date
+                  </th>
                   <th scope="col" className="px-3 py-3">
                     Registered On
                   </th>
@@ -613,7 +678,7 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
                       {getSortIcon("overall_score_percentage")}
                     </button>
                   </th>
-                  {EXAMS_DATA.map((exam) => (
+                  {exams.map((exam) => (
                     <React.Fragment key={exam.id}>
                       <th
                         scope="col"
@@ -686,17 +751,62 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
                         </div>
                       ) : (
                         <div className="flex items-center gap-x-2">
-                          <button
-                            onClick={() => onEditUsernameClick(annotator)}
-                            className="p-1 text-slate-500 hover:text-blue-600 hover:bg-blue-100 rounded-md"
-                            aria-label="Edit username"
-                          >
-                            <PencilIcon />
-                          </button>
+                          {canManage && (
+                            <button
+                              onClick={() => onEditUsernameClick(annotator)}
+                              className="p-1 text-slate-500 hover:text-blue-600 hover:bg-blue-100 rounded-md"
+                              aria-label="Edit username"
+                            >
+                              <PencilIcon />
+                            </button>
+                          )}
                           <span>{annotator.liftapp_user_id}</span>
+                          {!annotator.rostered_at ? (
+                            <span
+                              className="px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-700"
+                              title="Import this ID in a roster before issuing a login code"
+                            >
+                              Not on roster
+                            </span>
+                          ) : (
+                            canManage && (
+                              <button
+                                onClick={() => onIssueAccessCode(annotator)}
+                                className="p-1 text-slate-500 hover:text-blue-600 hover:bg-blue-100 rounded-md"
+                                aria-label="Issue login code"
+                                title="Issue login code"
+                              >
+                                <KeyIcon />
+                              </button>
+                            )
+                          )}
                         </div>
                       )}
                     </td>
+                    <td className="px-3 py-3">
+                      {annotator.full_name || (
+                        <span className="text-slate-400 italic">N/A</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-3">
+                      {annotator.site || (
+                        <span className="text-slate-400 italic">N/A</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-3">
+                      {annotator.cohort || (
+                        <span className="text-slate-400 italic">N/A</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-3">
+                      {annotator.start_date ? (
+                        new Date(
+                          `${annotator.start_date}T00:00:00`
+                        ).toLocaleDateString()
+                      ) : (
+                        <span className="text-slate-400 italic">N/A</span>
+                      )}
+                    </td>
                     <td className="px-3 py-3">
                       {new Date(annotator.created_at).toLocaleDateString()}
                     </td>
@@ -727,7 +837,8 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
                       annotator.overall_score_percentage !== null ? (
                         <span
                           className={`font-bold px-2 py-1 rounded-full text-xs ${
-                            annotator.overall_score_percentage >= 90
+                            annotator.overall_score_percentage >=
+                            DEFAULT_PASSING_SCORE
                               ? "bg-green-100 text-green-700"
                               : annotator.overall_score_percentage >= 50
                               ? "bg-yellow-100 text-yellow-700"
@@ -742,7 +853,7 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
                         </span>
                       )}
                     </td>
-                    {EXAMS_DATA.map((exam) => {
+                    {exams.map((exam) => {
                       const examScores = annotator.per_exam_scores?.[exam.id];
                       return (
                         <React.Fragment key={exam.id}>
@@ -769,8 +880,18 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
                             (examScores.total_answer_key_keystrokes ?? 0) >
                               0 ? (
                               <span
+                                title={
+                                  examScores.submitted_late
+                                    ? "Submitted after the time limit"
+                                    : undefined
+                                }
                                 className={`font-bold px-2 py-1 rounded-full text-xs ${
-                                  examScores.score_percentage >= 90
+                                  !examScores.submitted_late &&
+                                  examScores.score_percentage >=
+                                  getExamSettings(
+                                    exam,
+                                    annotator.liftapp_user_id
+                                  ).passingScore
                                     ? "bg-green-100 text-green-700"
                                     : examScores.score_percentage >= 50
                                     ? "bg-yellow-100 text-yellow-700"
@@ -778,6 +899,7 @@ const AnnotatorsTab: React.FC<AnnotatorsTabProps> = ({
                                 }`}
                               >
                                 {examScores.score_percentage.toFixed(1)}%
+                                {examScores.submitted_late && " (late)"}
                               </span>
                             ) : (
                               <span className="text-slate-500 italic text-xs">
@@ -2,8 +2,9 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Exam, AnnotationColumn, AnnotationRowData, AnswerKeyEntry } from '../../types';
 import { generateRowId } from '../../utils/examUtils'; // Using the centralized helper
-import { getColumnsForExam } from '../../constants';
+import { useExamCatalog } from '../../contexts/ExamCatalogContext';
 import { useToast } from '../../contexts/ToastContext';
+import { getInputType } from '../../utils/validationUtils';
 
 interface AnswerKeyFormProps {
   exams: Exam[];
@@ -15,17 +16,19 @@ interface AnswerKeyFormProps {
 
 const AnswerKeyForm: React.FC<AnswerKeyFormProps> = ({ exams, onSave, onCancel, initialData, defaultExamId }) => {
   const { addToast } = useToast();
+  const { getColumnsForExam } = useExamCatalog();
   const [selectedExamId, setSelectedExamId] = useState<string>(() => {
     if (initialData?.examId) return initialData.examId;
     if (defaultExamId) return defaultExamId;
     return exams.length > 0 ? exams[0].id : '';
   });
 
-  const columns = useMemo(() => getColumnsForExam(selectedExamId), [selectedExamId]);
+  const columns = useMemo(() => getColumnsForExam(selectedExamId), [getColumnsForExam, selectedExamId]);
 
   const [imageId, setImageId] = useState<string>(initialData?.imageId || ''); 
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [previewImageUrl, setPreviewImageUrl] = useState<string | null>(initialData?.imageUrl || null);
+  const [isPractice, setIsPractice] = useState<boolean>(initialData?.isPractice ?? false);
 
   const [answerRows, setAnswerRows] = useState<AnnotationRowData[]>([]);
 
@@ -132,6 +135,7 @@ const AnswerKeyForm: React.FC<AnswerKeyFormProps> = ({ exams, onSave, onCancel,
       imageUrl: previewImageUrl || initialData?.imageUrl, 
       dbImageId: initialData?.dbImageId,
       dbExamId: initialData?.dbExamId,
+      isPractice,
     });
   };
 
@@ -185,6 +189,16 @@ const AnswerKeyForm: React.FC<AnswerKeyFormProps> = ({ exams, onSave, onCancel,
           required
         />
          <p className="mt-1 text-xs text-slate-500">This identifier is used to link annotations to this image. It should be unique for the selected exam type.</p>
+        <label className="mt-3 flex items-center gap-x-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={isPractice}
+            onChange={(e) => setIsPractice(e.target.checked)}
+            className="h-4 w-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+          />
+          Practice image
+        </label>
+        <p className="mt-1 text-xs text-slate-500">Practice images are only shown in practice mode, where annotators see right and wrong cells as they type. They are never part of a scored attempt.</p>
       </div>
 
 
@@ -210,7 +224,7 @@ const AnswerKeyForm: React.FC<AnswerKeyFormProps> = ({ exams, onSave, onCancel,
                 <div key={col.id}>
                   <label htmlFor={`${row.id}-${col.id}`} className="block text-xs font-medium text-slate-600 mb-0.5">{col.label}</label>
                   <input
-                    type={col.type}
+                    type={getInputType(col.type)}
                     id={`${row.id}-${col.id}`}
                     value={row.cells[col.id] || ''}
                     onChange={e => handleCellChange(rowIndex, col.id, e.target.value)}
@@ -0,0 +1,700 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Exam, AnnotationColumn, ExamCohortSetting, ExamDefinitionEntry, SpecialCharSet } from '../../types';
+import {
+  COLUMN_TYPE_OPTIONS,
+  COLUMN_WIDTH_OPTIONS,
+  DEFAULT_ANNOTATION_TABLE_COLUMNS,
+  DEFAULT_PASSING_SCORE,
+  DEFAULT_SPECIAL_CHAR_SETS,
+  EXAM_DURATION_SECONDS,
+  EXAM_ICONS,
+  MAX_IMAGES_PER_ATTEMPT,
+} from '../../constants';
+import { generateRowId } from '../../utils/examUtils';
+import { formatSpecialCharacters, parseSpecialCharacters } from '../../utils/specialCharUtils';
+import { useToast } from '../../contexts/ToastContext';
+import { useSites } from '../../contexts/SitesContext';
+
+interface ExamEditorFormProps {
+  onSave: (entry: ExamDefinitionEntry) => void;
+  onCancel: () => void;
+  initialExam?: Exam | null; // Null or undefined when creating a new exam
+  isSaving: boolean;
+}
+
+// A column being edited; `originalId` remembers the saved id so renames can be detected
+interface EditableColumn extends AnnotationColumn {
+  key: string;
+  originalId?: string;
+}
+
+// A special-character set being edited, with its lists kept as typed
+interface EditableCharSet {
+  key: string;
+  name: string;
+  languages: string; // Comma-separated
+  characters: string; // Shorthand read by parseSpecialCharacters
+}
+
+const IDENTIFIER_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const hasRange = (type: AnnotationColumn['type']) => type === 'number' || type === 'year';
+
+const parseBound = (value: string): number | undefined => (value.trim() === '' ? undefined : Number(value));
+
+const toEditableColumns = (columns: AnnotationColumn[], isSaved: boolean): EditableColumn[] =>
+  columns.map(col => ({ ...col, key: generateRowId(), originalId: isSaved ? col.id : undefined }));
+
+const toEditableCharSets = (sets: SpecialCharSet[]): EditableCharSet[] =>
+  sets.map(set => ({
+    key: generateRowId(),
+    name: set.name,
+    languages: (set.languages ?? []).join(', '),
+    characters: formatSpecialCharacters(set.characters),
+  }));
+
+const ExamEditorForm: React.FC<ExamEditorFormProps> = ({ onSave, onCancel, initialExam, isSaving }) => {
+  const { addToast } = useToast();
+  const { sites } = useSites();
+  const [examCode, setExamCode] = useState<string>('');
+  const [name, setName] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [iconKey, setIconKey] = useState<string>('document');
+  const [durationMinutes, setDurationMinutes] = useState<number>(EXAM_DURATION_SECONDS / 60);
+  const [passingScore, setPassingScore] = useState<number>(DEFAULT_PASSING_SCORE);
+  const [imagesPerAttempt, setImagesPerAttempt] = useState<number>(1);
+  const [columns, setColumns] = useState<EditableColumn[]>([]);
+  const [cohortSettings, setCohortSettings] = useState<ExamCohortSetting[]>([]);
+  const [charSets, setCharSets] = useState<EditableCharSet[]>([]);
+
+  useEffect(() => {
+    if (initialExam) {
+      setExamCode(initialExam.id);
+      setName(initialExam.name);
+      setDescription(initialExam.description);
+      setIconKey(initialExam.iconKey);
+      setDurationMinutes(Math.round(initialExam.durationSeconds / 60));
+      setPassingScore(initialExam.passingScore);
+      setImagesPerAttempt(initialExam.imagesPerAttempt);
+      setColumns(toEditableColumns(initialExam.columns, true));
+      setCohortSettings(initialExam.cohortSettings);
+      setCharSets(toEditableCharSets(initialExam.specialCharSets));
+    } else {
+      setExamCode('');
+      setName('');
+      setDescription('');
+      setIconKey('document');
+      setDurationMinutes(EXAM_DURATION_SECONDS / 60);
+      setPassingScore(DEFAULT_PASSING_SCORE);
+      setImagesPerAttempt(1);
+      setColumns(toEditableColumns(DEFAULT_ANNOTATION_TABLE_COLUMNS, false));
+      setCohortSettings([]);
+      setCharSets([]);
+    }
+  }, [initialExam]);
+
+  const updateColumn = useCallback((index: number, changes: Partial<AnnotationColumn>) => {
+    setColumns(prev => prev.map((col, idx) => (idx === index ? { ...col, ...changes } : col)));
+  }, []);
+
+  const moveColumn = useCallback((index: number, direction: 1 | -1) => {
+    setColumns(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const removeColumn = useCallback((index: number) => {
+    setColumns(prev => prev.filter((_, idx) => idx !== index));
+  }, []);
+
+  const addColumn = useCallback(() => {
+    setColumns(prev => [...prev, { key: generateRowId(), id: '', label: '', type: 'text', width: 'w-36' }]);
+  }, []);
+
+  const updateCohortSetting = useCallback((index: number, changes: Partial<ExamCohortSetting>) => {
+    setCohortSettings(prev => prev.map((setting, idx) => (idx === index ? { ...setting, ...changes } : setting)));
+  }, []);
+
+  const removeCohortSetting = useCallback((index: number) => {
+    setCohortSettings(prev => prev.filter((_, idx) => idx !== index));
+  }, []);
+
+  const unusedPrefixes = sites
+    .map(site => site.userIdPrefix)
+    .filter(prefix => !cohortSettings.some(setting => setting.userIdPrefix === prefix));
+
+  const addCohortSetting = () => {
+    if (unusedPrefixes.length === 0) return;
+    setCohortSettings(prev => [...prev, { userIdPrefix: unusedPrefixes[0], durationSeconds: null, passingScore: null }]);
+  };
+
+  const updateCharSet = useCallback((index: number, changes: Partial<EditableCharSet>) => {
+    setCharSets(prev => prev.map((set, idx) => (idx === index ? { ...set, ...changes } : set)));
+  }, []);
+
+  const removeCharSet = useCallback((index: number) => {
+    setCharSets(prev => prev.filter((_, idx) => idx !== index));
+  }, []);
+
+  const addCharSet = () => {
+    setCharSets(prev => [...prev, { key: generateRowId(), name: '', languages: '', characters: '' }]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = examCode.trim();
+    if (!IDENTIFIER_PATTERN.test(code)) {
+      addToast({ type: 'error', message: 'Exam code must start with a lowercase letter and use only lowercase letters, digits and underscores.' });
+      return;
+    }
+    if (!name.trim()) {
+      addToast({ type: 'error', message: 'Please give the exam a name.' });
+      return;
+    }
+    if (!(durationMinutes > 0) || !(passingScore >= 0 && passingScore <= 100)) {
+      addToast({ type: 'error', message: 'Duration must be positive and the passing score between 0 and 100.' });
+      return;
+    }
+    if (!Number.isInteger(imagesPerAttempt) || imagesPerAttempt < 1 || imagesPerAttempt > MAX_IMAGES_PER_ATTEMPT) {
+      addToast({ type: 'error', message: `Images per attempt must be a whole number from 1 to ${MAX_IMAGES_PER_ATTEMPT}.` });
+      return;
+    }
+    if (columns.length === 0) {
+      addToast({ type: 'error', message: 'An exam needs at least one column.' });
+      return;
+    }
+    const invalidColumn = columns.find(col => !IDENTIFIER_PATTERN.test(col.id) || !col.label.trim());
+    if (invalidColumn) {
+      addToast({ type: 'error', message: `Column "${invalidColumn.label || invalidColumn.id || '(new)'}" needs a label and an id in lowercase letters, digits and underscores.` });
+      return;
+    }
+    const emptyChoice = columns.find(col => col.type === 'choice' && !col.options?.some(option => option.trim()));
+    if (emptyChoice) {
+      addToast({ type: 'error', message: `Choice column "${emptyChoice.label}" needs at least one allowed value.` });
+      return;
+    }
+    const invalidOverride = cohortSettings.find(
+      setting =>
+        (setting.durationSeconds == null && setting.passingScore == null) ||
+        (setting.durationSeconds != null && !(setting.durationSeconds > 0)) ||
+        (setting.passingScore != null && !(setting.passingScore >= 0 && setting.passingScore <= 100))
+    );
+    if (invalidOverride) {
+      addToast({ type: 'error', message: `The ${invalidOverride.userIdPrefix} override needs a positive duration and/or a passing score between 0 and 100.` });
+      return;
+    }
+    const invalidCharSet = charSets.find(set => !set.name.trim() || parseSpecialCharacters(set.characters).length === 0);
+    if (invalidCharSet) {
+      addToast({ type: 'error', message: `Special character set "${invalidCharSet.name || '(new)'}" needs a name and at least one character.` });
+      return;
+    }
+    const seenIds = new Set<string>();
+    const duplicate = columns.find(col => seenIds.has(col.id) || !seenIds.add(col.id));
+    if (duplicate) {
+      addToast({ type: 'error', message: `Column id "${duplicate.id}" is used more than once.` });
+      return;
+    }
+
+    const columnRenames: Record<string, string> = {};
+    columns.forEach(col => {
+      if (col.originalId && col.originalId !== col.id) columnRenames[col.originalId] = col.id;
+    });
+    const keptOriginalIds = new Set(columns.map(col => col.originalId).filter(Boolean));
+    const removedColumnIds = (initialExam?.columns ?? [])
+      .map(col => col.id)
+      .filter(id => !keptOriginalIds.has(id));
+
+    onSave({
+      dbId: initialExam?.dbId,
+      examCode: code,
+      name: name.trim(),
+      description: description.trim(),
+      iconKey,
+      // Drop editor-only fields and unset flags so the stored JSON stays compact
+      columns: columns.map(({ key, originalId, required, unscored, options, min, max, ...col }) => ({
+        ...col,
+        label: col.label.trim(),
+        ...(required ? { required } : {}),
+        ...(unscored ? { unscored } : {}),
+        ...(col.type === 'choice' ? { options: (options ?? []).map(option => option.trim()).filter(Boolean) } : {}),
+        ...(hasRange(col.type) && min != null ? { min } : {}),
+        ...(hasRange(col.type) && max != null ? { max } : {}),
+      })),
+      durationSeconds: Math.round(durationMinutes * 60),
+      passingScore,
+      imagesPerAttempt,
+      cohortSettings,
+      specialCharSets: charSets.map(set => {
+        const languages = set.languages.split(',').map(language => language.trim().toLowerCase()).filter(Boolean);
+        return {
+          name: set.name.trim(),
+          ...(languages.length > 0 ? { languages } : {}),
+          characters: parseSpecialCharacters(set.characters),
+        };
+      }),
+      columnRenames,
+      removedColumnIds,
+    });
+  };
+
+  const inputClass = 'mt-1 block w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+  const cellInputClass = 'w-full p-1.5 border border-slate-300 rounded-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none text-xs disabled:bg-slate-100';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6 bg-white p-6 rounded-md shadow-inner border border-slate-200">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="examCode" className="block text-sm font-medium text-slate-700 mb-1">Exam Code</label>
+          <input
+            type="text"
+            id="examCode"
+            value={examCode}
+            onChange={e => setExamCode(e.target.value)}
+            placeholder="e.g., census"
+            className={`${inputClass} disabled:bg-slate-100`}
+            disabled={!!initialExam}
+            required
+          />
+          <p className="mt-1 text-xs text-slate-500">Used in links and saved drafts; it cannot be changed later.</p>
+        </div>
+        <div>
+          <label htmlFor="examName" className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+          <input
+            type="text"
+            id="examName"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="e.g., Census Records"
+            className={inputClass}
+            required
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label htmlFor="examDescription" className="block text-sm font-medium text-slate-700 mb-1">Description</label>
+          <textarea
+            id="examDescription"
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="examIcon" className="block text-sm font-medium text-slate-700 mb-1">Icon</label>
+          <select id="examIcon" value={iconKey} onChange={e => setIconKey(e.target.value)} className={inputClass}>
+            {Object.entries(EXAM_ICONS).map(([key, { label }]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="examDuration" className="block text-sm font-medium text-slate-700 mb-1">Duration (minutes)</label>
+            <input
+              type="number"
+              id="examDuration"
+              min={1}
+              value={durationMinutes}
+              onChange={e => setDurationMinutes(Number(e.target.value))}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="examPassingScore" className="block text-sm font-medium text-slate-700 mb-1">Passing Score (%)</label>
+            <input
+              type="number"
+              id="examPassingScore"
+              min={0}
+              max={100}
+              step="0.1"
+              value={passingScore}
+              onChange={e => setPassingScore(Number(e.target.value))}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="examImagesPerAttempt" className="block text-sm font-medium text-slate-700 mb-1">Images per Attempt</label>
+            <input
+              type="number"
+              id="examImagesPerAttempt"
+              min={1}
+              max={MAX_IMAGES_PER_ATTEMPT}
+              value={imagesPerAttempt}
+              onChange={e => setImagesPerAttempt(Number(e.target.value))}
+              className={inputClass}
+              required
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-md font-medium text-slate-700">Columns</h4>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-100">
+              <tr>
+                <th className="px-2 py-1.5 text-left font-medium text-slate-600">Order</th>
+                <th className="px-2 py-1.5 text-left font-medium text-slate-600">Label</th>
+                <th className="px-2 py-1.5 text-left font-medium text-slate-600">Id</th>
+                <th className="px-2 py-1.5 text-left font-medium text-slate-600">Type</th>
+                <th className="px-2 py-1.5 text-left font-medium text-slate-600">Allowed Values</th>
+                <th className="px-2 py-1.5 text-left font-medium text-slate-600">Width</th>
+                <th className="px-2 py-1.5 text-center font-medium text-slate-600">Required</th>
+                <th className="px-2 py-1.5 text-center font-medium text-slate-600">Unscored</th>
+                <th className="px-2 py-1.5"><span className="sr-only">Remove</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {columns.map((col, index) => {
+                // image_ref carries the image name into every row, so it must keep its id
+                const isImageRef = col.originalId === 'image_ref' || (!col.originalId && col.id === 'image_ref');
+                const isRenamed = !!col.originalId && col.originalId !== col.id;
+                return (
+                  <tr key={col.key}>
+                    <td className="px-2 py-1 whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => moveColumn(index, -1)}
+                        disabled={index === 0}
+                        className="px-1 text-slate-500 hover:text-slate-800 disabled:opacity-30"
+                        aria-label={`Move ${col.label || 'column'} left`}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveColumn(index, 1)}
+                        disabled={index === columns.length - 1}
+                        className="px-1 text-slate-500 hover:text-slate-800 disabled:opacity-30"
+                        aria-label={`Move ${col.label || 'column'} right`}
+                      >
+                        ↓
+                      </button>
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="text"
+                        value={col.label}
+                        onChange={e => updateColumn(index, { label: e.target.value })}
+                        className={cellInputClass}
+                        aria-label={`Label for column ${index + 1}`}
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="text"
+                        value={col.id}
+                        onChange={e => updateColumn(index, { id: e.target.value })}
+                        className={cellInputClass}
+                        disabled={isImageRef}
+                        aria-label={`Id for column ${index + 1}`}
+                      />
+                      {isRenamed && <p className="mt-0.5 text-amber-600">was {col.originalId}</p>}
+                    </td>
+                    <td className="px-2 py-1">
+                      <select
+                        value={col.type}
+                        onChange={e => updateColumn(index, { type: e.target.value as AnnotationColumn['type'] })}
+                        className={cellInputClass}
+                        aria-label={`Type for column ${index + 1}`}
+                      >
+                        {COLUMN_TYPE_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-2 py-1">
+                      {col.type === 'choice' ? (
+                        <input
+                          type="text"
+                          value={(col.options ?? []).join(', ')}
+                          onChange={e => updateColumn(index, { options: e.target.value.split(',').map(option => option.trim()) })}
+                          placeholder="e.g., M, F, U"
+                          className={cellInputClass}
+                          aria-label={`Allowed values for column ${index + 1}`}
+                        />
+                      ) : hasRange(col.type) ? (
+                        <div className="flex items-center gap-1">
+                          <input
+                            type="number"
+                            value={col.min ?? ''}
+                            onChange={e => updateColumn(index, { min: parseBound(e.target.value) })}
+                            placeholder="Min"
+                            className={cellInputClass}
+                            aria-label={`Minimum for column ${index + 1}`}
+                          />
+                          <input
+                            type="number"
+                            value={col.max ?? ''}
+                            onChange={e => updateColumn(index, { max: parseBound(e.target.value) })}
+                            placeholder="Max"
+                            className={cellInputClass}
+                            aria-label={`Maximum for column ${index + 1}`}
+                          />
+                        </div>
+                      ) : (
+                        <span className="text-slate-400">-</span>
+                      )}
+                    </td>
+                    <td className="px-2 py-1">
+                      <select
+                        value={col.width || ''}
+                        onChange={e => updateColumn(index, { width: e.target.value || undefined })}
+                        className={cellInputClass}
+                        aria-label={`Width for column ${index + 1}`}
+                      >
+                        <option value="">Auto</option>
+                        {COLUMN_WIDTH_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-2 py-1 text-center">
+                      <input
+                        type="checkbox"
+                        checked={!!col.required}
+                        onChange={e => updateColumn(index, { required: e.target.checked })}
+                        disabled={isImageRef}
+                        aria-label={`Column ${index + 1} is required`}
+                      />
+                    </td>
+                    <td className="px-2 py-1 text-center">
+                      <input
+                        type="checkbox"
+                        checked={isImageRef || !!col.unscored}
+                        onChange={e => updateColumn(index, { unscored: e.target.checked })}
+                        disabled={isImageRef}
+                        aria-label={`Column ${index + 1} is unscored`}
+                      />
+                    </td>
+                    <td className="px-2 py-1 text-right">
+                      {!isImageRef && (
+                        <button
+                          type="button"
+                          onClick={() => removeColumn(index)}
+                          className="text-red-500 hover:text-red-700 p-1"
+                          aria-label={`Remove column ${col.label || index + 1}`}
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <button
+          type="button"
+          onClick={addColumn}
+          className="text-sm text-blue-600 hover:text-blue-800 flex items-center space-x-1 py-1"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" /></svg>
+          <span>Add Column</span>
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-md font-medium text-slate-700">Cohort Overrides</h4>
+        <p className="text-xs text-slate-500">
+          Give annotators whose user ID starts with a prefix a different duration or passing score. Leave a value empty to use the exam's own.
+        </p>
+        {cohortSettings.length > 0 && (
+          <table className="text-xs">
+            <thead className="bg-slate-100">
+              <tr>
+                <th className="px-2 py-1.5 text-left font-medium text-slate-600">User ID Prefix</th>
+                <th className="px-2 py-1.5 text-left font-medium text-slate-600">Duration (minutes)</th>
+                <th className="px-2 py-1.5 text-left font-medium text-slate-600">Passing Score (%)</th>
+                <th className="px-2 py-1.5"><span className="sr-only">Remove</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {cohortSettings.map((setting, index) => (
+                <tr key={setting.userIdPrefix}>
+                  <td className="px-2 py-1">
+                    <select
+                      value={setting.userIdPrefix}
+                      onChange={e => updateCohortSetting(index, { userIdPrefix: e.target.value })}
+                      className={cellInputClass}
+                      aria-label={`Prefix for override ${index + 1}`}
+                    >
+                      {[setting.userIdPrefix, ...unusedPrefixes].map(prefix => (
+                        <option key={prefix} value={prefix}>{prefix}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      type="number"
+                      min={1}
+                      value={setting.durationSeconds != null ? Math.round(setting.durationSeconds / 60) : ''}
+                      onChange={e => {
+                        const minutes = parseBound(e.target.value);
+                        updateCohortSetting(index, { durationSeconds: minutes != null ? Math.round(minutes * 60) : null });
+                      }}
+                      placeholder={String(durationMinutes)}
+                      className={cellInputClass}
+                      aria-label={`Duration for ${setting.userIdPrefix}`}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="0.1"
+                      value={setting.passingScore ?? ''}
+                      onChange={e => updateCohortSetting(index, { passingScore: parseBound(e.target.value) ?? null })}
+                      placeholder={String(passingScore)}
+                      className={cellInputClass}
+                      aria-label={`Passing score for ${setting.userIdPrefix}`}
+                    />
+                  </td>
+                  <td className="px-2 py-1 text-right">
+                    <button
+                      type="button"
+                      onClick={() => removeCohortSetting(index)}
+                      className="text-red-500 hover:text-red-700 p-1"
+                      aria-label={`Remove override for ${setting.userIdPrefix}`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <button
+          type="button"
+          onClick={addCohortSetting}
+          disabled={unusedPrefixes.length === 0}
+          className="text-sm text-blue-600 hover:text-blue-800 flex items-center space-x-1 py-1 disabled:opacity-50"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" /></svg>
+          <span>Add Override</span>
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-md font-medium text-slate-700">Special Characters</h4>
+        <p className="text-xs text-slate-500">
+          Characters annotators insert from the palette or with Ctrl+Alt+key. List them separated by spaces, each with an optional
+          shortcut key after a colon, e.g. <code>ã:1 õ:2 ꝑ</code>. A set with languages is offered only in rows whose Language
+          column holds one of them. Without any sets the exam uses the built-in accents, Portuguese, German and Latin sets.
+        </p>
+        {charSets.length > 0 && (
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-100">
+              <tr>
+                <th className="px-2 py-1.5 text-left font-medium text-slate-600 w-40">Name</th>
+                <th className="px-2 py-1.5 text-left font-medium text-slate-600 w-48">Languages</th>
+                <th className="px-2 py-1.5 text-left font-medium text-slate-600">Characters</th>
+                <th className="px-2 py-1.5"><span className="sr-only">Remove</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {charSets.map((set, index) => (
+                <tr key={set.key}>
+                  <td className="px-2 py-1">
+                    <input
+                      type="text"
+                      value={set.name}
+                      onChange={e => updateCharSet(index, { name: e.target.value })}
+                      placeholder="e.g., Portuguese"
+                      className={cellInputClass}
+                      aria-label={`Name of character set ${index + 1}`}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      type="text"
+                      value={set.languages}
+                      onChange={e => updateCharSet(index, { languages: e.target.value })}
+                      placeholder="Any language"
+                      className={cellInputClass}
+                      aria-label={`Languages of character set ${index + 1}`}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      type="text"
+                      value={set.characters}
+                      onChange={e => updateCharSet(index, { characters: e.target.value })}
+                      placeholder="e.g., ã:1 õ:2"
+                      className={cellInputClass}
+                      aria-label={`Characters of character set ${index + 1}`}
+                    />
+                  </td>
+                  <td className="px-2 py-1 text-right">
+                    <button
+                      type="button"
+                      onClick={() => removeCharSet(index)}
+                      className="text-red-500 hover:text-red-700 p-1"
+                      aria-label={`Remove character set ${set.name || index + 1}`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="flex items-center space-x-4">
+          <button
+            type="button"
+            onClick={addCharSet}
+            className="text-sm text-blue-600 hover:text-blue-800 flex items-center space-x-1 py-1"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" /></svg>
+            <span>Add Character Set</span>
+          </button>
+          {charSets.length === 0 && (
+            <button
+              type="button"
+              onClick={() => setCharSets(toEditableCharSets(DEFAULT_SPECIAL_CHAR_SETS))}
+              className="text-sm text-blue-600 hover:text-blue-800 py-1"
+            >
+              Start from the built-in sets
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-md border border-slate-300 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : initialExam ? 'Update Exam' : 'Create Exam'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ExamEditorForm;
@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from "react";
+import {
+  AnnotatorInfo,
+  RosterEntry,
+  RosterPreviewRow,
+  RosterPreviewStatus,
+} from "../../types";
+import { useToast } from "../../contexts/ToastContext";
+import { buildRosterPreview, parseRosterCsv } from "../../utils/rosterUtils";
+
+interface RosterImportPanelProps {
+  annotators: AnnotatorInfo[]; // Existing annotators, for the preview
+  onImport: (entries: RosterEntry[], overwrite: boolean) => void;
+  onCancel: () => void;
+  isImporting: boolean;
+}
+
+const STATUS_LABELS: Record<
+  RosterPreviewStatus,
+  { label: string; className: string }
+> = {
+  new: { label: "New", className: "bg-green-100 text-green-700" },
+  fill: { label: "Update", className: "bg-blue-100 text-blue-700" },
+  unchanged: { label: "Unchanged", className: "bg-slate-100 text-slate-600" },
+  conflict: { label: "Conflict", className: "bg-amber-100 text-amber-700" },
+  duplicate: { label: "Duplicate", className: "bg-red-100 text-red-700" },
+  invalid: { label: "Invalid", className: "bg-red-100 text-red-700" },
+};
+
+const RosterImportPanel: React.FC<RosterImportPanelProps> = ({
+  annotators,
+  onImport,
+  onCancel,
+  isImporting,
+}) => {
+  const { addToast } = useToast();
+  const [fileName, setFileName] = useState<string>("");
+  const [previewRows, setPreviewRows] = useState<RosterPreviewRow[]>([]);
+  const [overwriteConflicts, setOverwriteConflicts] = useState<boolean>(false);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setPreviewRows([]);
+    setFileName(file?.name ?? "");
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const { rows, error } = parseRosterCsv(reader.result as string);
+      if (error) {
+        addToast({ type: "error", message: `${file.name}: ${error}` });
+        return;
+      }
+      setPreviewRows(buildRosterPreview(rows, annotators));
+    };
+    reader.readAsText(file);
+  };
+
+  const statusCounts = useMemo(() => {
+    const counts: Partial<Record<RosterPreviewStatus, number>> = {};
+    previewRows.forEach((row) => {
+      counts[row.status] = (counts[row.status] ?? 0) + 1;
+    });
+    return counts;
+  }, [previewRows]);
+
+  // Duplicate and invalid rows are never imported; conflicts only fill empty
+  // fields unless the admin chooses to overwrite.
+  const importableEntries = previewRows
+    .filter(
+      (row) =>
+        row.status === "new" ||
+        row.status === "fill" ||
+        row.status === "conflict"
+    )
+    .map((row) => row.entry);
+
+  return (
+    <div className="p-6 bg-slate-50 rounded-lg shadow space-y-4">
+      <h3 className="text-xl font-semibold text-slate-700">
+        Import Annotator Roster
+      </h3>
+      <p className="text-sm text-slate-600">
+        Upload a CSV whose first row is a header with the columns{" "}
+        <strong>ID</strong>, Name, Site, Cohort and Start Date. Only the ID
+        column is required. Annotators can only sign in with IDs on the roster.
+      </p>
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        onChange={handleFileChange}
+        aria-label="Roster CSV file"
+        className="block w-full text-sm text-slate-500
+          file:mr-4 file:py-2 file:px-4
+          file:rounded-md file:border-0
+          file:text-sm file:font-semibold
+          file:bg-blue-50 file:text-blue-700
+          hover:file:bg-blue-100"
+      />
+
+      {previewRows.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-2 text-xs">
+            <span className="text-slate-600 font-medium">
+              {fileName}: {previewRows.length} rows
+            </span>
+            {(Object.keys(STATUS_LABELS) as RosterPreviewStatus[])
+              .filter((status) => statusCounts[status])
+              .map((status) => (
+                <span
+                  key={status}
+                  className={`px-2 py-0.5 rounded-full font-semibold ${
+                    STATUS_LABELS[status].className
+                  }`}
+                >
+                  {statusCounts[status]} {STATUS_LABELS[status].label}
+                </span>
+              ))}
+          </div>
+
+          <div className="overflow-x-auto max-h-96 border border-slate-200 rounded-md">
+            <table className="min-w-full text-xs text-left text-slate-600">
+              <thead className="text-xs text-slate-700 uppercase bg-slate-200 sticky top-0">
+                <tr>
+                  <th scope="col" className="px-3 py-2">
+                    Line
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Status
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    ID
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Name
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Site
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Cohort
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Start Date
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    Notes
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 bg-white">
+                {previewRows.map((row) => (
+                  <tr key={row.lineNumber}>
+                    <td className="px-3 py-2 text-slate-400">
+                      {row.lineNumber}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`px-2 py-0.5 rounded-full font-semibold ${
+                          STATUS_LABELS[row.status].className
+                        }`}
+                      >
+                        {STATUS_LABELS[row.status].label}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 font-medium text-slate-900">
+                      {row.entry.liftappUserId}
+                    </td>
+                    <td className="px-3 py-2">{row.entry.fullName}</td>
+                    <td className="px-3 py-2">{row.entry.site}</td>
+                    <td className="px-3 py-2">{row.entry.cohort}</td>
+                    <td className="px-3 py-2">{row.entry.startDate}</td>
+                    <td className="px-3 py-2 text-slate-500">
+                      {row.messages.join(" ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {statusCounts.conflict && (
+            <label className="flex items-center gap-x-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={overwriteConflicts}
+                onChange={(e) => setOverwriteConflicts(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+              />
+              Replace existing details with the values in the file for
+              conflicting rows
+            </label>
+          )}
+        </>
+      )}
+
+      <div className="flex justify-end gap-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-200 hover:bg-slate-300 rounded-md transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onImport(importableEntries, overwriteConflicts)}
+          disabled={isImporting || importableEntries.length === 0}
+          className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md transition-colors disabled:opacity-70 disabled:cursor-not-allowed"
+        >
+          {isImporting
+            ? "Importing..."
+            : `Import ${importableEntries.length} Annotators`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RosterImportPanel;
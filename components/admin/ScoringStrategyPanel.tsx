@@ -0,0 +1,227 @@
+import React, { useMemo } from "react";
+import { ScoringStrategy, StrategyComparisonRow } from "../../types";
+import {
+  SCORING_STRATEGY_OPTIONS,
+  DEFAULT_PASSING_SCORE,
+} from "../../constants";
+import { useExamCatalog } from "../../contexts/ExamCatalogContext";
+import { getExamSettings } from "../../utils/examUtils";
+
+interface ScoringStrategyPanelProps {
+  selectedExamCode: string;
+  onSelectExam: (examCode: string) => void;
+  currentStrategy: ScoringStrategy | null;
+  pendingStrategy: ScoringStrategy | null;
+  setPendingStrategy: (strategy: ScoringStrategy) => void;
+  onApplyStrategy?: () => void; // Omitted when the admin may not change strategies
+  isSaving: boolean;
+  isLoading: boolean;
+  comparison: StrategyComparisonRow[];
+}
+
+// Standard competition ranking ("1224"): tied scores share the best rank
+const rankScores = (
+  rows: StrategyComparisonRow[],
+  strategy: ScoringStrategy
+): Map<number, number> => {
+  const sorted = [...rows].sort(
+    (a, b) => b.scores[strategy] - a.scores[strategy]
+  );
+  const ranks = new Map<number, number>();
+  sorted.forEach((row, idx) => {
+    const previous = sorted[idx - 1];
+    ranks.set(
+      row.annotatorId,
+      previous && previous.scores[strategy] === row.scores[strategy]
+        ? ranks.get(previous.annotatorId)!
+        : idx + 1
+    );
+  });
+  return ranks;
+};
+
+const ScoringStrategyPanel: React.FC<ScoringStrategyPanelProps> = ({
+  selectedExamCode,
+  onSelectExam,
+  currentStrategy,
+  pendingStrategy,
+  setPendingStrategy,
+  onApplyStrategy,
+  isSaving,
+  isLoading,
+  comparison,
+}) => {
+  const { exams, getExam } = useExamCatalog();
+  const selectedExam = getExam(selectedExamCode);
+  const ranksByStrategy = useMemo(
+    () =>
+      Object.fromEntries(
+        SCORING_STRATEGY_OPTIONS.map((option) => [
+          option.value,
+          rankScores(comparison, option.value),
+        ])
+      ) as Record<ScoringStrategy, Map<number, number>>,
+    [comparison]
+  );
+
+  // List annotators in the order the exam's current strategy ranks them
+  const sortedComparison = useMemo(() => {
+    if (!currentStrategy) return comparison;
+    const ranks = ranksByStrategy[currentStrategy];
+    return [...comparison].sort(
+      (a, b) =>
+        ranks.get(a.annotatorId)! - ranks.get(b.annotatorId)! ||
+        a.liftappUserId.localeCompare(b.liftappUserId)
+    );
+  }, [comparison, currentStrategy, ranksByStrategy]);
+
+  const pendingOption = SCORING_STRATEGY_OPTIONS.find(
+    (option) => option.value === pendingStrategy
+  );
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md">
+      <h4 className="text-lg font-semibold text-slate-700 mb-4">
+        Scoring Strategies
+      </h4>
+      <div className="flex flex-wrap items-end gap-4 mb-2">
+        <div>
+          <label
+            htmlFor="strategyExam"
+            className="block text-sm font-medium text-slate-600 mb-1"
+          >
+            Exam
+          </label>
+          <select
+            id="strategyExam"
+            value={selectedExamCode}
+            onChange={(e) => onSelectExam(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            {exams.map((exam) => (
+              <option key={exam.id} value={exam.id}>
+                {exam.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label
+            htmlFor="strategySelect"
+            className="block text-sm font-medium text-slate-600 mb-1"
+          >
+            Scoring strategy
+          </label>
+          <select
+            id="strategySelect"
+            value={pendingStrategy ?? ""}
+            onChange={(e) =>
+              setPendingStrategy(e.target.value as ScoringStrategy)
+            }
+            disabled={isLoading || isSaving || !currentStrategy}
+            className="px-3 py-2 border border-slate-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 disabled:bg-slate-100"
+          >
+            {SCORING_STRATEGY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+                {option.value === currentStrategy ? " (current)" : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+        {onApplyStrategy && (
+          <button
+            onClick={onApplyStrategy}
+            disabled={
+              isLoading ||
+              isSaving ||
+              !pendingStrategy ||
+              pendingStrategy === currentStrategy
+            }
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? "Rescoring..." : "Apply & Rescore"}
+          </button>
+        )}
+      </div>
+      {pendingOption && (
+        <p className="text-sm text-slate-500 mb-4">
+          {pendingOption.description}
+        </p>
+      )}
+
+      {isLoading ? (
+        <p className="text-center py-10 text-slate-500 italic">
+          Scoring attempts under every strategy...
+        </p>
+      ) : comparison.length === 0 ? (
+        <p className="text-slate-500 italic text-center py-10">
+          No finished attempts to compare for this exam.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm border-collapse">
+            <thead className="bg-slate-100">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700 border border-slate-200">
+                  User ID
+                </th>
+                {SCORING_STRATEGY_OPTIONS.map((option) => (
+                  <th
+                    key={option.value}
+                    className={`px-3 py-2 text-left font-semibold border border-slate-200 ${
+                      option.value === currentStrategy
+                        ? "text-blue-700 bg-blue-50"
+                        : "text-slate-700"
+                    }`}
+                  >
+                    {option.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedComparison.map((row) => (
+                <tr key={row.annotatorId} className="hover:bg-slate-50">
+                  <td className="px-3 py-2 border border-slate-200 font-medium text-slate-700">
+                    {row.liftappUserId}
+                  </td>
+                  {SCORING_STRATEGY_OPTIONS.map((option) => {
+                    const score = row.scores[option.value];
+                    const passingScore = selectedExam
+                      ? getExamSettings(selectedExam, row.liftappUserId)
+                          .passingScore
+                      : DEFAULT_PASSING_SCORE;
+                    return (
+                      <td
+                        key={option.value}
+                        className={`px-3 py-2 border border-slate-200 ${
+                          option.value === currentStrategy ? "bg-blue-50" : ""
+                        }`}
+                      >
+                        <span
+                          className={
+                            score >= passingScore
+                              ? "text-green-600"
+                              : "text-red-600"
+                          }
+                        >
+                          {score.toFixed(1)}%
+                        </span>
+                        <span className="ml-2 text-xs text-slate-400">
+                          #{ranksByStrategy[option.value].get(row.annotatorId)}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoringStrategyPanel;
@@ -0,0 +1,80 @@
+import React from "react";
+import { SiteRollup } from "../../types";
+
+interface SiteRollupTableProps {
+  rollups: SiteRollup[];
+}
+
+const formatPercent = (part: number, whole: number): string =>
+  whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : "—";
+
+const SiteRollupTable: React.FC<SiteRollupTableProps> = ({ rollups }) => (
+  <div className="overflow-x-auto">
+    <table className="min-w-full text-sm text-left text-slate-600">
+      <thead className="text-xs text-slate-700 uppercase bg-slate-200">
+        <tr>
+          <th scope="col" className="px-4 py-3">
+            Site
+          </th>
+          <th scope="col" className="px-4 py-3 text-right">
+            Annotators
+          </th>
+          <th scope="col" className="px-4 py-3 text-right">
+            Completed All Exams
+          </th>
+          <th scope="col" className="px-4 py-3 text-right">
+            Finished Attempts
+          </th>
+          <th scope="col" className="px-4 py-3 text-right">
+            Pass Rate
+          </th>
+          <th scope="col" className="px-4 py-3 text-right">
+            Average Score
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {rollups.map((rollup) => (
+          <tr key={rollup.siteId} className="bg-white border-b">
+            <td className="px-4 py-3 font-medium text-slate-900">
+              {rollup.userIdPrefix}
+              {rollup.displayName !== rollup.userIdPrefix && (
+                <span className="ml-2 font-normal text-slate-500">
+                  {rollup.displayName}
+                </span>
+              )}
+              {!rollup.isActive && (
+                <span className="ml-2 text-xs text-slate-400">(inactive)</span>
+              )}
+            </td>
+            <td className="px-4 py-3 text-right">{rollup.annotatorCount}</td>
+            <td className="px-4 py-3 text-right">
+              {rollup.completedAnnotatorCount} (
+              {formatPercent(
+                rollup.completedAnnotatorCount,
+                rollup.annotatorCount
+              )}
+              )
+            </td>
+            <td className="px-4 py-3 text-right">
+              {rollup.finishedAttemptCount}
+            </td>
+            <td className="px-4 py-3 text-right">
+              {formatPercent(
+                rollup.passedAttemptCount,
+                rollup.finishedAttemptCount
+              )}
+            </td>
+            <td className="px-4 py-3 text-right">
+              {rollup.averageScore !== null
+                ? `${rollup.averageScore.toFixed(1)}%`
+                : "—"}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default SiteRollupTable;
@@ -0,0 +1,28 @@
+import React from "react";
+import { Site } from "../../types";
+
+interface SiteScopeNoticeProps {
+  siteScope: Site[] | null; // Null when the admin sees every site
+}
+
+// Tells site coordinators that the data below only covers their sites.
+const SiteScopeNotice: React.FC<SiteScopeNoticeProps> = ({ siteScope }) => {
+  if (!siteScope) return null;
+  return (
+    <p className="mb-4 px-4 py-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+      {siteScope.length > 0 ? (
+        <>
+          Showing annotators from your sites only:{" "}
+          <strong>
+            {siteScope.map((site) => site.userIdPrefix).join(", ")}
+          </strong>
+          .
+        </>
+      ) : (
+        "You have not been assigned any sites yet. Ask a super admin to assign your sites."
+      )}
+    </p>
+  );
+};
+
+export default SiteScopeNotice;
@@ -0,0 +1,343 @@
+import React, { useState } from "react";
+import { Site, SiteDraft } from "../../types";
+import { useToast } from "../../contexts/ToastContext";
+import { validateSiteDraft } from "../../utils/siteUtils";
+
+interface SitesTabProps {
+  sites: Site[]; // All sites, with coordinator contacts
+  isLoading: boolean;
+  onRefresh: () => void;
+  onSave: (draft: SiteDraft, siteId: number | null) => Promise<boolean>; // Resolves true once saved
+  isSaving: boolean;
+}
+
+const EMPTY_SITE: SiteDraft = {
+  userIdPrefix: "",
+  displayName: "",
+  location: null,
+  coordinatorName: null,
+  coordinatorEmail: null,
+  idMinDigits: 3,
+  idMaxDigits: 4,
+  isActive: true,
+};
+
+const inputClass =
+  "mt-1 block w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm disabled:bg-slate-100";
+const labelClass = "block text-sm font-medium text-slate-700";
+
+const SitesTab: React.FC<SitesTabProps> = ({
+  sites,
+  isLoading,
+  onRefresh,
+  onSave,
+  isSaving,
+}) => {
+  const { addToast } = useToast();
+  // The site being added (siteId null) or edited; null when the form is closed
+  const [editing, setEditing] = useState<{
+    siteId: number | null;
+    draft: SiteDraft;
+  } | null>(null);
+
+  const updateDraft = (changes: Partial<SiteDraft>) =>
+    setEditing((prev) =>
+      prev ? { ...prev, draft: { ...prev.draft, ...changes } } : prev
+    );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    const draft: SiteDraft = {
+      ...editing.draft,
+      userIdPrefix: editing.draft.userIdPrefix.trim().toUpperCase(),
+      displayName: editing.draft.displayName.trim(),
+      location: editing.draft.location?.trim() || null,
+      coordinatorName: editing.draft.coordinatorName?.trim() || null,
+      coordinatorEmail: editing.draft.coordinatorEmail?.trim() || null,
+    };
+    const validationError = validateSiteDraft(draft, sites, editing.siteId);
+    if (validationError) {
+      addToast({ type: "error", message: validationError });
+      return;
+    }
+    if (await onSave(draft, editing.siteId)) {
+      setEditing(null);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-slate-50 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-semibold text-slate-700">Sites</h3>
+        <div className="flex gap-x-2">
+          <button
+            onClick={() => setEditing({ siteId: null, draft: EMPTY_SITE })}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-70"
+            disabled={!!editing}
+          >
+            Add Site
+          </button>
+          <button
+            onClick={onRefresh}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-70 disabled:cursor-wait"
+            disabled={isLoading}
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-slate-600 mb-4">
+        Annotators belong to the site whose prefix starts their user ID. Only
+        active sites are offered on the login page.
+      </p>
+
+      {editing && (
+        <form
+          onSubmit={handleSubmit}
+          className="mb-6 p-4 bg-white rounded-md border border-slate-200 grid grid-cols-1 md:grid-cols-2 gap-4"
+        >
+          <h4 className="md:col-span-2 text-lg font-semibold text-slate-700">
+            {editing.siteId === null
+              ? "Add Site"
+              : `Edit ${editing.draft.userIdPrefix}`}
+          </h4>
+          <div>
+            <label htmlFor="siteUserIdPrefix" className={labelClass}>
+              User ID Prefix
+            </label>
+            <input
+              id="siteUserIdPrefix"
+              type="text"
+              value={editing.draft.userIdPrefix}
+              onChange={(e) =>
+                updateDraft({ userIdPrefix: e.target.value.toUpperCase() })
+              }
+              disabled={editing.siteId !== null}
+              placeholder="e.g. PHCB"
+              className={inputClass}
+            />
+            {editing.siteId !== null && (
+              <p className="mt-1 text-xs text-slate-500">
+                Existing user IDs start with this prefix, so it cannot be
+                changed.
+              </p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="siteDisplayName" className={labelClass}>
+              Display Name
+            </label>
+            <input
+              id="siteDisplayName"
+              type="text"
+              value={editing.draft.displayName}
+              onChange={(e) => updateDraft({ displayName: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="siteLocation" className={labelClass}>
+              Location
+            </label>
+            <input
+              id="siteLocation"
+              type="text"
+              value={editing.draft.location ?? ""}
+              onChange={(e) => updateDraft({ location: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="siteMinDigits" className={labelClass}>
+                Min. ID Digits
+              </label>
+              <input
+                id="siteMinDigits"
+                type="number"
+                min={1}
+                max={10}
+                value={editing.draft.idMinDigits}
+                onChange={(e) =>
+                  updateDraft({ idMinDigits: Number(e.target.value) })
+                }
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="siteMaxDigits" className={labelClass}>
+                Max. ID Digits
+              </label>
+              <input
+                id="siteMaxDigits"
+                type="number"
+                min={1}
+                max={10}
+                value={editing.draft.idMaxDigits}
+                onChange={(e) =>
+                  updateDraft({ idMaxDigits: Number(e.target.value) })
+                }
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="siteCoordinatorName" className={labelClass}>
+              Coordinator Name
+            </label>
+            <input
+              id="siteCoordinatorName"
+              type="text"
+              value={editing.draft.coordinatorName ?? ""}
+              onChange={(e) => updateDraft({ coordinatorName: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="siteCoordinatorEmail" className={labelClass}>
+              Coordinator Email
+            </label>
+            <input
+              id="siteCoordinatorEmail"
+              type="email"
+              value={editing.draft.coordinatorEmail ?? ""}
+              onChange={(e) =>
+                updateDraft({ coordinatorEmail: e.target.value })
+              }
+              className={inputClass}
+            />
+          </div>
+          <label className="md:col-span-2 flex items-center gap-x-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={editing.draft.isActive}
+              onChange={(e) => updateDraft({ isActive: e.target.checked })}
+              className="h-4 w-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+            />
+            Active (shown on the login page)
+          </label>
+          <div className="md:col-span-2 flex justify-end gap-x-2">
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-200 hover:bg-slate-300 rounded-md transition-colors"
+              disabled={isSaving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-70 disabled:cursor-wait"
+              disabled={isSaving}
+            >
+              {isSaving ? "Saving..." : "Save Site"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading && <p className="text-slate-500 italic">Loading sites...</p>}
+      {!isLoading && sites.length === 0 && (
+        <p className="text-slate-500 italic">No sites yet.</p>
+      )}
+      {!isLoading && sites.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm text-left text-slate-600">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-200">
+              <tr>
+                <th scope="col" className="px-4 py-3">
+                  Prefix
+                </th>
+                <th scope="col" className="px-4 py-3">
+                  Name
+                </th>
+                <th scope="col" className="px-4 py-3">
+                  Location
+                </th>
+                <th scope="col" className="px-4 py-3">
+                  Coordinator
+                </th>
+                <th scope="col" className="px-4 py-3">
+                  ID Digits
+                </th>
+                <th scope="col" className="px-4 py-3">
+                  Status
+                </th>
+                <th scope="col" className="px-4 py-3">
+                  <span className="sr-only">Edit</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {sites.map((site) => (
+                <tr
+                  key={site.id}
+                  className="bg-white border-b hover:bg-slate-50"
+                >
+                  <td className="px-4 py-3 font-medium text-slate-900">
+                    {site.userIdPrefix}
+                  </td>
+                  <td className="px-4 py-3">{site.displayName}</td>
+                  <td className="px-4 py-3">{site.location ?? "—"}</td>
+                  <td className="px-4 py-3">
+                    {site.coordinatorName ?? "—"}
+                    {site.coordinatorEmail && (
+                      <a
+                        href={`mailto:${site.coordinatorEmail}`}
+                        className="block text-xs text-blue-600 hover:underline"
+                      >
+                        {site.coordinatorEmail}
+                      </a>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {site.idMinDigits === site.idMaxDigits
+                      ? site.idMinDigits
+                      : `${site.idMinDigits}–${site.idMaxDigits}`}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                        site.isActive
+                          ? "bg-green-100 text-green-700"
+                          : "bg-slate-100 text-slate-500"
+                      }`}
+                    >
+                      {site.isActive ? "Active" : "Inactive"}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() =>
+                        setEditing({
+                          siteId: site.id,
+                          draft: {
+                            userIdPrefix: site.userIdPrefix,
+                            displayName: site.displayName,
+                            location: site.location,
+                            coordinatorName: site.coordinatorName,
+                            coordinatorEmail: site.coordinatorEmail,
+                            idMinDigits: site.idMinDigits,
+                            idMaxDigits: site.idMaxDigits,
+                            isActive: site.isActive,
+                          },
+                        })
+                      }
+                      className="font-medium text-blue-600 hover:underline disabled:text-slate-400 disabled:no-underline"
+                      disabled={!!editing}
+                    >
+                      Edit
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SitesTab;
@@ -0,0 +1,105 @@
+import React, { useRef, useEffect } from 'react';
+import { DEFAULT_PASSING_SCORE } from '../../../constants';
+
+// Inform TypeScript that Chart will be available on the global scope from the CDN script
+declare var Chart: any;
+
+interface ChartDataPoint {
+  label: string;
+  accuracy: number; // Percentage of answer-key characters matched
+  matched: number;
+  total: number;
+}
+
+interface FieldAccuracyBarChartProps {
+  data: ChartDataPoint[];
+  passingScore?: number; // The exam's passing score; defaults to DEFAULT_PASSING_SCORE
+}
+
+// Colors bars by how close the field is to the exam's passing score
+const barColor = (accuracy: number, passingScore: number, alpha: number) =>
+  accuracy >= passingScore
+    ? `rgba(34, 197, 94, ${alpha})`
+    : accuracy >= passingScore - 15
+    ? `rgba(245, 158, 11, ${alpha})`
+    : `rgba(239, 68, 68, ${alpha})`;
+
+const FieldAccuracyBarChart: React.FC<FieldAccuracyBarChartProps> = ({ data, passingScore = DEFAULT_PASSING_SCORE }) => {
+  const chartRef = useRef<HTMLCanvasElement>(null);
+  const chartInstanceRef = useRef<any>(null); // To hold the chart instance
+
+  useEffect(() => {
+    if (chartRef.current && data) {
+      if (chartInstanceRef.current) {
+        chartInstanceRef.current.destroy();
+      }
+
+      const ctx = chartRef.current.getContext('2d');
+      if (ctx) {
+        chartInstanceRef.current = new Chart(ctx, {
+          type: 'bar',
+          data: {
+            labels: data.map(d => d.label),
+            datasets: [{
+              label: 'Accuracy',
+              data: data.map(d => d.accuracy),
+              backgroundColor: data.map(d => barColor(d.accuracy, passingScore, 0.6)),
+              borderColor: data.map(d => barColor(d.accuracy, passingScore, 1)),
+              borderWidth: 1
+            }]
+          },
+          options: {
+            indexAxis: 'y', // Horizontal bars keep long field names readable
+            responsive: true,
+            maintainAspectRatio: false,
+            scales: {
+              x: {
+                beginAtZero: true,
+                max: 100,
+                title: {
+                  display: true,
+                  text: 'Characters Matched (%)'
+                }
+              },
+              y: {
+                grid: {
+                  display: false
+                }
+              }
+            },
+            plugins: {
+              legend: {
+                display: false
+              },
+              tooltip: {
+                backgroundColor: 'rgba(0,0,0,0.8)',
+                padding: 10,
+                callbacks: {
+                  label: (context: any) => {
+                    const point = data[context.dataIndex];
+                    return ` ${point.accuracy.toFixed(1)}% (${point.matched.toLocaleString()} / ${point.total.toLocaleString()} characters)`;
+                  }
+                }
+              }
+            }
+          }
+        });
+      }
+    }
+
+    return () => {
+      if (chartInstanceRef.current) {
+        chartInstanceRef.current.destroy();
+        chartInstanceRef.current = null;
+      }
+    };
+  }, [data, passingScore]);
+
+  return (
+    <div style={{ position: 'relative', height: `${Math.max(data.length * 28, 120)}px` }}>
+      <canvas ref={chartRef}></canvas>
+    </div>
+  );
+};
+
+export default FieldAccuracyBarChart;
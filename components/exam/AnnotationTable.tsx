@@ -1,8 +1,10 @@
 import React from 'react';
-import { AnnotationRowData, AnnotationColumn, DisplayStatusType, ImageTask } from '../../types';
+import { AnnotationRowData, AnnotationColumn, CellFeedback, DisplayStatusType, ImageTask } from '../../types';
+import { getInputType, validateCellValue } from '../../utils/validationUtils';
 
 const PlusIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5"><path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" /></svg>;
 const TrashIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12.56 0c1.153 0 2.24.032 3.287.094M5.116 5.79m10.328_0V4.5a2.25 2.25 0 00-2.25-2.25h-3.874a2.25 2.25 0 00-2.25 2.25v1.29" /></svg>;
+const CarryDownIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3 h-3"><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 13.5L12 21m0 0l-7.5-7.5M12 21V3" /></svg>;
 
 interface AnnotationTableProps {
   examName: string;
@@ -22,8 +24,19 @@ interface AnnotationTableProps {
   emptyCells: number;
   currentTaskForDisplay: ImageTask | undefined;
   onTableKeyDown: (event: React.KeyboardEvent<HTMLTableSectionElement>) => void; // For overall table key events if needed
+  cellFeedback?: Record<string, CellFeedback>; // Practice feedback, keyed by `${rowId}:${columnId}`
+  onCellBlur?: (rowIndex: number, columnId: string) => void;
+  carryForwardColumnIds?: string[]; // Columns new rows copy from the row above
+  onToggleCarryForward?: (columnId: string) => void;
+  carriedCellKeys?: Set<string>; // Unconfirmed carried values, keyed by `${rowId}:${columnId}`
 }
 
+const FEEDBACK_CLASSES: Record<CellFeedback, { fill: string; title: string }> = {
+  match: { fill: 'bg-green-100 border-green-500', title: 'Matches the answer key' },
+  partial: { fill: 'bg-amber-100 border-amber-500', title: 'Partly matches the answer key' },
+  miss: { fill: 'bg-red-100 border-red-500', title: 'Does not match the answer key' },
+};
+
 const AnnotationTable: React.FC<AnnotationTableProps> = ({
   examName,
   rows,
@@ -41,7 +54,12 @@ const AnnotationTable: React.FC<AnnotationTableProps> = ({
   filledCells,
   emptyCells,
   currentTaskForDisplay,
-  onTableKeyDown
+  onTableKeyDown,
+  cellFeedback,
+  onCellBlur,
+  carryForwardColumnIds,
+  onToggleCarryForward,
+  carriedCellKeys
 }) => {
 
   const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, rowIndex: number, colIndex: number) => {
@@ -70,7 +88,26 @@ const AnnotationTable: React.FC<AnnotationTableProps> = ({
             <thead className="sticky top-0 bg-slate-100 z-10">
               <tr>
                 <th className="px-1 py-1.5 text-left font-medium text-slate-600 w-8"><span className="sr-only">Actions</span></th>
-                {columns.map(col => (<th key={col.id} className={`px-2 py-1.5 text-left font-medium text-slate-600 ${col.width || 'w-auto'}`}>{col.label}</th>))}
+                {columns.map(col => {
+                  const isCarried = carryForwardColumnIds?.includes(col.id) ?? false;
+                  return (
+                    <th key={col.id} className={`px-2 py-1.5 text-left font-medium text-slate-600 ${col.width || 'w-auto'}`}>
+                      {col.label}{col.required && <span className="ml-0.5 text-red-500" title="Required">*</span>}
+                      {onToggleCarryForward && col.id !== 'image_ref' && (
+                        <button
+                          type="button"
+                          onClick={() => onToggleCarryForward(col.id)}
+                          className={`ml-1 p-0.5 rounded align-middle transition-colors ${isCarried ? 'bg-sky-500 text-white' : 'text-slate-400 hover:text-sky-600 hover:bg-slate-200'}`}
+                          aria-pressed={isCarried}
+                          aria-label={`Carry ${col.label} forward to new rows`}
+                          title={isCarried ? 'New rows copy this column from the row above. Click to stop.' : 'Copy this column from the row above into new rows'}
+                        >
+                          <CarryDownIcon />
+                        </button>
+                      )}
+                    </th>
+                  );
+                })}
               </tr>
             </thead>
             <tbody onKeyDown={onTableKeyDown} className="divide-y divide-slate-200">
@@ -91,22 +128,40 @@ const AnnotationTable: React.FC<AnnotationTableProps> = ({
                       </button>
                     )}
                   </td>
-                  {columns.map((col, colIndex) => (
-                    <td key={col.id} className={`px-0.5 py-0 align-middle ${col.width || 'w-auto'}`}>
-                      <input 
-                        ref={el => { if (!inputRefs.current[rowIndex]) inputRefs.current[rowIndex] = []; inputRefs.current[rowIndex][colIndex] = el; }} 
-                        type={col.type} 
-                        value={row.cells[col.id] || ''} 
-                        onChange={e => onCellChange(rowIndex, col.id, e.target.value)} 
-                        onFocus={(e) => { onSetActiveRowIndex(rowIndex); focusedCellRef.current = { rowIndex, colId: col.id, inputElement: e.target }; }} 
-                        onKeyDown={(e) => handleInputKeyDown(e, rowIndex, colIndex)}
-                        className={`w-full p-1 border rounded-sm outline-none transition-colors ${(row.cells[col.id] || '').toString().trim() !== '' ? 'bg-green-50 border-green-300' : 'bg-white border-slate-300'} focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-xs ${activeRowIndex === rowIndex ? 'placeholder-slate-500' : 'placeholder-slate-400'}`} 
-                        placeholder={col.label.substring(0,3) + '...'} 
-                        aria-label={`${col.label} for row ${rowIndex + 1}`} 
-                        disabled={col.id === 'image_ref'} 
-                      />
-                    </td>
-                  ))}
+                  {columns.map((col, colIndex) => {
+                    // Invalid cells turn red and explain themselves in a tooltip;
+                    // practice feedback, once given, takes precedence. Carried
+                    // values look different until the annotator confirms them.
+                    const validationError = validateCellValue(row.cells[col.id], col);
+                    const feedback = cellFeedback?.[`${row.id}:${col.id}`];
+                    const isCarriedCell = carriedCellKeys?.has(`${row.id}:${col.id}`) ?? false;
+                    const fillClass = feedback
+                      ? FEEDBACK_CLASSES[feedback].fill
+                      : validationError
+                      ? 'bg-red-50 border-red-400'
+                      : isCarriedCell
+                      ? 'bg-sky-50 border-sky-400 border-dashed italic text-sky-800'
+                      : (row.cells[col.id] || '').toString().trim() !== '' ? 'bg-green-50 border-green-300' : 'bg-white border-slate-300';
+                    return (
+                      <td key={col.id} className={`px-0.5 py-0 align-middle ${col.width || 'w-auto'}`}>
+                        <input 
+                          ref={el => { if (!inputRefs.current[rowIndex]) inputRefs.current[rowIndex] = []; inputRefs.current[rowIndex][colIndex] = el; }} 
+                          type={getInputType(col.type)} 
+                          value={row.cells[col.id] || ''} 
+                          onChange={e => onCellChange(rowIndex, col.id, e.target.value)} 
+                          onFocus={(e) => { onSetActiveRowIndex(rowIndex); focusedCellRef.current = { rowIndex, colId: col.id, inputElement: e.target }; }} 
+                          onBlur={onCellBlur ? () => onCellBlur(rowIndex, col.id) : undefined}
+                          onKeyDown={(e) => handleInputKeyDown(e, rowIndex, colIndex)}
+                          className={`w-full p-1 border rounded-sm outline-none transition-colors ${fillClass} focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-xs ${activeRowIndex === rowIndex ? 'placeholder-slate-500' : 'placeholder-slate-400'}`} 
+                          placeholder={col.label.substring(0,3) + '...'} 
+                          title={validationError ?? (feedback ? FEEDBACK_CLASSES[feedback].title : isCarriedCell ? 'Carried forward from the row above. Type to change it or press Ctrl+D to keep it.' : undefined)}
+                          aria-invalid={!!validationError}
+                          aria-label={`${col.label} for row ${rowIndex + 1}`} 
+                          disabled={col.id === 'image_ref'} 
+                        />
+                      </td>
+                    );
+                  })}
                 </tr>
               ))}
             </tbody>
@@ -125,6 +180,9 @@ const AnnotationTable: React.FC<AnnotationTableProps> = ({
         <div>
             <span className="mr-2"><span className="inline-block w-2.5 h-2.5 bg-green-50 border border-green-300 rounded-sm mr-1 align-middle"></span>Filled: {filledCells}</span>
             <span className="mr-2"><span className="inline-block w-2.5 h-2.5 bg-white border border-slate-300 rounded-sm mr-1 align-middle"></span>Empty: {emptyCells}</span>
+            {carriedCellKeys && carryForwardColumnIds && carryForwardColumnIds.length > 0 && (
+              <span className="mr-2"><span className="inline-block w-2.5 h-2.5 bg-sky-50 border border-dashed border-sky-400 rounded-sm mr-1 align-middle"></span>Carried, not confirmed</span>
+            )}
         </div>
       </div>
     </section>
@@ -49,6 +49,38 @@ const ClockIcon = () => (
     />
   </svg>
 );
+const UndoIcon = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    fill="none"
+    viewBox="0 0 24 24"
+    strokeWidth={1.5}
+    stroke="currentColor"
+    className="w-5 h-5"
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3"
+    />
+  </svg>
+);
+const RedoIcon = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    fill="none"
+    viewBox="0 0 24 24"
+    strokeWidth={1.5}
+    stroke="currentColor"
+    className="w-5 h-5"
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      d="M15 15l6-6m0 0l-6-6m6 6H9a6 6 0 000 12h3"
+    />
+  </svg>
+);
 const CancelIcon = () => (
   <svg
     xmlns="http://www.w3.org/2000/svg"
@@ -74,11 +106,17 @@ const ExamHeader: React.FC<ExamHeaderProps> = ({
   onToolSettingChange,
   rowsCount,
   progress,
+  validationIssueCount,
   timeLeft, // New prop
   onSubmit,
   isSubmittingToServer,
   currentTaskForDisplay,
   displayStatus,
+  autosave,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
   isRetakeSession,
   onCancelRetakeClick,
 }) => {
@@ -143,6 +181,26 @@ const ExamHeader: React.FC<ExamHeaderProps> = ({
         ))}
       </div>
       <div className="flex flex-wrap items-center space-x-2 sm:space-x-3 w-full sm:w-auto mt-2 sm:mt-0 justify-end">
+        <div className="flex items-center">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="p-1.5 text-slate-600 hover:text-blue-600 rounded-md hover:bg-slate-200 transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-600"
+            aria-label="Undo"
+            title="Undo (Ctrl+Z)"
+          >
+            <UndoIcon />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="p-1.5 text-slate-600 hover:text-blue-600 rounded-md hover:bg-slate-200 transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-600"
+            aria-label="Redo"
+            title="Redo (Ctrl+Y)"
+          >
+            <RedoIcon />
+          </button>
+        </div>
         <span
           className="text-sm text-slate-600 flex items-center"
           aria-live="polite"
@@ -153,6 +211,32 @@ const ExamHeader: React.FC<ExamHeaderProps> = ({
         <span className="text-sm text-slate-600">
           | Rows: {rowsCount} | Progress: {progress}%
         </span>
+        <span
+          className={`text-xs ${
+            autosave.status === "error" ? "text-red-600" : "text-slate-500"
+          }`}
+          aria-live="polite"
+        >
+          {autosave.status === "saving"
+            ? "Saving..."
+            : autosave.status === "error"
+            ? "Not saved, retrying"
+            : autosave.lastSavedAt
+            ? `Saved at ${autosave.lastSavedAt.toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}`
+            : null}
+        </span>
+        {validationIssueCount > 0 && (
+          <span
+            className="px-2 py-0.5 text-xs font-medium text-amber-800 bg-amber-100 rounded-full"
+            title="Cells that do not fit their field type or required fields left empty"
+          >
+            {validationIssueCount} warning
+            {validationIssueCount === 1 ? "" : "s"}
+          </span>
+        )}
         <button
           onClick={onSubmit}
           disabled={
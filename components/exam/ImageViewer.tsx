@@ -19,7 +19,7 @@ interface ImageViewerProps {
   imageLoading: boolean;
   toolSettings: { guideLine: boolean };
   examName: string;
-  // Below props are optional for the new single-image flow but kept for potential future use
+  // The attempt's images, for exams that cover more than one
   allImageTasks?: ImageTask[];
   currentImageTaskIndex?: number;
   onNavigateImage?: (direction: 1 | -1) => Promise<void>;
@@ -110,11 +110,11 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
         </div>
         {allImageTasks.length > 1 && onNavigateImage && (
           <div className="flex items-center space-x-2">
-            <button onClick={() => onNavigateImage(-1)} disabled={currentImageTaskIndex <= 0 || imageLoading} className="p-1.5 rounded hover:bg-slate-200 disabled:opacity-50 transition-colors"><ChevronLeftIcon /></button>
+            <button onClick={() => onNavigateImage(-1)} disabled={currentImageTaskIndex <= 0 || imageLoading} aria-label="Previous image" className="p-1.5 rounded hover:bg-slate-200 disabled:opacity-50 transition-colors"><ChevronLeftIcon /></button>
             <span className="text-xs text-slate-500">
               Image {currentImageTaskIndex + 1} of {allImageTasks.length}
             </span>
-            <button onClick={() => onNavigateImage(1)} disabled={currentImageTaskIndex >= allImageTasks.length - 1 || imageLoading} className="p-1.5 rounded hover:bg-slate-200 disabled:opacity-50 transition-colors"><ChevronRightIcon /></button>
+            <button onClick={() => onNavigateImage(1)} disabled={currentImageTaskIndex >= allImageTasks.length - 1 || imageLoading} aria-label="Next image" className="p-1.5 rounded hover:bg-slate-200 disabled:opacity-50 transition-colors"><ChevronRightIcon /></button>
           </div>
         )}
       </div>
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { SpecialCharacter, SpecialCharBindings, SpecialCharSet } from '../../types';
+import { getShortcutKey } from '../../utils/specialCharUtils';
+
+const SHORTCUT_KEY_PATTERN = /^[a-z0-9]?$/;
+
+interface SpecialCharPaletteProps {
+  sets: SpecialCharSet[]; // The sets offered in the active row, most specific first
+  bindings: SpecialCharBindings;
+  onInsert: (character: string) => void;
+  onRebind: (character: SpecialCharacter, key: string) => void;
+  onResetBindings: () => void;
+}
+
+// Clicking a character types it into the focused cell; Shift+click types the
+// capital. The buttons never take focus, so the caret stays where it was.
+const SpecialCharPalette: React.FC<SpecialCharPaletteProps> = ({ sets, bindings, onInsert, onRebind, onResetBindings }) => {
+  const [isEditingShortcuts, setIsEditingShortcuts] = useState(false);
+
+  return (
+    <section className="w-full bg-white shadow rounded-md px-3 py-1.5 flex flex-wrap items-start gap-x-4 gap-y-1 text-xs flex-shrink-0" aria-label="Special characters">
+      {sets.map(set => (
+        <div key={set.name} className="flex items-start gap-1">
+          <span className="text-slate-500 font-medium mr-1 py-1">{set.name}</span>
+          {set.characters.map(character => {
+            const shortcutKey = getShortcutKey(character, bindings);
+            return (
+              <div key={character.lower} className="flex flex-col items-center">
+                <button
+                  type="button"
+                  onMouseDown={e => e.preventDefault()}
+                  onClick={e => onInsert(e.shiftKey && character.upper ? character.upper : character.lower)}
+                  className="min-w-[2rem] px-1.5 py-0.5 border border-slate-300 rounded text-sm text-slate-800 hover:bg-blue-50 hover:border-blue-400 transition-colors"
+                  title={`${character.lower}${character.upper ? ` / ${character.upper} with Shift` : ''}${shortcutKey ? ` (Ctrl+Alt+${shortcutKey.toUpperCase()})` : ''}`}
+                  aria-label={`Insert ${character.lower}`}
+                >
+                  {character.lower}
+                  {shortcutKey && <span className="ml-0.5 text-[10px] text-slate-400 align-top">{shortcutKey}</span>}
+                </button>
+                {isEditingShortcuts && (
+                  <input
+                    type="text"
+                    value={shortcutKey}
+                    onChange={e => {
+                      const key = e.target.value.slice(-1).toLowerCase();
+                      if (SHORTCUT_KEY_PATTERN.test(key)) onRebind(character, key);
+                    }}
+                    className="w-8 mt-0.5 p-0.5 text-center border border-slate-300 rounded-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    aria-label={`Shortcut key for ${character.lower}`}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+      <div className="ml-auto flex items-center gap-2 py-1">
+        {isEditingShortcuts && (
+          <button type="button" onClick={onResetBindings} className="text-slate-500 hover:text-slate-800">
+            Reset shortcuts
+          </button>
+        )}
+        <button type="button" onClick={() => setIsEditingShortcuts(prev => !prev)} className="text-blue-600 hover:text-blue-800">
+          {isEditingShortcuts ? 'Done' : 'Edit shortcuts'}
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default SpecialCharPalette;
@@ -1,7 +1,7 @@
 
 
 import React from 'react';
-import { Exam, AnnotationColumn } from './types';
+import { AdminPermission, AdminRole, AnnotationColumn, NormalizationRule, ScoringStrategy, SpecialCharSet } from './types';
 
 // Placeholder SVGs for UI elements (Heroicons or similar would be good for a real app)
 // Using simpler versions for now.
@@ -31,169 +31,175 @@ const ArchiveBoxIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => ( //
   </svg>
 );
 
-export const EXAM_DURATION_SECONDS = 90 * 60; // 90 minutes
-
-export const EXAMS_DATA: Exam[] = [
-  {
-    id: 'baptism',
-    name: 'Baptism',
-    description: 'Annotate historical baptismal records. Capture names, dates, and family relations.',
-    icon: <DocumentTextIcon className="w-12 h-12 text-sky-600" />,
-  },
-  {
-    id: 'marriage',
-    name: 'Marriage',
-    description: 'Transcribe marriage records. Note details of spouses, witnesses, and ceremony dates.',
-    icon: <HeartIcon className="w-12 h-12 text-rose-500" />,
-  },
-  {
-    id: 'confirmation',
-    name: 'Confirmation',
-    description: 'Extract information from confirmation registers, including names, sponsors, and dates.',
-    icon: <CollectionIcon className="w-12 h-12 text-amber-500" />, // Reusing CollectionIcon
-  },
-  {
-    id: 'burial',
-    name: 'Burial',
-    description: 'Annotate burial records, capturing details of the deceased, death dates, and burial locations.',
-    icon: <ArchiveBoxIcon className="w-12 h-12 text-slate-500" />, // Reusing ArchiveBoxIcon
-  },
+export const EXAM_DURATION_SECONDS = 90 * 60; // 90 minutes, default for new exams
+export const DEFAULT_PASSING_SCORE = 90; // Percentage, default for new exams
+export const MAX_IMAGES_PER_ATTEMPT = 20; // Matches the check on exams.images_per_attempt
+export const EXAM_CLOCK_SYNC_INTERVAL_MS = 60 * 1000; // How often a running exam re-reads the server clock
+export const DRAFT_AUTOSAVE_DELAY_MS = 3 * 1000; // Quiet time after an edit before the draft is saved to the server
+export const DRAFT_AUTOSAVE_INTERVAL_MS = 30 * 1000; // How often unsaved drafts are retried while the exam is open
+export const MAX_UNDO_STEPS = 50; // Per image; older steps are dropped
+
+// Scoring strategies an exam can use; "prefix" is the original behaviour.
+export const DEFAULT_SCORING_STRATEGY: ScoringStrategy = 'prefix';
+export const SCORING_STRATEGY_OPTIONS: { value: ScoringStrategy; label: string; description: string }[] = [
+  { value: 'prefix', label: 'Common prefix', description: 'Credits characters up to the first mistake.' },
+  { value: 'levenshtein', label: 'Edit distance', description: 'Each wrong, missing or extra character costs one point.' },
+  { value: 'exact', label: 'Exact match', description: 'Credits a cell only when it matches exactly.' },
 ];
 
-export const USER_ID_PREFIXES = [
-  "PHBYUCG",
-  "PHBYUGH",
-  "PHBYUMG",
-  "PHBYUNG",
-  "PHBYUZA",
-  "PHLG",
-  "PHCB",
-  "PHCBIT",
-  "PHCITU",
-  "PHBYU",
-  "PHCEC",
-  "PHJJ",
-  "PHNX",
+// Admin roles and what each may do. Mirrors admin_role_permissions in SQL,
+// which enforces the same rules on the server.
+export const ADMIN_ROLE_OPTIONS: { value: AdminRole; label: string; description: string }[] = [
+  { value: 'super_admin', label: 'Super admin', description: 'Everything, including assigning roles and managing sites.' },
+  { value: 'answer_key_author', label: 'Answer key author', description: 'Creates and edits answer keys.' },
+  { value: 'reviewer', label: 'Reviewer', description: 'Views answer keys, annotators, analytics and the activity log.' },
+  { value: 'site_coordinator', label: 'Site coordinator', description: 'Manages annotators, login codes and the roster at their assigned sites.' },
+  { value: 'analyst', label: 'Read-only analyst', description: 'Views annotators and analytics.' },
 ];
 
+// Roles that only see annotators at their assigned sites. Mirrors
+// admin_site_scope in SQL.
+export const SITE_SCOPED_ADMIN_ROLES: AdminRole[] = ['site_coordinator'];
+
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  super_admin: [
+    'view_answer_keys',
+    'manage_answer_keys',
+    'view_annotators',
+    'manage_annotators',
+    'view_analytics',
+    'manage_exams',
+    'manage_admins',
+    'view_activity',
+    'manage_sites',
+  ],
+  answer_key_author: ['view_answer_keys', 'manage_answer_keys', 'view_analytics'],
+  reviewer: ['view_answer_keys', 'view_annotators', 'view_analytics', 'view_activity'],
+  site_coordinator: ['view_annotators', 'manage_annotators', 'view_analytics'],
+  analyst: ['view_annotators', 'view_analytics'],
+};
+
+// Dashboard icons an exam can use, keyed by exams.icon_key
+export const EXAM_ICONS: Record<string, { label: string; icon: React.ReactNode }> = {
+  document: { label: 'Document', icon: <DocumentTextIcon className="w-12 h-12 text-sky-600" /> },
+  heart: { label: 'Heart', icon: <HeartIcon className="w-12 h-12 text-rose-500" /> },
+  collection: { label: 'Collection', icon: <CollectionIcon className="w-12 h-12 text-amber-500" /> },
+  archive: { label: 'Archive box', icon: <ArchiveBoxIcon className="w-12 h-12 text-slate-500" /> },
+};
+
+export const getExamIcon = (iconKey: string): React.ReactNode =>
+  (EXAM_ICONS[iconKey] ?? EXAM_ICONS.document).icon;
+
+// Normalization applied to both sides before a cell is scored. Columns without
+// explicit rules use DEFAULT_NORMALIZATION_RULES.
+export const DEFAULT_NORMALIZATION_RULES: NormalizationRule[] = ['trim', 'collapse_whitespace'];
+const MONTH_NORMALIZATION: NormalizationRule[] = ['trim', 'collapse_whitespace', 'casefold', 'month_name'];
+const CODE_NORMALIZATION: NormalizationRule[] = ['trim', 'collapse_whitespace', 'casefold'];
+
+// Defaults for typed columns; a column's own options/min/max take precedence.
+export const SEX_OPTIONS = ['M', 'F', 'U'];
+export const MIN_RECORD_YEAR = 1500;
+
+// Starting column layout for new exams; each exam's own layout lives in public.exams.
 export const DEFAULT_ANNOTATION_TABLE_COLUMNS: AnnotationColumn[] = [
   { id: 'image_ref', label: 'Image', type: 'text', width: 'w-40' },
-  { id: 'language', label: 'Language', type: 'text', width: 'w-24' },
-  { id: 'event_d', label: 'Event_D', type: 'text', width: 'w-20' },
-  { id: 'event_m', label: 'Event_M', type: 'text', width: 'w-20' },
-  { id: 'event_y', label: 'Event_Y', type: 'text', width: 'w-24' },
+  { id: 'language', label: 'Language', type: 'text', width: 'w-24', normalization: CODE_NORMALIZATION },
+  { id: 'event_d', label: 'Event_D', type: 'day', width: 'w-20' },
+  { id: 'event_m', label: 'Event_M', type: 'month', width: 'w-20', normalization: MONTH_NORMALIZATION },
+  { id: 'event_y', label: 'Event_Y', type: 'year', width: 'w-24' },
   { id: 'given', label: 'Given', type: 'text', width: 'w-36' },
   { id: 'surname', label: 'Surname', type: 'text', width: 'w-36' },
-  { id: 'age', label: 'Age', type: 'text', width: 'w-20' },
-  { id: 'sex', label: 'Sex', type: 'text', width: 'w-16' },
-  { id: 'birth_d', label: 'Birth_D', type: 'text', width: 'w-20' },
-  { id: 'birth_m', label: 'Birth_M', type: 'text', width: 'w-20' },
-  { id: 'birth_y', label: 'Birth_Y', type: 'text', width: 'w-24' },
+  { id: 'age', label: 'Age', type: 'age', width: 'w-20' },
+  { id: 'sex', label: 'Sex', type: 'choice', options: SEX_OPTIONS, width: 'w-16', normalization: CODE_NORMALIZATION },
+  { id: 'birth_d', label: 'Birth_D', type: 'day', width: 'w-20' },
+  { id: 'birth_m', label: 'Birth_M', type: 'month', width: 'w-20', normalization: MONTH_NORMALIZATION },
+  { id: 'birth_y', label: 'Birth_Y', type: 'year', width: 'w-24' },
   { id: 'fa_given', label: 'Fa_Given', type: 'text', width: 'w-36' },
   { id: 'fa_surname', label: 'Fa_Surname', type: 'text', width: 'w-36' },
   { id: 'mo_given', label: 'Mo_Given', type: 'text', width: 'w-36' },
   { id: 'mo_surname', label: 'Mo_Surname', type: 'text', width: 'w-36' },
   { id: 'sp_given', label: 'Sp_Given', type: 'text', width: 'w-36' },
   { id: 'sp_surname', label: 'Sp_Surname', type: 'text', width: 'w-36' },
-  { id: 'sp_age', label: 'Sp_Age', type: 'text', width: 'w-20' },
-  { id: 'sp_birth_y', label: 'Sp_Birth_Y', type: 'text', width: 'w-24' },
+  { id: 'sp_age', label: 'Sp_Age', type: 'age', width: 'w-20' },
+  { id: 'sp_birth_y', label: 'Sp_Birth_Y', type: 'year', width: 'w-24' },
   { id: 'sp_fa_given', label: 'Sp_Fa_Given', type: 'text', width: 'w-36' },
   { id: 'sp_fa_surname', label: 'Sp_Fa_Surname', type: 'text', width: 'w-36' },
   { id: 'sp_mo_given', label: 'Sp_Mo_Given', type: 'text', width: 'w-36' },
   { id: 'sp_mo_surname', label: 'Sp_Mo_Surname', type: 'text', width: 'w-36' },
 ];
 
-const BAPTISM_ANNOTATION_TABLE_COLUMNS: AnnotationColumn[] = [
-  { id: 'image_ref', label: 'Image', type: 'text', width: 'w-40' },
-  { id: 'language', label: 'Language', type: 'text', width: 'w-24' },
-  { id: 'event_d', label: 'Event_D', type: 'text', width: 'w-20' },
-  { id: 'event_m', label: 'Event_M', type: 'text', width: 'w-20' },
-  { id: 'event_y', label: 'Event_Y', type: 'text', width: 'w-24' },
-  { id: 'given', label: 'Given', type: 'text', width: 'w-36' },
-  { id: 'surname', label: 'Surname', type: 'text', width: 'w-36' },
-  { id: 'sex', label: 'Sex', type: 'text', width: 'w-16' },
-  { id: 'birth_d', label: 'Birth_D', type: 'text', width: 'w-20' },
-  { id: 'birth_m', label: 'Birth_M', type: 'text', width: 'w-20' },
-  { id: 'birth_y', label: 'Birth_Y', type: 'text', width: 'w-24' },
-  { id: 'fa_given', label: 'Fa_Given', type: 'text', width: 'w-36' },
-  { id: 'fa_surname', label: 'Fa_Surname', type: 'text', width: 'w-36' },
-  { id: 'mo_given', label: 'Mo_Given', type: 'text', width: 'w-36' },
-  { id: 'mo_surname', label: 'Mo_Surname', type: 'text', width: 'w-36' },
-];
+export const STORAGE_BUCKET_NAME = 'exam-images';
 
-const MARRIAGE_ANNOTATION_TABLE_COLUMNS: AnnotationColumn[] = [
-  { id: 'image_ref', label: 'Image', type: 'text', width: 'w-40' },
-  { id: 'language', label: 'Language', type: 'text', width: 'w-24' },
-  { id: 'event_d', label: 'Event_D', type: 'text', width: 'w-20' },
-  { id: 'event_m', label: 'Event_M', type: 'text', width: 'w-20' },
-  { id: 'event_y', label: 'Event_Y', type: 'text', width: 'w-24' },
-  { id: 'given', label: 'Given', type: 'text', width: 'w-36' },
-  { id: 'surname', label: 'Surname', type: 'text', width: 'w-36' },
-  { id: 'age', label: 'Age', type: 'text', width: 'w-20' },
-  { id: 'birth_y', label: 'Birth_Y', type: 'text', width: 'w-24' },
-  { id: 'fa_given', label: 'Fa_Given', type: 'text', width: 'w-36' },
-  { id: 'fa_surname', label: 'Fa_Surname', type: 'text', width: 'w-36' },
-  { id: 'mo_given', label: 'Mo_Given', type: 'text', width: 'w-36' },
-  { id: 'mo_surname', label: 'Mo_Surname', type: 'text', width: 'w-36' },
-  { id: 'sp_given', label: 'Sp_Given', type: 'text', width: 'w-36' },
-  { id: 'sp_surname', label: 'Sp_Surname', type: 'text', width: 'w-36' },
-  { id: 'sp_age', label: 'Sp_Age', type: 'text', width: 'w-20' },
-  { id: 'sp_birth_y', label: 'Sp_Birth_Y', type: 'text', width: 'w-24' },
-  { id: 'sp_fa_given', label: 'Sp_Fa_Given', type: 'text', width: 'w-36' },
-  { id: 'sp_fa_surname', label: 'Sp_Fa_Surname', type: 'text', width: 'w-36' },
-  { id: 'sp_mo_given', label: 'Sp_Mo_Given', type: 'text', width: 'w-36' },
-  { id: 'sp_mo_surname', label: 'Sp_Mo_Surname', type: 'text', width: 'w-36' },
+// Special characters for exams that do not define their own sets. Keys are
+// Ctrl+Alt shortcuts; the language sets use digits so they do not take the
+// letters of the accented vowels every register needs.
+export const DEFAULT_SPECIAL_CHAR_SETS: SpecialCharSet[] = [
+  {
+    name: 'Accents',
+    characters: [
+      { lower: 'á', upper: 'Á', key: 'a' },
+      { lower: 'é', upper: 'É', key: 'e' },
+      { lower: 'í', upper: 'Í', key: 'i' },
+      { lower: 'ó', upper: 'Ó', key: 'o' },
+      { lower: 'ú', upper: 'Ú', key: 'u' },
+      { lower: 'ñ', upper: 'Ñ', key: 'n' },
+      { lower: 'ç', upper: 'Ç', key: 'c' },
+      { lower: 'ü', upper: 'Ü', key: 'y' },
+    ],
+  },
+  {
+    name: 'Portuguese',
+    languages: ['portuguese', 'português', 'portugues', 'pt'],
+    characters: [
+      { lower: 'ã', upper: 'Ã', key: '1' },
+      { lower: 'õ', upper: 'Õ', key: '2' },
+      { lower: 'â', upper: 'Â', key: '3' },
+      { lower: 'ê', upper: 'Ê', key: '4' },
+      { lower: 'ô', upper: 'Ô', key: '5' },
+      { lower: 'à', upper: 'À', key: '6' },
+    ],
+  },
+  {
+    name: 'German',
+    languages: ['german', 'deutsch', 'de'],
+    characters: [
+      { lower: 'ä', upper: 'Ä', key: '1' },
+      { lower: 'ö', upper: 'Ö', key: '2' },
+      { lower: 'ß', upper: 'ẞ', key: 's' },
+    ],
+  },
+  {
+    name: 'Latin',
+    languages: ['latin', 'latín', 'latim', 'la'],
+    characters: [
+      { lower: 'æ', upper: 'Æ', key: '1' },
+      { lower: 'œ', upper: 'Œ', key: '2' },
+      { lower: 'ſ', key: '3' }, // Long s
+      { lower: 'ꝑ', upper: 'Ꝑ', key: '4' }, // per
+      { lower: 'ꝓ', upper: 'Ꝓ', key: '5' }, // pro
+      { lower: 'ꝗ', upper: 'Ꝗ', key: '6' }, // quod, que
+      { lower: '⁊', key: '7' }, // et
+      { lower: 'ꝰ', key: '8' }, // -us
+      { lower: 'ȝ', upper: 'Ȝ', key: '9' },
+    ],
+  },
 ];
-
-const CONFIRMATION_ANNOTATION_TABLE_COLUMNS: AnnotationColumn[] = [
-  { id: 'image_ref', label: 'Image', type: 'text', width: 'w-40' },
-  { id: 'language', label: 'Language', type: 'text', width: 'w-24' },
-  { id: 'event_d', label: 'Event_D', type: 'text', width: 'w-20' },
-  { id: 'event_m', label: 'Event_M', type: 'text', width: 'w-20' },
-  { id: 'event_y', label: 'Event_Y', type: 'text', width: 'w-24' },
-  { id: 'given', label: 'Given', type: 'text', width: 'w-36' },
-  { id: 'surname', label: 'Surname', type: 'text', width: 'w-36' },
-  { id: 'fa_given', label: 'Fa_Given', type: 'text', width: 'w-36' },
-  { id: 'fa_surname', label: 'Fa_Surname', type: 'text', width: 'w-36' },
-  { id: 'mo_given', label: 'Mo_Given', type: 'text', width: 'w-36' },
-  { id: 'mo_surname', label: 'Mo_Surname', type: 'text', width: 'w-36' },
+// Choices offered by the admin exam editor for each column
+export const COLUMN_TYPE_OPTIONS: { value: AnnotationColumn['type']; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'day', label: 'Day (1-31)' },
+  { value: 'month', label: 'Month' },
+  { value: 'year', label: 'Year' },
+  { value: 'age', label: 'Age' },
+  { value: 'choice', label: 'Choice' },
 ];
-
-const BURIAL_ANNOTATION_TABLE_COLUMNS: AnnotationColumn[] = [
-  { id: 'image_ref', label: 'Image', type: 'text', width: 'w-40' },
-  { id: 'language', label: 'Language', type: 'text', width: 'w-24' },
-  { id: 'event_d', label: 'Event_D', type: 'text', width: 'w-20' },
-  { id: 'event_m', label: 'Event_M', type: 'text', width: 'w-20' },
-  { id: 'event_y', label: 'Event_Y', type: 'text', width: 'w-24' },
-  { id: 'given', label: 'Given', type: 'text', width: 'w-36' },
-  { id: 'surname', label: 'Surname', type: 'text', width: 'w-36' },
-  { id: 'age', label: 'Age', type: 'text', width: 'w-20' },
-  { id: 'sex', label: 'Sex', type: 'text', width: 'w-16' },
-  { id: 'death_d', label: 'Death_D', type: 'text', width: 'w-20' },
-  { id: 'death_m', label: 'Death_M', type: 'text', width: 'w-20' },
-  { id: 'death_y', label: 'Death_Y', type: 'text', width: 'w-24' },
-  { id: 'fa_given', label: 'Fa_Given', type: 'text', width: 'w-36' },
-  { id: 'fa_surname', label: 'Fa_Surname', type: 'text', width: 'w-36' },
-  { id: 'mo_given', label: 'Mo_Given', type: 'text', width: 'w-36' },
-  { id: 'mo_surname', label: 'Mo_Surname', type: 'text', width: 'w-36' },
-  { id: 'sp_given', label: 'Sp_Given', type: 'text', width: 'w-36' },
-  { id: 'sp_surname', label: 'Sp_Surname', type: 'text', width: 'w-36' },
+export const COLUMN_WIDTH_OPTIONS: { value: string; label: string }[] = [
+  { value: 'w-16', label: 'Extra narrow' },
+  { value: 'w-20', label: 'Narrow' },
+  { value: 'w-24', label: 'Small' },
+  { value: 'w-36', label: 'Medium' },
+  { value: 'w-40', label: 'Wide' },
+  { value: 'w-48', label: 'Extra wide' },
 ];
-
-export const getColumnsForExam = (examCode: string): AnnotationColumn[] => {
-  switch (examCode) {
-    case 'baptism':
-      return BAPTISM_ANNOTATION_TABLE_COLUMNS;
-    case 'marriage':
-      return MARRIAGE_ANNOTATION_TABLE_COLUMNS;
-    case 'confirmation':
-      return CONFIRMATION_ANNOTATION_TABLE_COLUMNS;
-    case 'burial':
-      return BURIAL_ANNOTATION_TABLE_COLUMNS;
-    default: 
-      return DEFAULT_ANNOTATION_TABLE_COLUMNS;
-  }
-};
-
-
-export const STORAGE_BUCKET_NAME = 'exam-images';
\ No newline at end of file
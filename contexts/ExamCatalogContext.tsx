@@ -0,0 +1,106 @@
+import React, { createContext, useState, useCallback, useContext, useEffect } from 'react';
+import { AnnotationColumn, Exam } from '../types';
+import { supabase } from '../utils/supabase/client';
+import { formatSupabaseError } from '../utils/errorUtils';
+import {
+  DEFAULT_ANNOTATION_TABLE_COLUMNS,
+  DEFAULT_PASSING_SCORE,
+  DEFAULT_SCORING_STRATEGY,
+  EXAM_DURATION_SECONDS,
+} from '../constants';
+import { useToast } from './ToastContext';
+
+interface ExamCatalogContextType {
+  exams: Exam[];
+  isLoading: boolean;
+  getExam: (examCode: string) => Exam | undefined;
+  getColumnsForExam: (examCode: string) => AnnotationColumn[];
+  refreshExams: () => Promise<void>;
+}
+
+const ExamCatalogContext = createContext<ExamCatalogContextType | undefined>(undefined);
+
+// The row's columns, or none when they are missing or malformed. Such exams
+// are reported when the catalog loads rather than shown with stand-in columns.
+const parseColumns = (columns: any): AnnotationColumn[] =>
+  Array.isArray(columns) && columns.every(col => typeof col?.id === 'string') ? columns : [];
+
+// Converts a public.exams row into the shape the app works with.
+const mapExamRow = (row: any): Exam => ({
+  id: row.exam_code,
+  name: row.name,
+  description: row.description || '',
+  iconKey: row.icon_key || 'document',
+  dbId: row.id,
+  columns: parseColumns(row.columns),
+  durationSeconds: row.duration_seconds || EXAM_DURATION_SECONDS,
+  passingScore: row.passing_score != null ? Number(row.passing_score) : DEFAULT_PASSING_SCORE,
+  scoringStrategy: row.scoring_strategy || DEFAULT_SCORING_STRATEGY,
+  imagesPerAttempt: row.images_per_attempt || 1,
+  specialCharSets: Array.isArray(row.special_char_sets) ? row.special_char_sets : [],
+  cohortSettings: (row.exam_cohort_settings || []).map((setting: any) => ({
+    userIdPrefix: setting.user_id_prefix,
+    durationSeconds: setting.duration_seconds,
+    passingScore: setting.passing_score != null ? Number(setting.passing_score) : null,
+  })),
+});
+
+export const ExamCatalogProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [exams, setExams] = useState<Exam[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const { addToast } = useToast();
+
+  const refreshExams = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('exams')
+        .select(
+          'id, exam_code, name, description, icon_key, columns, duration_seconds, passing_score, scoring_strategy, images_per_attempt, special_char_sets, exam_cohort_settings (user_id_prefix, duration_seconds, passing_score)'
+        )
+        .order('sort_order', { ascending: true })
+        .order('id', { ascending: true });
+      if (error) throw error;
+      const catalog = (data || []).map(mapExamRow);
+      setExams(catalog);
+      const examsWithoutColumns = catalog.filter(exam => exam.columns.length === 0);
+      if (examsWithoutColumns.length > 0) {
+        addToast({
+          type: 'error',
+          message: `These exams have no valid columns and cannot be taken until an admin adds them: ${examsWithoutColumns.map(exam => exam.name).join(', ')}.`,
+        });
+      }
+    } catch (e: any) {
+      addToast({
+        type: 'error',
+        message: `Could not load the exam catalog: ${formatSupabaseError(e).message}`,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addToast]);
+
+  useEffect(() => {
+    refreshExams();
+  }, [refreshExams]);
+
+  const getExam = useCallback((examCode: string) => exams.find(exam => exam.id === examCode), [exams]);
+
+  const getColumnsForExam = useCallback(
+    (examCode: string) => getExam(examCode)?.columns ?? DEFAULT_ANNOTATION_TABLE_COLUMNS,
+    [getExam]
+  );
+
+  return (
+    <ExamCatalogContext.Provider value={{ exams, isLoading, getExam, getColumnsForExam, refreshExams }}>
+      {children}
+    </ExamCatalogContext.Provider>
+  );
+};
+
+export const useExamCatalog = (): ExamCatalogContextType => {
+  const context = useContext(ExamCatalogContext);
+  if (context === undefined) {
+    throw new Error('useExamCatalog must be used within an ExamCatalogProvider');
+  }
+  return context;
+};
@@ -0,0 +1,68 @@
+import React, { createContext, useState, useCallback, useContext, useEffect, useMemo } from 'react';
+import { Site } from '../types';
+import { supabase } from '../utils/supabase/client';
+import { formatSupabaseError } from '../utils/errorUtils';
+import { getSiteForUserId, mapSiteRow } from '../utils/siteUtils';
+import { useToast } from './ToastContext';
+
+interface SitesContextType {
+  sites: Site[]; // All sites, including inactive ones
+  activeSites: Site[];
+  isLoading: boolean;
+  getSiteForUserId: (liftappUserId: string | null | undefined) => Site | undefined;
+  refreshSites: () => Promise<void>;
+}
+
+const SitesContext = createContext<SitesContextType | undefined>(undefined);
+
+// Columns anyone may read; the coordinator contact is loaded by the Sites tab.
+const PUBLIC_SITE_COLUMNS = 'id, user_id_prefix, display_name, location, id_min_digits, id_max_digits, is_active';
+
+export const SitesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [sites, setSites] = useState<Site[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const { addToast } = useToast();
+
+  const refreshSites = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sites')
+        .select(PUBLIC_SITE_COLUMNS)
+        .order('user_id_prefix', { ascending: true });
+      if (error) throw error;
+      setSites((data || []).map(mapSiteRow));
+    } catch (e: any) {
+      addToast({
+        type: 'error',
+        message: `Could not load the site list: ${formatSupabaseError(e).message}`,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addToast]);
+
+  useEffect(() => {
+    refreshSites();
+  }, [refreshSites]);
+
+  const activeSites = useMemo(() => sites.filter(site => site.isActive), [sites]);
+
+  const findSite = useCallback(
+    (liftappUserId: string | null | undefined) => getSiteForUserId(sites, liftappUserId),
+    [sites]
+  );
+
+  return (
+    <SitesContext.Provider value={{ sites, activeSites, isLoading, getSiteForUserId: findSite, refreshSites }}>
+      {children}
+    </SitesContext.Provider>
+  );
+};
+
+export const useSites = (): SitesContextType => {
+  const context = useContext(SitesContext);
+  if (context === undefined) {
+    throw new Error('useSites must be used within a SitesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ExamClock } from '../types';
+import { supabase } from '../utils/supabase/client';
+import { toExamClock } from '../utils/examUtils';
+import { EXAM_CLOCK_SYNC_INTERVAL_MS } from '../constants';
+
+interface UseExamClockProps {
+  completionId: number;
+  initialClock: ExamClock; // The deadline and offset the session started with
+}
+
+/**
+ * Runs the exam countdown against the server's deadline. The offset between the
+ * local and server clocks is refreshed periodically and whenever the tab becomes
+ * visible again, so changing the system clock does not add time.
+ */
+export const useExamClock = ({ completionId, initialClock }: UseExamClockProps) => {
+  const [clock, setClock] = useState<ExamClock>(initialClock);
+  const [now, setNow] = useState(() => Date.now() + initialClock.serverClockOffsetMs);
+
+  // A new attempt brings a new deadline.
+  useEffect(() => {
+    setClock(initialClock);
+  }, [initialClock.sessionEndTime, initialClock.serverClockOffsetMs]);
+
+  const syncWithServer = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_exam_clock', { p_completion_id: completionId });
+    if (error || !data || data.length === 0 || !data[0].deadline_at) {
+      // Keep counting down from the last known clock until the next sync.
+      console.warn('Could not sync the exam timer with the server:', error?.message);
+      return;
+    }
+    setClock(toExamClock(data[0].deadline_at, data[0].server_now));
+  }, [completionId]);
+
+  useEffect(() => {
+    syncWithServer();
+    const syncTimer = setInterval(syncWithServer, EXAM_CLOCK_SYNC_INTERVAL_MS);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') syncWithServer();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(syncTimer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [syncWithServer]);
+
+  useEffect(() => {
+    setNow(Date.now() + clock.serverClockOffsetMs);
+    const tickTimer = setInterval(() => setNow(Date.now() + clock.serverClockOffsetMs), 1000);
+    return () => clearInterval(tickTimer);
+  }, [clock.serverClockOffsetMs]);
+
+  const timeLeft = Math.max(0, Math.floor((clock.sessionEndTime - now) / 1000));
+
+  return { timeLeft };
+};
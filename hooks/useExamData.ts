@@ -1,136 +1,284 @@
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Exam, AnnotationRowData, AnnotationCellData, ImageTask, DisplayStatusType } from '../types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Exam, AnnotationRowData, AnnotationCellData, ImageTask, DisplayStatusType, AutosaveState, SavedDraft, EditHistory } from '../types';
 import { supabase } from '../utils/supabase/client';
 import { formatSupabaseError } from '../utils/errorUtils';
 import { loadAnnotationsFromLocalStorage, saveAnnotationsToLocalStorage, removeAnnotationsFromLocalStorage } from '../utils/localStorageUtils';
-import { getColumnsForExam, STORAGE_BUCKET_NAME } from '../constants';
+import { STORAGE_BUCKET_NAME, DRAFT_AUTOSAVE_DELAY_MS, DRAFT_AUTOSAVE_INTERVAL_MS, MAX_UNDO_STEPS } from '../constants';
 import { generateRowId } from '../utils/examUtils';
 import { useToast } from '../contexts/ToastContext';
 
+const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
 interface UseExamDataProps {
   exam: Exam;
   annotatorDbId: number | null;
-  assignedTask: ImageTask; // The single, pre-assigned image task
+  assignedTasks: ImageTask[]; // The attempt's pre-assigned images
+  currentTaskIndex: number; // The image being shown
 }
 
-export const useExamData = ({ exam, annotatorDbId, assignedTask }: UseExamDataProps) => {
-  const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
+// Each image of the attempt has its own rows and its own draft. Drafts are kept
+// in localStorage and autosaved to the server as unsubmitted annotation_rows.
+export const useExamData = ({ exam, annotatorDbId, assignedTasks, currentTaskIndex }: UseExamDataProps) => {
   const [imageLoading, setImageLoading] = useState<boolean>(false);
-  
-  const [rows, setRows] = useState<AnnotationRowData[]>([]);
+
+  const [rowsByImageId, setRowsByImageId] = useState<Record<number, AnnotationRowData[]>>({});
+  const [unsavedImageIds, setUnsavedImageIds] = useState<number[]>([]);
+  // Images edited since their draft was last saved to the server
+  const [serverPendingImageIds, setServerPendingImageIds] = useState<number[]>([]);
+  const [autosave, setAutosave] = useState<AutosaveState>({ status: 'idle', lastSavedAt: null });
+  // Undo/redo per image; saved with the local draft so it survives a reload
+  const [historyByImageId, setHistoryByImageId] = useState<Record<number, EditHistory>>({});
+  // The cell each image was last typed in, so typing in one cell is one undo step
+  const lastEditKeyRef = useRef<Record<number, string | null>>({});
   const [displayStatus, setDisplayStatus] = useState<DisplayStatusType>('');
   const [isSubmittingToServer, setIsSubmittingToServer] = useState<boolean>(false);
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState<boolean>(false);
 
   const [currentExamDbId, setCurrentExamDbId] = useState<number | null>(exam.dbId || null);
   const { addToast } = useToast();
 
-  const columnsForCurrentExam = useMemo(() => getColumnsForExam(exam.id), [exam.id]);
-  
+  const columnsForCurrentExam = useMemo(() => exam.columns, [exam.columns]);
+  const currentTask: ImageTask | undefined = assignedTasks[currentTaskIndex];
+  const rows = useMemo(
+    () => (currentTask ? rowsByImageId[currentTask.dbImageId] ?? [] : []),
+    [currentTask, rowsByImageId]
+  );
+  const hasUnsavedChanges = unsavedImageIds.length > 0;
+  const currentHistory = (currentTask && historyByImageId[currentTask.dbImageId]) || EMPTY_HISTORY;
+
+  // Read by autosaves, which run from timers and outlive the render they started in
+  const rowsRef = useRef(rowsByImageId);
+  const historyRef = useRef(historyByImageId);
+  const serverPendingRef = useRef(serverPendingImageIds);
+  const autosaveInFlightRef = useRef<Promise<void> | null>(null);
+  useEffect(() => {
+    rowsRef.current = rowsByImageId;
+    historyRef.current = historyByImageId;
+    serverPendingRef.current = serverPendingImageIds;
+  }, [rowsByImageId, historyByImageId, serverPendingImageIds]);
+
+  const currentImageUrl = useMemo(() => {
+    if (!currentTask) return null;
+    const { data: urlData } = supabase.storage
+      .from(STORAGE_BUCKET_NAME)
+      .getPublicUrl(currentTask.storage_path);
+    return urlData?.publicUrl || null;
+  }, [currentTask]);
+
   const initializeNewRowsForImage = useCallback((imageTask: ImageTask): AnnotationRowData[] => {
     const initialCells: AnnotationCellData = {};
     columnsForCurrentExam.forEach(col => initialCells[col.id] = '');
-    
+
     initialCells['image_ref'] = imageTask.original_filename || imageTask.storage_path;
 
     return [{ id: generateRowId(), cells: initialCells }];
   }, [exam.id, columnsForCurrentExam]);
 
-  
-  const updateRowsAndSignalChange = useCallback((newRows: AnnotationRowData[] | ((prevRows: AnnotationRowData[]) => AnnotationRowData[])) => {
-    setRows(newRows);
-    setHasUnsavedChanges(true);
+  const markImageChanged = useCallback((imageId: number) => {
+    setUnsavedImageIds(prev => (prev.includes(imageId) ? prev : [...prev, imageId]));
+    setServerPendingImageIds(prev => (prev.includes(imageId) ? prev : [...prev, imageId]));
     setDisplayStatus('Unsaved changes');
   }, []);
 
-  const loadAnnotationsForImage = useCallback(async (task: ImageTask) => {
+  // Edits go to the image being shown. Each edit is an undo step, except that
+  // edits sharing the previous edit's coalesceKey (typing in the same cell)
+  // are folded into it.
+  const updateRowsAndSignalChange = useCallback((
+    newRows: AnnotationRowData[] | ((prevRows: AnnotationRowData[]) => AnnotationRowData[]),
+    options?: { coalesceKey?: string }
+  ) => {
+    if (!currentTask) return;
+    const imageId = currentTask.dbImageId;
+    const previousRows = rowsByImageId[imageId] ?? [];
+    const nextRows = typeof newRows === 'function' ? newRows(previousRows) : newRows;
+    if (nextRows === previousRows) return;
+
+    const coalesceKey = options?.coalesceKey ?? null;
+    const isSameEdit = coalesceKey !== null && lastEditKeyRef.current[imageId] === coalesceKey;
+    lastEditKeyRef.current[imageId] = coalesceKey;
+    if (!isSameEdit) {
+      setHistoryByImageId(prev => ({
+        ...prev,
+        [imageId]: { past: [...(prev[imageId]?.past ?? []), previousRows].slice(-MAX_UNDO_STEPS), future: [] },
+      }));
+    }
+    setRowsByImageId(prev => ({ ...prev, [imageId]: nextRows }));
+    markImageChanged(imageId);
+  }, [currentTask, rowsByImageId, markImageChanged]);
+
+  // Steps the image being shown back (-1) or forward (1) through its history.
+  const stepHistory = useCallback((direction: -1 | 1) => {
+    if (!currentTask) return;
+    const imageId = currentTask.dbImageId;
+    const history = historyByImageId[imageId] ?? EMPTY_HISTORY;
+    const currentRows = rowsByImageId[imageId] ?? [];
+    let nextHistory: EditHistory;
+    let nextRows: AnnotationRowData[];
+    if (direction === -1) {
+      if (history.past.length === 0) return;
+      nextRows = history.past[history.past.length - 1];
+      nextHistory = { past: history.past.slice(0, -1), future: [currentRows, ...history.future] };
+    } else {
+      if (history.future.length === 0) return;
+      nextRows = history.future[0];
+      nextHistory = { past: [...history.past, currentRows], future: history.future.slice(1) };
+    }
+    lastEditKeyRef.current[imageId] = null;
+    setHistoryByImageId(prev => ({ ...prev, [imageId]: nextHistory }));
+    setRowsByImageId(prev => ({ ...prev, [imageId]: nextRows }));
+    markImageChanged(imageId);
+  }, [currentTask, historyByImageId, rowsByImageId, markImageChanged]);
+
+  const undo = useCallback(() => stepHistory(-1), [stepHistory]);
+  const redo = useCallback(() => stepHistory(1), [stepHistory]);
+
+  // Resolves to the image's rows and the status to show for them. The newer of
+  // the local and server drafts wins; submitted rows are shown when neither exists.
+  const loadAnnotationsForImage = useCallback(async (task: ImageTask): Promise<{ rows: AnnotationRowData[]; status: DisplayStatusType; history?: EditHistory }> => {
     if (!annotatorDbId) {
-      setRows(initializeNewRowsForImage(task));
-      setDisplayStatus('');
-      return;
+      return { rows: initializeNewRowsForImage(task), status: '' };
     }
 
     const localDraft = loadAnnotationsFromLocalStorage(annotatorDbId, exam.id, task.dbImageId);
-    if (localDraft) {
-      setRows(localDraft);
-      setHasUnsavedChanges(false); 
-      setDisplayStatus('Draft loaded locally');
-      return;
-    }
 
     try {
       const { data, error } = await supabase
         .from('annotation_rows')
-        .select('client_row_id, row_data, is_submitted')
+        .select('client_row_id, row_data, is_submitted, updated_at')
         .eq('annotator_id', annotatorDbId)
         .eq('image_id', task.dbImageId)
-        .eq('is_submitted', true);
+        .order('id', { ascending: true });
 
       if (error) throw error;
 
-      if (data && data.length > 0) {
-        setRows(data.map(dbRow => ({
-          id: dbRow.client_row_id,
-          cells: dbRow.row_data as AnnotationCellData,
-        })));
-        setDisplayStatus('Previously submitted data loaded');
-      } else {
-        setRows(initializeNewRowsForImage(task));
-        setDisplayStatus('');
+      const toRows = (dbRows: typeof data): AnnotationRowData[] => (dbRows || []).map(dbRow => ({
+        id: dbRow.client_row_id,
+        cells: dbRow.row_data as AnnotationCellData,
+      }));
+      // A draft row may share its id with the submitted row it was edited from
+      const draftRows = (data || []).filter(dbRow => !dbRow.is_submitted);
+      const serverRows = toRows((data || []).filter(dbRow => dbRow.is_submitted));
+      const serverDraft: SavedDraft | null = draftRows.length > 0
+        ? { rows: toRows(draftRows), savedAt: Math.max(...draftRows.map(dbRow => new Date(dbRow.updated_at).getTime())) }
+        : null;
+
+      if (localDraft && (!serverDraft || localDraft.savedAt >= serverDraft.savedAt)) {
+        return { rows: localDraft.rows, status: 'Draft loaded locally', history: localDraft.history };
       }
+      if (serverDraft) {
+        return { rows: serverDraft.rows, status: 'Draft restored from server' };
+      }
+      if (serverRows.length > 0) {
+        return { rows: serverRows, status: 'Previously submitted data loaded' };
+      }
+      return { rows: initializeNewRowsForImage(task), status: '' };
     } catch (e: any) {
       const formattedError = formatSupabaseError(e);
       addToast({ type: 'error', message: `Could not load annotations: ${formattedError.message}` });
-      setRows(initializeNewRowsForImage(task));
-      setDisplayStatus('');
-    } finally {
-        setHasUnsavedChanges(false);
+      return localDraft
+        ? { rows: localDraft.rows, status: 'Draft loaded locally', history: localDraft.history }
+        : { rows: initializeNewRowsForImage(task), status: '' };
     }
   }, [annotatorDbId, exam.id, initializeNewRowsForImage, addToast]);
 
+  // Saves the draft of every image edited since its last save. Only one save
+  // runs at a time; edits made while it runs are picked up by the next one.
+  const saveDraftsToServer = useCallback((): Promise<void> => {
+    if (autosaveInFlightRef.current) return autosaveInFlightRef.current;
+    const imageIds = serverPendingRef.current;
+    if (!annotatorDbId || imageIds.length === 0) return Promise.resolve();
+
+    const save = (async () => {
+      setAutosave(prev => ({ ...prev, status: 'saving' }));
+      try {
+        for (const imageId of imageIds) {
+          const snapshot = rowsRef.current[imageId] ?? [];
+          const { data: savedAt, error } = await supabase.rpc('save_annotation_draft', {
+            p_image_id: imageId,
+            p_rows: snapshot.map(row => ({ client_row_id: row.id, row_data: row.cells })),
+          });
+          if (error) throw error;
+
+          // Keep the local copy in step, stamped with the server's time
+          saveAnnotationsToLocalStorage(annotatorDbId, exam.id, imageId, snapshot, new Date(savedAt).getTime(), historyRef.current[imageId]);
+          if (rowsRef.current[imageId] === snapshot) {
+            setServerPendingImageIds(prev => prev.filter(id => id !== imageId));
+            setUnsavedImageIds(prev => prev.filter(id => id !== imageId));
+          }
+        }
+        setAutosave({ status: 'saved', lastSavedAt: new Date() });
+        setDisplayStatus(prev => prev === 'Unsaved changes' ? '' : prev);
+      } catch (e: any) {
+        // Retried on the next interval; the header shows the draft is not saved
+        console.warn('Could not autosave the draft:', formatSupabaseError(e).message);
+        setAutosave(prev => ({ ...prev, status: 'error' }));
+      } finally {
+        autosaveInFlightRef.current = null;
+      }
+    })();
+    autosaveInFlightRef.current = save;
+    return save;
+  }, [annotatorDbId, exam.id]);
+
+  // Save shortly after the annotator stops typing...
+  useEffect(() => {
+    if (serverPendingImageIds.length === 0) return;
+    const autosaveTimer = setTimeout(saveDraftsToServer, DRAFT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(autosaveTimer);
+  }, [rowsByImageId, serverPendingImageIds, saveDraftsToServer]);
+
+  // ...and periodically, so a failed save is retried
+  useEffect(() => {
+    const retryTimer = setInterval(() => {
+      if (serverPendingRef.current.length > 0) saveDraftsToServer();
+    }, DRAFT_AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(retryTimer);
+  }, [saveDraftsToServer]);
+
+  // Leaving the exam page saves what the timers have not
+  const saveDraftsRef = useRef(saveDraftsToServer);
+  useEffect(() => {
+    saveDraftsRef.current = saveDraftsToServer;
+  }, [saveDraftsToServer]);
+  useEffect(() => () => {
+    saveDraftsRef.current();
+  }, []);
+
 
-  // Main effect to load image URL and annotations when the assigned task is available
+  // Main effect to load the annotations of every assigned image, so drafts of
+  // images not yet revisited are still submitted with the attempt
   useEffect(() => {
     const loadExamData = async () => {
-        if (!assignedTask) {
-            setCurrentImageUrl(null);
-            setRows([]);
+        if (assignedTasks.length === 0) {
+            setRowsByImageId({});
             return;
         }
 
         setImageLoading(true);
-        setCurrentExamDbId(assignedTask.exam_id);
-        setCurrentImageUrl(null);
-
-        try {
-            const { data: urlData } = supabase.storage
-                .from(STORAGE_BUCKET_NAME)
-                .getPublicUrl(assignedTask.storage_path);
-
-            if (urlData && urlData.publicUrl) {
-                setCurrentImageUrl(urlData.publicUrl);
-            } else {
-                throw new Error(`Could not construct URL for image: ${assignedTask.storage_path}.`);
-            }
-            
-            await loadAnnotationsForImage(assignedTask);
-
-        } catch (e: any) {
-            const formattedError = formatSupabaseError(e);
-            addToast({ type: 'error', message: `Error loading exam data: ${formattedError.message}` });
-            setCurrentImageUrl(null);
-        } finally {
-            setImageLoading(false);
-        }
+        setCurrentExamDbId(assignedTasks[0].exam_id);
+
+        const loaded = await Promise.all(assignedTasks.map(loadAnnotationsForImage));
+        const nextRows: Record<number, AnnotationRowData[]> = {};
+        const nextHistory: Record<number, EditHistory> = {};
+        assignedTasks.forEach((task, index) => {
+            nextRows[task.dbImageId] = loaded[index].rows;
+            nextHistory[task.dbImageId] = loaded[index].history ?? EMPTY_HISTORY;
+        });
+        lastEditKeyRef.current = {};
+        setRowsByImageId(nextRows);
+        setHistoryByImageId(nextHistory);
+        setUnsavedImageIds([]);
+        setServerPendingImageIds([]);
+        setDisplayStatus(loaded[0].status);
+        setImageLoading(false);
     };
-    
+
     loadExamData();
 
-  }, [assignedTask, loadAnnotationsForImage, addToast]);
+  }, [assignedTasks, loadAnnotationsForImage]);
 
   const submitAllExamAnnotations = useCallback(async () => {
-    if (!annotatorDbId || !currentExamDbId || !assignedTask) {
+    if (!annotatorDbId || !currentExamDbId || assignedTasks.length === 0) {
         addToast({ type: 'error', message: "User session error (annotator, exam, or task ID missing). Cannot submit." });
         setDisplayStatus('Error submitting');
         return false;
@@ -139,74 +287,76 @@ export const useExamData = ({ exam, annotatorDbId, assignedTask }: UseExamDataPr
     setIsSubmittingToServer(true);
     setDisplayStatus('Submitting...');
 
+    // No draft may be saved over the submission
+    const pendingImageIds = serverPendingRef.current;
+    serverPendingRef.current = [];
+    setServerPendingImageIds([]);
+    await autosaveInFlightRef.current;
+
     try {
-        const rowsToUpsert = [];
-        for (const clientRow of rows) {
-            const hasData = Object.values(clientRow.cells).some(val => val && String(val).trim() !== '' && val !== assignedTask.original_filename);
-            if (hasData) {
-                rowsToUpsert.push({
-                    annotator_id: annotatorDbId,
-                    image_id: assignedTask.dbImageId,
-                    row_data: { ...clientRow.cells },
-                    client_row_id: clientRow.id,
-                    is_submitted: true,
-                });
-            }
-        }
-        
-        if (rowsToUpsert.length > 0) {
-            const { error: saveError } = await supabase.from('annotation_rows').upsert(
-                rowsToUpsert,
-                { onConflict: 'annotator_id, image_id, client_row_id' }
-            );
+        // finalize_exam_attempt submits the drafts, so each image's rows are
+        // saved as its draft; empty rows are dropped by the server
+        for (const task of assignedTasks) {
+            const { error: saveError } = await supabase.rpc('save_annotation_draft', {
+                p_image_id: task.dbImageId,
+                p_rows: (rowsByImageId[task.dbImageId] ?? []).map(row => ({ client_row_id: row.id, row_data: row.cells })),
+            });
 
             if (saveError) {
               const formattedError = formatSupabaseError(saveError);
               addToast({ type: 'error', message: `Error submitting data: ${formattedError.message}`});
               setDisplayStatus('Error submitting');
+              setServerPendingImageIds(prev => [...prev, ...pendingImageIds.filter(id => !prev.includes(id))]);
               setIsSubmittingToServer(false);
               return false;
             }
         }
 
-        removeAnnotationsFromLocalStorage(annotatorDbId, exam.id, assignedTask.dbImageId);
-        
+        assignedTasks.forEach(task => removeAnnotationsFromLocalStorage(annotatorDbId, exam.id, task.dbImageId));
+
         const currentTime = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
         setDisplayStatus(`Submitted at ${currentTime}`);
-        setHasUnsavedChanges(false);
+        setUnsavedImageIds([]);
         setIsSubmittingToServer(false);
         return true;
     } catch (error: any) {
         const formattedError = formatSupabaseError(error);
         addToast({ type: 'error', message: `Failed to submit data: ${formattedError.message}` });
         setDisplayStatus('Error submitting');
+        setServerPendingImageIds(prev => [...prev, ...pendingImageIds.filter(id => !prev.includes(id))]);
         setIsSubmittingToServer(false);
         return false;
     }
-  }, [rows, annotatorDbId, currentExamDbId, assignedTask, exam.id, addToast]);
-  
+  }, [rowsByImageId, annotatorDbId, currentExamDbId, assignedTasks, exam.id, addToast]);
+
   const persistDraft = useCallback(() => {
-    if (hasUnsavedChanges && annotatorDbId && assignedTask) {
-        saveAnnotationsToLocalStorage(annotatorDbId, exam.id, assignedTask.dbImageId, rows);
-        setHasUnsavedChanges(false); 
-        setDisplayStatus('Draft saved locally'); 
+    if (hasUnsavedChanges && annotatorDbId) {
+        unsavedImageIds.forEach(imageId => saveAnnotationsToLocalStorage(annotatorDbId, exam.id, imageId, rowsByImageId[imageId] ?? [], Date.now(), historyByImageId[imageId]));
+        setUnsavedImageIds([]);
+        setDisplayStatus('Draft saved locally');
         setTimeout(() => setDisplayStatus(prev => prev === 'Draft saved locally' ? '' : prev), 2000);
     }
-  }, [hasUnsavedChanges, annotatorDbId, exam.id, assignedTask, rows]);
+  }, [hasUnsavedChanges, annotatorDbId, exam.id, unsavedImageIds, rowsByImageId, historyByImageId]);
 
   return {
     currentImageUrl,
     imageLoading,
     rows,
+    rowsByImageId,
     setRows: updateRowsAndSignalChange,
     displayStatus,
-    setDisplayStatus, 
+    setDisplayStatus,
     isSubmittingToServer,
     setIsSubmittingToServer,
-    hasUnsavedChanges, 
+    hasUnsavedChanges,
+    autosave,
+    undo,
+    redo,
+    canUndo: currentHistory.past.length > 0,
+    canRedo: currentHistory.future.length > 0,
     submitAllExamAnnotations,
     persistDraft,
-    currentTaskForDisplay: assignedTask, // The current task is always the single assigned task
+    currentTaskForDisplay: currentTask,
     currentExamDbId,
   };
 };
@@ -0,0 +1,190 @@
+-- Server-authoritative exam scoring.
+--
+-- Keystroke totals used to be calculated in the browser and written straight to
+-- user_exam_completions. They are now computed here from the stored
+-- annotation_rows and answer_key_rows, and clients lose the ability to write
+-- them directly.
+
+-- Scores one attempt: the annotator's submitted rows for an image against the
+-- answer key for that image. Rows are paired by insertion order, and each
+-- non-empty answer-key cell (except image_ref) is scored with
+-- common_prefix_length.
+create or replace function public.score_exam_attempt(
+  p_annotator_id bigint,
+  p_image_id bigint
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with key_rows as (
+    select row_number() over (order by id) as rn, row_data
+    from answer_key_rows
+    where image_id = p_image_id
+  ),
+  user_rows as (
+    select row_number() over (order by id) as rn, row_data
+    from annotation_rows
+    where annotator_id = p_annotator_id
+      and image_id = p_image_id
+      and is_submitted
+  ),
+  key_cells as (
+    select k.rn, f.key, f.value as answer_value
+    from key_rows k
+    cross join lateral jsonb_each_text(k.row_data::jsonb) f
+    where f.key <> 'image_ref'
+      and coalesce(f.value, '') <> ''
+  )
+  select
+    coalesce(sum(common_prefix_length(coalesce(u.row_data ->> kc.key, ''), kc.answer_value)), 0)::integer,
+    coalesce(sum(char_length(kc.answer_value)), 0)::integer
+  from key_cells kc
+  left join user_rows u on u.rn = kc.rn;
+$$;
+
+-- Pass mark for an attempt, as a percentage of the answer-key keystrokes.
+create or replace function public.attempt_passing_score(
+  p_exam_id bigint,
+  p_annotator_id bigint
+)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select 90::numeric;
+$$;
+
+-- Scores an attempt on an image, writes the result to its completion record and
+-- returns it. Retakes reuse the existing completion record, so retake_count is
+-- bumped whenever the record was already finalized by a previous attempt.
+-- Callers lock and validate the attempt first.
+create or replace function public.record_attempt_score(
+  p_completion_id bigint,
+  p_image_id bigint,
+  p_status text,
+  p_duration_seconds integer
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  score_percentage numeric,
+  passed boolean
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_completion user_exam_completions%rowtype;
+  v_effective integer;
+  v_total integer;
+  v_score numeric;
+begin
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id;
+
+  select s.total_effective_keystrokes, s.total_answer_key_keystrokes
+    into v_effective, v_total
+  from score_exam_attempt(v_completion.annotator_id, p_image_id) s;
+
+  update user_exam_completions
+     set status = p_status,
+         duration_seconds = p_duration_seconds,
+         completed_at = now(),
+         total_effective_keystrokes = v_effective,
+         total_answer_key_keystrokes = v_total,
+         assigned_image_id = p_image_id,
+         retake_count = case
+           when v_completion.status = 'started' then v_completion.retake_count
+           else coalesce(v_completion.retake_count, 0) + 1
+         end
+   where id = p_completion_id;
+
+  v_score := case when v_total > 0 then (v_effective::numeric / v_total) * 100 else 0 end;
+
+  return query select
+    v_effective,
+    v_total,
+    v_score,
+    v_score >= attempt_passing_score(v_completion.exam_id, v_completion.annotator_id);
+end;
+$$;
+
+-- Locks an attempt that is about to be finalized, and checks it may be scored
+-- on the image.
+create or replace function public.assert_attempt_can_finalize(
+  p_completion_id bigint,
+  p_image_id bigint,
+  p_status text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completion user_exam_completions%rowtype;
+begin
+  if p_status not in ('submitted', 'timed_out') then
+    raise exception 'Invalid completion status: %', p_status;
+  end if;
+
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id
+  for update;
+
+  if not found then
+    raise exception 'Exam attempt % does not exist.', p_completion_id;
+  end if;
+  -- A first attempt is scored on the image start_exam_and_assign_image gave
+  -- it; a retake on another image of the same exam.
+  if (v_completion.status = 'started' and p_image_id is distinct from v_completion.assigned_image_id)
+     or not exists (select 1 from images i where i.id = p_image_id and i.exam_id = v_completion.exam_id) then
+    raise exception 'Image % is not assigned to this exam attempt.', p_image_id;
+  end if;
+end;
+$$;
+
+-- Finalizes an attempt and returns its score so the client can display it.
+create or replace function public.finalize_exam_attempt(
+  p_completion_id bigint,
+  p_image_id bigint,
+  p_status text,
+  p_duration_seconds integer
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  score_percentage numeric,
+  passed boolean
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_attempt_can_finalize(p_completion_id, p_image_id, p_status);
+  return query
+  select * from record_attempt_score(p_completion_id, p_image_id, p_status, p_duration_seconds);
+end;
+$$;
+
+-- Completion records are only written through the RPCs from now on.
+alter function public.start_exam_and_assign_image security definer;
+revoke insert, update on public.user_exam_completions from anon, authenticated;
+
+revoke all on function public.score_exam_attempt(bigint, bigint) from public, anon, authenticated;
+revoke all on function public.attempt_passing_score(bigint, bigint) from public, anon, authenticated;
+revoke all on function public.record_attempt_score(bigint, bigint, text, integer) from public, anon, authenticated;
+revoke all on function public.assert_attempt_can_finalize(bigint, bigint, text) from public, anon, authenticated;
+grant execute on function public.finalize_exam_attempt(bigint, bigint, text, integer) to anon, authenticated;
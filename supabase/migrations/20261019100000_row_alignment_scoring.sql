@@ -0,0 +1,188 @@
+-- Alignment-based scoring.
+--
+-- Rows used to be paired strictly by position, so one skipped record near the
+-- top made every following row count as wrong. User rows are now matched to
+-- answer-key rows by best similarity first (greedily, highest similarity wins,
+-- ties go to the pair closest in position), and only matched pairs are scored.
+-- Rows left over on either side are reported back as unmatched.
+
+drop function if exists public.finalize_exam_attempt(bigint, bigint, text, integer);
+drop function if exists public.record_attempt_score(bigint, bigint, text, integer);
+drop function if exists public.score_exam_attempt(bigint, bigint);
+
+create function public.score_exam_attempt(
+  p_annotator_id bigint,
+  p_image_id bigint
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_pair record;
+  v_matched_keys bigint[] := '{}';
+  v_matched_users bigint[] := '{}';
+  v_effective integer := 0;
+  v_total integer;
+  v_key_count integer;
+  v_user_count integer;
+begin
+  select coalesce(sum(char_length(f.value)), 0)::integer
+    into v_total
+  from answer_key_rows k
+  cross join lateral jsonb_each_text(k.row_data::jsonb) f
+  where k.image_id = p_image_id
+    and f.key <> 'image_ref'
+    and coalesce(f.value, '') <> '';
+
+  select count(*) into v_key_count
+  from answer_key_rows
+  where image_id = p_image_id;
+
+  select count(*) into v_user_count
+  from annotation_rows
+  where annotator_id = p_annotator_id
+    and image_id = p_image_id
+    and is_submitted;
+
+  for v_pair in
+    with key_rows as (
+      select row_number() over (order by id) as rn, row_data
+      from answer_key_rows
+      where image_id = p_image_id
+    ),
+    user_rows as (
+      select row_number() over (order by id) as rn, row_data
+      from annotation_rows
+      where annotator_id = p_annotator_id
+        and image_id = p_image_id
+        and is_submitted
+    ),
+    pair_scores as (
+      select
+        k.rn as key_rn,
+        u.rn as user_rn,
+        sum(common_prefix_length(coalesce(u.row_data ->> f.key, ''), f.value))::integer as matched
+      from key_rows k
+      cross join user_rows u
+      cross join lateral jsonb_each_text(k.row_data::jsonb) f
+      where f.key <> 'image_ref'
+        and coalesce(f.value, '') <> ''
+      group by k.rn, u.rn
+    )
+    select key_rn, user_rn, matched
+    from pair_scores
+    where matched > 0
+    order by matched desc, abs(key_rn - user_rn), key_rn, user_rn
+  loop
+    if v_pair.key_rn = any(v_matched_keys) or v_pair.user_rn = any(v_matched_users) then
+      continue;
+    end if;
+    v_matched_keys := v_matched_keys || v_pair.key_rn;
+    v_matched_users := v_matched_users || v_pair.user_rn;
+    v_effective := v_effective + v_pair.matched;
+  end loop;
+
+  return query select
+    v_effective,
+    v_total,
+    v_user_count - cardinality(v_matched_users),
+    v_key_count - cardinality(v_matched_keys);
+end;
+$$;
+
+create function public.record_attempt_score(
+  p_completion_id bigint,
+  p_image_id bigint,
+  p_status text,
+  p_duration_seconds integer
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  score_percentage numeric,
+  passed boolean,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_completion user_exam_completions%rowtype;
+  v_score_row record;
+  v_score numeric;
+begin
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id;
+
+  select * into v_score_row
+  from score_exam_attempt(v_completion.annotator_id, p_image_id);
+
+  update user_exam_completions
+     set status = p_status,
+         duration_seconds = p_duration_seconds,
+         completed_at = now(),
+         total_effective_keystrokes = v_score_row.total_effective_keystrokes,
+         total_answer_key_keystrokes = v_score_row.total_answer_key_keystrokes,
+         assigned_image_id = p_image_id,
+         retake_count = case
+           when v_completion.status = 'started' then v_completion.retake_count
+           else coalesce(v_completion.retake_count, 0) + 1
+         end
+   where id = p_completion_id;
+
+  v_score := case
+    when v_score_row.total_answer_key_keystrokes > 0
+      then (v_score_row.total_effective_keystrokes::numeric / v_score_row.total_answer_key_keystrokes) * 100
+    else 0
+  end;
+
+  return query select
+    v_score_row.total_effective_keystrokes,
+    v_score_row.total_answer_key_keystrokes,
+    v_score,
+    v_score >= attempt_passing_score(v_completion.exam_id, v_completion.annotator_id),
+    v_score_row.unmatched_user_rows,
+    v_score_row.unmatched_key_rows;
+end;
+$$;
+
+create function public.finalize_exam_attempt(
+  p_completion_id bigint,
+  p_image_id bigint,
+  p_status text,
+  p_duration_seconds integer
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  score_percentage numeric,
+  passed boolean,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_attempt_can_finalize(p_completion_id, p_image_id, p_status);
+  return query
+  select * from record_attempt_score(p_completion_id, p_image_id, p_status, p_duration_seconds);
+end;
+$$;
+
+revoke all on function public.score_exam_attempt(bigint, bigint) from public, anon, authenticated;
+revoke all on function public.record_attempt_score(bigint, bigint, text, integer) from public, anon, authenticated;
+grant execute on function public.finalize_exam_attempt(bigint, bigint, text, integer) to anon, authenticated;
@@ -0,0 +1,283 @@
+-- Configurable scoring strategy per exam.
+--
+--   prefix      - credit for the characters before the first mismatch (original behaviour)
+--   levenshtein - answer length minus the edit distance, so one wrong letter costs one point
+--   exact       - full credit only when the cell matches exactly
+--
+-- Changing an exam's strategy rescores its finalized attempts so stored scores
+-- always reflect the strategy shown in the admin views.
+
+create extension if not exists fuzzystrmatch;
+
+alter table public.exams
+  add column if not exists scoring_strategy text not null default 'prefix'
+  check (scoring_strategy in ('prefix', 'levenshtein', 'exact'));
+
+-- Characters of p_answer credited to p_user under the given strategy.
+create or replace function public.cell_match_score(
+  p_user text,
+  p_answer text,
+  p_strategy text
+)
+returns integer
+language sql
+immutable
+as $$
+  select case
+    when coalesce(p_user, '') = '' or coalesce(p_answer, '') = '' then 0
+    when p_strategy = 'exact' then
+      case when p_user = p_answer then char_length(p_answer) else 0 end
+    when p_strategy = 'levenshtein' then
+      greatest(char_length(p_answer) - levenshtein(p_user, p_answer), 0)
+    else common_prefix_length(p_user, p_answer)
+  end;
+$$;
+
+drop function if exists public.score_exam_attempt(bigint, bigint);
+
+create function public.score_exam_attempt(
+  p_annotator_id bigint,
+  p_image_id bigint,
+  p_strategy text default 'prefix'
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_pair record;
+  v_matched_keys bigint[] := '{}';
+  v_matched_users bigint[] := '{}';
+  v_effective integer := 0;
+  v_total integer;
+  v_key_count integer;
+  v_user_count integer;
+begin
+  select coalesce(sum(char_length(f.value)), 0)::integer
+    into v_total
+  from answer_key_rows k
+  cross join lateral jsonb_each_text(k.row_data::jsonb) f
+  where k.image_id = p_image_id
+    and f.key <> 'image_ref'
+    and coalesce(f.value, '') <> '';
+
+  select count(*) into v_key_count
+  from answer_key_rows
+  where image_id = p_image_id;
+
+  select count(*) into v_user_count
+  from annotation_rows
+  where annotator_id = p_annotator_id
+    and image_id = p_image_id
+    and is_submitted;
+
+  for v_pair in
+    with key_rows as (
+      select row_number() over (order by id) as rn, row_data
+      from answer_key_rows
+      where image_id = p_image_id
+    ),
+    user_rows as (
+      select row_number() over (order by id) as rn, row_data
+      from annotation_rows
+      where annotator_id = p_annotator_id
+        and image_id = p_image_id
+        and is_submitted
+    ),
+    pair_scores as (
+      select
+        k.rn as key_rn,
+        u.rn as user_rn,
+        sum(cell_match_score(u.row_data ->> f.key, f.value, p_strategy))::integer as matched
+      from key_rows k
+      cross join user_rows u
+      cross join lateral jsonb_each_text(k.row_data::jsonb) f
+      where f.key <> 'image_ref'
+        and coalesce(f.value, '') <> ''
+      group by k.rn, u.rn
+    )
+    select key_rn, user_rn, matched
+    from pair_scores
+    where matched > 0
+    order by matched desc, abs(key_rn - user_rn), key_rn, user_rn
+  loop
+    if v_pair.key_rn = any(v_matched_keys) or v_pair.user_rn = any(v_matched_users) then
+      continue;
+    end if;
+    v_matched_keys := v_matched_keys || v_pair.key_rn;
+    v_matched_users := v_matched_users || v_pair.user_rn;
+    v_effective := v_effective + v_pair.matched;
+  end loop;
+
+  return query select
+    v_effective,
+    v_total,
+    v_user_count - cardinality(v_matched_users),
+    v_key_count - cardinality(v_matched_keys);
+end;
+$$;
+
+-- Attempts are scored with their exam's strategy.
+create or replace function public.record_attempt_score(
+  p_completion_id bigint,
+  p_image_id bigint,
+  p_status text,
+  p_duration_seconds integer
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  score_percentage numeric,
+  passed boolean,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_completion user_exam_completions%rowtype;
+  v_strategy text;
+  v_score_row record;
+  v_score numeric;
+begin
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id;
+
+  select e.scoring_strategy into v_strategy
+  from exams e
+  where e.id = v_completion.exam_id;
+
+  select * into v_score_row
+  from score_exam_attempt(v_completion.annotator_id, p_image_id, v_strategy);
+
+  update user_exam_completions
+     set status = p_status,
+         duration_seconds = p_duration_seconds,
+         completed_at = now(),
+         total_effective_keystrokes = v_score_row.total_effective_keystrokes,
+         total_answer_key_keystrokes = v_score_row.total_answer_key_keystrokes,
+         assigned_image_id = p_image_id,
+         retake_count = case
+           when v_completion.status = 'started' then v_completion.retake_count
+           else coalesce(v_completion.retake_count, 0) + 1
+         end
+   where id = p_completion_id;
+
+  v_score := case
+    when v_score_row.total_answer_key_keystrokes > 0
+      then (v_score_row.total_effective_keystrokes::numeric / v_score_row.total_answer_key_keystrokes) * 100
+    else 0
+  end;
+
+  return query select
+    v_score_row.total_effective_keystrokes,
+    v_score_row.total_answer_key_keystrokes,
+    v_score,
+    v_score >= attempt_passing_score(v_completion.exam_id, v_completion.annotator_id),
+    v_score_row.unmatched_user_rows,
+    v_score_row.unmatched_key_rows;
+end;
+$$;
+
+-- Switches an exam to another strategy and rescores its finalized attempts.
+-- Returns the number of attempts that were rescored.
+create or replace function public.set_exam_scoring_strategy(
+  p_exam_id bigint,
+  p_strategy text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completion record;
+  v_score_row record;
+  v_rescored integer := 0;
+begin
+  if auth.role() <> 'authenticated' then
+    raise exception 'Only administrators can change scoring strategies.';
+  end if;
+  if p_strategy not in ('prefix', 'levenshtein', 'exact') then
+    raise exception 'Unknown scoring strategy: %', p_strategy;
+  end if;
+
+  update exams set scoring_strategy = p_strategy where id = p_exam_id;
+
+  for v_completion in
+    select id, annotator_id, assigned_image_id
+    from user_exam_completions
+    where exam_id = p_exam_id
+      and status in ('submitted', 'timed_out')
+  loop
+    select * into v_score_row
+    from score_exam_attempt(v_completion.annotator_id, v_completion.assigned_image_id, p_strategy);
+
+    update user_exam_completions
+       set total_effective_keystrokes = v_score_row.total_effective_keystrokes,
+           total_answer_key_keystrokes = v_score_row.total_answer_key_keystrokes
+     where id = v_completion.id;
+    v_rescored := v_rescored + 1;
+  end loop;
+
+  return v_rescored;
+end;
+$$;
+
+-- Scores every annotator's latest finalized attempt of an exam under all
+-- strategies, without changing anything, so admins can compare rankings.
+create or replace function public.compare_scoring_strategies(p_exam_id bigint)
+returns table (
+  annotator_id bigint,
+  liftapp_user_id text,
+  prefix_score numeric,
+  levenshtein_score numeric,
+  exact_score numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() <> 'authenticated' then
+    raise exception 'Only administrators can compare scoring strategies.';
+  end if;
+
+  return query
+  select
+    c.annotator_id::bigint,
+    a.liftapp_user_id::text,
+    case when p.total_answer_key_keystrokes > 0
+      then p.total_effective_keystrokes::numeric / p.total_answer_key_keystrokes * 100 else 0 end,
+    case when l.total_answer_key_keystrokes > 0
+      then l.total_effective_keystrokes::numeric / l.total_answer_key_keystrokes * 100 else 0 end,
+    case when x.total_answer_key_keystrokes > 0
+      then x.total_effective_keystrokes::numeric / x.total_answer_key_keystrokes * 100 else 0 end
+  from user_exam_completions c
+  join annotators a on a.id = c.annotator_id
+  cross join lateral score_exam_attempt(c.annotator_id, c.assigned_image_id, 'prefix') p
+  cross join lateral score_exam_attempt(c.annotator_id, c.assigned_image_id, 'levenshtein') l
+  cross join lateral score_exam_attempt(c.annotator_id, c.assigned_image_id, 'exact') x
+  where c.exam_id = p_exam_id
+    and c.status in ('submitted', 'timed_out')
+  order by a.liftapp_user_id;
+end;
+$$;
+
+revoke all on function public.score_exam_attempt(bigint, bigint, text) from public, anon, authenticated;
+revoke all on function public.set_exam_scoring_strategy(bigint, text) from public, anon;
+revoke all on function public.compare_scoring_strategies(bigint) from public, anon;
+grant execute on function public.set_exam_scoring_strategy(bigint, text) to authenticated;
+grant execute on function public.compare_scoring_strategies(bigint) to authenticated;
@@ -0,0 +1,293 @@
+-- Per-column normalization before scoring, so trailing spaces, "JAN" vs "Jan"
+-- or "enero" vs "Jan" no longer count as mistakes. Both the user value and the
+-- answer-key value are normalized, and totals use the normalized answer length.
+--
+-- Rules mirror NormalizationRule in types.ts and always run in this order:
+--   trim, collapse_whitespace, strip_diacritics, casefold, month_name
+-- Columns without a row in exam_column_settings use {trim, collapse_whitespace}.
+
+create extension if not exists unaccent;
+
+create table if not exists public.exam_column_settings (
+  exam_id bigint not null references public.exams (id) on delete cascade,
+  column_id text not null,
+  normalization_rules text[] not null default '{trim,collapse_whitespace}',
+  primary key (exam_id, column_id),
+  check (normalization_rules <@ array['trim', 'collapse_whitespace', 'casefold', 'strip_diacritics', 'month_name'])
+);
+
+alter table public.exam_column_settings enable row level security;
+
+create policy "Anyone can read column settings"
+  on public.exam_column_settings for select
+  using (true);
+
+create policy "Admins manage column settings"
+  on public.exam_column_settings for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Keep in sync with the `normalization` entries in constants.tsx.
+insert into public.exam_column_settings (exam_id, column_id, normalization_rules)
+select e.id, s.column_id, s.rules
+from (
+  values
+    ('baptism', 'language', '{trim,collapse_whitespace,casefold}'::text[]),
+    ('baptism', 'event_m', '{trim,collapse_whitespace,casefold,month_name}'::text[]),
+    ('baptism', 'sex', '{trim,collapse_whitespace,casefold}'::text[]),
+    ('baptism', 'birth_m', '{trim,collapse_whitespace,casefold,month_name}'::text[]),
+    ('marriage', 'language', '{trim,collapse_whitespace,casefold}'::text[]),
+    ('marriage', 'event_m', '{trim,collapse_whitespace,casefold,month_name}'::text[]),
+    ('confirmation', 'language', '{trim,collapse_whitespace,casefold}'::text[]),
+    ('confirmation', 'event_m', '{trim,collapse_whitespace,casefold,month_name}'::text[]),
+    ('burial', 'language', '{trim,collapse_whitespace,casefold}'::text[]),
+    ('burial', 'event_m', '{trim,collapse_whitespace,casefold,month_name}'::text[]),
+    ('burial', 'sex', '{trim,collapse_whitespace,casefold}'::text[]),
+    ('burial', 'death_m', '{trim,collapse_whitespace,casefold,month_name}'::text[])
+) as s (exam_code, column_id, rules)
+join public.exams e on e.exam_code = s.exam_code
+on conflict (exam_id, column_id) do update
+  set normalization_rules = excluded.normalization_rules;
+
+-- Maps English, Spanish, Latin and numeric month spellings to "Jan".."Dec".
+-- Mirrors MONTH_ALIASES in utils/scoringUtils.ts.
+create or replace function public.canonical_month(p_value text)
+returns text
+language sql
+immutable
+as $$
+  select coalesce(
+    case regexp_replace(lower(p_value), '\.$', '')
+      when 'jan' then 'Jan' when 'january' then 'Jan' when 'ene' then 'Jan' when 'enero' then 'Jan'
+      when 'ian' then 'Jan' when 'januarius' then 'Jan' when 'ianuarius' then 'Jan' when '1' then 'Jan' when '01' then 'Jan'
+      when 'feb' then 'Feb' when 'february' then 'Feb' when 'febrero' then 'Feb' when 'februarius' then 'Feb'
+      when '2' then 'Feb' when '02' then 'Feb'
+      when 'mar' then 'Mar' when 'march' then 'Mar' when 'marzo' then 'Mar' when 'martius' then 'Mar'
+      when '3' then 'Mar' when '03' then 'Mar'
+      when 'apr' then 'Apr' when 'april' then 'Apr' when 'abr' then 'Apr' when 'abril' then 'Apr'
+      when 'aprilis' then 'Apr' when '4' then 'Apr' when '04' then 'Apr'
+      when 'may' then 'May' when 'mayo' then 'May' when 'maius' then 'May' when '5' then 'May' when '05' then 'May'
+      when 'jun' then 'Jun' when 'june' then 'Jun' when 'junio' then 'Jun' when 'iun' then 'Jun'
+      when 'junius' then 'Jun' when 'iunius' then 'Jun' when '6' then 'Jun' when '06' then 'Jun'
+      when 'jul' then 'Jul' when 'july' then 'Jul' when 'julio' then 'Jul' when 'iul' then 'Jul'
+      when 'julius' then 'Jul' when 'iulius' then 'Jul' when '7' then 'Jul' when '07' then 'Jul'
+      when 'aug' then 'Aug' when 'august' then 'Aug' when 'ago' then 'Aug' when 'agosto' then 'Aug'
+      when 'augustus' then 'Aug' when '8' then 'Aug' when '08' then 'Aug'
+      when 'sep' then 'Sep' when 'sept' then 'Sep' when 'september' then 'Sep' when 'set' then 'Sep'
+      when 'septiembre' then 'Sep' when 'setiembre' then 'Sep' when '9' then 'Sep' when '09' then 'Sep'
+      when 'oct' then 'Oct' when 'october' then 'Oct' when 'octubre' then 'Oct' when '10' then 'Oct'
+      when 'nov' then 'Nov' when 'november' then 'Nov' when 'noviembre' then 'Nov' when '11' then 'Nov'
+      when 'dec' then 'Dec' when 'december' then 'Dec' when 'dic' then 'Dec' when 'diciembre' then 'Dec'
+      when '12' then 'Dec'
+    end,
+    p_value
+  );
+$$;
+
+create or replace function public.normalize_cell_value(p_value text, p_rules text[])
+returns text
+language plpgsql
+stable
+as $$
+declare
+  v_result text := coalesce(p_value, '');
+begin
+  if 'trim' = any(p_rules) then
+    v_result := btrim(v_result, E' \t\r\n');
+  end if;
+  if 'collapse_whitespace' = any(p_rules) then
+    v_result := regexp_replace(v_result, '\s+', ' ', 'g');
+  end if;
+  if 'strip_diacritics' = any(p_rules) then
+    v_result := unaccent(v_result);
+  end if;
+  if 'casefold' = any(p_rules) then
+    v_result := lower(v_result);
+  end if;
+  if 'month_name' = any(p_rules) then
+    v_result := canonical_month(v_result);
+  end if;
+  return v_result;
+end;
+$$;
+
+-- Normalized, non-empty answer-key cells of an image, numbered by row.
+create or replace function public.normalized_answer_cells(p_image_id bigint)
+returns table (
+  key_rn bigint,
+  column_id text,
+  answer text,
+  rules text[]
+)
+language sql
+stable
+set search_path = public
+as $$
+  select cells.key_rn, cells.column_id, cells.answer, cells.rules
+  from (
+    select k.rn as key_rn, f.key as column_id, normalize_cell_value(f.value, r.rules) as answer, r.rules
+    from (
+      select row_number() over (order by id) as rn, row_data
+      from answer_key_rows
+      where image_id = p_image_id
+    ) k
+    cross join lateral jsonb_each_text(k.row_data::jsonb) f
+    cross join lateral (
+      select coalesce(
+        (select s.normalization_rules
+           from exam_column_settings s
+           join images i on i.exam_id = s.exam_id
+          where i.id = p_image_id and s.column_id = f.key),
+        '{trim,collapse_whitespace}'::text[]
+      ) as rules
+    ) r
+    where f.key <> 'image_ref'
+  ) cells
+  where cells.answer <> '';
+$$;
+
+create or replace function public.score_exam_attempt(
+  p_annotator_id bigint,
+  p_image_id bigint,
+  p_strategy text default 'prefix'
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_pair record;
+  v_matched_keys bigint[] := '{}';
+  v_matched_users bigint[] := '{}';
+  v_effective integer := 0;
+  v_total integer;
+  v_key_count integer;
+  v_user_count integer;
+begin
+  select coalesce(sum(char_length(c.answer)), 0)::integer
+    into v_total
+  from normalized_answer_cells(p_image_id) c;
+
+  select count(*) into v_key_count
+  from answer_key_rows
+  where image_id = p_image_id;
+
+  select count(*) into v_user_count
+  from annotation_rows
+  where annotator_id = p_annotator_id
+    and image_id = p_image_id
+    and is_submitted;
+
+  for v_pair in
+    with user_rows as (
+      select row_number() over (order by id) as rn, row_data
+      from annotation_rows
+      where annotator_id = p_annotator_id
+        and image_id = p_image_id
+        and is_submitted
+    ),
+    pair_scores as (
+      select
+        c.key_rn,
+        u.rn as user_rn,
+        sum(cell_match_score(
+          normalize_cell_value(u.row_data::jsonb ->> c.column_id, c.rules),
+          c.answer,
+          p_strategy
+        ))::integer as matched
+      from normalized_answer_cells(p_image_id) c
+      cross join user_rows u
+      group by c.key_rn, u.rn
+    )
+    select key_rn, user_rn, matched
+    from pair_scores
+    where matched > 0
+    order by matched desc, abs(key_rn - user_rn), key_rn, user_rn
+  loop
+    if v_pair.key_rn = any(v_matched_keys) or v_pair.user_rn = any(v_matched_users) then
+      continue;
+    end if;
+    v_matched_keys := v_matched_keys || v_pair.key_rn;
+    v_matched_users := v_matched_users || v_pair.user_rn;
+    v_effective := v_effective + v_pair.matched;
+  end loop;
+
+  return query select
+    v_effective,
+    v_total,
+    v_user_count - cardinality(v_matched_users),
+    v_key_count - cardinality(v_matched_keys);
+end;
+$$;
+
+-- Rescores every finished attempt of an exam with its current strategy and
+-- column settings. Returns the number of attempts rescored.
+create or replace function public.rescore_exam(p_exam_id bigint)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_strategy text;
+  v_completion record;
+  v_score_row record;
+  v_rescored integer := 0;
+begin
+  select scoring_strategy into v_strategy from exams where id = p_exam_id;
+
+  for v_completion in
+    select id, annotator_id, assigned_image_id
+    from user_exam_completions
+    where exam_id = p_exam_id
+      and status in ('submitted', 'timed_out')
+  loop
+    select * into v_score_row
+    from score_exam_attempt(v_completion.annotator_id, v_completion.assigned_image_id, v_strategy);
+
+    update user_exam_completions
+       set total_effective_keystrokes = v_score_row.total_effective_keystrokes,
+           total_answer_key_keystrokes = v_score_row.total_answer_key_keystrokes
+     where id = v_completion.id;
+    v_rescored := v_rescored + 1;
+  end loop;
+
+  return v_rescored;
+end;
+$$;
+
+create or replace function public.set_exam_scoring_strategy(
+  p_exam_id bigint,
+  p_strategy text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() <> 'authenticated' then
+    raise exception 'Only administrators can change scoring strategies.';
+  end if;
+  if p_strategy not in ('prefix', 'levenshtein', 'exact') then
+    raise exception 'Unknown scoring strategy: %', p_strategy;
+  end if;
+
+  update exams set scoring_strategy = p_strategy where id = p_exam_id;
+  return rescore_exam(p_exam_id);
+end;
+$$;
+
+revoke all on function public.normalized_answer_cells(bigint) from public, anon, authenticated;
+revoke all on function public.rescore_exam(bigint) from public, anon, authenticated;
+
+-- Existing attempts were scored on raw values; bring them in line.
+select public.rescore_exam(id) from public.exams;
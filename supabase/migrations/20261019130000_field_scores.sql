@@ -0,0 +1,305 @@
+-- Per-column breakdown of every scored attempt, so trainers can see whether
+-- annotators struggle with dates, surnames, etc.
+--
+-- field_scores is a jsonb object keyed by column id:
+--   { "fa_surname": { "matched": 41, "total": 52 }, ... }
+-- "total" is the normalized answer-key characters of the column and "matched"
+-- the characters credited in the rows the user's rows were aligned with.
+
+alter table public.user_exam_completions
+  add column if not exists field_scores jsonb;
+
+drop function if exists public.finalize_exam_attempt(bigint, bigint, text, integer);
+drop function if exists public.record_attempt_score(bigint, bigint, text, integer);
+drop function if exists public.score_exam_attempt(bigint, bigint, text);
+
+create function public.score_exam_attempt(
+  p_annotator_id bigint,
+  p_image_id bigint,
+  p_strategy text default 'prefix'
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer,
+  field_scores jsonb
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_pair record;
+  v_matched_keys bigint[] := '{}';
+  v_matched_users bigint[] := '{}';
+  v_effective integer := 0;
+  v_total integer;
+  v_key_count integer;
+  v_user_count integer;
+  v_field_scores jsonb;
+begin
+  select coalesce(sum(char_length(c.answer)), 0)::integer
+    into v_total
+  from normalized_answer_cells(p_image_id) c;
+
+  select count(*) into v_key_count
+  from answer_key_rows
+  where image_id = p_image_id;
+
+  select count(*) into v_user_count
+  from annotation_rows
+  where annotator_id = p_annotator_id
+    and image_id = p_image_id
+    and is_submitted;
+
+  for v_pair in
+    with user_rows as (
+      select row_number() over (order by id) as rn, row_data
+      from annotation_rows
+      where annotator_id = p_annotator_id
+        and image_id = p_image_id
+        and is_submitted
+    ),
+    pair_scores as (
+      select
+        c.key_rn,
+        u.rn as user_rn,
+        sum(cell_match_score(
+          normalize_cell_value(u.row_data::jsonb ->> c.column_id, c.rules),
+          c.answer,
+          p_strategy
+        ))::integer as matched
+      from normalized_answer_cells(p_image_id) c
+      cross join user_rows u
+      group by c.key_rn, u.rn
+    )
+    select key_rn, user_rn, matched
+    from pair_scores
+    where matched > 0
+    order by matched desc, abs(key_rn - user_rn), key_rn, user_rn
+  loop
+    if v_pair.key_rn = any(v_matched_keys) or v_pair.user_rn = any(v_matched_users) then
+      continue;
+    end if;
+    v_matched_keys := v_matched_keys || v_pair.key_rn;
+    v_matched_users := v_matched_users || v_pair.user_rn;
+    v_effective := v_effective + v_pair.matched;
+  end loop;
+
+  -- Re-score the chosen pairs cell by cell, grouped by column
+  with user_rows as (
+    select row_number() over (order by id) as rn, row_data
+    from annotation_rows
+    where annotator_id = p_annotator_id
+      and image_id = p_image_id
+      and is_submitted
+  ),
+  pairs as (
+    select p.key_rn, p.user_rn
+    from unnest(v_matched_keys, v_matched_users) as p (key_rn, user_rn)
+  ),
+  per_column as (
+    select
+      c.column_id,
+      coalesce(sum(cell_match_score(
+        normalize_cell_value(u.row_data::jsonb ->> c.column_id, c.rules),
+        c.answer,
+        p_strategy
+      )), 0)::integer as matched,
+      sum(char_length(c.answer))::integer as total
+    from normalized_answer_cells(p_image_id) c
+    left join pairs p on p.key_rn = c.key_rn
+    left join user_rows u on u.rn = p.user_rn
+    group by c.column_id
+  )
+  select coalesce(
+    jsonb_object_agg(column_id, jsonb_build_object('matched', matched, 'total', total)),
+    '{}'::jsonb
+  )
+    into v_field_scores
+  from per_column;
+
+  return query select
+    v_effective,
+    v_total,
+    v_user_count - cardinality(v_matched_users),
+    v_key_count - cardinality(v_matched_keys),
+    v_field_scores;
+end;
+$$;
+
+create function public.record_attempt_score(
+  p_completion_id bigint,
+  p_image_id bigint,
+  p_status text,
+  p_duration_seconds integer
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  score_percentage numeric,
+  passed boolean,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer,
+  field_scores jsonb
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_completion user_exam_completions%rowtype;
+  v_strategy text;
+  v_score_row record;
+  v_score numeric;
+begin
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id;
+
+  select e.scoring_strategy into v_strategy
+  from exams e
+  where e.id = v_completion.exam_id;
+
+  select * into v_score_row
+  from score_exam_attempt(v_completion.annotator_id, p_image_id, v_strategy);
+
+  update user_exam_completions
+     set status = p_status,
+         duration_seconds = p_duration_seconds,
+         completed_at = now(),
+         total_effective_keystrokes = v_score_row.total_effective_keystrokes,
+         total_answer_key_keystrokes = v_score_row.total_answer_key_keystrokes,
+         field_scores = v_score_row.field_scores,
+         assigned_image_id = p_image_id,
+         retake_count = case
+           when v_completion.status = 'started' then v_completion.retake_count
+           else coalesce(v_completion.retake_count, 0) + 1
+         end
+   where id = p_completion_id;
+
+  v_score := case
+    when v_score_row.total_answer_key_keystrokes > 0
+      then (v_score_row.total_effective_keystrokes::numeric / v_score_row.total_answer_key_keystrokes) * 100
+    else 0
+  end;
+
+  return query select
+    v_score_row.total_effective_keystrokes,
+    v_score_row.total_answer_key_keystrokes,
+    v_score,
+    v_score >= attempt_passing_score(v_completion.exam_id, v_completion.annotator_id),
+    v_score_row.unmatched_user_rows,
+    v_score_row.unmatched_key_rows,
+    v_score_row.field_scores;
+end;
+$$;
+
+create function public.finalize_exam_attempt(
+  p_completion_id bigint,
+  p_image_id bigint,
+  p_status text,
+  p_duration_seconds integer
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  score_percentage numeric,
+  passed boolean,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer,
+  field_scores jsonb
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_attempt_can_finalize(p_completion_id, p_image_id, p_status);
+  return query
+  select * from record_attempt_score(p_completion_id, p_image_id, p_status, p_duration_seconds);
+end;
+$$;
+
+create or replace function public.rescore_exam(p_exam_id bigint)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_strategy text;
+  v_completion record;
+  v_score_row record;
+  v_rescored integer := 0;
+begin
+  select scoring_strategy into v_strategy from exams where id = p_exam_id;
+
+  for v_completion in
+    select id, annotator_id, assigned_image_id
+    from user_exam_completions
+    where exam_id = p_exam_id
+      and status in ('submitted', 'timed_out')
+  loop
+    select * into v_score_row
+    from score_exam_attempt(v_completion.annotator_id, v_completion.assigned_image_id, v_strategy);
+
+    update user_exam_completions
+       set total_effective_keystrokes = v_score_row.total_effective_keystrokes,
+           total_answer_key_keystrokes = v_score_row.total_answer_key_keystrokes,
+           field_scores = v_score_row.field_scores
+     where id = v_completion.id;
+    v_rescored := v_rescored + 1;
+  end loop;
+
+  return v_rescored;
+end;
+$$;
+
+-- Field-level accuracy across all finished attempts, per exam.
+create or replace function public.get_field_accuracy()
+returns table (
+  exam_code text,
+  column_id text,
+  matched_keystrokes bigint,
+  total_keystrokes bigint,
+  attempt_count bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() <> 'authenticated' then
+    raise exception 'Only administrators can view field accuracy.';
+  end if;
+
+  return query
+  select
+    e.exam_code::text,
+    f.key,
+    sum((f.value ->> 'matched')::integer)::bigint,
+    sum((f.value ->> 'total')::integer)::bigint,
+    count(distinct c.id)
+  from user_exam_completions c
+  join exams e on e.id = c.exam_id
+  cross join lateral jsonb_each(c.field_scores) f
+  where c.status in ('submitted', 'timed_out')
+  group by e.exam_code, f.key
+  order by e.exam_code, f.key;
+end;
+$$;
+
+revoke all on function public.score_exam_attempt(bigint, bigint, text) from public, anon, authenticated;
+revoke all on function public.record_attempt_score(bigint, bigint, text, integer) from public, anon, authenticated;
+revoke all on function public.finalize_exam_attempt(bigint, bigint, text, integer) from public;
+grant execute on function public.finalize_exam_attempt(bigint, bigint, text, integer) to anon, authenticated;
+revoke all on function public.get_field_accuracy() from public, anon;
+grant execute on function public.get_field_accuracy() to authenticated;
+
+-- Backfill the breakdown for attempts finished before this migration.
+select public.rescore_exam(id) from public.exams;
@@ -0,0 +1,185 @@
+-- Exam catalog in the database. Each exam row now carries everything the app
+-- used to hard-code in constants.tsx: description, dashboard icon, column
+-- layout, duration, passing score and scoring strategy. New record types can
+-- be added without a deploy.
+--
+-- `columns` is a JSON array of AnnotationColumn objects (see types.ts):
+--   { "id": "event_m", "label": "Event_M", "type": "text", "width": "w-20",
+--     "normalization": ["trim", "collapse_whitespace", "casefold", "month_name"] }
+-- Per-column normalization moves here from exam_column_settings, which is
+-- dropped once its rules are copied into the columns.
+
+alter table public.exams
+  add column if not exists description text not null default '',
+  add column if not exists icon_key text not null default 'document',
+  add column if not exists columns jsonb not null default '[]'::jsonb,
+  add column if not exists duration_seconds integer not null default 5400 check (duration_seconds > 0),
+  add column if not exists passing_score numeric not null default 90 check (passing_score between 0 and 100),
+  add column if not exists sort_order integer not null default 0;
+
+update public.exams
+   set description = 'Annotate historical baptismal records. Capture names, dates, and family relations.',
+       icon_key = 'document',
+       sort_order = 0,
+       columns = $json$[
+    {"id": "image_ref", "label": "Image", "type": "text", "width": "w-40"},
+    {"id": "language", "label": "Language", "type": "text", "width": "w-24", "normalization": ["trim", "collapse_whitespace", "casefold"]},
+    {"id": "event_d", "label": "Event_D", "type": "text", "width": "w-20"},
+    {"id": "event_m", "label": "Event_M", "type": "text", "width": "w-20", "normalization": ["trim", "collapse_whitespace", "casefold", "month_name"]},
+    {"id": "event_y", "label": "Event_Y", "type": "text", "width": "w-24"},
+    {"id": "given", "label": "Given", "type": "text", "width": "w-36"},
+    {"id": "surname", "label": "Surname", "type": "text", "width": "w-36"},
+    {"id": "sex", "label": "Sex", "type": "text", "width": "w-16", "normalization": ["trim", "collapse_whitespace", "casefold"]},
+    {"id": "birth_d", "label": "Birth_D", "type": "text", "width": "w-20"},
+    {"id": "birth_m", "label": "Birth_M", "type": "text", "width": "w-20", "normalization": ["trim", "collapse_whitespace", "casefold", "month_name"]},
+    {"id": "birth_y", "label": "Birth_Y", "type": "text", "width": "w-24"},
+    {"id": "fa_given", "label": "Fa_Given", "type": "text", "width": "w-36"},
+    {"id": "fa_surname", "label": "Fa_Surname", "type": "text", "width": "w-36"},
+    {"id": "mo_given", "label": "Mo_Given", "type": "text", "width": "w-36"},
+    {"id": "mo_surname", "label": "Mo_Surname", "type": "text", "width": "w-36"}
+  ]$json$::jsonb
+ where exam_code = 'baptism';
+update public.exams
+   set description = 'Transcribe marriage records. Note details of spouses, witnesses, and ceremony dates.',
+       icon_key = 'heart',
+       sort_order = 1,
+       columns = $json$[
+    {"id": "image_ref", "label": "Image", "type": "text", "width": "w-40"},
+    {"id": "language", "label": "Language", "type": "text", "width": "w-24", "normalization": ["trim", "collapse_whitespace", "casefold"]},
+    {"id": "event_d", "label": "Event_D", "type": "text", "width": "w-20"},
+    {"id": "event_m", "label": "Event_M", "type": "text", "width": "w-20", "normalization": ["trim", "collapse_whitespace", "casefold", "month_name"]},
+    {"id": "event_y", "label": "Event_Y", "type": "text", "width": "w-24"},
+    {"id": "given", "label": "Given", "type": "text", "width": "w-36"},
+    {"id": "surname", "label": "Surname", "type": "text", "width": "w-36"},
+    {"id": "age", "label": "Age", "type": "text", "width": "w-20"},
+    {"id": "birth_y", "label": "Birth_Y", "type": "text", "width": "w-24"},
+    {"id": "fa_given", "label": "Fa_Given", "type": "text", "width": "w-36"},
+    {"id": "fa_surname", "label": "Fa_Surname", "type": "text", "width": "w-36"},
+    {"id": "mo_given", "label": "Mo_Given", "type": "text", "width": "w-36"},
+    {"id": "mo_surname", "label": "Mo_Surname", "type": "text", "width": "w-36"},
+    {"id": "sp_given", "label": "Sp_Given", "type": "text", "width": "w-36"},
+    {"id": "sp_surname", "label": "Sp_Surname", "type": "text", "width": "w-36"},
+    {"id": "sp_age", "label": "Sp_Age", "type": "text", "width": "w-20"},
+    {"id": "sp_birth_y", "label": "Sp_Birth_Y", "type": "text", "width": "w-24"},
+    {"id": "sp_fa_given", "label": "Sp_Fa_Given", "type": "text", "width": "w-36"},
+    {"id": "sp_fa_surname", "label": "Sp_Fa_Surname", "type": "text", "width": "w-36"},
+    {"id": "sp_mo_given", "label": "Sp_Mo_Given", "type": "text", "width": "w-36"},
+    {"id": "sp_mo_surname", "label": "Sp_Mo_Surname", "type": "text", "width": "w-36"}
+  ]$json$::jsonb
+ where exam_code = 'marriage';
+update public.exams
+   set description = 'Extract information from confirmation registers, including names, sponsors, and dates.',
+       icon_key = 'collection',
+       sort_order = 2,
+       columns = $json$[
+    {"id": "image_ref", "label": "Image", "type": "text", "width": "w-40"},
+    {"id": "language", "label": "Language", "type": "text", "width": "w-24", "normalization": ["trim", "collapse_whitespace", "casefold"]},
+    {"id": "event_d", "label": "Event_D", "type": "text", "width": "w-20"},
+    {"id": "event_m", "label": "Event_M", "type": "text", "width": "w-20", "normalization": ["trim", "collapse_whitespace", "casefold", "month_name"]},
+    {"id": "event_y", "label": "Event_Y", "type": "text", "width": "w-24"},
+    {"id": "given", "label": "Given", "type": "text", "width": "w-36"},
+    {"id": "surname", "label": "Surname", "type": "text", "width": "w-36"},
+    {"id": "fa_given", "label": "Fa_Given", "type": "text", "width": "w-36"},
+    {"id": "fa_surname", "label": "Fa_Surname", "type": "text", "width": "w-36"},
+    {"id": "mo_given", "label": "Mo_Given", "type": "text", "width": "w-36"},
+    {"id": "mo_surname", "label": "Mo_Surname", "type": "text", "width": "w-36"}
+  ]$json$::jsonb
+ where exam_code = 'confirmation';
+update public.exams
+   set description = 'Annotate burial records, capturing details of the deceased, death dates, and burial locations.',
+       icon_key = 'archive',
+       sort_order = 3,
+       columns = $json$[
+    {"id": "image_ref", "label": "Image", "type": "text", "width": "w-40"},
+    {"id": "language", "label": "Language", "type": "text", "width": "w-24", "normalization": ["trim", "collapse_whitespace", "casefold"]},
+    {"id": "event_d", "label": "Event_D", "type": "text", "width": "w-20"},
+    {"id": "event_m", "label": "Event_M", "type": "text", "width": "w-20", "normalization": ["trim", "collapse_whitespace", "casefold", "month_name"]},
+    {"id": "event_y", "label": "Event_Y", "type": "text", "width": "w-24"},
+    {"id": "given", "label": "Given", "type": "text", "width": "w-36"},
+    {"id": "surname", "label": "Surname", "type": "text", "width": "w-36"},
+    {"id": "age", "label": "Age", "type": "text", "width": "w-20"},
+    {"id": "sex", "label": "Sex", "type": "text", "width": "w-16", "normalization": ["trim", "collapse_whitespace", "casefold"]},
+    {"id": "death_d", "label": "Death_D", "type": "text", "width": "w-20"},
+    {"id": "death_m", "label": "Death_M", "type": "text", "width": "w-20", "normalization": ["trim", "collapse_whitespace", "casefold", "month_name"]},
+    {"id": "death_y", "label": "Death_Y", "type": "text", "width": "w-24"},
+    {"id": "fa_given", "label": "Fa_Given", "type": "text", "width": "w-36"},
+    {"id": "fa_surname", "label": "Fa_Surname", "type": "text", "width": "w-36"},
+    {"id": "mo_given", "label": "Mo_Given", "type": "text", "width": "w-36"},
+    {"id": "mo_surname", "label": "Mo_Surname", "type": "text", "width": "w-36"},
+    {"id": "sp_given", "label": "Sp_Given", "type": "text", "width": "w-36"},
+    {"id": "sp_surname", "label": "Sp_Surname", "type": "text", "width": "w-36"}
+  ]$json$::jsonb
+ where exam_code = 'burial';
+
+-- Normalization rules now come from the column definition in exams.columns.
+create or replace function public.normalized_answer_cells(p_image_id bigint)
+returns table (
+  key_rn bigint,
+  column_id text,
+  answer text,
+  rules text[]
+)
+language sql
+stable
+set search_path = public
+as $$
+  select cells.key_rn, cells.column_id, cells.answer, cells.rules
+  from (
+    select k.rn as key_rn, f.key as column_id, normalize_cell_value(f.value, r.rules) as answer, r.rules
+    from (
+      select row_number() over (order by a.id) as rn, a.row_data, e.columns
+      from answer_key_rows a
+      join images i on i.id = a.image_id
+      join exams e on e.id = i.exam_id
+      where a.image_id = p_image_id
+    ) k
+    cross join lateral jsonb_each_text(k.row_data::jsonb) f
+    cross join lateral (
+      select coalesce(
+        (select array(select jsonb_array_elements_text(col -> 'normalization'))
+           from jsonb_array_elements(k.columns) col
+          where col ->> 'id' = f.key
+            and jsonb_typeof(col -> 'normalization') = 'array'),
+        '{trim,collapse_whitespace}'::text[]
+      ) as rules
+    ) r
+    where f.key <> 'image_ref'
+  ) cells
+  where cells.answer <> '';
+$$;
+
+-- Carry the rules stored in exam_column_settings over to the columns before
+-- the table goes, so rules admins changed there are kept.
+update public.exams e
+   set columns = (
+     select jsonb_agg(
+       case
+         when s.column_id is null then c.col
+         else c.col || jsonb_build_object('normalization', to_jsonb(s.normalization_rules))
+       end
+       order by c.position
+     )
+     from jsonb_array_elements(e.columns) with ordinality as c (col, position)
+     left join public.exam_column_settings s
+       on s.exam_id = e.id
+      and s.column_id = c.col ->> 'id'
+   )
+ where jsonb_array_length(e.columns) > 0
+   and exists (select 1 from public.exam_column_settings s where s.exam_id = e.id);
+
+drop table if exists public.exam_column_settings;
+
+-- Pass/fail now uses the exam's passing score instead of a fixed 90%.
+create or replace function public.attempt_passing_score(
+  p_exam_id bigint,
+  p_annotator_id bigint
+)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select e.passing_score
+  from exams e
+  where e.id = p_exam_id;
+$$;
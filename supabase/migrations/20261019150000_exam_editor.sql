@@ -0,0 +1,207 @@
+-- Exam editor for admins. Exams and their column layouts are created and
+-- changed from the admin dashboard through save_exam_definition.
+--
+-- Columns gain two flags in exams.columns:
+--   "required": true  -- annotators are expected to fill the column
+--   "unscored": true  -- the column is shown and saved but never scored
+--
+-- When a column id is renamed or removed on an exam that already has answer
+-- keys, the stored row_data keys can be migrated in the same transaction so
+-- answer keys and submissions keep lining up with the new layout.
+
+-- Unscored columns no longer count towards the answer key.
+create or replace function public.normalized_answer_cells(p_image_id bigint)
+returns table (
+  key_rn bigint,
+  column_id text,
+  answer text,
+  rules text[]
+)
+language sql
+stable
+set search_path = public
+as $$
+  select cells.key_rn, cells.column_id, cells.answer, cells.rules
+  from (
+    select k.rn as key_rn, f.key as column_id, normalize_cell_value(f.value, r.rules) as answer, r.rules
+    from (
+      select row_number() over (order by a.id) as rn, a.row_data, e.columns
+      from answer_key_rows a
+      join images i on i.id = a.image_id
+      join exams e on e.id = i.exam_id
+      where a.image_id = p_image_id
+    ) k
+    cross join lateral jsonb_each_text(k.row_data::jsonb) f
+    cross join lateral (
+      select coalesce(
+        (select array(select jsonb_array_elements_text(col -> 'normalization'))
+           from jsonb_array_elements(k.columns) col
+          where col ->> 'id' = f.key
+            and jsonb_typeof(col -> 'normalization') = 'array'),
+        '{trim,collapse_whitespace}'::text[]
+      ) as rules,
+      coalesce(
+        (select (col ->> 'unscored')::boolean
+           from jsonb_array_elements(k.columns) col
+          where col ->> 'id' = f.key),
+        false
+      ) as unscored
+    ) r
+    where f.key <> 'image_ref'
+      and not r.unscored
+  ) cells
+  where cells.answer <> '';
+$$;
+
+-- Renames and drops keys of a row_data object. Renames are applied together,
+-- so swapping two column ids works.
+create or replace function public.migrate_row_data_keys(
+  p_row_data jsonb,
+  p_renames jsonb,
+  p_removed text[]
+)
+returns jsonb
+language sql
+immutable
+set search_path = public
+as $$
+  select coalesce(jsonb_object_agg(coalesce(p_renames ->> f.key, f.key), f.value), '{}'::jsonb)
+  from jsonb_each(p_row_data) f
+  where not (f.key = any(coalesce(p_removed, '{}'::text[])));
+$$;
+
+-- Creates (p_exam_id is null) or updates an exam and returns its id.
+-- p_column_renames maps old column ids to new ones; p_removed_column_ids lists
+-- columns that were deleted. Both are only applied to stored rows when
+-- p_migrate_row_data is true. Settings added to exams later are written by
+-- save_exam_definition itself.
+create or replace function public.write_exam_definition(
+  p_exam_id bigint,
+  p_exam_code text,
+  p_name text,
+  p_description text,
+  p_icon_key text,
+  p_columns jsonb,
+  p_duration_seconds integer,
+  p_passing_score numeric,
+  p_column_renames jsonb,
+  p_removed_column_ids text[],
+  p_migrate_row_data boolean
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_exam_id bigint;
+begin
+  if p_exam_code !~ '^[a-z][a-z0-9_]*$' then
+    raise exception 'Exam code "%" must start with a letter and use only lowercase letters, digits and underscores.', p_exam_code;
+  end if;
+  if coalesce(trim(p_name), '') = '' then
+    raise exception 'Exam name cannot be empty.';
+  end if;
+  if jsonb_typeof(p_columns) <> 'array' or jsonb_array_length(p_columns) = 0 then
+    raise exception 'An exam needs at least one column.';
+  end if;
+  if not exists (select 1 from jsonb_array_elements(p_columns) col where col ->> 'id' = 'image_ref') then
+    raise exception 'The image_ref column cannot be removed.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_columns) col
+    group by col ->> 'id'
+    having count(*) > 1 or col ->> 'id' is null or col ->> 'id' !~ '^[a-z][a-z0-9_]*$'
+  ) then
+    raise exception 'Column ids must be unique and use only lowercase letters, digits and underscores.';
+  end if;
+
+  if p_exam_id is null then
+    insert into exams (exam_code, name, description, icon_key, columns, duration_seconds, passing_score, sort_order)
+    values (
+      p_exam_code, trim(p_name), coalesce(p_description, ''), coalesce(p_icon_key, 'document'),
+      p_columns, p_duration_seconds, p_passing_score,
+      (select coalesce(max(sort_order), -1) + 1 from exams)
+    )
+    returning id into v_exam_id;
+    return v_exam_id;
+  end if;
+
+  update exams
+     set exam_code = p_exam_code,
+         name = trim(p_name),
+         description = coalesce(p_description, ''),
+         icon_key = coalesce(p_icon_key, 'document'),
+         columns = p_columns,
+         duration_seconds = p_duration_seconds,
+         passing_score = p_passing_score
+   where id = p_exam_id
+  returning id into v_exam_id;
+
+  if v_exam_id is null then
+    raise exception 'Exam % does not exist.', p_exam_id;
+  end if;
+
+  if p_migrate_row_data then
+    update answer_key_rows a
+       set row_data = migrate_row_data_keys(a.row_data::jsonb, p_column_renames, p_removed_column_ids)
+      from images i
+     where i.id = a.image_id
+       and i.exam_id = v_exam_id;
+
+    update annotation_rows r
+       set row_data = migrate_row_data_keys(r.row_data::jsonb, p_column_renames, p_removed_column_ids)
+      from images i
+     where i.id = r.image_id
+       and i.exam_id = v_exam_id;
+  end if;
+
+  return v_exam_id;
+end;
+$$;
+
+-- Saves an exam from the editor. Stored attempts of an existing exam are
+-- rescored afterwards, since renamed, removed or unscored columns change what
+-- the answer key contains.
+create or replace function public.save_exam_definition(
+  p_exam_id bigint,
+  p_exam_code text,
+  p_name text,
+  p_description text,
+  p_icon_key text,
+  p_columns jsonb,
+  p_duration_seconds integer,
+  p_passing_score numeric,
+  p_column_renames jsonb default '{}'::jsonb,
+  p_removed_column_ids text[] default '{}',
+  p_migrate_row_data boolean default false
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_exam_id bigint;
+begin
+  if auth.role() <> 'authenticated' then
+    raise exception 'Only administrators can edit exams.';
+  end if;
+
+  v_exam_id := write_exam_definition(
+    p_exam_id, p_exam_code, p_name, p_description, p_icon_key, p_columns,
+    p_duration_seconds, p_passing_score, p_column_renames, p_removed_column_ids, p_migrate_row_data
+  );
+
+  if p_exam_id is not null then
+    perform rescore_exam(v_exam_id);
+  end if;
+  return v_exam_id;
+end;
+$$;
+
+revoke all on function public.migrate_row_data_keys(jsonb, jsonb, text[]) from public, anon, authenticated;
+revoke all on function public.write_exam_definition(bigint, text, text, text, text, jsonb, integer, numeric, jsonb, text[], boolean) from public, anon, authenticated;
+revoke all on function public.save_exam_definition(bigint, text, text, text, text, jsonb, integer, numeric, jsonb, text[], boolean) from public, anon;
+grant execute on function public.save_exam_definition(bigint, text, text, text, text, jsonb, integer, numeric, jsonb, text[], boolean) to authenticated;
@@ -0,0 +1,29 @@
+-- Typed record fields. Columns in exams.columns may now use the types
+-- "day", "month", "year", "age" and "choice" (with an "options" list), and
+-- "number"/"year" columns may carry "min"/"max" bounds. The app validates
+-- cells against these types while annotators type; scoring is unchanged.
+--
+-- Give the seeded layouts their real types. Only columns still typed "text"
+-- are touched, so layouts already edited in the exam editor keep their choices.
+update public.exams e
+   set columns = typed.columns
+  from (
+    select x.id,
+           jsonb_agg(
+             case
+               when c.col ->> 'type' <> 'text' then c.col
+               when c.col ->> 'id' = 'sex' then c.col || '{"type": "choice", "options": ["M", "F", "U"]}'::jsonb
+               when c.col ->> 'id' in ('age', 'sp_age') then c.col || '{"type": "age"}'::jsonb
+               when c.col ->> 'id' ~ '_d$' then c.col || '{"type": "day"}'::jsonb
+               when c.col ->> 'id' ~ '_m$' then c.col || '{"type": "month"}'::jsonb
+               when c.col ->> 'id' ~ '_y$' then c.col || '{"type": "year"}'::jsonb
+               else c.col
+             end
+             order by c.ord
+           ) as columns
+    from public.exams x
+    cross join lateral jsonb_array_elements(x.columns) with ordinality as c(col, ord)
+    where x.exam_code in ('baptism', 'marriage', 'confirmation', 'burial')
+    group by x.id
+  ) typed
+ where e.id = typed.id;
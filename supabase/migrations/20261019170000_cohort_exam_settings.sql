@@ -0,0 +1,136 @@
+-- Per-cohort exam settings. Each exam keeps its own duration and passing score
+-- in public.exams; a cohort of annotators, identified by the prefix of their
+-- LiftApp user id (see USER_ID_PREFIXES in constants.tsx), can override either
+-- value for a given exam. The longest matching prefix wins, so "PHCBIT" beats
+-- "PHCB". A null column means "use the exam's value".
+
+create table if not exists public.exam_cohort_settings (
+  exam_id bigint not null references public.exams (id) on delete cascade,
+  user_id_prefix text not null check (user_id_prefix <> ''),
+  duration_seconds integer check (duration_seconds > 0),
+  passing_score numeric check (passing_score between 0 and 100),
+  primary key (exam_id, user_id_prefix)
+);
+
+alter table public.exam_cohort_settings enable row level security;
+
+create policy "Anyone can read cohort settings"
+  on public.exam_cohort_settings for select
+  using (true);
+
+create policy "Admins manage cohort settings"
+  on public.exam_cohort_settings for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- The duration and passing score that apply to one annotator for one exam.
+-- Mirrors getExamSettings in utils/examUtils.ts.
+create or replace function public.exam_settings_for_annotator(
+  p_exam_id bigint,
+  p_annotator_id bigint
+)
+returns table (
+  duration_seconds integer,
+  passing_score numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(c.duration_seconds, e.duration_seconds),
+         coalesce(c.passing_score, e.passing_score)
+  from exams e
+  left join annotators a on a.id = p_annotator_id
+  left join lateral (
+    select s.duration_seconds, s.passing_score
+    from exam_cohort_settings s
+    where s.exam_id = e.id
+      and left(a.liftapp_user_id, length(s.user_id_prefix)) = s.user_id_prefix
+    order by length(s.user_id_prefix) desc
+    limit 1
+  ) c on true
+  where e.id = p_exam_id;
+$$;
+
+-- Pass/fail now uses the annotator's cohort passing score when one is set.
+create or replace function public.attempt_passing_score(
+  p_exam_id bigint,
+  p_annotator_id bigint
+)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select s.passing_score
+  from exam_settings_for_annotator(p_exam_id, p_annotator_id) s;
+$$;
+
+-- Replaces an exam's cohort overrides. p_cohort_settings is a JSON array of
+--   { "userIdPrefix": "PHCB", "durationSeconds": 7200, "passingScore": 85 }
+-- where either value may be null.
+create or replace function public.replace_exam_cohort_settings(
+  p_exam_id bigint,
+  p_cohort_settings jsonb
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from exam_cohort_settings where exam_id = p_exam_id;
+  insert into exam_cohort_settings (exam_id, user_id_prefix, duration_seconds, passing_score)
+  select p_exam_id,
+         s ->> 'userIdPrefix',
+         (s ->> 'durationSeconds')::integer,
+         (s ->> 'passingScore')::numeric
+  from jsonb_array_elements(coalesce(p_cohort_settings, '[]'::jsonb)) s;
+$$;
+
+-- save_exam_definition also replaces the exam's cohort overrides.
+drop function if exists public.save_exam_definition(bigint, text, text, text, text, jsonb, integer, numeric, jsonb, text[], boolean);
+
+create or replace function public.save_exam_definition(
+  p_exam_id bigint,
+  p_exam_code text,
+  p_name text,
+  p_description text,
+  p_icon_key text,
+  p_columns jsonb,
+  p_duration_seconds integer,
+  p_passing_score numeric,
+  p_column_renames jsonb default '{}'::jsonb,
+  p_removed_column_ids text[] default '{}',
+  p_migrate_row_data boolean default false,
+  p_cohort_settings jsonb default '[]'::jsonb
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_exam_id bigint;
+begin
+  if auth.role() <> 'authenticated' then
+    raise exception 'Only administrators can edit exams.';
+  end if;
+
+  v_exam_id := write_exam_definition(
+    p_exam_id, p_exam_code, p_name, p_description, p_icon_key, p_columns,
+    p_duration_seconds, p_passing_score, p_column_renames, p_removed_column_ids, p_migrate_row_data
+  );
+  perform replace_exam_cohort_settings(v_exam_id, p_cohort_settings);
+
+  if p_exam_id is not null then
+    perform rescore_exam(v_exam_id);
+  end if;
+  return v_exam_id;
+end;
+$$;
+
+revoke all on function public.exam_settings_for_annotator(bigint, bigint) from public, anon, authenticated;
+revoke all on function public.replace_exam_cohort_settings(bigint, jsonb) from public, anon, authenticated;
+revoke all on function public.save_exam_definition(bigint, text, text, text, text, jsonb, integer, numeric, jsonb, text[], boolean, jsonb) from public, anon;
+grant execute on function public.save_exam_definition(bigint, text, text, text, text, jsonb, integer, numeric, jsonb, text[], boolean, jsonb) to authenticated;
@@ -0,0 +1,283 @@
+-- Server-side exam timer.
+--
+-- The countdown used to live only in the browser (Date.now() plus the exam
+-- duration, kept in sessionStorage), so changing the system clock or editing
+-- storage extended the exam. Each attempt now gets a start time and deadline
+-- from the database clock, and finalize_exam_attempt flags attempts finished
+-- after the deadline plus a grace period. Late attempts keep their score for
+-- review but never count as passed. An attempt left to expire without being
+-- finalized is closed as timed out before the next one starts.
+
+alter table public.user_exam_completions
+  add column if not exists started_at timestamptz,
+  add column if not exists deadline_at timestamptz,
+  add column if not exists submitted_late boolean not null default false;
+
+-- Allowance after the deadline for the auto-submit upload and network latency.
+create or replace function public.exam_deadline_grace()
+returns interval
+language sql
+immutable
+as $$
+  select interval '2 minutes';
+$$;
+
+-- Starts the clock on a completion row: now, plus the annotator's duration.
+create or replace function public.open_exam_timer(p_completion_id bigint)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update user_exam_completions c
+     set started_at = now(),
+         deadline_at = now() + make_interval(secs => (
+           select s.duration_seconds
+           from exam_settings_for_annotator(c.exam_id, c.annotator_id) s
+         ))
+   where c.id = p_completion_id;
+$$;
+
+-- start_exam_and_assign_image inserts the row for a first attempt, so the
+-- timer starts with that insert.
+create or replace function public.start_exam_timer_on_insert()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'started' then
+    new.started_at := now();
+    new.deadline_at := now() + make_interval(secs => (
+      select s.duration_seconds
+      from exam_settings_for_annotator(new.exam_id, new.annotator_id) s
+    ));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists start_exam_timer_on_insert on public.user_exam_completions;
+create trigger start_exam_timer_on_insert
+  before insert on public.user_exam_completions
+  for each row execute function public.start_exam_timer_on_insert();
+
+-- The duration is measured from the server start time, and attempts finished
+-- after the deadline plus grace are flagged and cannot pass.
+drop function if exists public.finalize_exam_attempt(bigint, bigint, text, integer);
+drop function if exists public.record_attempt_score(bigint, bigint, text, integer);
+
+create function public.record_attempt_score(
+  p_completion_id bigint,
+  p_image_id bigint,
+  p_status text,
+  p_duration_seconds integer,
+  p_submitted_late boolean
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  score_percentage numeric,
+  passed boolean,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer,
+  field_scores jsonb,
+  submitted_late boolean
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_completion user_exam_completions%rowtype;
+  v_strategy text;
+  v_score_row record;
+  v_score numeric;
+begin
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id;
+
+  select e.scoring_strategy into v_strategy
+  from exams e
+  where e.id = v_completion.exam_id;
+
+  select * into v_score_row
+  from score_exam_attempt(v_completion.annotator_id, p_image_id, v_strategy);
+
+  update user_exam_completions
+     set status = p_status,
+         duration_seconds = p_duration_seconds,
+         completed_at = now(),
+         submitted_late = p_submitted_late,
+         total_effective_keystrokes = v_score_row.total_effective_keystrokes,
+         total_answer_key_keystrokes = v_score_row.total_answer_key_keystrokes,
+         field_scores = v_score_row.field_scores,
+         assigned_image_id = p_image_id,
+         retake_count = case
+           when v_completion.status = 'started' then v_completion.retake_count
+           else coalesce(v_completion.retake_count, 0) + 1
+         end
+   where id = p_completion_id;
+
+  v_score := case
+    when v_score_row.total_answer_key_keystrokes > 0
+      then (v_score_row.total_effective_keystrokes::numeric / v_score_row.total_answer_key_keystrokes) * 100
+    else 0
+  end;
+
+  return query select
+    v_score_row.total_effective_keystrokes,
+    v_score_row.total_answer_key_keystrokes,
+    v_score,
+    not p_submitted_late and v_score >= attempt_passing_score(v_completion.exam_id, v_completion.annotator_id),
+    v_score_row.unmatched_user_rows,
+    v_score_row.unmatched_key_rows,
+    v_score_row.field_scores,
+    p_submitted_late;
+end;
+$$;
+
+-- Closes an attempt whose deadline and grace passed without it being
+-- finalized (the tab was closed, or the auto-submit never arrived). The rows
+-- saved on its image are scored, and as it was not submitted in time it is
+-- flagged late and cannot pass.
+create or replace function public.close_expired_exam_attempt(p_completion_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completion user_exam_completions%rowtype;
+begin
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id
+  for update;
+
+  perform record_attempt_score(
+    p_completion_id,
+    v_completion.assigned_image_id,
+    'timed_out',
+    floor(extract(epoch from v_completion.deadline_at - v_completion.started_at))::integer,
+    true
+  );
+end;
+$$;
+
+-- Returns the running timer of an attempt, starting a new one when none is
+-- running (a first attempt or a retake). An attempt whose deadline has passed
+-- is closed first, so letting the clock run out does not buy a fresh one.
+-- Calling it again while an attempt is running returns the same deadline, so
+-- reloading the page cannot reset the clock.
+create or replace function public.start_exam_timer(p_completion_id bigint)
+returns table (
+  started_at timestamptz,
+  deadline_at timestamptz,
+  server_now timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_completion user_exam_completions%rowtype;
+begin
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id
+  for update;
+
+  if not found then
+    raise exception 'Exam attempt % does not exist.', p_completion_id;
+  end if;
+
+  if v_completion.started_at is not null
+     and (v_completion.completed_at is null or v_completion.completed_at < v_completion.started_at)
+     and now() > v_completion.deadline_at + exam_deadline_grace() then
+    perform close_expired_exam_attempt(p_completion_id);
+    perform open_exam_timer(p_completion_id);
+  elsif v_completion.started_at is null
+     or (v_completion.completed_at is not null and v_completion.completed_at >= v_completion.started_at) then
+    perform open_exam_timer(p_completion_id);
+  end if;
+
+  return query
+  select c.started_at, c.deadline_at, now()
+  from user_exam_completions c
+  where c.id = p_completion_id;
+end;
+$$;
+
+-- The deadline of an attempt and the current database time, so the browser
+-- can keep its countdown in step with the server clock.
+create or replace function public.get_exam_clock(p_completion_id bigint)
+returns table (
+  deadline_at timestamptz,
+  server_now timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.deadline_at, now()
+  from user_exam_completions c
+  where c.id = p_completion_id;
+$$;
+
+create function public.finalize_exam_attempt(
+  p_completion_id bigint,
+  p_image_id bigint,
+  p_status text,
+  p_duration_seconds integer
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  score_percentage numeric,
+  passed boolean,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer,
+  field_scores jsonb,
+  submitted_late boolean
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completion user_exam_completions%rowtype;
+begin
+  perform assert_attempt_can_finalize(p_completion_id, p_image_id, p_status);
+
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id;
+
+  -- Attempts started before the timer existed fall back to the client's numbers.
+  return query
+  select * from record_attempt_score(
+    p_completion_id,
+    p_image_id,
+    p_status,
+    coalesce(floor(extract(epoch from now() - v_completion.started_at))::integer, p_duration_seconds),
+    coalesce(now() > v_completion.deadline_at + exam_deadline_grace(), false)
+  );
+end;
+$$;
+
+revoke all on function public.open_exam_timer(bigint) from public, anon, authenticated;
+revoke all on function public.record_attempt_score(bigint, bigint, text, integer, boolean) from public, anon, authenticated;
+revoke all on function public.close_expired_exam_attempt(bigint) from public, anon, authenticated;
+revoke all on function public.start_exam_timer_on_insert() from public, anon, authenticated;
+revoke all on function public.start_exam_timer(bigint) from public;
+grant execute on function public.start_exam_timer(bigint) to anon, authenticated;
+revoke all on function public.get_exam_clock(bigint) from public;
+grant execute on function public.get_exam_clock(bigint) to anon, authenticated;
+revoke all on function public.finalize_exam_attempt(bigint, bigint, text, integer) from public;
+grant execute on function public.finalize_exam_attempt(bigint, bigint, text, integer) to anon, authenticated;
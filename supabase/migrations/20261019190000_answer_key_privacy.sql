@@ -0,0 +1,114 @@
+-- Answer keys stay on the server.
+--
+-- The exam page used to read answer_key_rows with the anon client to show the
+-- review after submitting, which let any annotator query the key for their
+-- assigned image while the exam was running. Annotator sessions can no longer
+-- read the table; the key for an attempt is only returned by get_attempt_review
+-- once finalize_exam_attempt has locked that attempt.
+
+revoke all on table public.answer_key_rows from anon;
+
+alter table public.answer_key_rows enable row level security;
+
+drop policy if exists "Admins manage answer keys" on public.answer_key_rows;
+create policy "Admins manage answer keys"
+  on public.answer_key_rows for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- An attempt is locked once it has been finalized and no retake has been
+-- started since (start_exam_timer moves started_at past completed_at).
+create or replace function public.exam_attempt_is_locked(p_completion_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select c.status in ('submitted', 'timed_out')
+            and (c.started_at is null or c.completed_at >= c.started_at)
+     from user_exam_completions c
+     where c.id = p_completion_id),
+    false
+  );
+$$;
+
+-- The answer key of the image a locked attempt was scored against, for the
+-- review shown after submitting. Annotators only get the review of their own
+-- attempts; admins can review any.
+create or replace function public.get_attempt_review(p_completion_id bigint, p_annotator_id bigint)
+returns table (
+  id bigint,
+  client_row_id text,
+  row_data jsonb
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() <> 'authenticated' and not exists (
+    select 1
+    from user_exam_completions c
+    where c.id = p_completion_id
+      and c.annotator_id = p_annotator_id
+  ) then
+    raise exception 'Exam attempt % does not exist.', p_completion_id;
+  end if;
+  if not exam_attempt_is_locked(p_completion_id) then
+    raise exception 'Answers are only available after the attempt has been submitted.';
+  end if;
+
+  return query
+  select a.id, a.client_row_id, a.row_data::jsonb
+  from answer_key_rows a
+  join user_exam_completions c on c.assigned_image_id = a.image_id
+  where c.id = p_completion_id
+  order by a.id;
+end;
+$$;
+
+-- A locked attempt cannot be finalized again: once the answers have been
+-- shown, new work is only scored as part of a retake.
+create or replace function public.assert_attempt_can_finalize(
+  p_completion_id bigint,
+  p_image_id bigint,
+  p_status text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completion user_exam_completions%rowtype;
+begin
+  if p_status not in ('submitted', 'timed_out') then
+    raise exception 'Invalid completion status: %', p_status;
+  end if;
+
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id
+  for update;
+
+  if not found then
+    raise exception 'Exam attempt % does not exist.', p_completion_id;
+  end if;
+  if (v_completion.status = 'started' and p_image_id is distinct from v_completion.assigned_image_id)
+     or not exists (select 1 from images i where i.id = p_image_id and i.exam_id = v_completion.exam_id) then
+    raise exception 'Image % is not assigned to this exam attempt.', p_image_id;
+  end if;
+  if v_completion.status <> 'started'
+     and (v_completion.started_at is null or v_completion.completed_at >= v_completion.started_at) then
+    raise exception 'This exam attempt has already been submitted.';
+  end if;
+end;
+$$;
+
+revoke all on function public.exam_attempt_is_locked(bigint) from public, anon, authenticated;
+revoke all on function public.get_attempt_review(bigint, bigint) from public;
+grant execute on function public.get_attempt_review(bigint, bigint) to anon, authenticated;
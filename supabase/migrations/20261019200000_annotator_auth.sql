@@ -0,0 +1,553 @@
+-- Annotator sign-in with credentials.
+--
+-- Annotators used to sign in by typing any prefix-plus-digits ID; the app then
+-- created the annotator on the spot and trusted the ID kept in sessionStorage.
+-- Now an admin issues a one-time login code for an ID, the annotator signs in
+-- with it once and chooses a PIN, and later signs in with the PIN.
+--
+-- A successful sign-in returns a random session token. The browser sends it in
+-- the x-annotator-session header on every request, and current_annotator_id()
+-- resolves it, so row level security and the exam RPCs know who is calling
+-- without trusting ids sent by the client. Admins keep using Supabase Auth and
+-- are still recognised by auth.role() = 'authenticated'.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.annotator_credentials (
+  annotator_id bigint primary key references public.annotators (id) on delete cascade,
+  pin_hash text,
+  access_code_hash text,
+  access_code_expires_at timestamptz,
+  failed_attempts integer not null default 0,
+  locked_until timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.annotator_sessions (
+  token_hash text primary key,
+  annotator_id bigint not null references public.annotators (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists annotator_sessions_annotator_id_idx
+  on public.annotator_sessions (annotator_id);
+
+-- Only reachable through the functions below.
+alter table public.annotator_credentials enable row level security;
+alter table public.annotator_sessions enable row level security;
+revoke all on table public.annotator_credentials from anon, authenticated;
+revoke all on table public.annotator_sessions from anon, authenticated;
+
+create or replace function public.annotator_token_hash(p_token text)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select encode(extensions.digest(p_token, 'sha256'), 'hex');
+$$;
+
+-- The annotator whose session token came with the current request, or null.
+create or replace function public.current_annotator_id()
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.annotator_id
+  from annotator_sessions s
+  where s.token_hash = annotator_token_hash(
+          nullif(current_setting('request.headers', true), '')::json ->> 'x-annotator-session'
+        )
+    and s.expires_at > now();
+$$;
+
+-- Signs an annotator in with their PIN, or with a login code from an admin.
+-- A valid login code without p_new_pin returns status 'pin_required' so the
+-- app can ask for a PIN; with p_new_pin the PIN is saved and the code used up.
+-- Failures return status 'invalid' or 'locked' instead of raising, so the
+-- failed-attempt counter is kept. Five failures lock the ID for 15 minutes.
+create or replace function public.annotator_sign_in(
+  p_liftapp_user_id text,
+  p_secret text,
+  p_new_pin text default null
+)
+returns table (
+  status text,
+  session_token text,
+  annotator_id bigint,
+  liftapp_user_id text,
+  expires_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_annotator annotators%rowtype;
+  v_credentials annotator_credentials%rowtype;
+  v_code_ok boolean;
+  v_pin_ok boolean;
+  v_token text;
+  v_expires_at timestamptz := now() + interval '12 hours';
+begin
+  if coalesce(trim(p_secret), '') = '' then
+    return query select 'invalid'::text, null::text, null::bigint, null::text, null::timestamptz;
+    return;
+  end if;
+
+  select * into v_annotator
+  from annotators a
+  where a.liftapp_user_id = trim(p_liftapp_user_id);
+
+  select * into v_credentials
+  from annotator_credentials c
+  where c.annotator_id = v_annotator.id
+  for update;
+
+  if v_credentials.annotator_id is null then
+    return query select 'invalid'::text, null::text, null::bigint, null::text, null::timestamptz;
+    return;
+  end if;
+  if v_credentials.locked_until > now() then
+    return query select 'locked'::text, null::text, null::bigint, null::text, null::timestamptz;
+    return;
+  end if;
+
+  v_code_ok := coalesce(
+    v_credentials.access_code_hash is not null
+      and v_credentials.access_code_expires_at > now()
+      and extensions.crypt(upper(trim(p_secret)), v_credentials.access_code_hash) = v_credentials.access_code_hash,
+    false
+  );
+  v_pin_ok := coalesce(
+    not v_code_ok
+      and v_credentials.pin_hash is not null
+      and extensions.crypt(p_secret, v_credentials.pin_hash) = v_credentials.pin_hash,
+    false
+  );
+
+  if not v_code_ok and not v_pin_ok then
+    update annotator_credentials c
+       set failed_attempts = c.failed_attempts + 1,
+           locked_until = case when c.failed_attempts + 1 >= 5 then now() + interval '15 minutes' end,
+           updated_at = now()
+     where c.annotator_id = v_annotator.id;
+    return query select 'invalid'::text, null::text, null::bigint, null::text, null::timestamptz;
+    return;
+  end if;
+
+  if v_code_ok then
+    if p_new_pin is null then
+      return query select 'pin_required'::text, null::text, null::bigint, null::text, null::timestamptz;
+      return;
+    end if;
+    if p_new_pin !~ '^[0-9]{4,8}$' then
+      raise exception 'Your PIN must be 4 to 8 digits.';
+    end if;
+    update annotator_credentials c
+       set pin_hash = extensions.crypt(p_new_pin, extensions.gen_salt('bf')),
+           access_code_hash = null,
+           access_code_expires_at = null
+     where c.annotator_id = v_annotator.id;
+  end if;
+
+  update annotator_credentials c
+     set failed_attempts = 0,
+         locked_until = null,
+         updated_at = now()
+   where c.annotator_id = v_annotator.id;
+
+  delete from annotator_sessions s
+   where s.annotator_id = v_annotator.id
+     and s.expires_at <= now();
+
+  v_token := encode(extensions.gen_random_bytes(32), 'hex');
+  insert into annotator_sessions (token_hash, annotator_id, expires_at)
+  values (annotator_token_hash(v_token), v_annotator.id, v_expires_at);
+
+  return query select 'ok'::text, v_token, v_annotator.id, v_annotator.liftapp_user_id, v_expires_at;
+end;
+$$;
+
+-- The annotator behind the request's session token; empty when the token is
+-- missing or expired. The app calls this on load instead of trusting storage.
+create or replace function public.get_annotator_session()
+returns table (
+  annotator_id bigint,
+  liftapp_user_id text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select a.id, a.liftapp_user_id
+  from annotators a
+  where a.id = current_annotator_id();
+$$;
+
+create or replace function public.annotator_sign_out()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from annotator_sessions s
+   where s.token_hash = annotator_token_hash(
+           nullif(current_setting('request.headers', true), '')::json ->> 'x-annotator-session'
+         );
+$$;
+
+-- Issues a one-time login code for an ID, creating the annotator if needed.
+-- This also resets a forgotten PIN: the old PIN and sessions stop working.
+-- The code is returned once and only its hash is stored.
+create or replace function public.issue_annotator_access_code(p_liftapp_user_id text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_annotator_id bigint;
+  v_code text := upper(encode(extensions.gen_random_bytes(4), 'hex'));
+begin
+  if auth.role() <> 'authenticated' then
+    raise exception 'Only administrators can issue login codes.';
+  end if;
+  if coalesce(trim(p_liftapp_user_id), '') = '' then
+    raise exception 'User ID cannot be empty.';
+  end if;
+
+  select a.id into v_annotator_id
+  from annotators a
+  where a.liftapp_user_id = trim(p_liftapp_user_id);
+
+  if v_annotator_id is null then
+    insert into annotators (liftapp_user_id)
+    values (trim(p_liftapp_user_id))
+    returning id into v_annotator_id;
+  end if;
+
+  insert into annotator_credentials (annotator_id, access_code_hash, access_code_expires_at)
+  values (v_annotator_id, extensions.crypt(v_code, extensions.gen_salt('bf')), now() + interval '7 days')
+  on conflict (annotator_id) do update
+     set pin_hash = null,
+         access_code_hash = excluded.access_code_hash,
+         access_code_expires_at = excluded.access_code_expires_at,
+         failed_attempts = 0,
+         locked_until = null,
+         updated_at = now();
+
+  delete from annotator_sessions s where s.annotator_id = v_annotator_id;
+
+  return v_code;
+end;
+$$;
+
+-- Admins, or the annotator the attempt belongs to.
+create or replace function public.assert_completion_access(p_completion_id bigint)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() = 'authenticated' then
+    return;
+  end if;
+  if not exists (
+    select 1
+    from user_exam_completions c
+    where c.id = p_completion_id
+      and c.annotator_id = current_annotator_id()
+  ) then
+    raise exception 'Please sign in again to continue this exam.';
+  end if;
+end;
+$$;
+
+-- Annotators only see and change their own records. Existing policies on these
+-- tables are replaced, since any of them could let one annotator read another's.
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select p.policyname, p.tablename
+    from pg_policies p
+    where p.schemaname = 'public'
+      and p.tablename in ('annotators', 'annotation_rows', 'user_exam_completions')
+  loop
+    execute format('drop policy %I on public.%I', v_policy.policyname, v_policy.tablename);
+  end loop;
+end;
+$$;
+
+alter table public.annotators enable row level security;
+alter table public.annotation_rows enable row level security;
+alter table public.user_exam_completions enable row level security;
+
+create policy "Annotators read their own record"
+  on public.annotators for select
+  to anon
+  using (id = current_annotator_id());
+
+create policy "Admins manage annotators"
+  on public.annotators for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Annotators are created by issue_annotator_access_code, not by signing in,
+-- and their overall_completion_date is set by record_overall_completion.
+revoke insert, delete, update on public.annotators from anon;
+
+create policy "Annotators manage their own rows"
+  on public.annotation_rows for all
+  to anon
+  using (annotator_id = current_annotator_id())
+  with check (annotator_id = current_annotator_id());
+
+create policy "Admins manage annotation rows"
+  on public.annotation_rows for all
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Annotators read their own attempts"
+  on public.user_exam_completions for select
+  to anon
+  using (annotator_id = current_annotator_id());
+
+create policy "Admins manage attempts"
+  on public.user_exam_completions for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- When the annotator passed the last of the exams on time, or null while an
+-- exam is left to pass.
+create or replace function public.annotator_completion_date(p_annotator_id bigint)
+returns timestamptz
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case when count(*) > 0 and count(p.completed_at) = count(*) then max(p.completed_at) end
+  from exams e
+  left join lateral (
+    select max(c.completed_at) as completed_at
+    from user_exam_completions c
+    where c.annotator_id = p_annotator_id
+      and c.exam_id = e.id
+      and c.status in ('submitted', 'timed_out')
+      and not c.submitted_late
+      and case
+        when c.total_answer_key_keystrokes > 0
+          then (c.total_effective_keystrokes::numeric / c.total_answer_key_keystrokes) * 100
+        else 0
+      end >= attempt_passing_score(e.id, p_annotator_id)
+  ) p on true;
+$$;
+
+-- Sets overall_completion_date once a recorded or rescored attempt leaves
+-- every exam passed. The browser used to set it.
+create or replace function public.record_overall_completion()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completed_at timestamptz := annotator_completion_date(new.annotator_id);
+begin
+  if v_completed_at is not null then
+    update annotators
+       set overall_completion_date = v_completed_at
+     where id = new.annotator_id
+       and overall_completion_date is null;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists record_overall_completion on public.user_exam_completions;
+create trigger record_overall_completion
+  after update of status, total_effective_keystrokes, total_answer_key_keystrokes on public.user_exam_completions
+  for each row execute function public.record_overall_completion();
+
+-- Annotators who passed everything before the date was set here
+update public.annotators a
+   set overall_completion_date = annotator_completion_date(a.id)
+ where a.overall_completion_date is null
+   and annotator_completion_date(a.id) is not null;
+
+-- start_exam_and_assign_image only creates attempts for the signed-in annotator.
+create or replace function public.start_exam_timer_on_insert()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() <> 'authenticated' and new.annotator_id is distinct from current_annotator_id() then
+    raise exception 'Please sign in again to start this exam.';
+  end if;
+  if new.status = 'started' then
+    new.started_at := now();
+    new.deadline_at := now() + make_interval(secs => (
+      select s.duration_seconds
+      from exam_settings_for_annotator(new.exam_id, new.annotator_id) s
+    ));
+  end if;
+  return new;
+end;
+$$;
+
+-- The attempt RPCs check that the caller owns the attempt.
+create or replace function public.start_exam_timer(p_completion_id bigint)
+returns table (
+  started_at timestamptz,
+  deadline_at timestamptz,
+  server_now timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_completion user_exam_completions%rowtype;
+begin
+  perform assert_completion_access(p_completion_id);
+
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id
+  for update;
+
+  if not found then
+    raise exception 'Exam attempt % does not exist.', p_completion_id;
+  end if;
+
+  if v_completion.started_at is not null
+     and (v_completion.completed_at is null or v_completion.completed_at < v_completion.started_at)
+     and now() > v_completion.deadline_at + exam_deadline_grace() then
+    perform close_expired_exam_attempt(p_completion_id);
+    perform open_exam_timer(p_completion_id);
+  elsif v_completion.started_at is null
+     or (v_completion.completed_at is not null and v_completion.completed_at >= v_completion.started_at) then
+    perform open_exam_timer(p_completion_id);
+  end if;
+
+  return query
+  select c.started_at, c.deadline_at, now()
+  from user_exam_completions c
+  where c.id = p_completion_id;
+end;
+$$;
+
+create or replace function public.get_exam_clock(p_completion_id bigint)
+returns table (
+  deadline_at timestamptz,
+  server_now timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.deadline_at, now()
+  from user_exam_completions c
+  where c.id = p_completion_id
+    and (auth.role() = 'authenticated' or c.annotator_id = current_annotator_id());
+$$;
+
+-- The caller is known from the session, so the annotator id is no longer passed.
+drop function if exists public.get_attempt_review(bigint, bigint);
+create function public.get_attempt_review(p_completion_id bigint)
+returns table (
+  id bigint,
+  client_row_id text,
+  row_data jsonb
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_completion_access(p_completion_id);
+  if not exam_attempt_is_locked(p_completion_id) then
+    raise exception 'Answers are only available after the attempt has been submitted.';
+  end if;
+
+  return query
+  select a.id, a.client_row_id, a.row_data::jsonb
+  from answer_key_rows a
+  join user_exam_completions c on c.assigned_image_id = a.image_id
+  where c.id = p_completion_id
+  order by a.id;
+end;
+$$;
+
+-- Only the annotator who owns an attempt can finalize it.
+create or replace function public.assert_attempt_can_finalize(
+  p_completion_id bigint,
+  p_image_id bigint,
+  p_status text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completion user_exam_completions%rowtype;
+begin
+  perform assert_completion_access(p_completion_id);
+  if p_status not in ('submitted', 'timed_out') then
+    raise exception 'Invalid completion status: %', p_status;
+  end if;
+
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id
+  for update;
+
+  if not found then
+    raise exception 'Exam attempt % does not exist.', p_completion_id;
+  end if;
+  if (v_completion.status = 'started' and p_image_id is distinct from v_completion.assigned_image_id)
+     or not exists (select 1 from images i where i.id = p_image_id and i.exam_id = v_completion.exam_id) then
+    raise exception 'Image % is not assigned to this exam attempt.', p_image_id;
+  end if;
+  if v_completion.status <> 'started'
+     and (v_completion.started_at is null or v_completion.completed_at >= v_completion.started_at) then
+    raise exception 'This exam attempt has already been submitted.';
+  end if;
+end;
+$$;
+
+revoke all on function public.annotator_token_hash(text) from public, anon, authenticated;
+revoke all on function public.current_annotator_id() from public;
+grant execute on function public.current_annotator_id() to anon, authenticated;
+revoke all on function public.annotator_sign_in(text, text, text) from public;
+grant execute on function public.annotator_sign_in(text, text, text) to anon;
+revoke all on function public.get_annotator_session() from public;
+grant execute on function public.get_annotator_session() to anon;
+revoke all on function public.annotator_sign_out() from public;
+grant execute on function public.annotator_sign_out() to anon;
+revoke all on function public.issue_annotator_access_code(text) from public, anon;
+grant execute on function public.issue_annotator_access_code(text) to authenticated;
+revoke all on function public.assert_completion_access(bigint) from public, anon, authenticated;
+revoke all on function public.annotator_completion_date(bigint) from public, anon, authenticated;
+revoke all on function public.record_overall_completion() from public, anon, authenticated;
+revoke all on function public.get_attempt_review(bigint) from public;
+grant execute on function public.get_attempt_review(bigint) to anon, authenticated;
@@ -0,0 +1,244 @@
+-- Annotator roster.
+--
+-- Annotators used to be created the first time an ID signed in, so a typo
+-- created a phantom account. Admins now import a roster (ID, name, site,
+-- cohort, start date) and only IDs on it can sign in or be issued a login code.
+-- Annotators created before the roster keep their history; they are marked as
+-- rostered when an import lists them. Those already issued a login code are on
+-- the roster from the start.
+
+alter table public.annotators
+  add column if not exists full_name text,
+  add column if not exists site text,
+  add column if not exists cohort text,
+  add column if not exists start_date date,
+  add column if not exists rostered_at timestamptz;
+
+update public.annotators a
+   set rostered_at = now()
+ where a.rostered_at is null
+   and exists (select 1 from public.annotator_credentials c where c.annotator_id = a.id);
+
+-- Adds or updates roster entries. p_rows is a JSON array of
+--   { "liftappUserId": "PHCB1234", "fullName": "Ana Cruz", "site": "Manila",
+--     "cohort": "2026-A", "startDate": "2026-11-02" }
+-- Existing annotators only have empty fields filled in, unless p_overwrite is
+-- true, in which case the roster values replace what is stored.
+create or replace function public.import_annotator_roster(
+  p_rows jsonb,
+  p_overwrite boolean default false
+)
+returns table (
+  inserted integer,
+  updated integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_inserted integer;
+  v_updated integer;
+begin
+  if auth.role() <> 'authenticated' then
+    raise exception 'Only administrators can import the roster.';
+  end if;
+  if jsonb_typeof(p_rows) <> 'array' then
+    raise exception 'The roster must be a list of annotators.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_rows) r
+    group by trim(r ->> 'liftappUserId')
+    having count(*) > 1 or coalesce(trim(r ->> 'liftappUserId'), '') = ''
+  ) then
+    raise exception 'Every roster row needs a user ID, and each ID may appear only once.';
+  end if;
+
+  with incoming as (
+    select trim(r ->> 'liftappUserId') as liftapp_user_id,
+           nullif(trim(r ->> 'fullName'), '') as full_name,
+           nullif(trim(r ->> 'site'), '') as site,
+           nullif(trim(r ->> 'cohort'), '') as cohort,
+           nullif(trim(r ->> 'startDate'), '')::date as start_date
+    from jsonb_array_elements(p_rows) r
+  ),
+  changed as (
+    update annotators a
+       set full_name = case when p_overwrite then coalesce(i.full_name, a.full_name) else coalesce(a.full_name, i.full_name) end,
+           site = case when p_overwrite then coalesce(i.site, a.site) else coalesce(a.site, i.site) end,
+           cohort = case when p_overwrite then coalesce(i.cohort, a.cohort) else coalesce(a.cohort, i.cohort) end,
+           start_date = case when p_overwrite then coalesce(i.start_date, a.start_date) else coalesce(a.start_date, i.start_date) end,
+           rostered_at = coalesce(a.rostered_at, now())
+      from incoming i
+     where a.liftapp_user_id = i.liftapp_user_id
+    returning a.liftapp_user_id
+  ),
+  added as (
+    insert into annotators (liftapp_user_id, full_name, site, cohort, start_date, rostered_at)
+    select i.liftapp_user_id, i.full_name, i.site, i.cohort, i.start_date, now()
+    from incoming i
+    where not exists (select 1 from annotators a where a.liftapp_user_id = i.liftapp_user_id)
+    returning liftapp_user_id
+  )
+  select (select count(*) from added), (select count(*) from changed)
+    into v_inserted, v_updated;
+
+  return query select v_inserted, v_updated;
+end;
+$$;
+
+-- Sign-in reports IDs that are not on the roster, so a mistyped ID is caught
+-- at the login screen instead of creating an account.
+create or replace function public.annotator_sign_in(
+  p_liftapp_user_id text,
+  p_secret text,
+  p_new_pin text default null
+)
+returns table (
+  status text,
+  session_token text,
+  annotator_id bigint,
+  liftapp_user_id text,
+  expires_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_annotator annotators%rowtype;
+  v_credentials annotator_credentials%rowtype;
+  v_code_ok boolean;
+  v_pin_ok boolean;
+  v_token text;
+  v_expires_at timestamptz := now() + interval '12 hours';
+begin
+  if coalesce(trim(p_secret), '') = '' then
+    return query select 'invalid'::text, null::text, null::bigint, null::text, null::timestamptz;
+    return;
+  end if;
+
+  select * into v_annotator
+  from annotators a
+  where a.liftapp_user_id = trim(p_liftapp_user_id);
+
+  if v_annotator.id is null or v_annotator.rostered_at is null then
+    return query select 'not_rostered'::text, null::text, null::bigint, null::text, null::timestamptz;
+    return;
+  end if;
+
+  select * into v_credentials
+  from annotator_credentials c
+  where c.annotator_id = v_annotator.id
+  for update;
+
+  if v_credentials.annotator_id is null then
+    return query select 'invalid'::text, null::text, null::bigint, null::text, null::timestamptz;
+    return;
+  end if;
+  if v_credentials.locked_until > now() then
+    return query select 'locked'::text, null::text, null::bigint, null::text, null::timestamptz;
+    return;
+  end if;
+
+  v_code_ok := coalesce(
+    v_credentials.access_code_hash is not null
+      and v_credentials.access_code_expires_at > now()
+      and extensions.crypt(upper(trim(p_secret)), v_credentials.access_code_hash) = v_credentials.access_code_hash,
+    false
+  );
+  v_pin_ok := coalesce(
+    not v_code_ok
+      and v_credentials.pin_hash is not null
+      and extensions.crypt(p_secret, v_credentials.pin_hash) = v_credentials.pin_hash,
+    false
+  );
+
+  if not v_code_ok and not v_pin_ok then
+    update annotator_credentials c
+       set failed_attempts = c.failed_attempts + 1,
+           locked_until = case when c.failed_attempts + 1 >= 5 then now() + interval '15 minutes' end,
+           updated_at = now()
+     where c.annotator_id = v_annotator.id;
+    return query select 'invalid'::text, null::text, null::bigint, null::text, null::timestamptz;
+    return;
+  end if;
+
+  if v_code_ok then
+    if p_new_pin is null then
+      return query select 'pin_required'::text, null::text, null::bigint, null::text, null::timestamptz;
+      return;
+    end if;
+    if p_new_pin !~ '^[0-9]{4,8}$' then
+      raise exception 'Your PIN must be 4 to 8 digits.';
+    end if;
+    update annotator_credentials c
+       set pin_hash = extensions.crypt(p_new_pin, extensions.gen_salt('bf')),
+           access_code_hash = null,
+           access_code_expires_at = null
+     where c.annotator_id = v_annotator.id;
+  end if;
+
+  update annotator_credentials c
+     set failed_attempts = 0,
+         locked_until = null,
+         updated_at = now()
+   where c.annotator_id = v_annotator.id;
+
+  delete from annotator_sessions s
+   where s.annotator_id = v_annotator.id
+     and s.expires_at <= now();
+
+  v_token := encode(extensions.gen_random_bytes(32), 'hex');
+  insert into annotator_sessions (token_hash, annotator_id, expires_at)
+  values (annotator_token_hash(v_token), v_annotator.id, v_expires_at);
+
+  return query select 'ok'::text, v_token, v_annotator.id, v_annotator.liftapp_user_id, v_expires_at;
+end;
+$$;
+
+-- Login codes are only issued for rostered IDs; annotators are no longer
+-- created here.
+create or replace function public.issue_annotator_access_code(p_liftapp_user_id text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_annotator_id bigint;
+  v_code text := upper(encode(extensions.gen_random_bytes(4), 'hex'));
+begin
+  if auth.role() <> 'authenticated' then
+    raise exception 'Only administrators can issue login codes.';
+  end if;
+
+  select a.id into v_annotator_id
+  from annotators a
+  where a.liftapp_user_id = trim(p_liftapp_user_id)
+    and a.rostered_at is not null;
+
+  if v_annotator_id is null then
+    raise exception 'User ID % is not on the roster. Import it first.', trim(p_liftapp_user_id);
+  end if;
+
+  insert into annotator_credentials (annotator_id, access_code_hash, access_code_expires_at)
+  values (v_annotator_id, extensions.crypt(v_code, extensions.gen_salt('bf')), now() + interval '7 days')
+  on conflict (annotator_id) do update
+     set pin_hash = null,
+         access_code_hash = excluded.access_code_hash,
+         access_code_expires_at = excluded.access_code_expires_at,
+         failed_attempts = 0,
+         locked_until = null,
+         updated_at = now();
+
+  delete from annotator_sessions s where s.annotator_id = v_annotator_id;
+
+  return v_code;
+end;
+$$;
+
+revoke all on function public.import_annotator_roster(jsonb, boolean) from public, anon;
+grant execute on function public.import_annotator_roster(jsonb, boolean) to authenticated;
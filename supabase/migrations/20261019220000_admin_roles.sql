@@ -0,0 +1,494 @@
+-- Admin roles.
+--
+-- Every Supabase Auth user used to get the whole admin dashboard. Admins now
+-- have a role in public.admin_profiles, and each role grants a set of
+-- permissions (mirrors ADMIN_ROLE_PERMISSIONS in constants.tsx):
+--
+--   super_admin        everything, including assigning roles
+--   answer_key_author  view and edit answer keys; analytics
+--   reviewer           view answer keys and annotators; analytics
+--   site_coordinator   view annotators, issue login codes, import the roster; analytics
+--   analyst            view annotators; analytics
+--
+-- Table policies and the admin RPCs check these permissions, so hiding a tab
+-- in the dashboard is not the only thing keeping a trainer from deleting an
+-- answer key. Users who were admins before this migration become super admins;
+-- users added to Supabase Auth later have no access until given a role.
+
+create table if not exists public.admin_profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  role text not null check (role in ('super_admin', 'answer_key_author', 'reviewer', 'site_coordinator', 'analyst')),
+  created_at timestamptz not null default now()
+);
+
+insert into public.admin_profiles (id, role)
+select u.id, 'super_admin'
+from auth.users u
+on conflict (id) do nothing;
+
+-- The permissions of each role. Later migrations add rows for new permissions.
+create table if not exists public.admin_role_grants (
+  role text not null,
+  permission text not null,
+  primary key (role, permission)
+);
+
+alter table public.admin_role_grants enable row level security;
+revoke all on public.admin_role_grants from anon, authenticated;
+
+insert into public.admin_role_grants (role, permission)
+values
+  ('super_admin', 'view_answer_keys'),
+  ('super_admin', 'manage_answer_keys'),
+  ('super_admin', 'view_annotators'),
+  ('super_admin', 'manage_annotators'),
+  ('super_admin', 'view_analytics'),
+  ('super_admin', 'manage_exams'),
+  ('super_admin', 'manage_admins'),
+  ('answer_key_author', 'view_answer_keys'),
+  ('answer_key_author', 'manage_answer_keys'),
+  ('answer_key_author', 'view_analytics'),
+  ('reviewer', 'view_answer_keys'),
+  ('reviewer', 'view_annotators'),
+  ('reviewer', 'view_analytics'),
+  ('site_coordinator', 'view_annotators'),
+  ('site_coordinator', 'manage_annotators'),
+  ('site_coordinator', 'view_analytics'),
+  ('analyst', 'view_annotators'),
+  ('analyst', 'view_analytics')
+on conflict do nothing;
+
+create or replace function public.admin_role_permissions(p_role text)
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(array_agg(g.permission order by g.permission), array[]::text[])
+  from admin_role_grants g
+  where g.role = p_role;
+$$;
+
+-- The signed-in admin's role, or null for annotators and users without one.
+create or replace function public.current_admin_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.role
+  from admin_profiles p
+  where auth.role() = 'authenticated'
+    and p.id = auth.uid();
+$$;
+
+create or replace function public.admin_has_permission(p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(p_permission = any(admin_role_permissions(current_admin_role())), false);
+$$;
+
+create or replace function public.assert_admin_permission(p_permission text)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not admin_has_permission(p_permission) then
+    raise exception 'Your admin role does not allow this action (requires %).', p_permission;
+  end if;
+end;
+$$;
+
+alter table public.admin_profiles enable row level security;
+revoke insert, update, delete on public.admin_profiles from anon, authenticated;
+
+drop policy if exists "Admins read their own profile" on public.admin_profiles;
+create policy "Admins read their own profile"
+  on public.admin_profiles for select
+  to authenticated
+  using (id = auth.uid() or admin_has_permission('manage_admins'));
+
+-- Admin users and their roles, for the Admins tab. Users without a profile
+-- are listed with a null role so they can be given one.
+create or replace function public.list_admin_users()
+returns table (
+  user_id uuid,
+  email text,
+  role text,
+  last_sign_in_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('manage_admins');
+
+  return query
+  select u.id, u.email::text, p.role, u.last_sign_in_at
+  from auth.users u
+  left join admin_profiles p on p.id = u.id
+  order by u.email;
+end;
+$$;
+
+-- Sets a user's role; a null role removes their admin access. The last super
+-- admin cannot be demoted, so someone can always assign roles.
+create or replace function public.set_admin_role(p_user_id uuid, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('manage_admins');
+
+  if p_role is not null and cardinality(admin_role_permissions(p_role)) = 0 then
+    raise exception 'Unknown admin role: %', p_role;
+  end if;
+  if p_role is distinct from 'super_admin'
+     and exists (select 1 from admin_profiles p where p.id = p_user_id and p.role = 'super_admin')
+     and (select count(*) from admin_profiles p where p.role = 'super_admin') = 1 then
+    raise exception 'The last super admin cannot be demoted.';
+  end if;
+
+  if p_role is null then
+    delete from admin_profiles p where p.id = p_user_id;
+  else
+    insert into admin_profiles (id, role)
+    values (p_user_id, p_role)
+    on conflict (id) do update set role = excluded.role;
+  end if;
+end;
+$$;
+
+-- Replace the blanket "any signed-in user can do anything" policies with ones
+-- that check the admin's permissions. Annotator policies are left as they are.
+drop policy if exists "Admins manage answer keys" on public.answer_key_rows;
+create policy "Admins read answer keys"
+  on public.answer_key_rows for select
+  to authenticated
+  using (admin_has_permission('view_answer_keys'));
+create policy "Answer key authors manage answer keys"
+  on public.answer_key_rows for all
+  to authenticated
+  using (admin_has_permission('manage_answer_keys'))
+  with check (admin_has_permission('manage_answer_keys'));
+
+drop policy if exists "Admins manage annotators" on public.annotators;
+create policy "Admins read annotators"
+  on public.annotators for select
+  to authenticated
+  using (admin_has_permission('view_annotators') or admin_has_permission('view_analytics'));
+create policy "Coordinators manage annotators"
+  on public.annotators for all
+  to authenticated
+  using (admin_has_permission('manage_annotators'))
+  with check (admin_has_permission('manage_annotators'));
+
+drop policy if exists "Admins manage annotation rows" on public.annotation_rows;
+create policy "Admins read annotation rows"
+  on public.annotation_rows for select
+  to authenticated
+  using (admin_has_permission('view_annotators') or admin_has_permission('view_analytics'));
+create policy "Coordinators manage annotation rows"
+  on public.annotation_rows for all
+  to authenticated
+  using (admin_has_permission('manage_annotators'))
+  with check (admin_has_permission('manage_annotators'));
+
+drop policy if exists "Admins manage attempts" on public.user_exam_completions;
+create policy "Admins read attempts"
+  on public.user_exam_completions for select
+  to authenticated
+  using (admin_has_permission('view_annotators') or admin_has_permission('view_analytics'));
+create policy "Coordinators manage attempts"
+  on public.user_exam_completions for all
+  to authenticated
+  using (admin_has_permission('manage_annotators'))
+  with check (admin_has_permission('manage_annotators'));
+
+drop policy if exists "Admins manage cohort settings" on public.exam_cohort_settings;
+create policy "Exam editors manage cohort settings"
+  on public.exam_cohort_settings for all
+  to authenticated
+  using (admin_has_permission('manage_exams'))
+  with check (admin_has_permission('manage_exams'));
+
+-- The existing policies on exams, images and the exam-images storage bucket
+-- are kept; restrictive policies add the permission check to every write.
+do $$
+declare
+  v_target record;
+  v_command text;
+begin
+  for v_target in
+    select *
+    from (values
+      ('public', 'exams', 'manage_exams', 'true'),
+      ('public', 'images', 'manage_answer_keys', 'true'),
+      ('storage', 'objects', 'manage_answer_keys', 'bucket_id = ''exam-images''')
+    ) as t(schema_name, table_name, permission, applies_to)
+  loop
+    foreach v_command in array array['insert', 'update', 'delete'] loop
+      execute format('drop policy if exists %I on %I.%I',
+        'Admin permission for ' || v_command, v_target.schema_name, v_target.table_name);
+      execute format(
+        'create policy %I on %I.%I as restrictive for %s to authenticated %s (not (%s) or public.admin_has_permission(%L))',
+        'Admin permission for ' || v_command, v_target.schema_name, v_target.table_name, v_command,
+        case when v_command = 'insert' then 'with check' else 'using' end,
+        v_target.applies_to, v_target.permission
+      );
+    end loop;
+  end loop;
+end;
+$$;
+
+-- The admin RPCs check the matching permission instead of only requiring a
+-- signed-in user.
+create or replace function public.set_exam_scoring_strategy(
+  p_exam_id bigint,
+  p_strategy text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('manage_exams');
+  if p_strategy not in ('prefix', 'levenshtein', 'exact') then
+    raise exception 'Unknown scoring strategy: %', p_strategy;
+  end if;
+
+  update exams set scoring_strategy = p_strategy where id = p_exam_id;
+  return rescore_exam(p_exam_id);
+end;
+$$;
+
+create or replace function public.compare_scoring_strategies(p_exam_id bigint)
+returns table (
+  annotator_id bigint,
+  liftapp_user_id text,
+  prefix_score numeric,
+  levenshtein_score numeric,
+  exact_score numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('view_analytics');
+
+  return query
+  select
+    c.annotator_id::bigint,
+    a.liftapp_user_id::text,
+    case when p.total_answer_key_keystrokes > 0
+      then p.total_effective_keystrokes::numeric / p.total_answer_key_keystrokes * 100 else 0 end,
+    case when l.total_answer_key_keystrokes > 0
+      then l.total_effective_keystrokes::numeric / l.total_answer_key_keystrokes * 100 else 0 end,
+    case when x.total_answer_key_keystrokes > 0
+      then x.total_effective_keystrokes::numeric / x.total_answer_key_keystrokes * 100 else 0 end
+  from user_exam_completions c
+  join annotators a on a.id = c.annotator_id
+  cross join lateral score_exam_attempt(c.annotator_id, c.assigned_image_id, 'prefix') p
+  cross join lateral score_exam_attempt(c.annotator_id, c.assigned_image_id, 'levenshtein') l
+  cross join lateral score_exam_attempt(c.annotator_id, c.assigned_image_id, 'exact') x
+  where c.exam_id = p_exam_id
+    and c.status in ('submitted', 'timed_out')
+  order by a.liftapp_user_id;
+end;
+$$;
+
+create or replace function public.get_field_accuracy()
+returns table (
+  exam_code text,
+  column_id text,
+  matched_keystrokes bigint,
+  total_keystrokes bigint,
+  attempt_count bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('view_analytics');
+
+  return query
+  select
+    e.exam_code::text,
+    f.key,
+    sum((f.value ->> 'matched')::integer)::bigint,
+    sum((f.value ->> 'total')::integer)::bigint,
+    count(distinct c.id)
+  from user_exam_completions c
+  join exams e on e.id = c.exam_id
+  cross join lateral jsonb_each(c.field_scores) f
+  where c.status in ('submitted', 'timed_out')
+  group by e.exam_code, f.key
+  order by e.exam_code, f.key;
+end;
+$$;
+
+create or replace function public.save_exam_definition(
+  p_exam_id bigint,
+  p_exam_code text,
+  p_name text,
+  p_description text,
+  p_icon_key text,
+  p_columns jsonb,
+  p_duration_seconds integer,
+  p_passing_score numeric,
+  p_column_renames jsonb default '{}'::jsonb,
+  p_removed_column_ids text[] default '{}',
+  p_migrate_row_data boolean default false,
+  p_cohort_settings jsonb default '[]'::jsonb
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_exam_id bigint;
+begin
+  perform assert_admin_permission('manage_exams');
+
+  v_exam_id := write_exam_definition(
+    p_exam_id, p_exam_code, p_name, p_description, p_icon_key, p_columns,
+    p_duration_seconds, p_passing_score, p_column_renames, p_removed_column_ids, p_migrate_row_data
+  );
+  perform replace_exam_cohort_settings(v_exam_id, p_cohort_settings);
+
+  if p_exam_id is not null then
+    perform rescore_exam(v_exam_id);
+  end if;
+  return v_exam_id;
+end;
+$$;
+
+create or replace function public.issue_annotator_access_code(p_liftapp_user_id text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_annotator_id bigint;
+  v_code text := upper(encode(extensions.gen_random_bytes(4), 'hex'));
+begin
+  perform assert_admin_permission('manage_annotators');
+
+  select a.id into v_annotator_id
+  from annotators a
+  where a.liftapp_user_id = trim(p_liftapp_user_id)
+    and a.rostered_at is not null;
+
+  if v_annotator_id is null then
+    raise exception 'User ID % is not on the roster. Import it first.', trim(p_liftapp_user_id);
+  end if;
+
+  insert into annotator_credentials (annotator_id, access_code_hash, access_code_expires_at)
+  values (v_annotator_id, extensions.crypt(v_code, extensions.gen_salt('bf')), now() + interval '7 days')
+  on conflict (annotator_id) do update
+     set pin_hash = null,
+         access_code_hash = excluded.access_code_hash,
+         access_code_expires_at = excluded.access_code_expires_at,
+         failed_attempts = 0,
+         locked_until = null,
+         updated_at = now();
+
+  delete from annotator_sessions s where s.annotator_id = v_annotator_id;
+
+  return v_code;
+end;
+$$;
+
+create or replace function public.import_annotator_roster(
+  p_rows jsonb,
+  p_overwrite boolean default false
+)
+returns table (
+  inserted integer,
+  updated integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_inserted integer;
+  v_updated integer;
+begin
+  perform assert_admin_permission('manage_annotators');
+  if jsonb_typeof(p_rows) <> 'array' then
+    raise exception 'The roster must be a list of annotators.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_rows) r
+    group by trim(r ->> 'liftappUserId')
+    having count(*) > 1 or coalesce(trim(r ->> 'liftappUserId'), '') = ''
+  ) then
+    raise exception 'Every roster row needs a user ID, and each ID may appear only once.';
+  end if;
+
+  with incoming as (
+    select trim(r ->> 'liftappUserId') as liftapp_user_id,
+           nullif(trim(r ->> 'fullName'), '') as full_name,
+           nullif(trim(r ->> 'site'), '') as site,
+           nullif(trim(r ->> 'cohort'), '') as cohort,
+           nullif(trim(r ->> 'startDate'), '')::date as start_date
+    from jsonb_array_elements(p_rows) r
+  ),
+  changed as (
+    update annotators a
+       set full_name = case when p_overwrite then coalesce(i.full_name, a.full_name) else coalesce(a.full_name, i.full_name) end,
+           site = case when p_overwrite then coalesce(i.site, a.site) else coalesce(a.site, i.site) end,
+           cohort = case when p_overwrite then coalesce(i.cohort, a.cohort) else coalesce(a.cohort, i.cohort) end,
+           start_date = case when p_overwrite then coalesce(i.start_date, a.start_date) else coalesce(a.start_date, i.start_date) end,
+           rostered_at = coalesce(a.rostered_at, now())
+      from incoming i
+     where a.liftapp_user_id = i.liftapp_user_id
+    returning a.liftapp_user_id
+  ),
+  added as (
+    insert into annotators (liftapp_user_id, full_name, site, cohort, start_date, rostered_at)
+    select i.liftapp_user_id, i.full_name, i.site, i.cohort, i.start_date, now()
+    from incoming i
+    where not exists (select 1 from annotators a where a.liftapp_user_id = i.liftapp_user_id)
+    returning liftapp_user_id
+  )
+  select (select count(*) from added), (select count(*) from changed)
+    into v_inserted, v_updated;
+
+  return query select v_inserted, v_updated;
+end;
+$$;
+
+revoke all on function public.admin_role_permissions(text) from public, anon;
+revoke all on function public.current_admin_role() from public, anon;
+revoke all on function public.admin_has_permission(text) from public, anon;
+revoke all on function public.assert_admin_permission(text) from public, anon, authenticated;
+grant execute on function public.admin_role_permissions(text) to authenticated;
+grant execute on function public.current_admin_role() to authenticated;
+grant execute on function public.admin_has_permission(text) to authenticated;
+revoke all on function public.list_admin_users() from public, anon;
+grant execute on function public.list_admin_users() to authenticated;
+revoke all on function public.set_admin_role(uuid, text) from public, anon;
+grant execute on function public.set_admin_role(uuid, text) to authenticated;
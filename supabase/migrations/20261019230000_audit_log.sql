@@ -0,0 +1,155 @@
+-- Audit log.
+--
+-- Saving or deleting answer keys, renaming annotators, rescoring attempts and
+-- the dashboard's overall_completion_date backfill changed data without any
+-- record of who did it. Triggers on the audited tables now append one entry
+-- per changed row with the actor, the action and the before/after values, so
+-- a disputed score can be traced back. Entries cannot be changed or deleted.
+--
+-- Reading the log needs the new view_activity permission (super admins and
+-- reviewers).
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  actor_user_id uuid, -- Admin (auth.users), when an admin made the change
+  actor_annotator_id bigint, -- Annotator, when made through an annotator session
+  actor_label text not null, -- Email or LiftApp user id at the time, or 'system'
+  action text not null check (action in ('insert', 'update', 'delete')),
+  entity text not null, -- Table name
+  entity_id text,
+  target_label text, -- Human-readable target, e.g. the annotator's user id
+  before_values jsonb, -- Changed columns only, for updates
+  after_values jsonb
+);
+
+create index if not exists audit_log_occurred_at_idx on public.audit_log (occurred_at desc);
+create index if not exists audit_log_entity_idx on public.audit_log (entity, occurred_at desc);
+
+alter table public.audit_log enable row level security;
+revoke all on table public.audit_log from anon, authenticated;
+grant select on table public.audit_log to authenticated;
+
+insert into public.admin_role_grants (role, permission)
+values
+  ('super_admin', 'view_activity'),
+  ('reviewer', 'view_activity')
+on conflict do nothing;
+
+create policy "Admins read the audit log"
+  on public.audit_log for select
+  to authenticated
+  using (admin_has_permission('view_activity'));
+
+-- Even the table owner cannot rewrite history through the API.
+create or replace function public.prevent_audit_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'The audit log is append-only.';
+end;
+$$;
+
+drop trigger if exists prevent_audit_log_changes on public.audit_log;
+create trigger prevent_audit_log_changes
+  before update or delete on public.audit_log
+  for each row execute function public.prevent_audit_log_changes();
+
+-- Describes the changed row for people reading the log.
+create or replace function public.audit_target_label(p_entity text, p_row jsonb)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_entity
+    when 'annotators' then p_row ->> 'liftapp_user_id'
+    when 'exams' then p_row ->> 'exam_code'
+    when 'images' then coalesce(p_row ->> 'original_filename', p_row ->> 'storage_path')
+    when 'answer_key_rows' then (
+      select coalesce(i.original_filename, i.storage_path)
+      from images i
+      where i.id = (p_row ->> 'image_id')::bigint
+    )
+    when 'user_exam_completions' then (
+      select a.liftapp_user_id || ' / ' || e.exam_code
+      from annotators a, exams e
+      where a.id = (p_row ->> 'annotator_id')::bigint
+        and e.id = (p_row ->> 'exam_id')::bigint
+    )
+    when 'admin_profiles' then (
+      select u.email::text
+      from auth.users u
+      where u.id = (p_row ->> 'id')::uuid
+    )
+  end;
+$$;
+
+create or replace function public.record_audit_entry()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  v_new jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  v_before jsonb := v_old;
+  v_after jsonb := v_new;
+  v_actor_user_id uuid := case when auth.role() = 'authenticated' then auth.uid() end;
+  v_actor_annotator_id bigint := current_annotator_id();
+begin
+  if tg_op = 'UPDATE' then
+    select jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, v_new -> o.key)
+      into v_before, v_after
+    from jsonb_each(v_old) o
+    where o.value is distinct from v_new -> o.key;
+
+    if v_before is null then
+      return new; -- Nothing changed
+    end if;
+  end if;
+
+  insert into audit_log (
+    actor_user_id, actor_annotator_id, actor_label, action, entity, entity_id,
+    target_label, before_values, after_values
+  )
+  values (
+    v_actor_user_id,
+    v_actor_annotator_id,
+    coalesce(
+      (select u.email::text from auth.users u where u.id = v_actor_user_id),
+      (select a.liftapp_user_id from annotators a where a.id = v_actor_annotator_id),
+      'system'
+    ),
+    lower(tg_op),
+    tg_table_name,
+    coalesce(v_new, v_old) ->> 'id',
+    audit_target_label(tg_table_name, coalesce(v_new, v_old)),
+    v_before,
+    v_after
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['answer_key_rows', 'images', 'annotators', 'user_exam_completions', 'exams', 'admin_profiles'] loop
+    execute format('drop trigger if exists record_audit_entry on public.%I', v_table);
+    execute format(
+      'create trigger record_audit_entry after insert or update or delete on public.%I for each row execute function public.record_audit_entry()',
+      v_table
+    );
+  end loop;
+end;
+$$;
+
+revoke all on function public.prevent_audit_log_changes() from public, anon, authenticated;
+revoke all on function public.audit_target_label(text, jsonb) from public, anon, authenticated;
+revoke all on function public.record_audit_entry() from public, anon, authenticated;
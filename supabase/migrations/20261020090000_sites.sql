@@ -0,0 +1,188 @@
+-- Partner sites.
+--
+-- The LiftApp user id prefixes used to be a hard-coded list (USER_ID_PREFIXES
+-- in constants.tsx), so opening a site meant a redeploy. Sites now live in
+-- public.sites with their display name, location, coordinator contact and ID
+-- format, and super admins manage them from the dashboard. Inactive sites are
+-- hidden from the login page but keep their annotators and history.
+--
+-- A site's prefix cannot be changed once created, since annotator ids already
+-- start with it; a renamed site is a new site.
+--
+-- An annotator belongs to the site with the longest prefix of their user id,
+-- so "PHCBIT0012" is PHCBIT, not PHCB. exam_settings_for_annotator already
+-- resolves cohort overrides the same way.
+
+create table if not exists public.sites (
+  id bigint generated always as identity primary key,
+  user_id_prefix text not null unique check (user_id_prefix ~ '^[A-Z]+$'),
+  display_name text not null check (trim(display_name) <> ''),
+  location text,
+  coordinator_name text,
+  coordinator_email text,
+  id_min_digits integer not null default 3 check (id_min_digits between 1 and 10),
+  id_max_digits integer not null default 4 check (id_max_digits between 1 and 10),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (id_min_digits <= id_max_digits)
+);
+
+insert into public.sites (user_id_prefix, display_name)
+select prefix, prefix
+from unnest(array[
+  'PHBYUCG', 'PHBYUGH', 'PHBYUMG', 'PHBYUNG', 'PHBYUZA', 'PHLG', 'PHCB',
+  'PHCBIT', 'PHCITU', 'PHBYU', 'PHCEC', 'PHJJ', 'PHNX'
+]) as prefix
+on conflict (user_id_prefix) do nothing;
+
+-- Cohort overrides are keyed by site prefix, so each must name a known site.
+insert into public.sites (user_id_prefix, display_name)
+select distinct s.user_id_prefix, s.user_id_prefix
+from public.exam_cohort_settings s
+on conflict (user_id_prefix) do nothing;
+
+alter table public.exam_cohort_settings
+  drop constraint if exists exam_cohort_settings_user_id_prefix_fkey;
+alter table public.exam_cohort_settings
+  add constraint exam_cohort_settings_user_id_prefix_fkey
+  foreign key (user_id_prefix) references public.sites (user_id_prefix);
+
+alter table public.sites enable row level security;
+
+-- The login page lists sites before anyone has signed in.
+create policy "Anyone can read sites"
+  on public.sites for select
+  using (true);
+
+create policy "Super admins manage sites"
+  on public.sites for all
+  to authenticated
+  using (admin_has_permission('manage_sites'))
+  with check (admin_has_permission('manage_sites'));
+
+-- The coordinator contact is for admins only.
+revoke select on public.sites from anon;
+grant select (id, user_id_prefix, display_name, location, id_min_digits, id_max_digits, is_active) on public.sites to anon;
+
+-- Sites are deactivated rather than deleted, and keep their prefix.
+revoke update, delete on public.sites from anon, authenticated;
+grant update (display_name, location, coordinator_name, coordinator_email, id_min_digits, id_max_digits, is_active)
+  on public.sites to authenticated;
+
+insert into public.admin_role_grants (role, permission)
+values
+  ('super_admin', 'manage_sites')
+on conflict do nothing;
+
+-- The site a LiftApp user id belongs to. Mirrors getSiteForUserId in
+-- utils/siteUtils.ts.
+create or replace function public.site_for_user_id(p_liftapp_user_id text)
+returns bigint
+language sql
+stable
+set search_path = public
+as $$
+  select s.id
+  from sites s
+  where left(p_liftapp_user_id, length(s.user_id_prefix)) = s.user_id_prefix
+  order by length(s.user_id_prefix) desc
+  limit 1;
+$$;
+
+-- Per-site totals for the Analytics tab. An attempt passes when it was on
+-- time and scored at least the passing score that applied to the annotator.
+create or replace function public.get_site_rollups()
+returns table (
+  site_id bigint,
+  user_id_prefix text,
+  display_name text,
+  is_active boolean,
+  annotator_count bigint,
+  completed_annotator_count bigint,
+  finished_attempt_count bigint,
+  passed_attempt_count bigint,
+  average_score numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('view_analytics');
+
+  return query
+  with annotator_sites as (
+    select a.id as annotator_id, a.overall_completion_date, site_for_user_id(a.liftapp_user_id) as site_id
+    from annotators a
+  ),
+  attempt_scores as (
+    select
+      c.annotator_id,
+      case when c.total_answer_key_keystrokes > 0
+        then c.total_effective_keystrokes::numeric / c.total_answer_key_keystrokes * 100 else 0 end as score,
+      c.submitted_late,
+      (select st.passing_score from exam_settings_for_annotator(c.exam_id, c.annotator_id) st) as passing_score
+    from user_exam_completions c
+    where c.status in ('submitted', 'timed_out')
+  )
+  select
+    s.id,
+    s.user_id_prefix,
+    s.display_name,
+    s.is_active,
+    count(distinct x.annotator_id),
+    count(distinct x.annotator_id) filter (where x.overall_completion_date is not null),
+    count(t.annotator_id),
+    count(t.annotator_id) filter (where not t.submitted_late and t.score >= t.passing_score),
+    round(avg(t.score), 2)
+  from sites s
+  left join annotator_sites x on x.site_id = s.id
+  left join attempt_scores t on t.annotator_id = x.annotator_id
+  group by s.id
+  order by s.user_id_prefix;
+end;
+$$;
+
+-- Describes the changed row for people reading the log.
+create or replace function public.audit_target_label(p_entity text, p_row jsonb)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_entity
+    when 'annotators' then p_row ->> 'liftapp_user_id'
+    when 'exams' then p_row ->> 'exam_code'
+    when 'images' then coalesce(p_row ->> 'original_filename', p_row ->> 'storage_path')
+    when 'answer_key_rows' then (
+      select coalesce(i.original_filename, i.storage_path)
+      from images i
+      where i.id = (p_row ->> 'image_id')::bigint
+    )
+    when 'user_exam_completions' then (
+      select a.liftapp_user_id || ' / ' || e.exam_code
+      from annotators a, exams e
+      where a.id = (p_row ->> 'annotator_id')::bigint
+        and e.id = (p_row ->> 'exam_id')::bigint
+    )
+    when 'sites' then p_row ->> 'user_id_prefix'
+    when 'admin_profiles' then (
+      select u.email::text
+      from auth.users u
+      where u.id = (p_row ->> 'id')::uuid
+    )
+  end;
+$$;
+
+drop trigger if exists record_audit_entry on public.sites;
+create trigger record_audit_entry
+  after insert or update or delete on public.sites
+  for each row execute function public.record_audit_entry();
+
+revoke all on function public.site_for_user_id(text) from public;
+grant execute on function public.site_for_user_id(text) to anon, authenticated;
+revoke all on function public.get_site_rollups() from public, anon;
+grant execute on function public.get_site_rollups() to authenticated;
+revoke all on function public.audit_target_label(text, jsonb) from public, anon, authenticated;
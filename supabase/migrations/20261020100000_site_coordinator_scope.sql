@@ -0,0 +1,576 @@
+-- Site-scoped coordinators.
+--
+-- Site coordinators saw every annotator, and the Annotators tab only narrowed
+-- the list in the browser. Super admins now assign each coordinator one or
+-- more sites, and the table policies and analytics RPCs only return annotators
+-- whose user id belongs to those sites (see site_for_user_id). A coordinator
+-- without sites sees no annotators. Other roles keep seeing every site.
+--
+-- The Annotators tab, its CSV export and the analytics charts all read through
+-- these policies and RPCs, so the scoping cannot be bypassed from the client.
+
+create table if not exists public.admin_site_assignments (
+  admin_user_id uuid not null references public.admin_profiles (id) on delete cascade,
+  site_id bigint not null references public.sites (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (admin_user_id, site_id)
+);
+
+alter table public.admin_site_assignments enable row level security;
+revoke insert, update, delete on public.admin_site_assignments from anon, authenticated;
+
+create policy "Admins read their own site assignments"
+  on public.admin_site_assignments for select
+  to authenticated
+  using (admin_user_id = auth.uid() or admin_has_permission('manage_admins'));
+
+-- The sites the signed-in admin may see, or null for every site. Only site
+-- coordinators are scoped; mirrors SITE_SCOPED_ADMIN_ROLES in constants.tsx.
+create or replace function public.admin_site_scope()
+returns bigint[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when current_admin_role() = 'site_coordinator' then coalesce(
+      (select array_agg(s.site_id) from admin_site_assignments s where s.admin_user_id = auth.uid()),
+      array[]::bigint[]
+    )
+  end;
+$$;
+
+create or replace function public.admin_can_see_user_id(p_liftapp_user_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select admin_site_scope() is null
+      or coalesce(site_for_user_id(p_liftapp_user_id) = any(admin_site_scope()), false);
+$$;
+
+create or replace function public.admin_can_see_annotator(p_annotator_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select admin_site_scope() is null
+      or exists (
+        select 1
+        from annotators a
+        where a.id = p_annotator_id
+          and admin_can_see_user_id(a.liftapp_user_id)
+      );
+$$;
+
+drop policy if exists "Admins read annotators" on public.annotators;
+drop policy if exists "Coordinators manage annotators" on public.annotators;
+create policy "Admins read annotators"
+  on public.annotators for select
+  to authenticated
+  using (
+    (admin_has_permission('view_annotators') or admin_has_permission('view_analytics'))
+    and admin_can_see_user_id(liftapp_user_id)
+  );
+create policy "Coordinators manage annotators"
+  on public.annotators for all
+  to authenticated
+  using (admin_has_permission('manage_annotators') and admin_can_see_user_id(liftapp_user_id))
+  with check (admin_has_permission('manage_annotators') and admin_can_see_user_id(liftapp_user_id));
+
+drop policy if exists "Admins read annotation rows" on public.annotation_rows;
+drop policy if exists "Coordinators manage annotation rows" on public.annotation_rows;
+create policy "Admins read annotation rows"
+  on public.annotation_rows for select
+  to authenticated
+  using (
+    (admin_has_permission('view_annotators') or admin_has_permission('view_analytics'))
+    and admin_can_see_annotator(annotator_id)
+  );
+create policy "Coordinators manage annotation rows"
+  on public.annotation_rows for all
+  to authenticated
+  using (admin_has_permission('manage_annotators') and admin_can_see_annotator(annotator_id))
+  with check (admin_has_permission('manage_annotators') and admin_can_see_annotator(annotator_id));
+
+drop policy if exists "Admins read attempts" on public.user_exam_completions;
+drop policy if exists "Coordinators manage attempts" on public.user_exam_completions;
+create policy "Admins read attempts"
+  on public.user_exam_completions for select
+  to authenticated
+  using (
+    (admin_has_permission('view_annotators') or admin_has_permission('view_analytics'))
+    and admin_can_see_annotator(annotator_id)
+  );
+create policy "Coordinators manage attempts"
+  on public.user_exam_completions for all
+  to authenticated
+  using (admin_has_permission('manage_annotators') and admin_can_see_annotator(annotator_id))
+  with check (admin_has_permission('manage_annotators') and admin_can_see_annotator(annotator_id));
+
+-- The attempt RPCs let any signed-in admin through. They now follow the
+-- attempt policies above: changing an attempt needs manage_annotators, reading
+-- its clock view_annotators or view_analytics, and either only for annotators
+-- the admin can see.
+create or replace function public.assert_completion_access(p_completion_id bigint)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() = 'authenticated' then
+    if not exists (
+      select 1
+      from user_exam_completions c
+      where c.id = p_completion_id
+        and admin_has_permission('manage_annotators')
+        and admin_can_see_annotator(c.annotator_id)
+    ) then
+      raise exception 'Your admin role does not allow changing this exam attempt.';
+    end if;
+    return;
+  end if;
+  if not exists (
+    select 1
+    from user_exam_completions c
+    where c.id = p_completion_id
+      and c.annotator_id = current_annotator_id()
+  ) then
+    raise exception 'Please sign in again to continue this exam.';
+  end if;
+end;
+$$;
+
+create or replace function public.get_exam_clock(p_completion_id bigint)
+returns table (
+  deadline_at timestamptz,
+  server_now timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.deadline_at, now()
+  from user_exam_completions c
+  where c.id = p_completion_id
+    and (
+      c.annotator_id = current_annotator_id()
+      or (
+        (admin_has_permission('view_annotators') or admin_has_permission('view_analytics'))
+        and admin_can_see_annotator(c.annotator_id)
+      )
+    );
+$$;
+
+create or replace function public.start_exam_timer_on_insert()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() = 'authenticated' then
+    if not (admin_has_permission('manage_annotators') and admin_can_see_annotator(new.annotator_id)) then
+      raise exception 'Your admin role does not allow starting exams for this annotator.';
+    end if;
+  elsif new.annotator_id is distinct from current_annotator_id() then
+    raise exception 'Please sign in again to start this exam.';
+  end if;
+  if new.status = 'started' then
+    new.started_at := now();
+    new.deadline_at := now() + make_interval(secs => (
+      select s.duration_seconds
+      from exam_settings_for_annotator(new.exam_id, new.annotator_id) s
+    ));
+  end if;
+  return new;
+end;
+$$;
+
+-- Admin users, their roles and their assigned sites, for the Admins tab.
+drop function if exists public.list_admin_users();
+create function public.list_admin_users()
+returns table (
+  user_id uuid,
+  email text,
+  role text,
+  last_sign_in_at timestamptz,
+  site_ids bigint[]
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('manage_admins');
+
+  return query
+  select
+    u.id,
+    u.email::text,
+    p.role,
+    u.last_sign_in_at,
+    coalesce(
+      (select array_agg(s.site_id order by s.site_id) from admin_site_assignments s where s.admin_user_id = u.id),
+      array[]::bigint[]
+    )
+  from auth.users u
+  left join admin_profiles p on p.id = u.id
+  order by u.email;
+end;
+$$;
+
+-- Replaces the sites a coordinator may see.
+create or replace function public.set_admin_sites(p_user_id uuid, p_site_ids bigint[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('manage_admins');
+
+  if not exists (select 1 from admin_profiles p where p.id = p_user_id) then
+    raise exception 'Give this user an admin role before assigning sites.';
+  end if;
+
+  delete from admin_site_assignments s
+  where s.admin_user_id = p_user_id
+    and not (s.site_id = any(coalesce(p_site_ids, array[]::bigint[])));
+
+  insert into admin_site_assignments (admin_user_id, site_id)
+  select p_user_id, site_id
+  from unnest(coalesce(p_site_ids, array[]::bigint[])) as site_id
+  on conflict do nothing;
+end;
+$$;
+
+-- Recreated with the site scope. get_submissions_per_exam counts finished
+-- attempts per exam.
+drop function if exists public.get_submissions_per_exam();
+create function public.get_submissions_per_exam()
+returns table (
+  name text,
+  submission_count bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('view_analytics');
+
+  return query
+  select e.name::text, count(c.id)
+  from exams e
+  left join user_exam_completions c
+    on c.exam_id = e.id
+   and c.status in ('submitted', 'timed_out')
+   and admin_can_see_annotator(c.annotator_id)
+  group by e.id, e.name, e.sort_order
+  order by e.sort_order, e.id;
+end;
+$$;
+
+create or replace function public.compare_scoring_strategies(p_exam_id bigint)
+returns table (
+  annotator_id bigint,
+  liftapp_user_id text,
+  prefix_score numeric,
+  levenshtein_score numeric,
+  exact_score numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('view_analytics');
+
+  return query
+  select
+    c.annotator_id::bigint,
+    a.liftapp_user_id::text,
+    case when p.total_answer_key_keystrokes > 0
+      then p.total_effective_keystrokes::numeric / p.total_answer_key_keystrokes * 100 else 0 end,
+    case when l.total_answer_key_keystrokes > 0
+      then l.total_effective_keystrokes::numeric / l.total_answer_key_keystrokes * 100 else 0 end,
+    case when x.total_answer_key_keystrokes > 0
+      then x.total_effective_keystrokes::numeric / x.total_answer_key_keystrokes * 100 else 0 end
+  from user_exam_completions c
+  join annotators a on a.id = c.annotator_id
+  cross join lateral score_exam_attempt(c.annotator_id, c.assigned_image_id, 'prefix') p
+  cross join lateral score_exam_attempt(c.annotator_id, c.assigned_image_id, 'levenshtein') l
+  cross join lateral score_exam_attempt(c.annotator_id, c.assigned_image_id, 'exact') x
+  where c.exam_id = p_exam_id
+    and c.status in ('submitted', 'timed_out')
+    and admin_can_see_user_id(a.liftapp_user_id)
+  order by a.liftapp_user_id;
+end;
+$$;
+
+create or replace function public.get_field_accuracy()
+returns table (
+  exam_code text,
+  column_id text,
+  matched_keystrokes bigint,
+  total_keystrokes bigint,
+  attempt_count bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('view_analytics');
+
+  return query
+  select
+    e.exam_code::text,
+    f.key,
+    sum((f.value ->> 'matched')::integer)::bigint,
+    sum((f.value ->> 'total')::integer)::bigint,
+    count(distinct c.id)
+  from user_exam_completions c
+  join exams e on e.id = c.exam_id
+  cross join lateral jsonb_each(c.field_scores) f
+  where c.status in ('submitted', 'timed_out')
+    and admin_can_see_annotator(c.annotator_id)
+  group by e.exam_code, f.key
+  order by e.exam_code, f.key;
+end;
+$$;
+
+create or replace function public.issue_annotator_access_code(p_liftapp_user_id text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_annotator_id bigint;
+  v_code text := upper(encode(extensions.gen_random_bytes(4), 'hex'));
+begin
+  perform assert_admin_permission('manage_annotators');
+  if not admin_can_see_user_id(trim(p_liftapp_user_id)) then
+    raise exception 'User ID % is not at one of your sites.', trim(p_liftapp_user_id);
+  end if;
+
+  select a.id into v_annotator_id
+  from annotators a
+  where a.liftapp_user_id = trim(p_liftapp_user_id)
+    and a.rostered_at is not null;
+
+  if v_annotator_id is null then
+    raise exception 'User ID % is not on the roster. Import it first.', trim(p_liftapp_user_id);
+  end if;
+
+  insert into annotator_credentials (annotator_id, access_code_hash, access_code_expires_at)
+  values (v_annotator_id, extensions.crypt(v_code, extensions.gen_salt('bf')), now() + interval '7 days')
+  on conflict (annotator_id) do update
+     set pin_hash = null,
+         access_code_hash = excluded.access_code_hash,
+         access_code_expires_at = excluded.access_code_expires_at,
+         failed_attempts = 0,
+         locked_until = null,
+         updated_at = now();
+
+  delete from annotator_sessions s where s.annotator_id = v_annotator_id;
+
+  return v_code;
+end;
+$$;
+
+create or replace function public.import_annotator_roster(
+  p_rows jsonb,
+  p_overwrite boolean default false
+)
+returns table (
+  inserted integer,
+  updated integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_inserted integer;
+  v_updated integer;
+  v_outside_id text;
+begin
+  perform assert_admin_permission('manage_annotators');
+  if jsonb_typeof(p_rows) <> 'array' then
+    raise exception 'The roster must be a list of annotators.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_rows) r
+    group by trim(r ->> 'liftappUserId')
+    having count(*) > 1 or coalesce(trim(r ->> 'liftappUserId'), '') = ''
+  ) then
+    raise exception 'Every roster row needs a user ID, and each ID may appear only once.';
+  end if;
+
+  select trim(r ->> 'liftappUserId') into v_outside_id
+  from jsonb_array_elements(p_rows) r
+  where not admin_can_see_user_id(trim(r ->> 'liftappUserId'))
+  limit 1;
+  if v_outside_id is not null then
+    raise exception 'User ID % is not at one of your sites.', v_outside_id;
+  end if;
+
+  with incoming as (
+    select trim(r ->> 'liftappUserId') as liftapp_user_id,
+           nullif(trim(r ->> 'fullName'), '') as full_name,
+           nullif(trim(r ->> 'site'), '') as site,
+           nullif(trim(r ->> 'cohort'), '') as cohort,
+           nullif(trim(r ->> 'startDate'), '')::date as start_date
+    from jsonb_array_elements(p_rows) r
+  ),
+  changed as (
+    update annotators a
+       set full_name = case when p_overwrite then coalesce(i.full_name, a.full_name) else coalesce(a.full_name, i.full_name) end,
+           site = case when p_overwrite then coalesce(i.site, a.site) else coalesce(a.site, i.site) end,
+           cohort = case when p_overwrite then coalesce(i.cohort, a.cohort) else coalesce(a.cohort, i.cohort) end,
+           start_date = case when p_overwrite then coalesce(i.start_date, a.start_date) else coalesce(a.start_date, i.start_date) end,
+           rostered_at = coalesce(a.rostered_at, now())
+      from incoming i
+     where a.liftapp_user_id = i.liftapp_user_id
+    returning a.liftapp_user_id
+  ),
+  added as (
+    insert into annotators (liftapp_user_id, full_name, site, cohort, start_date, rostered_at)
+    select i.liftapp_user_id, i.full_name, i.site, i.cohort, i.start_date, now()
+    from incoming i
+    where not exists (select 1 from annotators a where a.liftapp_user_id = i.liftapp_user_id)
+    returning liftapp_user_id
+  )
+  select (select count(*) from added), (select count(*) from changed)
+    into v_inserted, v_updated;
+
+  return query select v_inserted, v_updated;
+end;
+$$;
+
+create or replace function public.get_site_rollups()
+returns table (
+  site_id bigint,
+  user_id_prefix text,
+  display_name text,
+  is_active boolean,
+  annotator_count bigint,
+  completed_annotator_count bigint,
+  finished_attempt_count bigint,
+  passed_attempt_count bigint,
+  average_score numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('view_analytics');
+
+  return query
+  with annotator_sites as (
+    select a.id as annotator_id, a.overall_completion_date, site_for_user_id(a.liftapp_user_id) as site_id
+    from annotators a
+  ),
+  attempt_scores as (
+    select
+      c.annotator_id,
+      case when c.total_answer_key_keystrokes > 0
+        then c.total_effective_keystrokes::numeric / c.total_answer_key_keystrokes * 100 else 0 end as score,
+      c.submitted_late,
+      (select st.passing_score from exam_settings_for_annotator(c.exam_id, c.annotator_id) st) as passing_score
+    from user_exam_completions c
+    where c.status in ('submitted', 'timed_out')
+  )
+  select
+    s.id,
+    s.user_id_prefix,
+    s.display_name,
+    s.is_active,
+    count(distinct x.annotator_id),
+    count(distinct x.annotator_id) filter (where x.overall_completion_date is not null),
+    count(t.annotator_id),
+    count(t.annotator_id) filter (where not t.submitted_late and t.score >= t.passing_score),
+    round(avg(t.score), 2)
+  from sites s
+  left join annotator_sites x on x.site_id = s.id
+  left join attempt_scores t on t.annotator_id = x.annotator_id
+  where admin_site_scope() is null or s.id = any(admin_site_scope())
+  group by s.id
+  order by s.user_id_prefix;
+end;
+$$;
+
+-- Describes the changed row for people reading the log.
+create or replace function public.audit_target_label(p_entity text, p_row jsonb)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_entity
+    when 'annotators' then p_row ->> 'liftapp_user_id'
+    when 'exams' then p_row ->> 'exam_code'
+    when 'images' then coalesce(p_row ->> 'original_filename', p_row ->> 'storage_path')
+    when 'answer_key_rows' then (
+      select coalesce(i.original_filename, i.storage_path)
+      from images i
+      where i.id = (p_row ->> 'image_id')::bigint
+    )
+    when 'user_exam_completions' then (
+      select a.liftapp_user_id || ' / ' || e.exam_code
+      from annotators a, exams e
+      where a.id = (p_row ->> 'annotator_id')::bigint
+        and e.id = (p_row ->> 'exam_id')::bigint
+    )
+    when 'sites' then p_row ->> 'user_id_prefix'
+    when 'admin_site_assignments' then (
+      select u.email::text || ' / ' || s.user_id_prefix
+      from auth.users u, sites s
+      where u.id = (p_row ->> 'admin_user_id')::uuid
+        and s.id = (p_row ->> 'site_id')::bigint
+    )
+    when 'admin_profiles' then (
+      select u.email::text
+      from auth.users u
+      where u.id = (p_row ->> 'id')::uuid
+    )
+  end;
+$$;
+
+drop trigger if exists record_audit_entry on public.admin_site_assignments;
+create trigger record_audit_entry
+  after insert or update or delete on public.admin_site_assignments
+  for each row execute function public.record_audit_entry();
+
+revoke all on function public.admin_site_scope() from public, anon;
+revoke all on function public.admin_can_see_user_id(text) from public, anon;
+revoke all on function public.admin_can_see_annotator(bigint) from public, anon;
+grant execute on function public.admin_site_scope() to authenticated;
+grant execute on function public.admin_can_see_user_id(text) to authenticated;
+grant execute on function public.admin_can_see_annotator(bigint) to authenticated;
+revoke all on function public.list_admin_users() from public, anon;
+grant execute on function public.list_admin_users() to authenticated;
+revoke all on function public.set_admin_sites(uuid, bigint[]) from public, anon;
+grant execute on function public.set_admin_sites(uuid, bigint[]) to authenticated;
+revoke all on function public.get_submissions_per_exam() from public, anon;
+grant execute on function public.get_submissions_per_exam() to authenticated;
+revoke all on function public.audit_target_label(text, jsonb) from public, anon, authenticated;
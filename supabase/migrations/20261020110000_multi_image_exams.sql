@@ -0,0 +1,592 @@
+-- Exams made of several images.
+--
+-- An attempt used to cover one image, which is too small a sample to certify
+-- someone on a record type. Each exam now sets how many images an attempt
+-- covers (images_per_attempt), the annotator moves between them, and the
+-- attempt is scored across all of them: keystrokes, unmatched rows and the
+-- per-column field_scores are summed over the images.
+--
+-- The server picks the images when an attempt's timer starts and keeps them
+-- in session_image_ids, so the client cannot choose which images are scored.
+-- finalize_exam_attempt scores exactly those and records them in
+-- exam_attempt_images, in the order they were shown, replacing those of the
+-- previous try on a retake. assigned_image_id still holds the first image for
+-- code that only knows about one.
+
+alter table public.exams
+  add column if not exists images_per_attempt integer not null default 1
+    check (images_per_attempt between 1 and 20);
+
+-- The images of the attempt in progress, in the order they are shown.
+alter table public.user_exam_completions
+  add column if not exists session_image_ids bigint[];
+
+create table if not exists public.exam_attempt_images (
+  completion_id bigint not null references public.user_exam_completions (id) on delete cascade,
+  image_id bigint not null references public.images (id) on delete cascade,
+  position integer not null,
+  primary key (completion_id, position),
+  unique (completion_id, image_id)
+);
+
+insert into public.exam_attempt_images (completion_id, image_id, position)
+select c.id, c.assigned_image_id, 1
+from public.user_exam_completions c
+where c.assigned_image_id is not null
+  and c.status in ('submitted', 'timed_out')
+on conflict do nothing;
+
+alter table public.exam_attempt_images enable row level security;
+revoke insert, update, delete on public.exam_attempt_images from anon, authenticated;
+
+-- Readable by whoever can read the attempt, so annotators see their own and
+-- site coordinators only those at their sites.
+create policy "Attempt images follow their attempt"
+  on public.exam_attempt_images for select
+  to anon, authenticated
+  using (exists (select 1 from user_exam_completions c where c.id = completion_id));
+
+-- The images of an attempt, in the order they were shown.
+create or replace function public.attempt_image_ids(p_completion_id bigint)
+returns bigint[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(array_agg(i.image_id order by i.position), array[]::bigint[])
+  from exam_attempt_images i
+  where i.completion_id = p_completion_id;
+$$;
+
+-- score_exam_attempt summed over several images. field_scores adds up the
+-- matched and total characters of each column across the images.
+create or replace function public.score_attempt_images(
+  p_annotator_id bigint,
+  p_image_ids bigint[],
+  p_strategy text default 'prefix'
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer,
+  field_scores jsonb
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with per_image as (
+    select s.*
+    from unnest(p_image_ids) as i (image_id)
+    cross join lateral score_exam_attempt(p_annotator_id, i.image_id, p_strategy) s
+  ),
+  per_column as (
+    select
+      f.key as column_id,
+      sum((f.value ->> 'matched')::integer) as matched,
+      sum((f.value ->> 'total')::integer) as total
+    from per_image p
+    cross join lateral jsonb_each(p.field_scores) f
+    group by f.key
+  )
+  select
+    coalesce(sum(p.total_effective_keystrokes), 0)::integer,
+    coalesce(sum(p.total_answer_key_keystrokes), 0)::integer,
+    coalesce(sum(p.unmatched_user_rows), 0)::integer,
+    coalesce(sum(p.unmatched_key_rows), 0)::integer,
+    (
+      select coalesce(
+        jsonb_object_agg(c.column_id, jsonb_build_object('matched', c.matched, 'total', c.total)),
+        '{}'::jsonb
+      )
+      from per_column c
+    )
+  from per_image p;
+end;
+$$;
+
+-- Picks the images of a new attempt at random: images_per_attempt of the
+-- exam's images, or all it has when there are fewer. A retake gets images it
+-- was not scored on before where the exam has enough, topped up with those of
+-- the previous try. A first attempt keeps the image start_exam_and_assign_image
+-- gave it as its first.
+create or replace function public.assign_attempt_images(p_completion_id bigint)
+returns bigint[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completion user_exam_completions%rowtype;
+  v_previous_image_ids bigint[];
+begin
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id;
+
+  v_previous_image_ids := attempt_image_ids(p_completion_id);
+
+  return (
+    select coalesce(array_agg(p.image_id order by p.position), array[]::bigint[])
+    from (
+      select
+        i.id as image_id,
+        row_number() over (
+          order by
+            v_completion.status = 'started' and i.id = v_completion.assigned_image_id desc,
+            i.id = any (v_previous_image_ids),
+            random()
+        ) as position
+      from images i
+      where i.exam_id = v_completion.exam_id
+    ) p
+    join exams e on e.id = v_completion.exam_id
+    where p.position <= e.images_per_attempt
+  );
+end;
+$$;
+
+-- Settles the annotator's rows before an attempt is scored on p_image_ids.
+-- A retake given other images drops the rows of the earlier images, which no
+-- longer belong to any attempt.
+create or replace function public.submit_attempt_rows(p_completion_id bigint, p_image_ids bigint[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from annotation_rows a
+  using user_exam_completions c
+  where c.id = p_completion_id
+    and a.annotator_id = c.annotator_id
+    and a.image_id = any (attempt_image_ids(p_completion_id))
+    and a.image_id <> all (p_image_ids);
+$$;
+
+-- Scores an attempt across its images and records them in
+-- exam_attempt_images, in the order they were shown.
+drop function if exists public.record_attempt_score(bigint, bigint, text, integer, boolean);
+create function public.record_attempt_score(
+  p_completion_id bigint,
+  p_image_ids bigint[],
+  p_status text,
+  p_duration_seconds integer,
+  p_submitted_late boolean
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  score_percentage numeric,
+  passed boolean,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer,
+  field_scores jsonb,
+  submitted_late boolean
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_completion user_exam_completions%rowtype;
+  v_strategy text;
+  v_score_row record;
+  v_score numeric;
+begin
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id;
+
+  select e.scoring_strategy into v_strategy
+  from exams e
+  where e.id = v_completion.exam_id;
+
+  perform submit_attempt_rows(p_completion_id, p_image_ids);
+
+  select * into v_score_row
+  from score_attempt_images(v_completion.annotator_id, p_image_ids, v_strategy);
+
+  delete from exam_attempt_images where completion_id = p_completion_id;
+  insert into exam_attempt_images (completion_id, image_id, position)
+  select p_completion_id, x.image_id, x.position::integer
+  from unnest(p_image_ids) with ordinality as x (image_id, position);
+
+  update user_exam_completions
+     set status = p_status,
+         duration_seconds = p_duration_seconds,
+         completed_at = now(),
+         submitted_late = p_submitted_late,
+         total_effective_keystrokes = v_score_row.total_effective_keystrokes,
+         total_answer_key_keystrokes = v_score_row.total_answer_key_keystrokes,
+         field_scores = v_score_row.field_scores,
+         assigned_image_id = p_image_ids[1],
+         retake_count = case
+           when v_completion.status = 'started' then v_completion.retake_count
+           else coalesce(v_completion.retake_count, 0) + 1
+         end
+   where id = p_completion_id;
+
+  v_score := case
+    when v_score_row.total_answer_key_keystrokes > 0
+      then (v_score_row.total_effective_keystrokes::numeric / v_score_row.total_answer_key_keystrokes) * 100
+    else 0
+  end;
+
+  return query select
+    v_score_row.total_effective_keystrokes,
+    v_score_row.total_answer_key_keystrokes,
+    v_score,
+    not p_submitted_late and v_score >= attempt_passing_score(v_completion.exam_id, v_completion.annotator_id),
+    v_score_row.unmatched_user_rows,
+    v_score_row.unmatched_key_rows,
+    v_score_row.field_scores,
+    p_submitted_late;
+end;
+$$;
+
+-- Closes an expired attempt on the images it was given.
+create or replace function public.close_expired_exam_attempt(p_completion_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completion user_exam_completions%rowtype;
+begin
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id
+  for update;
+
+  -- Attempts started before images were assigned here only know their first.
+  perform record_attempt_score(
+    p_completion_id,
+    coalesce(v_completion.session_image_ids, array[v_completion.assigned_image_id]),
+    'timed_out',
+    floor(extract(epoch from v_completion.deadline_at - v_completion.started_at))::integer,
+    true
+  );
+end;
+$$;
+
+-- Also returns the images of the attempt: picked when a new attempt opens,
+-- and the same ones again while it runs. A retake the annotator cancelled
+-- (end_exam_session) gets new images, and is not closed when it expires, as
+-- cancelling leaves the previous score in place.
+drop function if exists public.start_exam_timer(bigint);
+create function public.start_exam_timer(p_completion_id bigint)
+returns table (
+  started_at timestamptz,
+  deadline_at timestamptz,
+  server_now timestamptz,
+  image_ids bigint[]
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_completion user_exam_completions%rowtype;
+  v_is_new_attempt boolean := false;
+begin
+  perform assert_completion_access(p_completion_id);
+
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id
+  for update;
+
+  if not found then
+    raise exception 'Exam attempt % does not exist.', p_completion_id;
+  end if;
+
+  if v_completion.started_at is not null
+     and (v_completion.completed_at is null or v_completion.completed_at < v_completion.started_at)
+     and now() > v_completion.deadline_at + exam_deadline_grace() then
+    if v_completion.status = 'started' or v_completion.session_image_ids is not null then
+      perform close_expired_exam_attempt(p_completion_id);
+    end if;
+    perform open_exam_timer(p_completion_id);
+    v_is_new_attempt := true;
+  elsif v_completion.started_at is null
+     or (v_completion.completed_at is not null and v_completion.completed_at >= v_completion.started_at) then
+    perform open_exam_timer(p_completion_id);
+    v_is_new_attempt := true;
+  end if;
+
+  update user_exam_completions c
+     set session_image_ids = assign_attempt_images(c.id)
+   where c.id = p_completion_id
+     and (v_is_new_attempt or c.session_image_ids is null);
+
+  return query
+  select c.started_at, c.deadline_at, now(), c.session_image_ids
+  from user_exam_completions c
+  where c.id = p_completion_id;
+end;
+$$;
+
+-- Scores the images start_exam_timer gave the attempt, so the client no
+-- longer says which images to score.
+drop function if exists public.finalize_exam_attempt(bigint, bigint, text, integer);
+drop function if exists public.assert_attempt_can_finalize(bigint, bigint, text);
+
+create function public.assert_attempt_can_finalize(
+  p_completion_id bigint,
+  p_status text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completion user_exam_completions%rowtype;
+begin
+  perform assert_completion_access(p_completion_id);
+  if p_status not in ('submitted', 'timed_out') then
+    raise exception 'Invalid completion status: %', p_status;
+  end if;
+
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id
+  for update;
+
+  if not found then
+    raise exception 'Exam attempt % does not exist.', p_completion_id;
+  end if;
+  if v_completion.status <> 'started'
+     and (v_completion.started_at is null or v_completion.completed_at >= v_completion.started_at) then
+    raise exception 'This exam attempt has already been submitted.';
+  end if;
+  if coalesce(cardinality(v_completion.session_image_ids), 0) = 0 then
+    raise exception 'This exam attempt has not been given its images. Please start it again.';
+  end if;
+end;
+$$;
+
+create function public.finalize_exam_attempt(
+  p_completion_id bigint,
+  p_status text,
+  p_duration_seconds integer
+)
+returns table (
+  total_effective_keystrokes integer,
+  total_answer_key_keystrokes integer,
+  score_percentage numeric,
+  passed boolean,
+  unmatched_user_rows integer,
+  unmatched_key_rows integer,
+  field_scores jsonb,
+  submitted_late boolean
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completion user_exam_completions%rowtype;
+begin
+  perform assert_attempt_can_finalize(p_completion_id, p_status);
+
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id;
+
+  -- Attempts started before the timer existed fall back to the client's numbers.
+  return query
+  select * from record_attempt_score(
+    p_completion_id,
+    v_completion.session_image_ids,
+    p_status,
+    coalesce(floor(extract(epoch from now() - v_completion.started_at))::integer, p_duration_seconds),
+    coalesce(now() > v_completion.deadline_at + exam_deadline_grace(), false)
+  );
+end;
+$$;
+
+create or replace function public.rescore_exam(p_exam_id bigint)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_strategy text;
+  v_completion record;
+  v_score_row record;
+  v_rescored integer := 0;
+begin
+  select scoring_strategy into v_strategy from exams where id = p_exam_id;
+
+  for v_completion in
+    select id, annotator_id
+    from user_exam_completions
+    where exam_id = p_exam_id
+      and status in ('submitted', 'timed_out')
+  loop
+    select * into v_score_row
+    from score_attempt_images(v_completion.annotator_id, attempt_image_ids(v_completion.id), v_strategy);
+
+    update user_exam_completions
+       set total_effective_keystrokes = v_score_row.total_effective_keystrokes,
+           total_answer_key_keystrokes = v_score_row.total_answer_key_keystrokes,
+           field_scores = v_score_row.field_scores
+     where id = v_completion.id;
+    v_rescored := v_rescored + 1;
+  end loop;
+
+  return v_rescored;
+end;
+$$;
+
+create or replace function public.compare_scoring_strategies(p_exam_id bigint)
+returns table (
+  annotator_id bigint,
+  liftapp_user_id text,
+  prefix_score numeric,
+  levenshtein_score numeric,
+  exact_score numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform assert_admin_permission('view_analytics');
+
+  return query
+  select
+    c.annotator_id::bigint,
+    a.liftapp_user_id::text,
+    case when p.total_answer_key_keystrokes > 0
+      then p.total_effective_keystrokes::numeric / p.total_answer_key_keystrokes * 100 else 0 end,
+    case when l.total_answer_key_keystrokes > 0
+      then l.total_effective_keystrokes::numeric / l.total_answer_key_keystrokes * 100 else 0 end,
+    case when x.total_answer_key_keystrokes > 0
+      then x.total_effective_keystrokes::numeric / x.total_answer_key_keystrokes * 100 else 0 end
+  from user_exam_completions c
+  join annotators a on a.id = c.annotator_id
+  cross join lateral score_attempt_images(c.annotator_id, attempt_image_ids(c.id), 'prefix') p
+  cross join lateral score_attempt_images(c.annotator_id, attempt_image_ids(c.id), 'levenshtein') l
+  cross join lateral score_attempt_images(c.annotator_id, attempt_image_ids(c.id), 'exact') x
+  where c.exam_id = p_exam_id
+    and c.status in ('submitted', 'timed_out')
+    and admin_can_see_user_id(a.liftapp_user_id)
+  order by a.liftapp_user_id;
+end;
+$$;
+
+-- Answer-key rows of every image in the attempt, so each image can be reviewed.
+-- Admins need view_answer_keys and must be able to see the annotator.
+drop function if exists public.get_attempt_review(bigint);
+create function public.get_attempt_review(p_completion_id bigint)
+returns table (
+  id bigint,
+  image_id bigint,
+  client_row_id text,
+  row_data jsonb
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() = 'authenticated' then
+    if not exists (
+      select 1
+      from user_exam_completions c
+      where c.id = p_completion_id
+        and admin_has_permission('view_answer_keys')
+        and admin_can_see_annotator(c.annotator_id)
+    ) then
+      raise exception 'Your admin role does not allow viewing this answer key.';
+    end if;
+  else
+    perform assert_completion_access(p_completion_id);
+  end if;
+  if not exam_attempt_is_locked(p_completion_id) then
+    raise exception 'Answers are only available after the attempt has been submitted.';
+  end if;
+
+  return query
+  select a.id, a.image_id, a.client_row_id, a.row_data::jsonb
+  from answer_key_rows a
+  join exam_attempt_images i on i.image_id = a.image_id
+  where i.completion_id = p_completion_id
+  order by i.position, a.id;
+end;
+$$;
+
+drop function if exists public.save_exam_definition(bigint, text, text, text, text, jsonb, integer, numeric, jsonb, text[], boolean, jsonb);
+create function public.save_exam_definition(
+  p_exam_id bigint,
+  p_exam_code text,
+  p_name text,
+  p_description text,
+  p_icon_key text,
+  p_columns jsonb,
+  p_duration_seconds integer,
+  p_passing_score numeric,
+  p_column_renames jsonb default '{}'::jsonb,
+  p_removed_column_ids text[] default '{}',
+  p_migrate_row_data boolean default false,
+  p_cohort_settings jsonb default '[]'::jsonb,
+  p_images_per_attempt integer default 1
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_exam_id bigint;
+begin
+  perform assert_admin_permission('manage_exams');
+  if p_images_per_attempt is null or p_images_per_attempt not between 1 and 20 then
+    raise exception 'An attempt covers between 1 and 20 images.';
+  end if;
+
+  v_exam_id := write_exam_definition(
+    p_exam_id, p_exam_code, p_name, p_description, p_icon_key, p_columns,
+    p_duration_seconds, p_passing_score, p_column_renames, p_removed_column_ids, p_migrate_row_data
+  );
+  update exams
+     set images_per_attempt = p_images_per_attempt
+   where id = v_exam_id;
+  perform replace_exam_cohort_settings(v_exam_id, p_cohort_settings);
+
+  if p_exam_id is not null then
+    perform rescore_exam(v_exam_id);
+  end if;
+  return v_exam_id;
+end;
+$$;
+
+revoke all on function public.attempt_image_ids(bigint) from public, anon, authenticated;
+revoke all on function public.score_attempt_images(bigint, bigint[], text) from public, anon, authenticated;
+revoke all on function public.assign_attempt_images(bigint) from public, anon, authenticated;
+revoke all on function public.submit_attempt_rows(bigint, bigint[]) from public, anon, authenticated;
+revoke all on function public.record_attempt_score(bigint, bigint[], text, integer, boolean) from public, anon, authenticated;
+revoke all on function public.close_expired_exam_attempt(bigint) from public, anon, authenticated;
+revoke all on function public.assert_attempt_can_finalize(bigint, text) from public, anon, authenticated;
+revoke all on function public.start_exam_timer(bigint) from public;
+grant execute on function public.start_exam_timer(bigint) to anon, authenticated;
+revoke all on function public.finalize_exam_attempt(bigint, text, integer) from public;
+grant execute on function public.finalize_exam_attempt(bigint, text, integer) to anon, authenticated;
+revoke all on function public.rescore_exam(bigint) from public, anon, authenticated;
+revoke all on function public.get_attempt_review(bigint) from public;
+grant execute on function public.get_attempt_review(bigint) to anon, authenticated;
+revoke all on function public.save_exam_definition(bigint, text, text, text, text, jsonb, integer, numeric, jsonb, text[], boolean, jsonb, integer) from public, anon;
+grant execute on function public.save_exam_definition(bigint, text, text, text, text, jsonb, integer, numeric, jsonb, text[], boolean, jsonb, integer) to authenticated;
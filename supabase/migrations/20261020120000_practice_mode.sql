@@ -0,0 +1,85 @@
+-- Practice mode.
+--
+-- New annotators learned the conventions by failing real attempts. Admins can
+-- now mark answer-key images as practice images. Practice images are never
+-- part of a scored attempt, and their answer keys can be read while typing, so
+-- the practice screen can mark each cell as it is completed. Practice work is
+-- kept in the browser only: nothing is written to user_exam_completions or
+-- annotation_rows.
+--
+-- start_exam_and_assign_image is given the practice images as excluded images,
+-- and assign_attempt_images never picks one.
+
+alter table public.images
+  add column if not exists is_practice boolean not null default false;
+
+create or replace function public.assign_attempt_images(p_completion_id bigint)
+returns bigint[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completion user_exam_completions%rowtype;
+  v_previous_image_ids bigint[];
+begin
+  select * into v_completion
+  from user_exam_completions
+  where id = p_completion_id;
+
+  v_previous_image_ids := attempt_image_ids(p_completion_id);
+
+  return (
+    select coalesce(array_agg(p.image_id order by p.position), array[]::bigint[])
+    from (
+      select
+        i.id as image_id,
+        row_number() over (
+          order by
+            v_completion.status = 'started' and i.id = v_completion.assigned_image_id desc,
+            i.id = any (v_previous_image_ids),
+            random()
+        ) as position
+      from images i
+      where i.exam_id = v_completion.exam_id
+        and not i.is_practice
+    ) p
+    join exams e on e.id = v_completion.exam_id
+    where p.position <= e.images_per_attempt
+  );
+end;
+$$;
+
+-- The answer key of a practice image, for the feedback shown while typing.
+-- Keys of scored images stay behind get_attempt_review.
+create or replace function public.get_practice_answer_key(p_image_id bigint)
+returns table (
+  id bigint,
+  client_row_id text,
+  row_data jsonb
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() = 'authenticated' then
+    perform assert_admin_permission('view_answer_keys');
+  elsif current_annotator_id() is null then
+    raise exception 'Please sign in again to practice.';
+  end if;
+  if not exists (select 1 from images i where i.id = p_image_id and i.is_practice) then
+    raise exception 'Only practice images can be checked while typing.';
+  end if;
+
+  return query
+  select a.id, a.client_row_id, a.row_data::jsonb
+  from answer_key_rows a
+  where a.image_id = p_image_id
+  order by a.id;
+end;
+$$;
+
+revoke all on function public.get_practice_answer_key(bigint) from public;
+grant execute on function public.get_practice_answer_key(bigint) to anon, authenticated;
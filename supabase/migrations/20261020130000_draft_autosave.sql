@@ -0,0 +1,178 @@
+-- Server-synced drafts.
+--
+-- Drafts used to live only in localStorage, written when the page was closed,
+-- so a crash or a cleared browser lost the work. The exam page now autosaves
+-- each image's rows as annotation_rows with is_submitted = false, and restores
+-- whichever draft is newer: the local copy or the server one.
+--
+-- The drafts are what an attempt submits: finalizing it replaces the
+-- submitted rows of its images with their drafts, in the transaction that
+-- scores it, so rows deleted during a retake are not scored. Until then the
+-- earlier rows stay submitted, and cancelling the retake keeps the earlier
+-- score with its rows.
+
+alter table public.annotation_rows
+  add column if not exists updated_at timestamptz not null default now();
+
+-- Annotators write their rows only through save_annotation_draft, and only
+-- the server submits them. A row written directly could be marked submitted
+-- after the attempt's answer key was shown, and count once the exam is
+-- rescored.
+drop policy if exists "Annotators manage their own rows" on public.annotation_rows;
+create policy "Annotators read their own rows"
+  on public.annotation_rows for select
+  to anon
+  using (annotator_id = current_annotator_id());
+
+revoke insert, update, delete on public.annotation_rows from anon;
+
+-- A draft row sits beside the submitted row it was edited from, under the
+-- same client_row_id.
+do $$
+declare
+  v_constraint text;
+begin
+  for v_constraint in
+    select con.conname
+    from pg_constraint con
+    where con.conrelid = 'public.annotation_rows'::regclass
+      and con.contype = 'u'
+      and (
+        select array_agg(att.attname::text order by att.attname)
+        from pg_attribute att
+        where att.attrelid = con.conrelid
+          and att.attnum = any (con.conkey)
+      ) = array['annotator_id', 'client_row_id', 'image_id']
+  loop
+    execute format('alter table public.annotation_rows drop constraint %I', v_constraint);
+  end loop;
+end;
+$$;
+
+create unique index if not exists annotation_rows_client_row_key
+  on public.annotation_rows (annotator_id, image_id, is_submitted, client_row_id);
+
+-- An attempt's drafts start as copies of the rows last submitted for its
+-- images, so an expired attempt, closed without the browser saving anything,
+-- is scored on its latest drafts and keeps the rows of images it left alone.
+-- The drafts of images an attempt gives up (end_exam_session) are dropped.
+create or replace function public.reset_attempt_drafts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from annotation_rows a
+  where a.annotator_id = new.annotator_id
+    and not a.is_submitted
+    and a.image_id = any (coalesce(old.session_image_ids, '{}') || coalesce(new.session_image_ids, '{}'));
+
+  insert into annotation_rows (annotator_id, image_id, client_row_id, row_data, is_submitted, updated_at)
+  select a.annotator_id, a.image_id, a.client_row_id, a.row_data, false, a.updated_at
+  from annotation_rows a
+  where a.annotator_id = new.annotator_id
+    and a.is_submitted
+    and a.image_id = any (coalesce(new.session_image_ids, '{}'))
+  order by a.id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists reset_attempt_drafts on public.user_exam_completions;
+create trigger reset_attempt_drafts
+  after update of session_image_ids on public.user_exam_completions
+  for each row execute function public.reset_attempt_drafts();
+
+-- Replaces the signed-in annotator's draft of one image of their running
+-- attempt with p_rows, a JSON array of {client_row_id, row_data}. Returns the
+-- time the draft was saved.
+create or replace function public.save_annotation_draft(p_image_id bigint, p_rows jsonb)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_annotator_id bigint := current_annotator_id();
+  v_saved_at timestamptz := now();
+begin
+  if v_annotator_id is null then
+    raise exception 'Please sign in again to save your work.';
+  end if;
+  if jsonb_typeof(p_rows) is distinct from 'array' then
+    raise exception 'Draft rows must be a JSON array.';
+  end if;
+  -- Only while the attempt given the image runs, so rows cannot change after
+  -- the answer key has been shown
+  if not exists (
+    select 1
+    from user_exam_completions c
+    where c.annotator_id = v_annotator_id
+      and p_image_id = any (c.session_image_ids)
+      and c.started_at is not null
+      and (c.completed_at is null or c.completed_at < c.started_at)
+      and now() <= c.deadline_at + exam_deadline_grace()
+  ) then
+    raise exception 'This image is not part of your running exam attempt.';
+  end if;
+
+  delete from annotation_rows a
+  where a.annotator_id = v_annotator_id
+    and a.image_id = p_image_id
+    and not a.is_submitted;
+
+  -- Inserted in the order shown, which is the order rows are scored in
+  insert into annotation_rows (annotator_id, image_id, client_row_id, row_data, is_submitted, updated_at)
+  select v_annotator_id, p_image_id, r.value ->> 'client_row_id', r.value -> 'row_data', false, v_saved_at
+  from jsonb_array_elements(p_rows) with ordinality as r (value, position)
+  order by r.position;
+
+  return v_saved_at;
+end;
+$$;
+
+-- Also makes the drafts of the attempt's images their submitted rows. Rows
+-- with nothing typed in them, or only the image's file name, are dropped.
+create or replace function public.submit_attempt_rows(p_completion_id bigint, p_image_ids bigint[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_annotator_id bigint;
+begin
+  select c.annotator_id into v_annotator_id
+  from user_exam_completions c
+  where c.id = p_completion_id;
+
+  delete from annotation_rows a
+  where a.annotator_id = v_annotator_id
+    and (
+      (a.image_id = any (attempt_image_ids(p_completion_id)) and a.image_id <> all (p_image_ids))
+      or (a.image_id = any (p_image_ids) and a.is_submitted)
+      or (
+        a.image_id = any (p_image_ids)
+        and not exists (
+          select 1
+          from images i, jsonb_each_text(a.row_data) v
+          where i.id = a.image_id
+            and btrim(v.value) <> ''
+            and v.value is distinct from i.original_filename
+        )
+      )
+    );
+
+  update annotation_rows a
+     set is_submitted = true
+   where a.annotator_id = v_annotator_id
+     and a.image_id = any (p_image_ids);
+end;
+$$;
+
+revoke all on function public.reset_attempt_drafts() from public, anon, authenticated;
+revoke all on function public.submit_attempt_rows(bigint, bigint[]) from public, anon, authenticated;
+revoke all on function public.save_annotation_draft(bigint, jsonb) from public;
+grant execute on function public.save_annotation_draft(bigint, jsonb) to anon;
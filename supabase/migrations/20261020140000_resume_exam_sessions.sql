@@ -0,0 +1,107 @@
+-- Resume a running exam on any device.
+--
+-- The running attempt used to be known only to the browser tab that started it
+-- (sessionStorage), so a closed tab or a reassigned lab machine lost the
+-- session while the timer kept running on the server. The server already
+-- knows the images of a running attempt (session_image_ids, given out by
+-- start_exam_timer), so get_active_exam_session rebuilds the session on
+-- sign-in: the images, the deadline and, for a retake, the earlier attempt it
+-- replaces. The draft rows come from annotation_rows.
+
+-- True while the attempt's timer runs: started, not finalized since, and not
+-- past the deadline plus grace.
+create or replace function public.exam_attempt_is_running(p_completion user_exam_completions)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select p_completion.started_at is not null
+    and (p_completion.completed_at is null or p_completion.completed_at < p_completion.started_at)
+    and now() <= p_completion.deadline_at + exam_deadline_grace();
+$$;
+
+-- Forgets the images of a running attempt the annotator walked away from
+-- (a cancelled retake), so it is no longer offered for resuming.
+create or replace function public.end_exam_session(p_completion_id bigint)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update user_exam_completions c
+     set session_image_ids = null
+   where c.id = p_completion_id
+     and c.annotator_id = current_annotator_id()
+     and c.status <> 'started';
+$$;
+
+-- The signed-in annotator's running attempt, if any, with everything the
+-- client needs to rebuild the session.
+create or replace function public.get_active_exam_session()
+returns table (
+  completion_id bigint,
+  exam_id bigint,
+  images jsonb,
+  deadline_at timestamptz,
+  server_now timestamptz,
+  is_retake boolean,
+  old_image_ids bigint[],
+  old_status text,
+  old_duration_seconds integer,
+  old_completed_at timestamptz,
+  old_retake_count integer,
+  old_effective_keystrokes integer,
+  old_total_keystrokes integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if current_annotator_id() is null then
+    raise exception 'Please sign in again.';
+  end if;
+
+  return query
+  select
+    c.id::bigint,
+    c.exam_id::bigint,
+    (
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', i.id,
+          'storage_path', i.storage_path,
+          'original_filename', i.original_filename,
+          'exam_id', i.exam_id
+        ) order by x.position
+      )
+      from unnest(c.session_image_ids) with ordinality as x (image_id, position)
+      join images i on i.id = x.image_id
+    ),
+    c.deadline_at,
+    now(),
+    c.completed_at is not null,
+    case when c.completed_at is not null then attempt_image_ids(c.id) end,
+    case when c.completed_at is not null then c.status::text end,
+    c.duration_seconds::integer,
+    c.completed_at,
+    coalesce(c.retake_count, 0)::integer,
+    c.total_effective_keystrokes::integer,
+    c.total_answer_key_keystrokes::integer
+  from user_exam_completions c
+  where c.annotator_id = current_annotator_id()
+    and c.session_image_ids is not null
+    and exam_attempt_is_running(c)
+  order by c.started_at desc
+  limit 1;
+end;
+$$;
+
+revoke all on function public.exam_attempt_is_running(user_exam_completions) from public, anon, authenticated;
+revoke all on function public.end_exam_session(bigint) from public;
+revoke all on function public.get_active_exam_session() from public;
+grant execute on function public.end_exam_session(bigint) to anon;
+grant execute on function public.get_active_exam_session() to anon;
@@ -0,0 +1,79 @@
+-- Special-character sets per exam.
+--
+-- The exam page used to offer seven fixed Spanish characters. Each exam can
+-- now list its own sets in exams.special_char_sets, a JSON array of
+-- SpecialCharSet objects (see types.ts):
+--   { "name": "Portuguese", "languages": ["portuguese", "pt"],
+--     "characters": [{ "lower": "ã", "upper": "Ã", "key": "1" }] }
+-- A set with languages is offered in rows whose language column holds one of
+-- them. An empty array keeps the built-in sets of the app.
+
+alter table public.exams
+  add column if not exists special_char_sets jsonb not null default '[]'::jsonb;
+
+drop function if exists public.save_exam_definition(bigint, text, text, text, text, jsonb, integer, numeric, jsonb, text[], boolean, jsonb, integer);
+create function public.save_exam_definition(
+  p_exam_id bigint,
+  p_exam_code text,
+  p_name text,
+  p_description text,
+  p_icon_key text,
+  p_columns jsonb,
+  p_duration_seconds integer,
+  p_passing_score numeric,
+  p_column_renames jsonb default '{}'::jsonb,
+  p_removed_column_ids text[] default '{}',
+  p_migrate_row_data boolean default false,
+  p_cohort_settings jsonb default '[]'::jsonb,
+  p_images_per_attempt integer default 1,
+  p_special_char_sets jsonb default '[]'::jsonb
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_exam_id bigint;
+begin
+  perform assert_admin_permission('manage_exams');
+  if p_images_per_attempt is null or p_images_per_attempt not between 1 and 20 then
+    raise exception 'An attempt covers between 1 and 20 images.';
+  end if;
+  if jsonb_typeof(coalesce(p_special_char_sets, '[]'::jsonb)) <> 'array' then
+    raise exception 'Special character sets must be a JSON array.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_special_char_sets, '[]'::jsonb)) s
+    where coalesce(trim(s ->> 'name'), '') = ''
+       or jsonb_typeof(s -> 'characters') is distinct from 'array'
+       or jsonb_array_length(s -> 'characters') = 0
+       or exists (
+         select 1
+         from jsonb_array_elements(s -> 'characters') c
+         where coalesce(c ->> 'lower', '') = ''
+       )
+  ) then
+    raise exception 'Each special character set needs a name and at least one character.';
+  end if;
+
+  v_exam_id := write_exam_definition(
+    p_exam_id, p_exam_code, p_name, p_description, p_icon_key, p_columns,
+    p_duration_seconds, p_passing_score, p_column_renames, p_removed_column_ids, p_migrate_row_data
+  );
+  update exams
+     set images_per_attempt = p_images_per_attempt,
+         special_char_sets = coalesce(p_special_char_sets, '[]'::jsonb)
+   where id = v_exam_id;
+  perform replace_exam_cohort_settings(v_exam_id, p_cohort_settings);
+
+  if p_exam_id is not null then
+    perform rescore_exam(v_exam_id);
+  end if;
+  return v_exam_id;
+end;
+$$;
+
+revoke all on function public.save_exam_definition(bigint, text, text, text, text, jsonb, integer, numeric, jsonb, text[], boolean, jsonb, integer, jsonb) from public, anon;
+grant execute on function public.save_exam_definition(bigint, text, text, text, text, jsonb, integer, numeric, jsonb, text[], boolean, jsonb, integer, jsonb) to authenticated;
@@ -4,17 +4,96 @@ export type AppScreen =
   | "USER_LOGIN"
   | "USER_DASHBOARD"
   | "USER_EXAM"
+  | "USER_PRACTICE"
   | "ADMIN_LOGIN"
   | "ADMIN_DASHBOARD";
 
-export type AdminTab = "ANSWER_KEYS" | "ANNOTATORS" | "ANALYTICS";
-
+export type AdminTab =
+  | "ANSWER_KEYS"
+  | "ANNOTATORS"
+  | "ANALYTICS"
+  | "EXAMS"
+  | "ADMINS"
+  | "ACTIVITY"
+  | "SITES";
+
+// Roles stored in public.admin_profiles; see ADMIN_ROLE_PERMISSIONS
+export type AdminRole =
+  | "super_admin"
+  | "answer_key_author"
+  | "reviewer"
+  | "site_coordinator"
+  | "analyst";
+
+export type AdminPermission =
+  | "view_answer_keys"
+  | "manage_answer_keys" // Create, edit and delete answer keys
+  | "view_annotators"
+  | "manage_annotators" // Rename annotators, issue login codes, import the roster
+  | "view_analytics"
+  | "manage_exams" // Exam editor and scoring strategies
+  | "manage_admins" // Assign admin roles
+  | "view_activity" // Read the audit log
+  | "manage_sites"; // Add and edit partner sites
+
+// Outcome of annotator_sign_in
+export type AnnotatorSignInStatus =
+  | "ok"
+  | "pin_required" // A valid login code was entered; a new PIN must be chosen
+  | "invalid" // Wrong PIN, or wrong or expired code
+  | "locked" // Too many failed attempts; try again later
+  | "not_rostered"; // The ID is not on the imported roster
+
+// How a user cell is credited against its answer-key cell
+export type ScoringStrategy = "prefix" | "levenshtein" | "exact";
+
+// An exam definition, loaded from the public.exams catalog
 export interface Exam {
   id: string; // e.g., 'baptism', 'marriage' (corresponds to exam_code in DB)
   name: string; // Display name, e.g., "Baptism Records"
   description: string;
-  icon: React.ReactNode; // Icon for the dashboard card
-  dbId?: number; // Database primary key for the exam
+  iconKey: string; // Key into EXAM_ICONS for the dashboard card
+  dbId: number; // Database primary key for the exam
+  columns: AnnotationColumn[]; // Column layout of the annotation table
+  durationSeconds: number;
+  passingScore: number; // Percentage needed to pass
+  scoringStrategy: ScoringStrategy;
+  imagesPerAttempt: number; // Images annotated in one attempt
+  cohortSettings: ExamCohortSetting[]; // Overrides for groups of annotators
+  specialCharSets: SpecialCharSet[]; // Empty to use DEFAULT_SPECIAL_CHAR_SETS
+}
+
+// A character annotators insert from the palette or with Ctrl+Alt+key
+export interface SpecialCharacter {
+  lower: string;
+  upper?: string; // Inserted with Shift; omitted when there is no capital form
+  key?: string; // Default shortcut key; annotators can rebind it
+}
+
+// A named group of special characters. A set with languages is offered in rows
+// whose language column holds one of them; a set without is always offered.
+export interface SpecialCharSet {
+  name: string;
+  languages?: string[]; // Lowercase values of the language column
+  characters: SpecialCharacter[];
+}
+
+// Shortcut keys an annotator chose, keyed by the character's lower form; an
+// empty string removes the shortcut
+export type SpecialCharBindings = Record<string, string>;
+
+// Overrides an exam's duration and/or passing score for annotators whose
+// LiftApp user id starts with the prefix; null keeps the exam's value
+export interface ExamCohortSetting {
+  userIdPrefix: string;
+  durationSeconds: number | null;
+  passingScore: number | null;
+}
+
+// The duration and passing score that apply to one annotator
+export interface ExamSettings {
+  durationSeconds: number;
+  passingScore: number;
 }
 
 // Represents a single image task within an exam session
@@ -27,7 +106,7 @@ export interface ImageTask {
 
 export interface CompletionToOverride {
   completionId: number;
-  oldImageId: number;
+  oldImageIds: number[]; // Images of the attempt being retaken
   oldStatus: "submitted" | "timed_out";
   oldDuration: number | null;
   oldCompletedAt: string | null;
@@ -39,18 +118,56 @@ export interface CompletionToOverride {
 // Represents an active, timed exam session for a user
 export interface ActiveExamSession {
   exam: Exam;
-  assignedTask: ImageTask;
-  sessionEndTime: number; // UTC timestamp (e.g., from Date.now()) when the session expires
+  assignedTasks: ImageTask[]; // The attempt's images, in the order they are shown
+  completionId: number; // The user_exam_completions row this attempt is recorded on
+  sessionEndTime: number; // Server deadline as a UTC timestamp in milliseconds
+  serverClockOffsetMs: number; // Server time minus local time, added to Date.now() for the countdown
+  settings: ExamSettings; // Time allowed and pass mark for this attempt
   annotatorDbId: number;
   userId: string;
   completionToOverride?: CompletionToOverride | null;
 }
 
+// The server-side countdown of an attempt, as stored on the session
+export type ExamClock = Pick<ActiveExamSession, "sessionEndTime" | "serverClockOffsetMs">;
+
+// Cleanup applied to a cell value before it is compared with the answer key
+export type NormalizationRule =
+  | "trim" // Remove leading and trailing whitespace
+  | "collapse_whitespace" // Turn runs of whitespace into a single space
+  | "casefold" // Ignore letter case
+  | "strip_diacritics" // Treat "María" and "Maria" as the same
+  | "month_name"; // Map month names, abbreviations and numbers to "Jan".."Dec"
+
+// What a column holds; decides how its cells are validated while typing
+export type ColumnType =
+  | "text"
+  | "number"
+  | "date"
+  | "day" // Day of the month, 1-31
+  | "month" // Month number or name, e.g. "3", "Mar", "marzo"
+  | "year" // Four-digit year within the column's min/max
+  | "age" // Number with an optional unit, e.g. "34", "6 m", "2 weeks"
+  | "choice"; // One of the column's options, e.g. M/F/U
+
 export interface AnnotationColumn {
   id: string; // Unique identifier for the column, e.g., 'event_D'
   label: string; // Display name for the column header, e.g., 'Event_D'
-  type: "text" | "number" | "date"; // Input type, can be expanded
+  type: ColumnType;
   width?: string; // Optional width for the column e.g. 'w-24', 'w-48'
+  options?: string[]; // Allowed values of a "choice" column
+  min?: number; // Lowest allowed value of a "number" or "year" column
+  max?: number; // Highest allowed value of a "number" or "year" column
+  normalization?: NormalizationRule[]; // Defaults to DEFAULT_NORMALIZATION_RULES
+  required?: boolean; // Annotators are expected to fill this column
+  unscored?: boolean; // Shown and saved, but never counted in the score
+}
+
+// A cell that does not fit its column's type, found before submitting
+export interface CellValidationIssue {
+  rowIndex: number;
+  columnId: string;
+  message: string;
 }
 
 // Represents a single cell's data; keys are column IDs
@@ -81,6 +198,24 @@ export interface AnswerKeyEntry {
 
   dbImageId?: number; // Primary key from public.images table
   dbExamId?: number; // Primary key from public.exams table
+  isPractice?: boolean; // Practice images are never used in scored attempts
+}
+
+// For Admin Dashboard: Exam editor
+export interface ExamDefinitionEntry {
+  dbId?: number; // Undefined when creating a new exam
+  examCode: string;
+  name: string;
+  description: string;
+  iconKey: string;
+  columns: AnnotationColumn[];
+  durationSeconds: number;
+  passingScore: number;
+  imagesPerAttempt: number;
+  cohortSettings: ExamCohortSetting[];
+  specialCharSets: SpecialCharSet[];
+  columnRenames: Record<string, string>; // Old column id -> new column id
+  removedColumnIds: string[]; // Previously saved column ids that were deleted
 }
 
 // For displaying fetched answer key summaries in the admin dashboard list
@@ -92,6 +227,7 @@ export interface FetchedAnswerKeySummary {
   examCode: string;
   examName: string;
   answerRowCount: number;
+  isPractice: boolean;
   imageUrl?: string; // Will be populated
 }
 
@@ -103,6 +239,7 @@ export interface UserExamScoreMetrics {
   duration_seconds?: number; // Duration of the exam attempt in seconds
   retakes?: number; // Number of retakes for this specific exam
   completed_at?: string | null; // The date and time the exam was completed
+  submitted_late?: boolean; // Finished after the server deadline; never counts as a pass
 }
 
 export interface AnnotatorInfo {
@@ -110,6 +247,11 @@ export interface AnnotatorInfo {
   liftapp_user_id: string;
   created_at: string;
   overall_completion_date: string | null; // New field for storing the completion date
+  full_name: string | null;
+  site: string | null;
+  cohort: string | null;
+  start_date: string | null; // YYYY-MM-DD
+  rostered_at: string | null; // Null for annotators created before the roster import
 
   // Overall scores
   total_images_attempted_overall?: number;
@@ -129,6 +271,41 @@ export interface AnalyticsData {
   totalSubmittedAnnotationRows: number;
   submissionsPerExam: { name: string; submission_count: number }[];
   annotatorRegistrations: { date: string; count: number }[];
+  // Field-level accuracy across all finished attempts, keyed by exam_code
+  fieldAccuracyByExam: Record<string, FieldAccuracy[]>;
+  siteRollups: SiteRollup[];
+}
+
+export interface FieldAccuracy {
+  columnId: string;
+  matchedKeystrokes: number;
+  totalKeystrokes: number;
+  attemptCount: number;
+}
+
+// One annotator as listed in an imported roster CSV
+export interface RosterEntry {
+  liftappUserId: string;
+  fullName: string;
+  site: string;
+  cohort: string;
+  startDate: string; // YYYY-MM-DD, or empty
+}
+
+// How a roster row compares with the annotators already in the database
+export type RosterPreviewStatus =
+  | "new" // Not in the database yet
+  | "unchanged" // Already on the roster with the same details
+  | "fill" // Exists; the import only fills in empty fields
+  | "conflict" // Exists with different details
+  | "duplicate" // Repeated in the file, or registered under an ID differing only by case
+  | "invalid"; // Missing ID or unreadable start date
+
+export interface RosterPreviewRow {
+  lineNumber: number; // Line in the CSV file, for error messages
+  entry: RosterEntry;
+  status: RosterPreviewStatus;
+  messages: string[]; // Why the row is a conflict, duplicate or invalid
 }
 
 // For Supabase Admin Login
@@ -140,8 +317,68 @@ export interface AdminCredentials {
 // For Admin profile data from Supabase
 export interface AdminProfile {
   id: string; // UUID from auth.users
-  role: string;
+  role: AdminRole | null; // Null until a super admin assigns a role
   email?: string;
+  siteIds: number[]; // Assigned sites; only limit roles in SITE_SCOPED_ADMIN_ROLES
+}
+
+// One row of public.audit_log, as shown in the Activity tab
+export interface AuditLogEntry {
+  id: number;
+  occurredAt: string;
+  actorLabel: string; // Admin email, annotator user id, or "system"
+  action: "insert" | "update" | "delete";
+  entity: string; // Table name, e.g. "answer_key_rows"
+  entityId: string | null;
+  targetLabel: string | null;
+  beforeValues: Record<string, unknown> | null; // Changed columns only, for updates
+  afterValues: Record<string, unknown> | null;
+}
+
+export interface AuditLogFilters {
+  actor: string; // Matches part of the actor label
+  entity: string; // Table name, or "all"
+  fromDate: string; // YYYY-MM-DD, inclusive
+  toDate: string; // YYYY-MM-DD, inclusive
+}
+
+// A partner site from public.sites. Annotators belong to the site whose
+// prefix is the longest match for their LiftApp user id.
+export interface Site {
+  id: number;
+  userIdPrefix: string; // e.g. "PHCBIT"
+  displayName: string;
+  location: string | null;
+  coordinatorName: string | null; // Only visible to signed-in admins
+  coordinatorEmail: string | null;
+  idMinDigits: number; // Digits allowed after the prefix
+  idMaxDigits: number;
+  isActive: boolean; // Inactive sites are hidden from the login page
+}
+
+// Form values for adding or editing a site in the Sites tab
+export type SiteDraft = Omit<Site, "id">;
+
+// Per-site totals from get_site_rollups, for the Analytics tab
+export interface SiteRollup {
+  siteId: number;
+  userIdPrefix: string;
+  displayName: string;
+  isActive: boolean;
+  annotatorCount: number;
+  completedAnnotatorCount: number; // Annotators with an overall completion date
+  finishedAttemptCount: number;
+  passedAttemptCount: number;
+  averageScore: number | null; // Null when the site has no finished attempts
+}
+
+// A Supabase Auth user as listed in the Admins tab
+export interface AdminUser {
+  userId: string;
+  email: string;
+  role: AdminRole | null;
+  lastSignInAt: string | null;
+  siteIds: number[]; // Sites a site coordinator is assigned to
 }
 
 // For User Dashboard: Scores Tab
@@ -156,6 +393,7 @@ export interface UserExamScore {
   duration_seconds?: number; // Duration of the exam attempt in seconds
   completed_at?: string; // The date and time the exam was completed
   retake_count: number; // Number of retakes
+  submitted_late: boolean; // Finished after the server deadline; never counts as a pass
 }
 
 // Props for DashboardPage
@@ -164,6 +402,7 @@ export interface DashboardPageProps {
   annotatorDbId: number; // This is the annotators.id (integer PK)
   onLogout: () => void;
   onSelectExam: (exam: Exam) => void;
+  onStartPractice: (exam: Exam) => void;
   activeSession: ActiveExamSession | null;
   onResumeExam: () => void;
 }
@@ -176,35 +415,79 @@ export interface AdminDashboardPageProps {
 
 // The info needed for the card to decide its state
 export interface ExamCompletionInfo {
-  isCompleted: boolean; // isCompleted means passed (score >= 90)
+  isCompleted: boolean; // isCompleted means passed (score >= the annotator's passing score, not late)
   score: number | null;
 }
 
 // Props for ExamCard
 export interface ExamCardProps {
   exam: Exam;
+  settings: ExamSettings; // Resolved for the logged-in annotator
   onSelectExam: (exam: Exam) => void;
+  onStartPractice: (exam: Exam) => void;
   completionInfo?: ExamCompletionInfo; // New property
   activeSession: ActiveExamSession | null;
   onResumeExam: () => void;
 }
 
+// Practice feedback for a completed cell, compared against the answer key
+export type CellFeedback = "match" | "partial" | "miss";
+
+// Characters credited versus available for one column of an attempt
+export interface FieldScore {
+  matched: number;
+  total: number;
+}
+
 export interface ExamResult {
   score: number;
   passed: boolean;
   userKeystrokes: number;
   totalKeystrokes: number;
+  unmatchedUserRows?: number; // User rows that matched no answer-key row
+  unmatchedKeyRows?: number; // Answer-key rows that no user row matched
+  fieldScores?: Record<string, FieldScore>; // Keyed by column id
+  submittedLate?: boolean; // Finished after the server deadline plus grace; never passes
+}
+
+// A user row paired with the answer-key row it matched best
+export interface RowAlignmentPair {
+  userRowIndex: number;
+  keyRowIndex: number;
+  matchedKeystrokes: number;
+}
+
+// Result of aligning user rows with answer-key rows before scoring
+export interface RowAlignment {
+  pairs: RowAlignmentPair[];
+  unmatchedUserRowIndexes: number[];
+  unmatchedKeyRowIndexes: number[];
+}
+
+// One annotator's latest attempt scored under every strategy, for comparison
+export interface StrategyComparisonRow {
+  annotatorId: number;
+  liftappUserId: string;
+  scores: Record<ScoringStrategy, number>;
 }
 
 // Props for ExamPage
 export interface ExamPageProps {
   activeSession: ActiveExamSession;
   onBackToDashboard: () => void;
-  onExamFinish: (result: ExamResult, status: "submitted" | "timed_out") => void;
+  // Finalizes the attempt on the server and resolves with the server-computed result
+  onExamFinish: (status: "submitted" | "timed_out") => Promise<ExamResult | null>;
+  onExamClose: () => void;
   onRetake: () => Promise<void>;
   onCancelRetake: () => void;
 }
 
+// Props for PracticePage
+export interface PracticePageProps {
+  exam: Exam;
+  onBackToDashboard: () => void;
+}
+
 // Props for ExamHeader
 export interface ExamHeaderProps {
   userId: string;
@@ -218,11 +501,17 @@ export interface ExamHeaderProps {
   onToolSettingChange: (setting: keyof ExamHeaderProps["toolSettings"]) => void;
   rowsCount: number;
   progress: number;
+  validationIssueCount: number; // Invalid or missing required cells in filled rows
   timeLeft: number; // Added for the timer
-  onSubmit: () => Promise<void>;
+  onSubmit: () => Promise<void>; // Summarizes validation warnings before submitting
   isSubmittingToServer: boolean;
   currentTaskForDisplay: ImageTask | undefined;
   displayStatus: DisplayStatusType;
+  autosave: AutosaveState;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   isRetakeSession: boolean;
   onCancelRetakeClick: () => void;
 }
@@ -279,12 +568,32 @@ export type DisplayStatusType =
   | "Unsaved changes"
   | "Draft saved locally"
   | "Draft loaded locally"
+  | "Draft restored from server"
   | "Previously submitted data loaded"
   | "Submitting..."
   | `Submitted at ${string}`
   | "Error submitting"
   | "Calculating score...";
 
+// Undo/redo snapshots of one image's rows, oldest first
+export interface EditHistory {
+  past: AnnotationRowData[][];
+  future: AnnotationRowData[][]; // Next redo first
+}
+
+// A draft of one image's rows, with when it was saved (epoch ms)
+export interface SavedDraft {
+  rows: AnnotationRowData[];
+  savedAt: number;
+  history?: EditHistory; // Kept in localStorage only
+}
+
+// Server autosave of drafts, shown in the exam header
+export interface AutosaveState {
+  status: "idle" | "saving" | "saved" | "error";
+  lastSavedAt: Date | null;
+}
+
 // For recording exam completion in the database
 export interface UserExamCompletionRecord {
   annotator_id: number;
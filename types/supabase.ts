@@ -15,18 +15,33 @@ export interface Database {
           liftapp_user_id: string
           created_at: string
           overall_completion_date: string | null
+          full_name: string | null
+          site: string | null
+          cohort: string | null
+          start_date: string | null
+          rostered_at: string | null
         }
         Insert: {
           id?: number
           liftapp_user_id: string
           created_at?: string
           overall_completion_date?: string | null
+          full_name?: string | null
+          site?: string | null
+          cohort?: string | null
+          start_date?: string | null
+          rostered_at?: string | null
         }
         Update: {
           id?: number
           liftapp_user_id?: string
           created_at?: string
           overall_completion_date?: string | null
+          full_name?: string | null
+          site?: string | null
+          cohort?: string | null
+          start_date?: string | null
+          rostered_at?: string | null
         }
         Relationships: []
       }
@@ -43,6 +58,11 @@ export interface Database {
           total_effective_keystrokes: number | null
           total_answer_key_keystrokes: number | null
           score_percentage: number | null
+          field_scores: Json | null
+          started_at: string | null
+          deadline_at: string | null
+          submitted_late: boolean
+          session_image_ids: number[] | null
           exams?: { exam_code: string; name: string } | null
         }
         Insert: {
@@ -57,6 +77,11 @@ export interface Database {
           total_effective_keystrokes?: number | null
           total_answer_key_keystrokes?: number | null
           score_percentage?: number | null
+          field_scores?: Json | null
+          started_at?: string | null
+          deadline_at?: string | null
+          submitted_late?: boolean
+          session_image_ids?: number[] | null
         }
         Update: {
           id?: number
@@ -70,6 +95,11 @@ export interface Database {
           total_effective_keystrokes?: number | null
           total_answer_key_keystrokes?: number | null
           score_percentage?: number | null
+          field_scores?: Json | null
+          started_at?: string | null
+          deadline_at?: string | null
+          submitted_late?: boolean
+          session_image_ids?: number[] | null
         }
         Relationships: [
           {
@@ -99,6 +129,7 @@ export interface Database {
           original_filename: string | null
           exam_id: number
           uploader_profile_id?: string | null
+          is_practice: boolean
         }
         Insert: {
           id?: number
@@ -106,6 +137,7 @@ export interface Database {
           original_filename?: string | null
           exam_id: number
           uploader_profile_id?: string | null
+          is_practice?: boolean
         }
         Update: {
           id?: number
@@ -113,6 +145,7 @@ export interface Database {
           original_filename?: string | null
           exam_id?: number
           uploader_profile_id?: string | null
+          is_practice?: boolean
         }
         Relationships: [
           {
@@ -128,16 +161,43 @@ export interface Database {
           id: number
           exam_code: string
           name: string
+          description: string
+          icon_key: string
+          columns: Json
+          duration_seconds: number
+          passing_score: number
+          sort_order: number
+          scoring_strategy: "prefix" | "levenshtein" | "exact"
+          images_per_attempt: number
+          special_char_sets: Json
         }
         Insert: {
           id?: number
           exam_code: string
           name: string
+          description?: string
+          icon_key?: string
+          columns?: Json
+          duration_seconds?: number
+          passing_score?: number
+          sort_order?: number
+          scoring_strategy?: "prefix" | "levenshtein" | "exact"
+          images_per_attempt?: number
+          special_char_sets?: Json
         }
         Update: {
           id?: number
           exam_code?: string
           name?: string
+          description?: string
+          icon_key?: string
+          columns?: Json
+          duration_seconds?: number
+          passing_score?: number
+          sort_order?: number
+          scoring_strategy?: "prefix" | "levenshtein" | "exact"
+          images_per_attempt?: number
+          special_char_sets?: Json
         }
         Relationships: []
       }
@@ -150,6 +210,7 @@ export interface Database {
           row_data: { [key: string]: string | number }
           is_submitted: boolean
           admin_profile_id?: string | null
+          updated_at: string
         }
         Insert: {
           id?: number
@@ -159,6 +220,7 @@ export interface Database {
           row_data: { [key: string]: string | number }
           is_submitted?: boolean
           admin_profile_id?: string | null
+          updated_at?: string
         }
         Update: {
           id?: number
@@ -168,6 +230,7 @@ export interface Database {
           row_data?: { [key: string]: string | number }
           is_submitted?: boolean
           admin_profile_id?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
@@ -215,6 +278,128 @@ export interface Database {
           }
         ]
       }
+      audit_log: {
+        Row: {
+          id: number
+          occurred_at: string
+          actor_user_id: string | null
+          actor_annotator_id: number | null
+          actor_label: string
+          action: string
+          entity: string
+          entity_id: string | null
+          target_label: string | null
+          before_values: Json | null
+          after_values: Json | null
+        }
+        Insert: {
+          id?: never
+          occurred_at?: string
+          actor_user_id?: string | null
+          actor_annotator_id?: number | null
+          actor_label: string
+          action: string
+          entity: string
+          entity_id?: string | null
+          target_label?: string | null
+          before_values?: Json | null
+          after_values?: Json | null
+        }
+        Update: {
+          [_ in never]: never
+        }
+        Relationships: []
+      }
+      admin_profiles: {
+        Row: {
+          id: string
+          role: string
+          created_at: string
+        }
+        Insert: {
+          id: string
+          role: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          role?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      exam_attempt_images: {
+        Row: {
+          completion_id: number
+          image_id: number
+          position: number
+        }
+        Insert: {
+          completion_id: number
+          image_id: number
+          position: number
+        }
+        Update: {
+          completion_id?: number
+          image_id?: number
+          position?: number
+        }
+        Relationships: []
+      }
+      admin_site_assignments: {
+        Row: {
+          admin_user_id: string
+          site_id: number
+          created_at: string
+        }
+        Insert: {
+          admin_user_id: string
+          site_id: number
+          created_at?: string
+        }
+        Update: {
+          admin_user_id?: string
+          site_id?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      sites: {
+        Row: {
+          id: number
+          user_id_prefix: string
+          display_name: string
+          location: string | null
+          coordinator_name: string | null
+          coordinator_email: string | null
+          id_min_digits: number
+          id_max_digits: number
+          is_active: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: never
+          user_id_prefix: string
+          display_name: string
+          location?: string | null
+          coordinator_name?: string | null
+          coordinator_email?: string | null
+          id_min_digits?: number
+          id_max_digits?: number
+          is_active?: boolean
+          created_at?: string
+        }
+        Update: {
+          display_name?: string
+          location?: string | null
+          coordinator_name?: string | null
+          coordinator_email?: string | null
+          id_min_digits?: number
+          id_max_digits?: number
+          is_active?: boolean
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -233,6 +418,184 @@ export interface Database {
             exam_id: number;
         }[]
       }
+      annotator_sign_in: {
+        Args: {
+          p_liftapp_user_id: string
+          p_secret: string
+          p_new_pin?: string | null
+        }
+        Returns: {
+            status: "ok" | "pin_required" | "invalid" | "locked";
+            session_token: string | null;
+            annotator_id: number;
+            liftapp_user_id: string;
+            expires_at: string | null;
+        }[]
+      }
+      get_annotator_session: {
+        Args: {}
+        Returns: {
+            annotator_id: number;
+            liftapp_user_id: string;
+        }[]
+      }
+      annotator_sign_out: {
+        Args: {}
+        Returns: undefined
+      }
+      issue_annotator_access_code: {
+        Args: {
+          p_liftapp_user_id: string
+        }
+        Returns: string
+      }
+      import_annotator_roster: {
+        Args: {
+          p_rows: Json
+          p_overwrite?: boolean
+        }
+        Returns: {
+          inserted: number
+          updated: number
+        }[]
+      }
+      start_exam_timer: {
+        Args: {
+          p_completion_id: number
+        }
+        Returns: {
+            started_at: string;
+            deadline_at: string;
+            server_now: string;
+            image_ids: number[];
+        }[]
+      }
+      get_exam_clock: {
+        Args: {
+          p_completion_id: number
+        }
+        Returns: {
+            deadline_at: string | null;
+            server_now: string;
+        }[]
+      }
+      get_attempt_review: {
+        Args: {
+          p_completion_id: number
+        }
+        Returns: {
+            id: number;
+            image_id: number;
+            client_row_id: string | null;
+            row_data: { [key: string]: string | number };
+        }[]
+      }
+      end_exam_session: {
+        Args: {
+          p_completion_id: number
+        }
+        Returns: undefined
+      }
+      get_active_exam_session: {
+        Args: {}
+        Returns: {
+            completion_id: number;
+            exam_id: number;
+            images: { id: number; storage_path: string; original_filename: string | null; exam_id: number }[] | null;
+            deadline_at: string;
+            server_now: string;
+            is_retake: boolean;
+            old_image_ids: number[] | null;
+            old_status: "submitted" | "timed_out" | null;
+            old_duration_seconds: number | null;
+            old_completed_at: string | null;
+            old_retake_count: number;
+            old_effective_keystrokes: number | null;
+            old_total_keystrokes: number | null;
+        }[]
+      }
+      save_annotation_draft: {
+        Args: {
+          p_image_id: number
+          p_rows: { client_row_id: string; row_data: { [key: string]: string | number } }[]
+        }
+        Returns: string
+      }
+      get_practice_answer_key: {
+        Args: {
+          p_image_id: number
+        }
+        Returns: {
+            id: number;
+            client_row_id: string | null;
+            row_data: { [key: string]: string | number };
+        }[]
+      }
+      finalize_exam_attempt: {
+        Args: {
+          p_completion_id: number
+          p_status: "submitted" | "timed_out"
+          p_duration_seconds: number
+        }
+        Returns: {
+            total_effective_keystrokes: number;
+            total_answer_key_keystrokes: number;
+            score_percentage: number;
+            passed: boolean;
+            unmatched_user_rows: number;
+            unmatched_key_rows: number;
+            field_scores: Record<string, { matched: number; total: number }>;
+            submitted_late: boolean;
+        }[]
+      }
+      set_exam_scoring_strategy: {
+        Args: {
+          p_exam_id: number
+          p_strategy: "prefix" | "levenshtein" | "exact"
+        }
+        Returns: number
+      }
+      compare_scoring_strategies: {
+        Args: {
+          p_exam_id: number
+        }
+        Returns: {
+            annotator_id: number;
+            liftapp_user_id: string;
+            prefix_score: number;
+            levenshtein_score: number;
+            exact_score: number;
+        }[]
+      }
+      save_exam_definition: {
+        Args: {
+          p_exam_id: number | null
+          p_exam_code: string
+          p_name: string
+          p_description: string
+          p_icon_key: string
+          p_columns: Json
+          p_duration_seconds: number
+          p_passing_score: number
+          p_column_renames?: Json
+          p_removed_column_ids?: string[]
+          p_migrate_row_data?: boolean
+          p_cohort_settings?: Json
+          p_images_per_attempt?: number
+          p_special_char_sets?: Json
+        }
+        Returns: number
+      }
+      get_field_accuracy: {
+        Args: {}
+        Returns: {
+            exam_code: string;
+            column_id: string;
+            matched_keystrokes: number;
+            total_keystrokes: number;
+            attempt_count: number;
+        }[]
+      }
       get_answer_key_summaries: {
         Args: {}
         Returns: {
@@ -252,6 +615,50 @@ export interface Database {
           submission_count: number
         }[]
       }
+      list_admin_users: {
+        Args: {}
+        Returns: {
+          user_id: string
+          email: string
+          role: string | null
+          last_sign_in_at: string | null
+          site_ids: number[]
+        }[]
+      }
+      set_admin_role: {
+        Args: {
+          p_user_id: string
+          p_role: string | null
+        }
+        Returns: undefined
+      }
+      set_admin_sites: {
+        Args: {
+          p_user_id: string
+          p_site_ids: number[]
+        }
+        Returns: undefined
+      }
+      site_for_user_id: {
+        Args: {
+          p_liftapp_user_id: string
+        }
+        Returns: number | null
+      }
+      get_site_rollups: {
+        Args: {}
+        Returns: {
+          site_id: number
+          user_id_prefix: string
+          display_name: string
+          is_active: boolean
+          annotator_count: number
+          completed_annotator_count: number
+          finished_attempt_count: number
+          passed_attempt_count: number
+          average_score: number | null
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1 +1,48 @@
+import { Exam, ExamClock, ExamSettings } from '../types';
+
 export const generateRowId = () => `row_${new Date().getTime()}_${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Resolves the duration and passing score that apply to an annotator. A cohort
+ * override whose prefix matches the user id replaces the exam's own values; the
+ * longest matching prefix wins. Mirrors `exam_settings_for_annotator` in SQL.
+ * @param exam The exam definition from the catalog.
+ * @param liftappUserId The annotator's LiftApp user id, e.g. "PHCBIT1234".
+ * @returns The settings to use for this annotator.
+ */
+export const getExamSettings = (exam: Exam, liftappUserId: string | null | undefined): ExamSettings => {
+  const override = (exam.cohortSettings ?? [])
+    .filter(setting => !!liftappUserId && liftappUserId.startsWith(setting.userIdPrefix))
+    .sort((a, b) => b.userIdPrefix.length - a.userIdPrefix.length)[0];
+  return {
+    durationSeconds: override?.durationSeconds ?? exam.durationSeconds,
+    passingScore: override?.passingScore ?? exam.passingScore,
+  };
+};
+
+/**
+ * Converts the deadline and current time reported by the database into the
+ * values the countdown runs on, so a wrong local clock does not change it.
+ * @param deadlineAt The attempt's deadline_at timestamp.
+ * @param serverNow The database's now() at the time of the request.
+ * @returns The deadline in epoch milliseconds and the server-minus-local offset.
+ */
+export const toExamClock = (deadlineAt: string, serverNow: string): ExamClock => ({
+  sessionEndTime: new Date(deadlineAt).getTime(),
+  serverClockOffsetMs: new Date(serverNow).getTime() - Date.now(),
+});
+
+/**
+ * Picks up to `count` items at random, without repeats.
+ * @param items The items to choose from.
+ * @param count How many to pick; fewer are returned when there are not enough.
+ * @returns The picked items in random order.
+ */
+export const pickRandomItems = <T>(items: T[], count: number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(0, Math.max(0, count));
+};
@@ -1,27 +1,36 @@
-import { AnnotationRowData } from '../types';
+import { AnnotationRowData, EditHistory, SavedDraft, SpecialCharBindings } from '../types';
 
 export const getLocalStorageKey = (annotatorDbId: number, examCode: string, imageDbId: number): string => {
   return `liftapp_draft_${annotatorDbId}_exam_${examCode}_image_${imageDbId}`;
 };
 
-export const saveAnnotationsToLocalStorage = (annotatorDbId: number, examCode: string, imageDbId: number, annotations: AnnotationRowData[]): void => {
+// Drafts are stored with the time they were saved, so the newer of the local and
+// server drafts can be restored. Drafts saved before that are plain row arrays.
+export const saveAnnotationsToLocalStorage = (annotatorDbId: number, examCode: string, imageDbId: number, annotations: AnnotationRowData[], savedAt: number = Date.now(), history?: EditHistory): void => {
   if (!annotatorDbId) return;
+  const key = getLocalStorageKey(annotatorDbId, examCode, imageDbId);
   try {
-    const key = getLocalStorageKey(annotatorDbId, examCode, imageDbId);
-    localStorage.setItem(key, JSON.stringify(annotations));
-  } catch (error) {
-    console.error("Error saving annotations to local storage:", error);
-    // Consider a more user-friendly notification if this is critical
-    // alert("Could not save draft to local storage. Your browser might be in private mode or storage is full.");
+    localStorage.setItem(key, JSON.stringify({ rows: annotations, savedAt, history } as SavedDraft));
+  } catch {
+    // A long undo history can exceed the storage quota; the rows matter more
+    try {
+      localStorage.setItem(key, JSON.stringify({ rows: annotations, savedAt } as SavedDraft));
+    } catch (error) {
+      console.error("Error saving annotations to local storage:", error);
+      // Consider a more user-friendly notification if this is critical
+      // alert("Could not save draft to local storage. Your browser might be in private mode or storage is full.");
+    }
   }
 };
 
-export const loadAnnotationsFromLocalStorage = (annotatorDbId: number, examCode: string, imageDbId: number): AnnotationRowData[] | null => {
+export const loadAnnotationsFromLocalStorage = (annotatorDbId: number, examCode: string, imageDbId: number): SavedDraft | null => {
   if (!annotatorDbId) return null;
   try {
     const key = getLocalStorageKey(annotatorDbId, examCode, imageDbId);
     const storedData = localStorage.getItem(key);
-    return storedData ? JSON.parse(storedData) : null;
+    if (!storedData) return null;
+    const parsed = JSON.parse(storedData);
+    return Array.isArray(parsed) ? { rows: parsed, savedAt: 0 } : parsed;
   } catch (error) {
     console.error("Error loading annotations from local storage:", error);
     return null;
@@ -77,3 +86,24 @@ export const clearExamCompletedInLocalStorage = (annotatorDbId: number, examCode
     console.error("Error clearing exam completion status from local storage:", error);
   }
 };
+
+// Special-character shortcuts belong to the annotator's browser, like a keyboard layout
+const SPECIAL_CHAR_BINDINGS_KEY = 'liftapp_special_char_bindings';
+
+export const loadSpecialCharBindings = (): SpecialCharBindings => {
+  try {
+    const storedData = localStorage.getItem(SPECIAL_CHAR_BINDINGS_KEY);
+    return storedData ? JSON.parse(storedData) : {};
+  } catch (error) {
+    console.error("Error loading special character shortcuts from local storage:", error);
+    return {};
+  }
+};
+
+export const saveSpecialCharBindings = (bindings: SpecialCharBindings): void => {
+  try {
+    localStorage.setItem(SPECIAL_CHAR_BINDINGS_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.error("Error saving special character shortcuts to local storage:", error);
+  }
+};
@@ -0,0 +1,182 @@
+import { AnnotatorInfo, RosterEntry, RosterPreviewRow } from '../types';
+
+export interface ParsedRosterRow {
+  lineNumber: number;
+  entry: RosterEntry;
+  startDateInvalid: boolean;
+}
+
+// Accepted header spellings for each roster field, compared in lower case
+const ROSTER_HEADERS: Record<keyof RosterEntry, string[]> = {
+  liftappUserId: ['id', 'user id', 'user_id', 'liftapp user id', 'liftapp_user_id'],
+  fullName: ['name', 'full name', 'full_name'],
+  site: ['site'],
+  cohort: ['cohort'],
+  startDate: ['start date', 'start_date', 'startdate'],
+};
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells containing commas,
+ * doubled quotes and line breaks, and both LF and CRLF line endings.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Accepts YYYY-MM-DD and M/D/YYYY; returns YYYY-MM-DD, '' for blank, or null if unreadable
+const normalizeStartDate = (value: string): string | null => {
+  if (value === '') return '';
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : us
+      ? [Number(us[3]), Number(us[1]), Number(us[2])]
+      : [NaN, NaN, NaN];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Reads a roster CSV. The first row must be a header naming at least the ID
+ * column; name, site, cohort and start date columns are optional.
+ * @param text The file contents.
+ * @returns The entries with their CSV line numbers, or an error message.
+ */
+export const parseRosterCsv = (text: string): { rows: ParsedRosterRow[]; error: string | null } => {
+  const [header, ...body] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return { rows: [], error: 'The file is empty.' };
+
+  const normalizedHeader = header.map(cell => cell.trim().toLowerCase());
+  const columnIndex = Object.fromEntries(
+    (Object.keys(ROSTER_HEADERS) as (keyof RosterEntry)[]).map(field => [
+      field,
+      normalizedHeader.findIndex(cell => ROSTER_HEADERS[field].includes(cell)),
+    ]),
+  ) as Record<keyof RosterEntry, number>;
+  if (columnIndex.liftappUserId === -1) {
+    return { rows: [], error: 'The first row must be a header with an "ID" column.' };
+  }
+
+  const read = (cells: string[], field: keyof RosterEntry) =>
+    columnIndex[field] === -1 ? '' : (cells[columnIndex[field]] ?? '').trim();
+
+  const rows = body
+    .map((cells, index) => ({ cells, lineNumber: index + 2 }))
+    .filter(({ cells }) => cells.some(cell => cell.trim() !== ''))
+    .map(({ cells, lineNumber }) => {
+      const startDate = normalizeStartDate(read(cells, 'startDate'));
+      return {
+        lineNumber,
+        startDateInvalid: startDate === null,
+        entry: {
+          liftappUserId: read(cells, 'liftappUserId').toUpperCase(),
+          fullName: read(cells, 'fullName'),
+          site: read(cells, 'site'),
+          cohort: read(cells, 'cohort'),
+          startDate: startDate ?? read(cells, 'startDate'),
+        },
+      };
+    });
+  return { rows, error: rows.length === 0 ? 'The file has no annotators below the header.' : null };
+};
+
+// Roster fields compared against the annotators table, with their labels for messages
+const COMPARED_FIELDS: { field: keyof RosterEntry; column: keyof AnnotatorInfo; label: string }[] = [
+  { field: 'fullName', column: 'full_name', label: 'name' },
+  { field: 'site', column: 'site', label: 'site' },
+  { field: 'cohort', column: 'cohort', label: 'cohort' },
+  { field: 'startDate', column: 'start_date', label: 'start date' },
+];
+
+/**
+ * Compares parsed roster rows with the annotators already in the database, so
+ * the admin can review what an import would change before running it.
+ * @param rows The output of `parseRosterCsv`.
+ * @param annotators The annotators currently loaded in the dashboard.
+ * @returns One preview row per CSV row, in file order.
+ */
+export const buildRosterPreview = (rows: ParsedRosterRow[], annotators: AnnotatorInfo[]): RosterPreviewRow[] => {
+  const annotatorsById = new Map(annotators.map(annotator => [annotator.liftapp_user_id, annotator]));
+  const annotatorsByUpperId = new Map(annotators.map(annotator => [annotator.liftapp_user_id.toUpperCase(), annotator]));
+  const idCounts = new Map<string, number>();
+  rows.forEach(({ entry }) => idCounts.set(entry.liftappUserId, (idCounts.get(entry.liftappUserId) ?? 0) + 1));
+
+  return rows.map(({ lineNumber, entry, startDateInvalid }) => {
+    const invalid: string[] = [];
+    if (!entry.liftappUserId) invalid.push('Missing ID.');
+    if (startDateInvalid) invalid.push(`Start date "${entry.startDate}" is not a date (use YYYY-MM-DD).`);
+    if (invalid.length > 0) return { lineNumber, entry, status: 'invalid', messages: invalid };
+
+    if ((idCounts.get(entry.liftappUserId) ?? 0) > 1) {
+      return { lineNumber, entry, status: 'duplicate', messages: [`${entry.liftappUserId} appears more than once in the file.`] };
+    }
+
+    const existing = annotatorsById.get(entry.liftappUserId);
+    if (!existing) {
+      // Importing an ID that differs only by case would register the same person twice.
+      const caseVariant = annotatorsByUpperId.get(entry.liftappUserId);
+      return caseVariant
+        ? {
+            lineNumber,
+            entry,
+            status: 'duplicate',
+            messages: [`Already registered as ${caseVariant.liftapp_user_id}.`],
+          }
+        : { lineNumber, entry, status: 'new', messages: [] };
+    }
+
+    const differences: string[] = [];
+    let fillsEmptyField = false;
+    COMPARED_FIELDS.forEach(({ field, column, label }) => {
+      const incoming = entry[field];
+      const stored = (existing[column] as string | null) ?? '';
+      if (incoming === '' || incoming === stored) return;
+      if (stored === '') {
+        fillsEmptyField = true;
+      } else {
+        differences.push(`${label}: "${stored}" → "${incoming}"`);
+      }
+    });
+
+    if (differences.length > 0) return { lineNumber, entry, status: 'conflict', messages: differences };
+    if (fillsEmptyField || !existing.rostered_at) return { lineNumber, entry, status: 'fill', messages: [] };
+    return { lineNumber, entry, status: 'unchanged', messages: [] };
+  });
+};
@@ -0,0 +1,117 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { fuzzystrmatch } from '@electric-sql/pglite/contrib/fuzzystrmatch';
+import { unaccent } from '@electric-sql/pglite/contrib/unaccent';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { NormalizationRule, ScoringStrategy } from '../types';
+import { cellMatchScore, normalizeCellValue } from './scoringUtils';
+
+// The browser copies of the scoring functions must agree with the ones in the
+// migrations, which score the attempt that counts. Prefix scoring is left out:
+// common_prefix_length lives only in the hosted database.
+const MIGRATIONS_DIR = join(__dirname, '../supabase/migrations');
+const SQL_FUNCTIONS = ['canonical_month', 'normalize_cell_value', 'cell_match_score'];
+
+const ALL_RULES: NormalizationRule[] = ['trim', 'collapse_whitespace', 'strip_diacritics', 'casefold', 'month_name'];
+const RULE_SETS: NormalizationRule[][] = [
+  [],
+  ['trim', 'collapse_whitespace'],
+  ['trim', 'collapse_whitespace', 'casefold'],
+  ['trim', 'collapse_whitespace', 'casefold', 'month_name'],
+  ['strip_diacritics'],
+  ALL_RULES,
+];
+const VALUES = [
+  '',
+  '  Juan   de  la Cruz ',
+  'José María',
+  'PÉREZ\tÁlvarez',
+  'Ñuñez',
+  'ENERO.',
+  'setiembre',
+  'Ianuarius',
+  '07',
+  'dic.',
+  '13',
+  'Pascua',
+  '\u{10144}x',
+  'Straße',
+  'Ærø Æsa',
+  'Œuvre',
+  'Søren Łukasz',
+  '\u00a0Juan\u00a0 de\u2003la Cruz ',
+  'İSTANBUL ΟΔΟΣ',
+];
+const PAIRS: [string, string][] = [
+  ['Gonzales', 'Gonzalez'],
+  ['Xonzalez', 'Gonzalez'],
+  ['Gonzalez', 'Gonzalez'],
+  ['a much longer value', 'ab'],
+  ['', 'Maria'],
+  ['Maria', ''],
+  ['Muñoz', 'Munoz'],
+  ['\u{10144}ab', '\u{10144}ac'],
+  ['\u{10144}ab', '\u{10144}ab'],
+  ['Strasse', 'Straße'],
+  ['Søren', 'Soren'],
+  ['\u00a0Maria', 'Maria'],
+];
+
+// The last definition of each function across the migrations, in order.
+const loadSqlFunctions = (): string[] => {
+  const definitions = new Map<string, string>();
+  readdirSync(MIGRATIONS_DIR)
+    .filter(file => file.endsWith('.sql'))
+    .sort()
+    .forEach(file => {
+      const sql = readFileSync(join(MIGRATIONS_DIR, file), 'utf8');
+      for (const match of sql.matchAll(/create or replace function public\.(\w+)\([\s\S]*?\$\$[\s\S]*?\$\$;/g)) {
+        if (SQL_FUNCTIONS.includes(match[1])) definitions.set(match[1], match[0]);
+      }
+    });
+  return SQL_FUNCTIONS.map(name => {
+    const definition = definitions.get(name);
+    if (!definition) throw new Error(`No migration defines ${name}.`);
+    return definition;
+  });
+};
+
+describe('client and database scoring agree', () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite({ extensions: { fuzzystrmatch, unaccent } });
+    await db.exec(`
+      create extension fuzzystrmatch;
+      create extension unaccent;
+      -- Stands in for the hosted function so cell_match_score can be planned
+      create function common_prefix_length(text, text) returns integer language plpgsql
+        as $$ begin raise exception 'common_prefix_length is not available in this test'; end; $$;
+    `);
+    for (const definition of loadSqlFunctions()) await db.exec(definition);
+  }, 30000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('normalizes cell values the same way', async () => {
+    for (const rules of RULE_SETS) {
+      for (const value of VALUES) {
+        const { rows } = await db.query<{ result: string }>('select normalize_cell_value($1, $2) as result', [value, rules]);
+        expect(normalizeCellValue(value, rules), `${JSON.stringify(value)} with [${rules.join(', ')}]`).toBe(rows[0].result);
+      }
+    }
+  });
+
+  it('credits the same characters', async () => {
+    const strategies: ScoringStrategy[] = ['levenshtein', 'exact'];
+    for (const strategy of strategies) {
+      for (const [user, answer] of PAIRS) {
+        const { rows } = await db.query<{ result: number }>('select cell_match_score($1, $2, $3) as result', [user, answer, strategy]);
+        expect(cellMatchScore(user, answer, strategy), `${user} / ${answer} (${strategy})`).toBe(rows[0].result);
+      }
+    }
+  });
+});
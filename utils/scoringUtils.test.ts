@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { AnnotationColumn, AnnotationRowData } from '../types';
+import {
+  alignRows,
+  canonicalMonth,
+  cellMatchScore,
+  charLength,
+  commonPrefixLength,
+  levenshteinDistance,
+  normalizeCellValue,
+  scoreCell,
+} from './scoringUtils';
+
+const row = (id: string, cells: Record<string, string>): AnnotationRowData => ({ id, cells: { image_ref: 'img.jpg', ...cells } });
+
+const COLUMNS: AnnotationColumn[] = [
+  { id: 'image_ref', label: 'Image', type: 'text' },
+  { id: 'given', label: 'Given', type: 'text' },
+  { id: 'surname', label: 'Surname', type: 'text', normalization: ['trim', 'collapse_whitespace', 'casefold'] },
+  { id: 'event_m', label: 'Event_M', type: 'month', normalization: ['trim', 'casefold', 'month_name'] },
+];
+
+// An ancient Greek numeral, outside the Basic Multilingual Plane
+const ASTRAL = '\u{10144}';
+
+describe('normalizeCellValue', () => {
+  it('trims and collapses whitespace by default', () => {
+    expect(normalizeCellValue('  Juan   de  la Cruz ')).toBe('Juan de la Cruz');
+  });
+
+  it('leaves case and accents alone unless asked', () => {
+    expect(normalizeCellValue('José')).toBe('José');
+    expect(normalizeCellValue('José', ['casefold'])).toBe('josé');
+    expect(normalizeCellValue('José', ['strip_diacritics'])).toBe('Jose');
+  });
+
+  it('applies rules in a fixed order regardless of how they are listed', () => {
+    expect(normalizeCellValue('  ENERO. ', ['month_name', 'casefold', 'trim'])).toBe('Jan');
+  });
+
+  it('keeps values that are not months', () => {
+    expect(normalizeCellValue('Pascua', ['month_name'])).toBe('Pascua');
+  });
+
+  it('treats a missing value as empty', () => {
+    expect(normalizeCellValue(undefined as unknown as string)).toBe('');
+  });
+});
+
+describe('canonicalMonth', () => {
+  it('recognizes English, Spanish, Latin and numeric spellings', () => {
+    expect(canonicalMonth('September')).toBe('Sep');
+    expect(canonicalMonth('setiembre')).toBe('Sep');
+    expect(canonicalMonth('Ianuarius')).toBe('Jan');
+    expect(canonicalMonth('07')).toBe('Jul');
+    expect(canonicalMonth('dic.')).toBe('Dec');
+    expect(canonicalMonth('13')).toBeNull();
+  });
+});
+
+describe('character counting', () => {
+  it('counts characters outside the Basic Multilingual Plane once, like char_length', () => {
+    expect(charLength(`a${ASTRAL}b`)).toBe(3);
+    expect(commonPrefixLength(`${ASTRAL}ab`, `${ASTRAL}ac`)).toBe(2);
+    expect(levenshteinDistance(`${ASTRAL}a`, 'ba')).toBe(1);
+    expect(cellMatchScore(`x${ASTRAL}`, `x${ASTRAL}`, 'exact')).toBe(2);
+    expect(scoreCell(`${ASTRAL}${ASTRAL}`, `${ASTRAL}${ASTRAL}`).possible).toBe(2);
+  });
+});
+
+describe('cellMatchScore', () => {
+  it('credits the common prefix by default', () => {
+    expect(cellMatchScore('Gonzales', 'Gonzalez')).toBe(7);
+  });
+
+  it('credits the answer length minus the edit distance with levenshtein', () => {
+    expect(cellMatchScore('Gonzales', 'Gonzalez', 'levenshtein')).toBe(7);
+    expect(cellMatchScore('Xonzalez', 'Gonzalez', 'levenshtein')).toBe(7);
+    expect(cellMatchScore('Xonzalez', 'Gonzalez', 'prefix')).toBe(0);
+  });
+
+  it('credits all or nothing with exact', () => {
+    expect(cellMatchScore('Gonzalez', 'Gonzalez', 'exact')).toBe(8);
+    expect(cellMatchScore('Gonzales', 'Gonzalez', 'exact')).toBe(0);
+  });
+
+  it('never goes below zero', () => {
+    expect(cellMatchScore('a much longer value', 'ab', 'levenshtein')).toBe(0);
+  });
+});
+
+describe('scoreCell', () => {
+  it('normalizes both values with the column rules before scoring', () => {
+    expect(scoreCell(' PÉREZ ', 'pérez', 'exact', COLUMNS[2])).toEqual({ credited: 5, possible: 5, isMatch: true });
+    expect(scoreCell('enero', 'Jan', 'exact', COLUMNS[3])).toEqual({ credited: 3, possible: 3, isMatch: true });
+  });
+});
+
+describe('alignRows', () => {
+  const key = [
+    row('k1', { given: 'Maria', surname: 'Lopez' }),
+    row('k2', { given: 'Pedro', surname: 'Garcia' }),
+    row('k3', { given: 'Ana', surname: 'Ruiz' }),
+  ];
+
+  it('pairs rows in order when they line up', () => {
+    const alignment = alignRows(key.map((keyRow, idx) => ({ ...keyRow, id: `u${idx}` })), key, 'prefix', COLUMNS);
+    expect(alignment.pairs.map(pair => [pair.userRowIndex, pair.keyRowIndex])).toEqual([[0, 0], [1, 1], [2, 2]]);
+    expect(alignment.unmatchedUserRowIndexes).toEqual([]);
+    expect(alignment.unmatchedKeyRowIndexes).toEqual([]);
+  });
+
+  it('finds reordered rows', () => {
+    const user = [key[2], key[0], key[1]];
+    const alignment = alignRows(user, key, 'prefix', COLUMNS);
+    expect(alignment.pairs.map(pair => [pair.userRowIndex, pair.keyRowIndex])).toEqual([[1, 0], [2, 1], [0, 2]]);
+  });
+
+  it('leaves an inserted row and a missing row unmatched without shifting the rest', () => {
+    const user = [key[0], row('extra', { given: 'Zzz', surname: 'Qqq' }), key[2]];
+    const alignment = alignRows(user, key, 'prefix', COLUMNS);
+    expect(alignment.pairs.map(pair => [pair.userRowIndex, pair.keyRowIndex])).toEqual([[0, 0], [2, 2]]);
+    expect(alignment.unmatchedUserRowIndexes).toEqual([1]);
+    expect(alignment.unmatchedKeyRowIndexes).toEqual([1]);
+  });
+
+  it('breaks ties by position', () => {
+    const twins = [row('k1', { given: 'Jose' }), row('k2', { given: 'Jose' })];
+    const alignment = alignRows([row('u1', { given: 'Jose' })], twins, 'prefix', COLUMNS);
+    expect(alignment.pairs).toEqual([{ userRowIndex: 0, keyRowIndex: 0, matchedKeystrokes: 4 }]);
+  });
+
+  it('ignores unscored columns and applies column normalization', () => {
+    const user = [row('u1', { image_ref: 'other.jpg', surname: ' GARCIA ' })];
+    const alignment = alignRows(user, key, 'exact', COLUMNS);
+    expect(alignment.pairs).toEqual([{ userRowIndex: 0, keyRowIndex: 1, matchedKeystrokes: 6 }]);
+  });
+
+  it('does not pair rows that share nothing', () => {
+    const alignment = alignRows([row('u1', { given: 'Xavier' })], key, 'prefix', COLUMNS);
+    expect(alignment.pairs).toEqual([]);
+    expect(alignment.unmatchedUserRowIndexes).toEqual([0]);
+    expect(alignment.unmatchedKeyRowIndexes).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,361 @@
+import { DEFAULT_NORMALIZATION_RULES, DEFAULT_SCORING_STRATEGY } from '../constants';
+import {
+  AnnotationColumn,
+  AnnotationRowData,
+  CellFeedback,
+  FieldScore,
+  NormalizationRule,
+  RowAlignment,
+  RowAlignmentPair,
+  ScoringStrategy,
+} from '../types';
+
+// Columns that identify the image rather than carry record content; never scored.
+const UNSCORED_COLUMN_IDS = ['image_ref'];
+
+// Month spellings found in the records (English, Spanish, Latin, numeric),
+// keyed by their canonical abbreviation. Mirrors `canonical_month` in SQL.
+const MONTH_ALIASES: Record<string, string[]> = {
+  Jan: ['jan', 'january', 'ene', 'enero', 'ian', 'januarius', 'ianuarius', '1', '01'],
+  Feb: ['feb', 'february', 'febrero', 'februarius', '2', '02'],
+  Mar: ['mar', 'march', 'marzo', 'martius', '3', '03'],
+  Apr: ['apr', 'april', 'abr', 'abril', 'aprilis', '4', '04'],
+  May: ['may', 'mayo', 'maius', '5', '05'],
+  Jun: ['jun', 'june', 'junio', 'iun', 'junius', 'iunius', '6', '06'],
+  Jul: ['jul', 'july', 'julio', 'iul', 'julius', 'iulius', '7', '07'],
+  Aug: ['aug', 'august', 'ago', 'agosto', 'augustus', '8', '08'],
+  Sep: ['sep', 'sept', 'september', 'set', 'septiembre', 'setiembre', '9', '09'],
+  Oct: ['oct', 'october', 'octubre', '10'],
+  Nov: ['nov', 'november', 'noviembre', '11'],
+  Dec: ['dec', 'december', 'dic', 'diciembre', '12'],
+};
+
+const MONTH_LOOKUP = new Map(
+  Object.entries(MONTH_ALIASES).flatMap(([canonical, aliases]) => aliases.map(alias => [alias, canonical]))
+);
+
+// Whitespace as the database sees it: `btrim(v, E' \t\r\n')` trims only these
+// four, and its regular expressions' \s leaves out the no-break spaces.
+const TRIMMED_WHITESPACE = /^[ \t\r\n]+|[ \t\r\n]+$/g;
+const SQL_WHITESPACE = /[\t\n\v\f\r \u0085\u2000-\u2006\u2008-\u200a\u2028\u2029\u205f\u3000]+/g;
+
+// Letters of Latin-1 and Latin Extended-A that `unaccent` folds but Unicode
+// does not decompose into a letter and accents. Its folding of symbols and
+// punctuation (©, ½, typographic quotes) is not mirrored.
+const UNACCENT_LETTERS: Record<string, string> = {
+  'ª': 'a', 'º': 'o', 'Æ': 'AE', 'Ð': 'D', 'Ø': 'O', 'Þ': 'TH', 'ß': 'ss', 'æ': 'ae', 'ð': 'd', 'ø': 'o', 'þ': 'th',
+  'Đ': 'D', 'đ': 'd', 'Ħ': 'H', 'ħ': 'h', 'ı': 'i', 'Ĳ': 'IJ', 'ĳ': 'ij', 'ĸ': 'q', 'Ŀ': 'L', 'ŀ': 'l', 'Ł': 'L',
+  'ł': 'l', 'ŉ': "'n", 'Ŋ': 'N', 'ŋ': 'n', 'Œ': 'OE', 'œ': 'oe', 'Ŧ': 'T', 'ŧ': 't', 'ſ': 's', 'ẞ': 'SS',
+};
+
+// Mirrors SQL `unaccent` on Latin text, one character at a time: a plain
+// letter with accents keeps the letter, and a lone accent is dropped.
+const stripDiacritics = (value: string): string =>
+  Array.from(value, char => {
+    if (char in UNACCENT_LETTERS) return UNACCENT_LETTERS[char];
+    const decomposed = char.normalize('NFD');
+    if (/^[A-Za-z][\u0300-\u036f]+$/.test(decomposed)) return decomposed[0];
+    return /^[\u0300-\u0362]$/.test(char) ? '' : char;
+  }).join('');
+
+/**
+ * Looks up the canonical abbreviation ("Jan".."Dec") of a month spelling.
+ * @param value A month name, abbreviation or number; a trailing period is ignored.
+ * @returns The canonical month, or null if the value is not a known month.
+ */
+export const canonicalMonth = (value: string): string | null =>
+  MONTH_LOOKUP.get(value.toLowerCase().replace(/\.$/, '')) ?? null;
+
+/**
+ * Applies a column's normalization rules to a cell value. Rules always run in the
+ * same order (trim, collapse whitespace, strip diacritics, case-fold, month name)
+ * regardless of how they are listed. Mirrors `normalize_cell_value` in SQL.
+ * @param value The raw cell value.
+ * @param rules The column's normalization rules.
+ * @returns The value used for comparison.
+ */
+export const normalizeCellValue = (
+  value: string,
+  rules: NormalizationRule[] = DEFAULT_NORMALIZATION_RULES
+): string => {
+  let result = value ?? '';
+  if (rules.includes('trim')) {
+    result = result.replace(TRIMMED_WHITESPACE, '');
+  }
+  if (rules.includes('collapse_whitespace')) {
+    result = result.replace(SQL_WHITESPACE, ' ');
+  }
+  if (rules.includes('strip_diacritics')) {
+    result = stripDiacritics(result);
+  }
+  if (rules.includes('casefold')) {
+    // SQL `lower` maps each character alone: no final sigma, and İ becomes i
+    result = Array.from(result, char => (char === '\u0130' ? 'i' : char.toLowerCase())).join('');
+  }
+  if (rules.includes('month_name')) {
+    result = canonicalMonth(result) ?? result;
+  }
+  return result;
+};
+
+/**
+ * Counts the characters of a string the way SQL `char_length` does: by code
+ * point, so a character outside the Basic Multilingual Plane counts once
+ * rather than as two UTF-16 units.
+ */
+export const charLength = (value: string = ''): number => [...value].length;
+
+/**
+ * Calculates the length of the common prefix between two strings.
+ * Mirrors the Supabase `common_prefix_length` SQL function used for scoring.
+ * @param s1 The first string.
+ * @param s2 The second string.
+ * @returns The number of matching characters from the start of the strings.
+ */
+export const commonPrefixLength = (s1: string = '', s2: string = ''): number => {
+  if (!s1 || !s2) {
+    return 0;
+  }
+  const chars1 = [...s1];
+  const chars2 = [...s2];
+  const minLen = Math.min(chars1.length, chars2.length);
+  let len = 0;
+  for (let i = 0; i < minLen; i++) {
+    if (chars1[i] === chars2[i]) {
+      len++;
+    } else {
+      break; // Mismatch found, stop counting.
+    }
+  }
+  return len;
+};
+
+/**
+ * Calculates the Levenshtein edit distance between two strings.
+ * Mirrors the `levenshtein` function from the Postgres fuzzystrmatch extension.
+ * @param s1 The first string.
+ * @param s2 The second string.
+ * @returns The minimum number of single-character insertions, deletions or substitutions.
+ */
+export const levenshteinDistance = (s1: string = '', s2: string = ''): number => {
+  const chars1 = [...s1];
+  const chars2 = [...s2];
+  let previous = Array.from({ length: chars2.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= chars1.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= chars2.length; j++) {
+      const substitution = previous[j - 1] + (chars1[i - 1] === chars2[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[chars2.length];
+};
+
+/**
+ * Counts the answer-key characters credited to a user cell under a scoring strategy.
+ * Mirrors the Supabase `cell_match_score` SQL function.
+ * @param userValue The value the user entered.
+ * @param answerValue The answer-key value.
+ * @param strategy The exam's scoring strategy.
+ * @returns A credit between 0 and the length of the answer value.
+ */
+export const cellMatchScore = (
+  userValue: string,
+  answerValue: string,
+  strategy: ScoringStrategy = DEFAULT_SCORING_STRATEGY
+): number => {
+  if (!userValue || !answerValue) {
+    return 0;
+  }
+  switch (strategy) {
+    case 'exact':
+      return userValue === answerValue ? charLength(answerValue) : 0;
+    case 'levenshtein':
+      return Math.max(charLength(answerValue) - levenshteinDistance(userValue, answerValue), 0);
+    default:
+      return commonPrefixLength(userValue, answerValue);
+  }
+};
+
+/**
+ * Scores a single cell after normalizing both values with the column's rules.
+ * @param userValue The value the user entered.
+ * @param answerValue The answer-key value.
+ * @param strategy The exam's scoring strategy.
+ * @param column The column definition; its normalization rules are applied when present.
+ * @returns The credited characters, the characters available, and whether the values match.
+ */
+export const scoreCell = (
+  userValue: string,
+  answerValue: string,
+  strategy: ScoringStrategy = DEFAULT_SCORING_STRATEGY,
+  column?: AnnotationColumn
+): { credited: number; possible: number; isMatch: boolean } => {
+  const normalizedUser = normalizeCellValue(userValue, column?.normalization);
+  const normalizedAnswer = normalizeCellValue(answerValue, column?.normalization);
+  return {
+    credited: cellMatchScore(normalizedUser, normalizedAnswer, strategy),
+    possible: charLength(normalizedAnswer),
+    isMatch: normalizedUser === normalizedAnswer,
+  };
+};
+
+/**
+ * Returns true if the column counts towards the score. Columns marked `unscored`
+ * in the exam definition are skipped, like image_ref.
+ */
+export const isScoredColumn = (columnId: string, columns: AnnotationColumn[] = []): boolean =>
+  !UNSCORED_COLUMN_IDS.includes(columnId) && !columns.find(col => col.id === columnId)?.unscored;
+
+/**
+ * Returns true if the row has a value in any scorable column.
+ */
+export const rowHasScorableData = (row: AnnotationRowData, columns: AnnotationColumn[] = []): boolean =>
+  Object.entries(row.cells).some(
+    ([key, value]) => isScoredColumn(key, columns) && (value?.toString() || '').trim() !== ''
+  );
+
+/**
+ * Counts the answer-key characters a user row reproduces for one answer-key row.
+ * Only non-empty, scorable answer-key cells count.
+ */
+export const scoreRowPair = (
+  userRow: AnnotationRowData,
+  keyRow: AnnotationRowData,
+  strategy: ScoringStrategy = DEFAULT_SCORING_STRATEGY,
+  columns: AnnotationColumn[] = []
+): number => {
+  let matched = 0;
+  for (const key in keyRow.cells) {
+    if (!isScoredColumn(key, columns)) continue;
+    const column = columns.find(col => col.id === key);
+    matched += scoreCell(
+      userRow.cells[key]?.toString() || '',
+      keyRow.cells[key]?.toString() || '',
+      strategy,
+      column
+    ).credited;
+  }
+  return matched;
+};
+
+/**
+ * Matches user rows to answer-key rows by best similarity, so inserted, missing or
+ * reordered rows only affect themselves. Mirrors `score_exam_attempt` on the server:
+ * the highest-scoring pair is taken first, ties go to the pair closest in position,
+ * and pairs that share no characters are never matched.
+ * @param userRows The user's annotation rows, in entry order.
+ * @param answerKeyRows The answer key rows, in creation order.
+ * @param strategy The exam's scoring strategy.
+ * @param columns The exam's columns, used for per-column normalization.
+ * @returns The matched pairs plus the indexes left unmatched on both sides.
+ */
+export const alignRows = (
+  userRows: AnnotationRowData[],
+  answerKeyRows: AnnotationRowData[],
+  strategy: ScoringStrategy = DEFAULT_SCORING_STRATEGY,
+  columns: AnnotationColumn[] = []
+): RowAlignment => {
+  const candidates: RowAlignmentPair[] = [];
+  answerKeyRows.forEach((keyRow, keyRowIndex) => {
+    userRows.forEach((userRow, userRowIndex) => {
+      const matchedKeystrokes = scoreRowPair(userRow, keyRow, strategy, columns);
+      if (matchedKeystrokes > 0) {
+        candidates.push({ userRowIndex, keyRowIndex, matchedKeystrokes });
+      }
+    });
+  });
+
+  candidates.sort(
+    (a, b) =>
+      b.matchedKeystrokes - a.matchedKeystrokes ||
+      Math.abs(a.keyRowIndex - a.userRowIndex) - Math.abs(b.keyRowIndex - b.userRowIndex) ||
+      a.keyRowIndex - b.keyRowIndex ||
+      a.userRowIndex - b.userRowIndex
+  );
+
+  const matchedUsers = new Set<number>();
+  const matchedKeys = new Set<number>();
+  const pairs: RowAlignmentPair[] = [];
+  for (const candidate of candidates) {
+    if (matchedUsers.has(candidate.userRowIndex) || matchedKeys.has(candidate.keyRowIndex)) continue;
+    matchedUsers.add(candidate.userRowIndex);
+    matchedKeys.add(candidate.keyRowIndex);
+    pairs.push(candidate);
+  }
+
+  return {
+    pairs: pairs.sort((a, b) => a.keyRowIndex - b.keyRowIndex),
+    unmatchedUserRowIndexes: userRows.map((_, idx) => idx).filter(idx => !matchedUsers.has(idx)),
+    unmatchedKeyRowIndexes: answerKeyRows.map((_, idx) => idx).filter(idx => !matchedKeys.has(idx)),
+  };
+};
+
+/**
+ * Compares completed cells with the answer key the way the review modal does:
+ * rows are aligned first, then each scorable cell is scored against its
+ * aligned answer-key row. Cells of rows that match no answer-key row are misses.
+ * @param userRows The user's annotation rows, in entry order.
+ * @param answerKeyRows The answer key rows of the same image.
+ * @param completedCellKeys The cells to judge, as `${rowId}:${columnId}`.
+ * @param strategy The exam's scoring strategy.
+ * @param columns The exam's columns.
+ * @returns Feedback for each completed, non-empty, scorable cell, keyed like completedCellKeys.
+ */
+export const getCellFeedback = (
+  userRows: AnnotationRowData[],
+  answerKeyRows: AnnotationRowData[],
+  completedCellKeys: Set<string>,
+  strategy: ScoringStrategy = DEFAULT_SCORING_STRATEGY,
+  columns: AnnotationColumn[] = []
+): Record<string, CellFeedback> => {
+  const scorableRows = userRows.filter(row => rowHasScorableData(row, columns));
+  const alignment = alignRows(scorableRows, answerKeyRows, strategy, columns);
+  const keyRowByUserRowId = new Map<string, AnnotationRowData>();
+  alignment.pairs.forEach(pair =>
+    keyRowByUserRowId.set(scorableRows[pair.userRowIndex].id, answerKeyRows[pair.keyRowIndex])
+  );
+
+  const feedback: Record<string, CellFeedback> = {};
+  for (const row of scorableRows) {
+    const keyRow = keyRowByUserRowId.get(row.id);
+    for (const column of columns) {
+      const cellKey = `${row.id}:${column.id}`;
+      const userValue = row.cells[column.id]?.toString() || '';
+      if (!completedCellKeys.has(cellKey) || !isScoredColumn(column.id, columns) || userValue.trim() === '') {
+        continue;
+      }
+      if (!keyRow) {
+        feedback[cellKey] = 'miss';
+        continue;
+      }
+      const { credited, isMatch } = scoreCell(userValue, keyRow.cells[column.id]?.toString() || '', strategy, column);
+      feedback[cellKey] = isMatch ? 'match' : credited > 0 ? 'partial' : 'miss';
+    }
+  }
+  return feedback;
+};
+
+/**
+ * Picks the columns with the lowest accuracy from a per-field breakdown.
+ * Columns the user got fully right are left out.
+ * @param fieldScores The breakdown returned by the server, keyed by column id.
+ * @param columns The exam's columns, used for labels and display order.
+ * @param limit The maximum number of fields to return.
+ * @returns The weakest fields, lowest accuracy first.
+ */
+export const getWeakestFields = (
+  fieldScores: Record<string, FieldScore>,
+  columns: AnnotationColumn[],
+  limit: number = 3
+): { column: AnnotationColumn; accuracy: number; score: FieldScore }[] =>
+  columns
+    .filter(col => fieldScores[col.id]?.total > 0)
+    .map(col => {
+      const score = fieldScores[col.id];
+      return { column: col, accuracy: (score.matched / score.total) * 100, score };
+    })
+    .filter(field => field.accuracy < 100)
+    .sort((a, b) => a.accuracy - b.accuracy)
+    .slice(0, limit);
@@ -0,0 +1,64 @@
+import { Site } from '../types';
+
+// Converts a public.sites row into the shape the app works with. Anonymous
+// visitors cannot read the coordinator columns, so they may be missing.
+export const mapSiteRow = (row: any): Site => ({
+  id: row.id,
+  userIdPrefix: row.user_id_prefix,
+  displayName: row.display_name,
+  location: row.location ?? null,
+  coordinatorName: row.coordinator_name ?? null,
+  coordinatorEmail: row.coordinator_email ?? null,
+  idMinDigits: row.id_min_digits,
+  idMaxDigits: row.id_max_digits,
+  isActive: row.is_active,
+});
+
+/**
+ * Finds the site a LiftApp user id belongs to. The longest matching prefix
+ * wins, so "PHCBIT0012" belongs to PHCBIT rather than PHCB. Mirrors
+ * `site_for_user_id` in SQL.
+ * @param sites All sites, active or not.
+ * @param liftappUserId The annotator's LiftApp user id.
+ * @returns The matching site, or undefined if no prefix matches.
+ */
+export const getSiteForUserId = (sites: Site[], liftappUserId: string | null | undefined): Site | undefined =>
+  sites
+    .filter(site => !!liftappUserId && liftappUserId.startsWith(site.userIdPrefix))
+    .sort((a, b) => b.userIdPrefix.length - a.userIdPrefix.length)[0];
+
+/**
+ * Checks a site form before it is saved.
+ * @param draft The values entered in the Sites tab.
+ * @param sites The existing sites, to catch duplicate prefixes.
+ * @param editingSiteId The site being edited, or null when adding one.
+ * @returns An error message, or null if the site can be saved.
+ */
+export const validateSiteDraft = (
+  draft: Pick<Site, 'userIdPrefix' | 'displayName' | 'idMinDigits' | 'idMaxDigits' | 'coordinatorEmail'>,
+  sites: Site[],
+  editingSiteId: number | null
+): string | null => {
+  if (!/^[A-Z]+$/.test(draft.userIdPrefix)) {
+    return 'The ID prefix must contain only letters A-Z.';
+  }
+  if (sites.some(site => site.userIdPrefix === draft.userIdPrefix && site.id !== editingSiteId)) {
+    return `Another site already uses the prefix ${draft.userIdPrefix}.`;
+  }
+  if (!draft.displayName.trim()) {
+    return 'Enter a display name.';
+  }
+  if (
+    !Number.isInteger(draft.idMinDigits) ||
+    !Number.isInteger(draft.idMaxDigits) ||
+    draft.idMinDigits < 1 ||
+    draft.idMaxDigits > 10 ||
+    draft.idMinDigits > draft.idMaxDigits
+  ) {
+    return 'ID digits must be whole numbers from 1 to 10, with the minimum no larger than the maximum.';
+  }
+  if (draft.coordinatorEmail && !/^[^\s@]+@[^\s@]+$/.test(draft.coordinatorEmail)) {
+    return 'The coordinator email is not valid.';
+  }
+  return null;
+};
@@ -0,0 +1,79 @@
+import { SpecialCharacter, SpecialCharBindings, SpecialCharSet } from '../types';
+import { DEFAULT_SPECIAL_CHAR_SETS } from '../constants';
+
+/**
+ * Picks the special-character sets to offer in a row. Sets for the row's
+ * language come first, so their shortcuts win over the general ones. When the
+ * language is empty or has no set of its own, every set is offered.
+ * @param sets The exam's sets; an empty list falls back to the built-in ones.
+ * @param language The row's language cell.
+ * @returns The sets to offer, most specific first.
+ */
+export const getActiveSpecialCharSets = (sets: SpecialCharSet[], language: string | number | undefined): SpecialCharSet[] => {
+  const available = sets.length > 0 ? sets : DEFAULT_SPECIAL_CHAR_SETS;
+  const normalizedLanguage = String(language ?? '').trim().toLowerCase();
+  const languageSets = available.filter(set => !!normalizedLanguage && (set.languages ?? []).includes(normalizedLanguage));
+  const generalSets = available.filter(set => !set.languages || set.languages.length === 0);
+  if (languageSets.length === 0) {
+    return [...generalSets, ...available.filter(set => !generalSets.includes(set))];
+  }
+  return [...languageSets, ...generalSets];
+};
+
+/**
+ * The Ctrl+Alt key that inserts a character: the annotator's own choice if
+ * they made one, otherwise the set's default.
+ */
+export const getShortcutKey = (character: SpecialCharacter, bindings: SpecialCharBindings): string =>
+  (bindings[character.lower] ?? character.key ?? '').toLowerCase();
+
+/**
+ * Finds the character a Ctrl+Alt shortcut inserts. The first set listed wins
+ * when several use the same key.
+ * @param sets The sets offered in the row, from getActiveSpecialCharSets.
+ * @param key The pressed key, e.g. event.key.
+ * @param bindings The annotator's own shortcut keys.
+ * @returns The character, or undefined when the key inserts nothing.
+ */
+export const findSpecialCharForKey = (
+  sets: SpecialCharSet[],
+  key: string,
+  bindings: SpecialCharBindings
+): SpecialCharacter | undefined => {
+  const pressedKey = key.toLowerCase();
+  for (const set of sets) {
+    const character = set.characters.find(candidate => getShortcutKey(candidate, bindings) === pressedKey);
+    if (character) return character;
+  }
+  return undefined;
+};
+
+/**
+ * Parses the admin editor's shorthand for a set's characters: tokens separated
+ * by spaces, each a character with an optional ":key", e.g. "ã:1 õ:2 ꝑ".
+ * The capital form is derived where the character has a single-letter one.
+ * @param text The shorthand as typed.
+ * @returns The characters, skipping repeats.
+ */
+export const parseSpecialCharacters = (text: string): SpecialCharacter[] => {
+  const characters: SpecialCharacter[] = [];
+  text.split(/\s+/).filter(Boolean).forEach(token => {
+    const separatorIndex = token.lastIndexOf(':');
+    const hasKey = separatorIndex > 0 && separatorIndex === token.length - 2;
+    const lower = hasKey ? token.slice(0, separatorIndex) : token;
+    if (characters.some(character => character.lower === lower)) return;
+    const upper = lower.toUpperCase();
+    characters.push({
+      lower,
+      ...(upper !== lower && [...upper].length === [...lower].length ? { upper } : {}),
+      ...(hasKey ? { key: token.slice(-1).toLowerCase() } : {}),
+    });
+  });
+  return characters;
+};
+
+/**
+ * Writes characters back in the shorthand parseSpecialCharacters reads.
+ */
+export const formatSpecialCharacters = (characters: SpecialCharacter[]): string =>
+  characters.map(character => (character.key ? `${character.lower}:${character.key}` : character.lower)).join(' ');
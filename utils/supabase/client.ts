@@ -13,4 +13,22 @@ if (!supabaseUrl || !supabaseAnonKey) {
   );
 }
 
-export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
+// Signed-in annotators are identified by this header; the database resolves it
+// with current_annotator_id(). Admins use Supabase Auth instead.
+const ANNOTATOR_SESSION_HEADER = "x-annotator-session";
+let annotatorSessionToken: string | null = null;
+
+export const setAnnotatorSessionToken = (token: string | null) => {
+  annotatorSessionToken = token;
+};
+
+const fetchWithAnnotatorSession: typeof fetch = (input, init) => {
+  if (!annotatorSessionToken) return fetch(input, init);
+  const headers = new Headers(init?.headers);
+  headers.set(ANNOTATOR_SESSION_HEADER, annotatorSessionToken);
+  return fetch(input, { ...init, headers });
+};
+
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+  global: { fetch: fetchWithAnnotatorSession },
+});
@@ -0,0 +1,85 @@
+import { MIN_RECORD_YEAR } from '../constants';
+import { AnnotationColumn, AnnotationRowData, CellValidationIssue } from '../types';
+import { canonicalMonth } from './scoringUtils';
+
+// A number followed by an optional unit, repeated for values like "1 y 6 m"
+const AGE_UNITS = 'y|yr|yrs|year|years|a|años|m|mo|mos|month|months|mes|meses|w|wk|wks|week|weeks|d|day|days|dias|días';
+const AGE_PATTERN = new RegExp(`^(\\d{1,3}(\\.\\d+)?\\s*(${AGE_UNITS})?\\.?\\s*)+$`, 'i');
+
+/**
+ * Maps a column type to the HTML input type used to edit it. The typed record
+ * fields (day, month, year, age, choice) stay free text and are checked by
+ * `validateCellValue` instead, so annotators can still type what they see.
+ */
+export const getInputType = (type: AnnotationColumn['type']): string =>
+  type === 'number' || type === 'date' ? type : 'text';
+
+/**
+ * Checks a cell value against its column's type.
+ * @param value The raw cell value; empty values are always valid here.
+ * @param column The column definition.
+ * @returns A message describing the problem, or null if the value is fine.
+ */
+export const validateCellValue = (value: string | number | undefined, column: AnnotationColumn): string | null => {
+  const text = (value ?? '').toString().trim();
+  if (text === '') return null;
+
+  switch (column.type) {
+    case 'day': {
+      const day = Number(text);
+      return /^\d{1,2}$/.test(text) && day >= 1 && day <= 31 ? null : 'Day must be a number from 1 to 31.';
+    }
+    case 'month':
+      return canonicalMonth(text) ? null : 'Month must be a number from 1 to 12 or a month name.';
+    case 'year': {
+      const min = column.min ?? MIN_RECORD_YEAR;
+      const max = column.max ?? new Date().getFullYear();
+      const year = Number(text);
+      return /^\d{4}$/.test(text) && year >= min && year <= max ? null : `Year must be between ${min} and ${max}.`;
+    }
+    case 'age':
+      return AGE_PATTERN.test(text) ? null : 'Age must be a number, optionally with a unit (e.g. 34, 6 m, 2 weeks).';
+    case 'choice': {
+      const options = column.options ?? [];
+      if (options.length === 0) return null;
+      return options.some(option => option.toLowerCase() === text.toLowerCase())
+        ? null
+        : `Must be one of ${options.join(', ')}.`;
+    }
+    case 'number': {
+      const number = Number(text);
+      if (!Number.isFinite(number)) return 'Must be a number.';
+      if (column.min != null && number < column.min) return `Must be at least ${column.min}.`;
+      if (column.max != null && number > column.max) return `Must be at most ${column.max}.`;
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Collects every invalid cell, plus empty required cells, in rows the user has
+ * started filling. Untouched rows are ignored so a blank trailing row is not flagged.
+ * @param rows The annotation rows, in entry order.
+ * @param columns The exam's columns.
+ * @returns The issues in row, then column order.
+ */
+export const validateRows = (rows: AnnotationRowData[], columns: AnnotationColumn[]): CellValidationIssue[] => {
+  const issues: CellValidationIssue[] = [];
+  rows.forEach((row, rowIndex) => {
+    const hasEntries = columns.some(
+      col => col.id !== 'image_ref' && (row.cells[col.id] ?? '').toString().trim() !== ''
+    );
+    if (!hasEntries) return;
+    columns.forEach(col => {
+      const value = row.cells[col.id];
+      const message =
+        col.required && (value ?? '').toString().trim() === ''
+          ? 'This field is required.'
+          : validateCellValue(value, col);
+      if (message) issues.push({ rowIndex, columnId: col.id, message });
+    });
+  });
+  return issues;
+};